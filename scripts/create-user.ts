@@ -0,0 +1,46 @@
+#!/usr/bin/env -S node --import tsx
+/*
+  Creates a user for the credentials login, or sets the password and role of an existing one.
+
+  Run with: node --import tsx scripts/create-user.ts <email> [ADMIN|USER|VIEWER] [name]
+
+  Env/configurable params:
+    USER_PASSWORD - required; read from the environment so it does not end up in shell history
+*/
+
+import { Role } from '@prisma/client'
+import { db } from '../src/lib/db'
+import { hashPassword } from '../src/lib/auth'
+
+function isRole(value: string): value is Role {
+  return (Object.values(Role) as string[]).includes(value)
+}
+
+async function main() {
+  const [email, role = Role.USER, name] = process.argv.slice(2)
+  const password = process.env.USER_PASSWORD
+
+  if (!email || !password || !isRole(role)) {
+    console.error(`Usage: USER_PASSWORD=... node --import tsx scripts/create-user.ts <email> [${Object.values(Role).join('|')}] [name]`)
+    process.exit(2)
+  }
+
+  let exitCode = 0
+  try {
+    const passwordHash = await hashPassword(password)
+    const user = await db.user.upsert({
+      where: { email: email.toLowerCase() },
+      create: { email: email.toLowerCase(), name: name ?? null, role, passwordHash },
+      update: { role, passwordHash, ...(name && { name }) }
+    })
+    console.info(`User ${user.email} (${user.role}) can now sign in`)
+  } catch (err) {
+    console.error('Failed to create user', err)
+    exitCode = 1
+  } finally {
+    await db.$disconnect()
+  }
+  process.exit(exitCode)
+}
+
+main()
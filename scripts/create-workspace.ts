@@ -0,0 +1,66 @@
+#!/usr/bin/env -S node --import tsx
+/*
+  Creates a workspace owned by an existing user. With --adopt-unassigned the data sources, jobs,
+  workflows and teams created before workspaces existed move into it, and every user outside all
+  workspaces joins it as a member, which migrates a single-tenant deployment in one step.
+
+  Run with: node --import tsx scripts/create-workspace.ts <name> <owner-email> [--adopt-unassigned]
+*/
+
+import { db } from '../src/lib/db'
+import { slugify } from '../src/lib/workspace'
+
+async function main() {
+  const [name, ownerEmail] = process.argv.slice(2).filter(arg => !arg.startsWith('--'))
+  const adopt = process.argv.includes('--adopt-unassigned')
+
+  if (!name || !ownerEmail) {
+    console.error('Usage: create-workspace.ts <name> <owner-email> [--adopt-unassigned]')
+    process.exit(1)
+  }
+
+  let exitCode = 0
+  try {
+    const owner = await db.user.findUnique({ where: { email: ownerEmail.toLowerCase() } })
+    if (!owner) {
+      throw new Error(`User not found: ${ownerEmail}`)
+    }
+
+    const workspace = await db.workspace.create({
+      data: {
+        name,
+        slug: slugify(name),
+        members: { create: { userId: owner.id, role: 'OWNER' } }
+      }
+    })
+    console.info(`Created workspace ${workspace.name} (${workspace.slug}) owned by ${owner.email}`)
+
+    if (adopt) {
+      const unassigned = { workspaceId: null }
+      const [dataSources, jobs, workflows, teams] = await db.$transaction([
+        db.dataSource.updateMany({ where: unassigned, data: { workspaceId: workspace.id } }),
+        db.eTLJob.updateMany({ where: unassigned, data: { workspaceId: workspace.id } }),
+        db.workflow.updateMany({ where: unassigned, data: { workspaceId: workspace.id } }),
+        db.team.updateMany({ where: unassigned, data: { workspaceId: workspace.id } })
+      ])
+
+      const users = await db.user.findMany({ where: { workspaceMemberships: { none: {} } }, select: { id: true } })
+      await db.workspaceMember.createMany({
+        data: users.map((user: { id: string }) => ({ workspaceId: workspace.id, userId: user.id, role: 'MEMBER' }))
+      })
+
+      console.info(
+        `Adopted ${dataSources.count} data source(s), ${jobs.count} job(s), ${workflows.count} workflow(s), ` +
+        `${teams.count} team(s) and ${users.length} user(s)`
+      )
+    }
+  } catch (err) {
+    console.error('Failed to create workspace', err)
+    exitCode = 1
+  } finally {
+    await db.$disconnect()
+  }
+  process.exit(exitCode)
+}
+
+main()
@@ -0,0 +1,148 @@
+#!/usr/bin/env -S node --import tsx
+/*
+  Queue worker for ETL job executions.
+  - Claims queued executions from the job queue, up to WORKER_CONCURRENCY at a time, and
+    streams each one from the job's source connector into its target connector
+  - Higher priority jobs are claimed first; the queue holds back executions that would exceed
+    a job's maxConcurrentExecutions, a data source's connection budget or the global limit
+  - Renews the execution's lease with heartbeats while it runs; if this process dies the lease
+    runs out and another worker picks the execution up again from its latest checkpoint. A worker
+    that finds its lease gone stops the execution at the next batch and leaves it to the new one
+  - Re-queues executions whose worker stopped renewing its lease
+  - Purges execution log entries older than their job's retentionPeriodDays
+  - Paused and cancelled executions stop between batches like before; a resumed execution is
+    queued again and continues from its checkpoint
+  - SIGINT/SIGTERM stop claiming and exit once the running executions are done; a second
+    signal exits immediately and leaves them to be redelivered
+
+  Run with: npm run worker:enhanced (start as many as needed, on any host with DATABASE_URL)
+
+  Env/configurable params:
+    WORKER_ID - default <hostname>-<pid>
+    WORKER_CONCURRENCY - executions this process runs at the same time (default 2)
+    POLL_INTERVAL_MS - how often to look for work when the queue is empty (default 2000)
+    VISIBILITY_TIMEOUT_MS - lease length; renewed every third of it (default 60000)
+    MAX_ATTEMPTS - deliveries before an execution is failed (default 3)
+    RETRY_DELAY_MS - delay before a redelivered execution can be claimed (default 30000)
+    BATCH_SIZE - default 1000
+    PROGRESS_UPDATE_MS - default 2000
+    FAILURE_THRESHOLD_PERCENT - percent of failures to mark job FAILED (default 10)
+    CONTROL_POLL_MS - how often to check for pause/cancel requests (default 1000)
+    LOG_RETENTION_INTERVAL_MS - how often to purge expired execution log entries (default 3600000)
+    WORKFLOW_LOG_RETENTION_DAYS - retention of workflow execution logs (default 2555)
+*/
+
+import os from 'os'
+import { db } from '../src/lib/db'
+import { ExecutionLogStore } from '../src/lib/execution-log'
+import { JobQueue, QueueLease } from '../src/lib/job-queue'
+import { JobRunner } from '../src/lib/job-runner'
+import { runLeasedExecution } from '../src/lib/job-worker'
+
+const workerId = process.env.WORKER_ID || `${os.hostname()}-${process.pid}`
+const concurrency = Math.max(1, parseInt(process.env.WORKER_CONCURRENCY || '2', 10))
+const pollIntervalMs = parseInt(process.env.POLL_INTERVAL_MS || '2000', 10)
+const logRetentionIntervalMs = parseInt(process.env.LOG_RETENTION_INTERVAL_MS || '3600000', 10)
+
+const queue = JobQueue.getInstance({
+  visibilityTimeoutMs: parseInt(process.env.VISIBILITY_TIMEOUT_MS || '60000', 10),
+  maxAttempts: parseInt(process.env.MAX_ATTEMPTS || '3', 10),
+  retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '30000', 10)
+})
+
+const runner = JobRunner.getInstance({
+  batchSize: parseInt(process.env.BATCH_SIZE || '1000', 10),
+  progressUpdateMs: parseInt(process.env.PROGRESS_UPDATE_MS || '2000', 10),
+  failureThresholdPercent: parseFloat(process.env.FAILURE_THRESHOLD_PERCENT || '10'),
+  controlPollMs: parseInt(process.env.CONTROL_POLL_MS || '1000', 10)
+})
+
+const executionLogs = ExecutionLogStore.getInstance({
+  workflowRetentionDays: parseInt(process.env.WORKFLOW_LOG_RETENTION_DAYS || '2555', 10)
+})
+
+const running = new Set<Promise<void>>()
+let stopping = false
+let wakeUp: (() => void) | null = null
+let lastLogPurge = 0
+
+async function run(lease: QueueLease) {
+  console.info(`Claimed execution ${lease.executionId} (attempt ${lease.attempts})`)
+
+  const result = await runLeasedExecution(lease, workerId, queue, runner)
+  if (result) {
+    console.info(`Finished execution ${lease.executionId}: status=${result.status} processed=${result.recordsProcessed} failed=${result.recordsFailed}`)
+  }
+}
+
+// Resolves after the poll interval, when an execution finishes or on shutdown
+function sleep(ms: number) {
+  return new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms)
+    wakeUp = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+  })
+}
+
+function start(lease: QueueLease) {
+  const execution: Promise<void> = run(lease).finally(() => {
+    running.delete(execution)
+    wakeUp?.()
+  })
+  running.add(execution)
+}
+
+async function main() {
+  console.info(`Job worker ${workerId} started with ${concurrency} slot(s)`)
+
+  while (!stopping) {
+    try {
+      const requeued = await queue.requeueExpired()
+      if (requeued > 0) {
+        console.warn(`Re-queued ${requeued} execution(s) whose worker stopped responding`)
+      }
+
+      // Fill the free slots; the queue returns nothing once the limits are reached
+      while (!stopping && running.size < concurrency) {
+        const lease = await queue.claim(workerId)
+        if (!lease) break
+        start(lease)
+      }
+
+      // Every worker purges; deletes of already purged entries find nothing
+      if (Date.now() - lastLogPurge >= logRetentionIntervalMs) {
+        lastLogPurge = Date.now()
+        const purged = await executionLogs.purgeExpired()
+        if (purged > 0) {
+          console.info(`Purged ${purged} execution log entries past their retention`)
+        }
+      }
+    } catch (error) {
+      console.error('Worker poll failed:', error)
+    }
+
+    await sleep(pollIntervalMs)
+  }
+
+  await Promise.all(running)
+  console.info(`Job worker ${workerId} stopped`)
+  await db.$disconnect()
+  process.exit(0)
+}
+
+function shutdown(signal: string) {
+  if (stopping) {
+    console.warn(`${signal} received again, exiting without waiting for ${running.size} running execution(s)`)
+    process.exit(1)
+  }
+  console.info(`${signal} received, finishing ${running.size} running execution(s) before exiting`)
+  stopping = true
+  wakeUp?.()
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'))
+process.on('SIGTERM', () => shutdown('SIGTERM'))
+
+main()
@@ -0,0 +1,182 @@
+#!/usr/bin/env -S node --import tsx
+/*
+  Copies the log entries kept in the JSON `logs` columns of job_executions and workflow_executions
+  into the execution_logs table. Run it before `prisma db push` drops those columns; it creates
+  execution_logs the way db push would if it does not exist yet, so the push afterwards only drops
+  the old columns. Safe to run more than once: executions that already have entries are skipped.
+
+  Run with: node --import tsx scripts/migrate-execution-logs.ts [--dry-run]
+*/
+
+import { db } from '../src/lib/db'
+import { ExecutionLogInput } from '../src/lib/execution-log'
+import { LOG_LEVELS, LogLevel } from '../src/lib/schemas'
+
+type ExecutionKind = 'job' | 'workflow'
+
+interface LegacyExecution {
+  id: string
+  logs: string
+  startedAt: Date
+}
+
+const TABLES: Record<ExecutionKind, string> = {
+  job: 'job_executions',
+  workflow: 'workflow_executions'
+}
+
+const BATCH_SIZE = 200
+
+// Same table, indexes and foreign keys as `prisma db push` creates for the ExecutionLog model
+const CREATE_EXECUTION_LOGS = [
+  `CREATE TABLE IF NOT EXISTS "execution_logs" (
+    "id" TEXT NOT NULL,
+    "jobExecutionId" TEXT,
+    "workflowExecutionId" TEXT,
+    "level" "LogLevel" NOT NULL DEFAULT 'INFO',
+    "message" TEXT NOT NULL,
+    "stepId" TEXT,
+    "stepName" TEXT,
+    "fields" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "execution_logs_pkey" PRIMARY KEY ("id")
+  )`,
+  `CREATE INDEX IF NOT EXISTS "execution_logs_jobExecutionId_timestamp_idx" ON "execution_logs"("jobExecutionId", "timestamp")`,
+  `CREATE INDEX IF NOT EXISTS "execution_logs_workflowExecutionId_timestamp_idx" ON "execution_logs"("workflowExecutionId", "timestamp")`,
+  `CREATE INDEX IF NOT EXISTS "execution_logs_timestamp_idx" ON "execution_logs"("timestamp")`,
+  `ALTER TABLE "execution_logs" ADD CONSTRAINT "execution_logs_jobExecutionId_fkey" FOREIGN KEY ("jobExecutionId") REFERENCES "job_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE`,
+  `ALTER TABLE "execution_logs" ADD CONSTRAINT "execution_logs_workflowExecutionId_fkey" FOREIGN KEY ("workflowExecutionId") REFERENCES "workflow_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE`
+]
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+
+  let exitCode = 0
+  try {
+    const kinds = await legacyColumns()
+    let tableExists = await executionLogTableExists()
+    if (kinds.length === 0) {
+      console.info('No execution has a JSON logs column any more; nothing to migrate')
+    } else if (!dryRun && !tableExists) {
+      await createExecutionLogTable()
+      tableExists = true
+    }
+
+    for (const kind of kinds) {
+      const { executions, entries } = await migrate(kind, dryRun, tableExists)
+      console.info(`${dryRun ? 'Would copy' : 'Copied'} ${entries} log entr${entries === 1 ? 'y' : 'ies'} of ${executions} ${kind} execution(s)`)
+    }
+  } catch (err) {
+    console.error('Failed to migrate execution logs', err)
+    exitCode = 1
+  } finally {
+    await db.$disconnect()
+  }
+  process.exit(exitCode)
+}
+
+async function legacyColumns(): Promise<ExecutionKind[]> {
+  const rows = await db.$queryRaw<{ table_name: string }[]>`
+    SELECT table_name FROM information_schema.columns
+    WHERE table_schema = current_schema() AND column_name = 'logs'
+      AND table_name IN ('job_executions', 'workflow_executions')`
+  const tables = new Set(rows.map(row => row.table_name))
+  return (Object.keys(TABLES) as ExecutionKind[]).filter(kind => tables.has(TABLES[kind]))
+}
+
+async function executionLogTableExists(): Promise<boolean> {
+  const [{ exists }] = await db.$queryRaw<{ exists: boolean }[]>`
+    SELECT to_regclass('execution_logs') IS NOT NULL AS "exists"`
+  return exists
+}
+
+async function createExecutionLogTable() {
+  await db.$transaction(CREATE_EXECUTION_LOGS.map(statement => db.$executeRawUnsafe(statement)))
+  console.info('Created the execution_logs table')
+}
+
+/**
+ * Copy the entries of one kind of execution; without the table (a dry run before the upgrade)
+ * no execution has been migrated yet
+ */
+async function migrate(kind: ExecutionKind, dryRun: boolean, tableExists: boolean) {
+  let executions = 0
+  let entries = 0
+  let after = ''
+
+  for (;;) {
+    // Table names come from TABLES, never from input
+    const batch = await db.$queryRawUnsafe<LegacyExecution[]>(
+      `SELECT "id", "logs", "startedAt" FROM "${TABLES[kind]}"
+       WHERE "logs" IS NOT NULL AND "id" > $1 ORDER BY "id" LIMIT ${BATCH_SIZE}`,
+      after
+    )
+    if (batch.length === 0) break
+    after = batch[batch.length - 1].id
+
+    for (const execution of batch) {
+      const inputs = parseLegacyLogs(kind, execution)
+      if (inputs.length === 0) continue
+
+      const scope = kind === 'job' ? { jobExecutionId: execution.id } : { workflowExecutionId: execution.id }
+      if (tableExists && await db.executionLog.count({ where: scope }) > 0) continue
+
+      if (!dryRun) {
+        await db.executionLog.createMany({
+          data: inputs.map(input => ({
+            ...scope,
+            level: input.level,
+            message: input.message,
+            stepId: input.stepId ?? null,
+            stepName: input.stepName ?? null,
+            fields: input.fields ? JSON.stringify(input.fields) : null,
+            timestamp: input.timestamp
+          }))
+        })
+      }
+      executions++
+      entries += inputs.length
+    }
+  }
+  return { executions, entries }
+}
+
+/**
+ * Entries of one execution's JSON log. Workflow entries kept their structured fields under
+ * `details`; any other keys of an entry are kept as fields too
+ */
+function parseLegacyLogs(kind: ExecutionKind, execution: LegacyExecution): ExecutionLogInput[] {
+  let logs: unknown
+  try {
+    logs = JSON.parse(execution.logs)
+  } catch {
+    console.warn(`Skipping the logs of ${kind} execution ${execution.id}: not valid JSON`)
+    return []
+  }
+  if (!Array.isArray(logs)) return []
+
+  return logs
+    .filter((entry): entry is Record<string, any> => typeof entry === 'object' && entry !== null)
+    .map(entry => {
+      const { timestamp, level, message, stepId, stepName, details, ...rest } = entry
+      const fields = { ...(typeof details === 'object' && details !== null ? details : {}), ...rest }
+      const time = new Date(timestamp)
+
+      return {
+        level: toLogLevel(level),
+        message: typeof message === 'string' ? message : JSON.stringify(message ?? ''),
+        stepId: typeof stepId === 'string' ? stepId : null,
+        stepName: typeof stepName === 'string' ? stepName : null,
+        fields: Object.keys(fields).length > 0 ? fields : null,
+        timestamp: Number.isNaN(time.getTime()) ? execution.startedAt : time
+      }
+    })
+}
+
+function toLogLevel(level: unknown): LogLevel {
+  const normalized = typeof level === 'string' ? level.toUpperCase() : ''
+  if (normalized === 'WARNING') return 'WARN'
+  return LOG_LEVELS.includes(normalized as LogLevel) ? normalized as LogLevel : 'INFO'
+}
+
+main()
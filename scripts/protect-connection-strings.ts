@@ -0,0 +1,47 @@
+#!/usr/bin/env -S node --import tsx
+/*
+  Moves credentials that are still stored inline in data source connection strings into the
+  secret vault and rewrites the connection strings to {{secret:name}} references.
+  Safe to run more than once: already protected sources are left untouched.
+
+  Run with: node --import tsx scripts/protect-connection-strings.ts [--dry-run]
+
+  Env/configurable params:
+    SECRETS_MASTER_KEY_FILE - master key location (default .secrets/master.key)
+*/
+
+import { db } from '../src/lib/db'
+import { extractCredentials, SecretVault } from '../src/lib/secret-vault'
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  const vault = SecretVault.getInstance()
+
+  let exitCode = 0
+  try {
+    const sources = await db.dataSource.findMany({ select: { id: true, name: true, connectionString: true } })
+    let protectedCount = 0
+
+    for (const source of sources) {
+      const { credentials } = extractCredentials(source.connectionString, field => field)
+      if (credentials.length === 0) continue
+
+      console.info(`${dryRun ? 'Would protect' : 'Protecting'} ${credentials.length} credential(s) of ${source.name}`)
+      if (!dryRun) {
+        const connectionString = await vault.protectConnectionString(source.id, source.connectionString)
+        await db.dataSource.update({ where: { id: source.id }, data: { connectionString } })
+      }
+      protectedCount++
+    }
+
+    console.info(`${protectedCount} of ${sources.length} data source(s) ${dryRun ? 'have inline credentials' : 'protected'}`)
+  } catch (err) {
+    console.error('Failed to protect connection strings', err)
+    exitCode = 1
+  } finally {
+    await db.$disconnect()
+  }
+  process.exit(exitCode)
+}
+
+main()
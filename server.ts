@@ -1,5 +1,6 @@
 // server.ts - Next.js Standalone + Socket.IO
 import { setupSocket } from './src/lib/socket';
+import { JobScheduler } from './src/lib/scheduler';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -40,7 +41,8 @@ async function createCustomServer() {
       }
     });
 
-    setupSocket(io);
+    // run-job requests are forwarded to this server's own API
+    setupSocket(io, `http://127.0.0.1:${currentPort}`);
 
     // Start the server
     server.listen(currentPort, hostname, () => {
@@ -48,6 +50,19 @@ async function createCustomServer() {
       console.log(`> Socket.IO server running at ws://${hostname}:${currentPort}/api/socketio`);
     });
 
+    // Fire scheduled jobs; set SCHEDULER_ENABLED=false on replicas that should only serve requests
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      const scheduler = JobScheduler.getInstance();
+      await scheduler.start();
+
+      const shutdown = async () => {
+        await scheduler.stop();
+        process.exit(0);
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    }
+
   } catch (err) {
     console.error('Server startup error:', err);
     process.exit(1);
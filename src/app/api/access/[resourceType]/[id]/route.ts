@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, withAuth } from '@/lib/auth'
+import {
+  authorizeResource,
+  grantAccess,
+  listGrants,
+  ResourceType,
+  revokeAccess
+} from '@/lib/access-control'
+import { grantSchema, revokeGrantQuerySchema } from '@/lib/schemas'
+import { parseBody, parseQuery } from '@/lib/validation'
+import { isWorkspaceMember, workspaceScope } from '@/lib/workspace'
+
+// URL segment to resource type, e.g. /api/access/jobs/<id>
+const RESOURCE_TYPES: Record<string, ResourceType> = {
+  'jobs': 'JOB',
+  'data-sources': 'DATA_SOURCE',
+  'workflows': 'WORKFLOW'
+}
+
+type AccessParams = { params: { resourceType: string; id: string } }
+
+function unknownType(resourceType: string) {
+  return NextResponse.json(
+    { error: `Unknown resource type: ${resourceType}` },
+    { status: 404 }
+  )
+}
+
+/**
+ * Owner and grants of a resource; anyone who can view it can see who else can
+ */
+export const GET = withAuth()(async (request: AuthenticatedRequest, { params }: AccessParams) => {
+  try {
+    const type = RESOURCE_TYPES[params.resourceType]
+    if (!type) return unknownType(params.resourceType)
+
+    const denied = await authorizeResource(request, type, params.id, 'VIEW')
+    if (denied) return denied
+
+    return NextResponse.json(await listGrants(type, params.id))
+  } catch (error) {
+    console.error('Error fetching resource grants:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch resource grants' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Share the resource with one user, team or role: { userId | teamId | role, level }
+ */
+export const POST = withAuth()(async (request: AuthenticatedRequest, { params }: AccessParams) => {
+  try {
+    const type = RESOURCE_TYPES[params.resourceType]
+    if (!type) return unknownType(params.resourceType)
+
+    const parsed = await parseBody(request, grantSchema)
+    if (!parsed.success) return parsed.response
+
+    const { userId, teamId, role, level } = parsed.data
+
+    const denied = await authorizeResource(request, type, params.id, 'OWNER')
+    if (denied) return denied
+
+    // Resources are only shared inside their workspace
+    const workspaceId = request.workspace?.id
+    const subjectExists = userId
+      ? workspaceId
+        ? await isWorkspaceMember(workspaceId, userId)
+        : await db.user.findUnique({ where: { id: userId }, select: { id: true } })
+      : teamId
+        ? await db.team.findFirst({ where: { id: teamId, ...workspaceScope(request) }, select: { id: true } })
+        : true
+    if (!subjectExists) {
+      return NextResponse.json(
+        { error: userId ? 'User not found' : 'Team not found' },
+        { status: 400 }
+      )
+    }
+
+    const grant = await grantAccess(type, params.id, { userId, teamId, role }, level, request.user!.id)
+
+    return NextResponse.json(grant, { status: 201 })
+  } catch (error) {
+    console.error('Error granting resource access:', error)
+    return NextResponse.json(
+      { error: 'Failed to grant resource access' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Revoke a grant: ?grantId=
+ */
+export const DELETE = withAuth()(async (request: AuthenticatedRequest, { params }: AccessParams) => {
+  try {
+    const type = RESOURCE_TYPES[params.resourceType]
+    if (!type) return unknownType(params.resourceType)
+
+    const query = parseQuery(request, revokeGrantQuerySchema)
+    if (!query.success) return query.response
+
+    const { grantId } = query.data
+
+    const denied = await authorizeResource(request, type, params.id, 'OWNER')
+    if (denied) return denied
+
+    if (!(await revokeAccess(type, params.id, grantId))) {
+      return NextResponse.json(
+        { error: 'Grant not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Access revoked successfully' })
+  } catch (error) {
+    console.error('Error revoking resource access:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke resource access' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,4 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth';
+import { workflowAssistantSchema } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
 
 interface WorkflowSuggestion {
   id: string;
@@ -19,9 +22,12 @@ interface WorkflowSuggestion {
   };
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(PERMISSIONS.JOB_CREATE)(async (request: AuthenticatedRequest) => {
   try {
-    const { workflow, user_prompt, context } = await request.json();
+    const parsed = await parseBody(request, workflowAssistantSchema);
+    if (!parsed.success) return parsed.response;
+
+    const { workflow, user_prompt = '', context } = parsed.data;
     
     // AI-powered workflow analysis and suggestions using real AI
     const suggestions = await generateAWorkflowSuggestions(workflow, user_prompt, context);
@@ -53,7 +59,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Real AI-powered workflow suggestions using OpenAI or similar
 async function generateAWorkflowSuggestions(workflow: any, user_prompt: string, context: any): Promise<WorkflowSuggestion[]> {
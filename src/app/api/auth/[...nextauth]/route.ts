@@ -0,0 +1,7 @@
+import NextAuth from 'next-auth'
+import { authOptions } from '@/lib/auth'
+
+// Sign-in, sign-out and session endpoints; the only API routes that are not wrapped with withAuth
+const handler = NextAuth(authOptions)
+
+export { handler as GET, handler as POST }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { CredentialRotationManager, serializeRotation } from '@/lib/credential-rotation'
+
+/**
+ * Swap the verified credentials in for every job using the data source
+ */
+export const POST = withAuth(PERMISSIONS.DATASOURCE_UPDATE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; rotationId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'EDIT')
+    if (denied) return denied
+
+    const rotation = await db.credentialRotation.findUnique({
+      where: { id: params.rotationId }
+    })
+
+    if (!rotation || rotation.sourceId !== params.id) {
+      return NextResponse.json(
+        { error: 'Credential rotation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (rotation.status !== 'VERIFIED') {
+      return NextResponse.json(
+        { error: `Cannot apply a rotation that is ${rotation.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    // Guards against edits made through the data source API since the rotation was staged
+    const dataSource = await db.dataSource.findUnique({ where: { id: rotation.sourceId } })
+    if (!dataSource) {
+      return NextResponse.json(
+        { error: 'Data source not found' },
+        { status: 404 }
+      )
+    }
+
+    if (dataSource.connectionString !== rotation.previousConnectionString) {
+      return NextResponse.json(
+        { error: 'The data source connection string changed after the rotation was staged; cancel it and stage again' },
+        { status: 409 }
+      )
+    }
+
+    const updated = await CredentialRotationManager.getInstance().apply(rotation.id)
+
+    return NextResponse.json(serializeRotation(updated))
+  } catch (error) {
+    console.error('Error applying credential rotation:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply credential rotation' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { CredentialRotationManager, serializeRotation } from '@/lib/credential-rotation'
+
+/**
+ * End the rollback window early and delete the previous credentials
+ */
+export const POST = withAuth(PERMISSIONS.DATASOURCE_UPDATE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; rotationId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'EDIT')
+    if (denied) return denied
+
+    const rotation = await db.credentialRotation.findUnique({
+      where: { id: params.rotationId }
+    })
+
+    if (!rotation || rotation.sourceId !== params.id) {
+      return NextResponse.json(
+        { error: 'Credential rotation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (rotation.status !== 'APPLIED') {
+      return NextResponse.json(
+        { error: `Cannot complete a rotation that is ${rotation.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    const updated = await CredentialRotationManager.getInstance().complete(rotation.id)
+
+    return NextResponse.json(serializeRotation(updated))
+  } catch (error) {
+    console.error('Error completing credential rotation:', error)
+    return NextResponse.json(
+      { error: 'Failed to complete credential rotation' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { CredentialRotationManager, serializeRotation } from '@/lib/credential-rotation'
+
+/**
+ * Restore the previous credentials while the rollback window is open
+ */
+export const POST = withAuth(PERMISSIONS.DATASOURCE_UPDATE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; rotationId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'EDIT')
+    if (denied) return denied
+
+    const rotation = await db.credentialRotation.findUnique({
+      where: { id: params.rotationId }
+    })
+
+    if (!rotation || rotation.sourceId !== params.id) {
+      return NextResponse.json(
+        { error: 'Credential rotation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (rotation.status !== 'APPLIED') {
+      return NextResponse.json(
+        { error: `Cannot roll back a rotation that is ${rotation.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    if (rotation.rollbackUntil && rotation.rollbackUntil <= new Date()) {
+      return NextResponse.json(
+        { error: 'The rollback window of this rotation has closed' },
+        { status: 409 }
+      )
+    }
+
+    const updated = await CredentialRotationManager.getInstance().rollback(rotation.id)
+
+    return NextResponse.json(serializeRotation(updated))
+  } catch (error) {
+    console.error('Error rolling back credential rotation:', error)
+    return NextResponse.json(
+      { error: 'Failed to roll back credential rotation' },
+      { status: 500 }
+    )
+  }
+})
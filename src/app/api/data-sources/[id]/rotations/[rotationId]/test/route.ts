@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { CredentialRotationManager } from '@/lib/credential-rotation'
+
+/**
+ * Test the staged credentials; a successful test verifies the rotation so it can be applied
+ */
+export const POST = withAuth(PERMISSIONS.DATASOURCE_UPDATE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; rotationId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'EDIT')
+    if (denied) return denied
+
+    const rotation = await db.credentialRotation.findUnique({
+      where: { id: params.rotationId }
+    })
+
+    if (!rotation || rotation.sourceId !== params.id) {
+      return NextResponse.json(
+        { error: 'Credential rotation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!['STAGED', 'VERIFIED'].includes(rotation.status)) {
+      return NextResponse.json(
+        { error: `Cannot test a rotation that is ${rotation.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    const result = await CredentialRotationManager.getInstance().test(rotation.id)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error testing credential rotation:', error)
+    return NextResponse.json(
+      { error: 'Failed to test credential rotation' },
+      { status: 500 }
+    )
+  }
+})
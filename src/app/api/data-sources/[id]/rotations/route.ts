@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { isConnectorSupported } from '@/lib/connectors'
+import { CredentialRotationManager, serializeRotation } from '@/lib/credential-rotation'
+import { SecretVault } from '@/lib/secret-vault'
+import { credentialRotationSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
+
+export const GET = withAuth(PERMISSIONS.DATASOURCE_VIEW)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'VIEW')
+    if (denied) return denied
+
+    const rotations = await db.credentialRotation.findMany({
+      where: { sourceId: params.id },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    })
+
+    return NextResponse.json(rotations.map(serializeRotation))
+  } catch (error) {
+    console.error('Error fetching credential rotations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch credential rotations' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Stage new credentials; they are only used once the rotation is tested and applied
+ */
+export const POST = withAuth(PERMISSIONS.DATASOURCE_UPDATE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'EDIT')
+    if (denied) return denied
+
+    const parsed = await parseBody(request, credentialRotationSchema)
+    if (!parsed.success) return parsed.response
+
+    const { connectionString, rollbackWindowHours } = parsed.data
+
+    const dataSource = await db.dataSource.findUnique({ where: { id: params.id } })
+    if (!dataSource) {
+      return NextResponse.json(
+        { error: 'Data source not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isConnectorSupported(dataSource.type)) {
+      return NextResponse.json(
+        { error: `Credential rotation is not supported for ${dataSource.type} data sources` },
+        { status: 400 }
+      )
+    }
+
+    const missingSecrets = await SecretVault.getInstance().findUnusableSecrets(connectionString, {
+      sourceId: dataSource.id,
+      workspaceId: dataSource.workspaceId
+    })
+    if (missingSecrets.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown secret referenced in connection string: ${missingSecrets.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const manager = CredentialRotationManager.getInstance()
+    const open = await manager.getOpenRotation(dataSource.id)
+    if (open) {
+      return NextResponse.json(
+        { error: `A credential rotation is already ${open.status.toLowerCase()} for this data source`, rotationId: open.id },
+        { status: 409 }
+      )
+    }
+
+    const rotation = await manager.stage(dataSource.id, connectionString, { rollbackWindowHours, initiatedBy: request.user!.id })
+
+    return NextResponse.json(serializeRotation(rotation), { status: 201 })
+  } catch (error) {
+    console.error('Error staging credential rotation:', error)
+    return NextResponse.json(
+      { error: 'Failed to stage credential rotation' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,15 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource, visibleJobsFilter } from '@/lib/access-control'
+import { fileLocationError } from '@/lib/connectors'
+import { CredentialRotationManager } from '@/lib/credential-rotation'
+import { invalidateSchemaCache } from '@/lib/schema-discovery'
+import {
+  extractCredentials,
+  REDACTED,
+  redactConnectionString,
+  redactDataSource,
+  SecretVault
+} from '@/lib/secret-vault'
+import { dataSourceUpdateSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
 
-export async function GET(
-  request: NextRequest,
+export const GET = withAuth(PERMISSIONS.DATASOURCE_VIEW)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'VIEW')
+    if (denied) return denied
+
+    const visibleJobs = visibleJobsFilter(request)
+
     const dataSource = await db.dataSource.findUnique({
       where: { id: params.id },
       include: {
         jobs: {
+          where: visibleJobs,
           include: {
             creator: {
               select: { name: true, email: true }
@@ -17,7 +37,7 @@ export async function GET(
           }
         },
         _count: {
-          select: { jobs: true, syncLogs: true }
+          select: { jobs: { where: visibleJobs }, syncLogs: true }
         }
       }
     })
@@ -29,7 +49,7 @@ export async function GET(
       )
     }
 
-    return NextResponse.json(dataSource)
+    return NextResponse.json(redactDataSource(dataSource))
   } catch (error) {
     console.error('Error fetching data source:', error)
     return NextResponse.json(
@@ -37,15 +57,69 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(
-  request: NextRequest,
+export const PUT = withAuth(PERMISSIONS.DATASOURCE_UPDATE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const body = await request.json()
-    const { name, type, connectionString, description, isActive } = body
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'EDIT')
+    if (denied) return denied
+
+    const parsed = await parseBody(request, dataSourceUpdateSchema)
+    if (!parsed.success) return parsed.response
+
+    const body = parsed.data
+    const { name, type, description, isActive, maxConnections } = body
+
+    const current = await db.dataSource.findUnique({ where: { id: params.id } })
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Data source not found' },
+        { status: 404 }
+      )
+    }
+
+    if (type || body.connectionString) {
+      const locationError = fileLocationError(type ?? current.type, body.connectionString ?? current.connectionString)
+      if (locationError) {
+        return NextResponse.json({ error: locationError }, { status: 400 })
+      }
+    }
+
+    // Clients only ever see the redacted string; sending it back unchanged keeps the stored credentials
+    let connectionString: string | undefined
+    if (body.connectionString && body.connectionString !== redactConnectionString(current.connectionString)) {
+      const rotation = await CredentialRotationManager.getInstance().getOpenRotation(current.id)
+      if (rotation) {
+        return NextResponse.json(
+          { error: `A credential rotation is ${rotation.status.toLowerCase()} for this data source; finish it before changing the connection string`, rotationId: rotation.id },
+          { status: 409 }
+        )
+      }
+
+      const { credentials } = extractCredentials(body.connectionString, field => field)
+      if (credentials.some(credential => credential.value === REDACTED)) {
+        return NextResponse.json(
+          { error: 'The connection string changed, so its redacted credentials must be entered again' },
+          { status: 400 }
+        )
+      }
+
+      const vault = SecretVault.getInstance()
+      const missingSecrets = await vault.findUnusableSecrets(body.connectionString, {
+        sourceId: current.id,
+        workspaceId: current.workspaceId
+      })
+      if (missingSecrets.length > 0) {
+        return NextResponse.json(
+          { error: `Unknown secret referenced in connection string: ${missingSecrets.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      connectionString = await vault.protectConnectionString(current.id, body.connectionString)
+    }
 
     const dataSource = await db.dataSource.update({
       where: { id: params.id },
@@ -54,11 +128,16 @@ export async function PUT(
         ...(type && { type }),
         ...(connectionString && { connectionString }),
         ...(description !== undefined && { description }),
-        ...(isActive !== undefined && { isActive })
+        ...(isActive !== undefined && { isActive }),
+        ...(maxConnections !== undefined && { maxConnections })
       }
     })
 
-    return NextResponse.json(dataSource)
+    if (type || connectionString) {
+      await invalidateSchemaCache(dataSource.id)
+    }
+
+    return NextResponse.json(redactDataSource(dataSource))
   } catch (error) {
     console.error('Error updating data source:', error)
     return NextResponse.json(
@@ -66,13 +145,16 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
-  request: NextRequest,
+export const DELETE = withAuth(PERMISSIONS.DATASOURCE_DELETE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'OWNER')
+    if (denied) return denied
+
     // Check if data source is being used by any active jobs
     const activeJobs = await db.eTLJob.findMany({
       where: {
@@ -94,6 +176,7 @@ export async function DELETE(
     await db.dataSource.delete({
       where: { id: params.id }
     })
+    await invalidateSchemaCache(params.id)
 
     return NextResponse.json({ message: 'Data source deleted successfully' })
   } catch (error) {
@@ -103,4 +186,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { describeConnectionError, isConnectorSupported } from '@/lib/connectors'
+import { discoverSchema } from '@/lib/schema-discovery'
+import { schemaDiscoveryQuerySchema } from '@/lib/schemas'
+import { parseQuery } from '@/lib/validation'
+
+/**
+ * Tables and columns exposed by a data source. Relational sources are read from their catalog,
+ * files and APIs are sampled; ?refresh=true bypasses the cache, ?query= selects a nested array
+ * for JSON and API sources and ?sample= sets how many records are sampled
+ */
+export const GET = withAuth(PERMISSIONS.DATASOURCE_VIEW)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'VIEW')
+    if (denied) return denied
+
+    const parsed = parseQuery(request, schemaDiscoveryQuerySchema)
+    if (!parsed.success) return parsed.response
+
+    const { query, sample, refresh } = parsed.data
+
+    const dataSource = await db.dataSource.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { error: 'Data source not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isConnectorSupported(dataSource.type)) {
+      return NextResponse.json(
+        { error: `Schema discovery is not supported for ${dataSource.type} data sources` },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const schema = await discoverSchema(dataSource, {
+        query,
+        sampleSize: sample,
+        refresh
+      })
+      return NextResponse.json(schema)
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to introspect data source', details: describeConnectionError(error) },
+        { status: 502 }
+      )
+    }
+  } catch (error) {
+    console.error('Error discovering data source schema:', error)
+    return NextResponse.json(
+      { error: 'Failed to discover data source schema' },
+      { status: 500 }
+    )
+  }
+})
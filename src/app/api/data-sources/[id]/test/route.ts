@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import {
+  connectionTestFailure,
+  ConnectionTestResult,
+  createConnector,
+  isConnectorSupported,
+  testConnection
+} from '@/lib/connectors'
+import { SecretVault } from '@/lib/secret-vault'
+
+/**
+ * Open a connection to a saved data source and record the outcome in its sync log
+ */
+export const POST = withAuth(PERMISSIONS.DATASOURCE_SYNC)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'DATA_SOURCE', params.id, 'EXECUTE')
+    if (denied) return denied
+
+    const dataSource = await db.dataSource.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { error: 'Data source not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isConnectorSupported(dataSource.type)) {
+      return NextResponse.json(
+        { error: `Connection testing is not supported for ${dataSource.type} data sources` },
+        { status: 400 }
+      )
+    }
+
+    let result: ConnectionTestResult
+    try {
+      const resolved = await SecretVault.getInstance().resolveSource(dataSource, {
+        purpose: 'CONNECTION_TEST',
+        sourceId: dataSource.id,
+        workspaceId: dataSource.workspaceId
+      })
+      result = await testConnection(createConnector(resolved))
+    } catch (error) {
+      result = connectionTestFailure(error)
+    }
+
+    if (result.success) {
+      await db.dataSource.update({
+        where: { id: dataSource.id },
+        data: { lastSynced: new Date(result.testedAt) }
+      })
+    }
+
+    await db.syncLog.create({
+      data: {
+        sourceId: dataSource.id,
+        level: !result.success ? 'ERROR' : result.warnings.length > 0 ? 'WARN' : 'INFO',
+        message: result.success
+          ? `Connection test succeeded in ${result.latencyMs}ms: ${dataSource.name}`
+          : `Connection test failed: ${dataSource.name}`,
+        details: JSON.stringify(result)
+      }
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error testing data source connection:', error)
+    return NextResponse.json(
+      { error: 'Failed to test data source connection' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,18 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { accessFilter, visibleJobsFilter } from '@/lib/access-control'
+import { fileLocationError } from '@/lib/connectors'
+import { workspaceScope } from '@/lib/workspace'
+import { redactConnectionString, redactDataSource, SecretVault } from '@/lib/secret-vault'
+import { dataSourceSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
 
-export async function GET() {
+export const GET = withAuth(PERMISSIONS.DATASOURCE_VIEW)(async (request: AuthenticatedRequest) => {
   try {
     const dataSources = await db.dataSource.findMany({
+      where: { ...workspaceScope(request), ...accessFilter(request.user!, 'DATA_SOURCE') },
       orderBy: { createdAt: 'desc' },
       include: {
         _count: {
-          select: { jobs: true }
+          select: { jobs: { where: visibleJobsFilter(request) } }
         }
       }
     })
 
-    return NextResponse.json(dataSources)
+    return NextResponse.json(dataSources.map(redactDataSource))
   } catch (error) {
     console.error('Error fetching data sources:', error)
     return NextResponse.json(
@@ -20,19 +28,14 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(PERMISSIONS.DATASOURCE_CREATE)(async (request: AuthenticatedRequest) => {
   try {
-    const body = await request.json()
-    const { name, type, connectionString, description } = body
+    const parsed = await parseBody(request, dataSourceSchema)
+    if (!parsed.success) return parsed.response
 
-    if (!name || !type || !connectionString) {
-      return NextResponse.json(
-        { error: 'Name, type, and connection string are required' },
-        { status: 400 }
-      )
-    }
+    const { name, type, connectionString, description, maxConnections } = parsed.data
 
     // Validate connection string based on type
     let isValidConnection = false
@@ -69,16 +72,38 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const dataSource = await db.dataSource.create({
+    const locationError = fileLocationError(type, connectionString)
+    if (locationError) {
+      return NextResponse.json({ error: locationError }, { status: 400 })
+    }
+
+    const vault = SecretVault.getInstance()
+    const missingSecrets = await vault.findUnusableSecrets(connectionString, { workspaceId: request.workspace?.id ?? null })
+    if (missingSecrets.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown secret referenced in connection string: ${missingSecrets.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Inline credentials are named after the data source id, so they move to the vault after creation
+    const created = await db.dataSource.create({
       data: {
         name,
         type,
-        connectionString,
-        description
+        connectionString: redactConnectionString(connectionString),
+        ownerId: request.user!.id,
+        workspaceId: request.workspace?.id ?? null,
+        description,
+        ...(maxConnections !== undefined && { maxConnections })
       }
     })
+    const dataSource = await db.dataSource.update({
+      where: { id: created.id },
+      data: { connectionString: await vault.protectConnectionString(created.id, connectionString) }
+    })
 
-    return NextResponse.json(dataSource, { status: 201 })
+    return NextResponse.json(redactDataSource(dataSource), { status: 201 })
   } catch (error) {
     console.error('Error creating data source:', error)
     return NextResponse.json(
@@ -86,4 +111,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import {
+  connectionTestFailure,
+  ConnectionTestResult,
+  createConnector,
+  isConnectorSupported,
+  testConnection
+} from '@/lib/connectors'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { redactConnectionString, SecretScope, SecretVault } from '@/lib/secret-vault'
+import { connectionTestSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
+
+/**
+ * Dry run: test a connection configuration before it is saved; nothing is written
+ */
+export const POST = withAuth(PERMISSIONS.DATASOURCE_CREATE)(async (request: AuthenticatedRequest) => {
+  try {
+    const parsed = await parseBody(request, connectionTestSchema)
+    if (!parsed.success) return parsed.response
+
+    const { name, type, sourceId } = parsed.data
+    let { connectionString } = parsed.data
+
+    if (!isConnectorSupported(type)) {
+      return NextResponse.json(
+        { error: `Connection testing is not supported for ${type} data sources` },
+        { status: 400 }
+      )
+    }
+
+    // Editing a saved source: its redacted connection string stands for the stored one, and
+    // its own secrets may be referenced besides those of the workspace
+    let scope: SecretScope = { workspaceId: request.workspace?.id ?? null }
+    if (sourceId) {
+      const denied = await authorizeResource(request, 'DATA_SOURCE', sourceId, 'EDIT')
+      if (denied) return denied
+
+      const saved = await db.dataSource.findUnique({ where: { id: sourceId } })
+      if (saved) {
+        scope = { sourceId: saved.id, workspaceId: saved.workspaceId }
+        if (redactConnectionString(saved.connectionString) === connectionString) {
+          connectionString = saved.connectionString
+        }
+      }
+    }
+
+    // Unsaved configurations may already reference vault secrets
+    let result: ConnectionTestResult
+    try {
+      const resolved = await SecretVault.getInstance().resolveSource({
+        id: 'dry-run',
+        name: name || 'Unsaved data source',
+        type,
+        connectionString
+      }, { purpose: 'CONNECTION_TEST', ...scope })
+      result = await testConnection(createConnector(resolved))
+    } catch (error) {
+      result = connectionTestFailure(error)
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error testing connection:', error)
+    return NextResponse.json(
+      { error: 'Failed to test connection' },
+      { status: 500 }
+    )
+  }
+})
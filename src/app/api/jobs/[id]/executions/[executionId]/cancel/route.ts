@@ -0,0 +1,92 @@
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { NextRequest, NextResponse } from 'next/server'
+
+export const POST = withAuth(PERMISSIONS.JOB_EXECUTE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; executionId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'EXECUTE')
+    if (denied) return denied
+
+    const execution = await db.jobExecution.findUnique({
+      where: { id: params.executionId },
+      include: { job: true }
+    })
+
+    if (!execution || execution.jobId !== params.id) {
+      return NextResponse.json(
+        { error: 'Job execution not found' },
+        { status: 404 }
+      )
+    }
+
+    if (execution.status === 'RUNNING') {
+      // The worker stops at its next batch boundary
+      await db.jobExecution.update({
+        where: { id: execution.id },
+        data: { controlAction: 'CANCEL' }
+      })
+
+      return NextResponse.json(
+        { message: 'Cancellation requested', executionId: execution.id },
+        { status: 202 }
+      )
+    }
+
+    if (execution.status !== 'PAUSED' && execution.status !== 'QUEUED') {
+      return NextResponse.json(
+        { error: `Cannot cancel an execution that is ${execution.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    // No worker is running for a paused or queued execution, so it can be cancelled directly
+    // unless a worker claims it in the meantime
+    const completedAt = new Date()
+    const cancelled = await db.jobExecution.updateMany({
+      where: { id: execution.id, status: execution.status },
+      data: {
+        status: 'CANCELLED',
+        controlAction: null,
+        completedAt
+      }
+    })
+    if (cancelled.count === 0) {
+      return NextResponse.json(
+        { error: `Job execution is no longer ${execution.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    await db.jobQueueItem.updateMany({
+      where: { executionId: execution.id, status: 'QUEUED' },
+      data: { status: 'DONE', completedAt }
+    })
+
+    await db.eTLJob.update({
+      where: { id: execution.jobId },
+      data: { status: 'PENDING' }
+    })
+
+    await db.syncLog.create({
+      data: {
+        sourceId: execution.job.sourceId,
+        jobId: execution.jobId,
+        level: 'WARN',
+        message: `Job cancelled: ${execution.job.name}`,
+        details: JSON.stringify({ executionId: execution.id, recordsProcessed: execution.recordsProcessed })
+      }
+    })
+
+    return NextResponse.json({ message: 'Job execution cancelled', executionId: execution.id })
+  } catch (error) {
+    console.error('Error cancelling job execution:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel job execution' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { ExecutionLogStore } from '@/lib/execution-log'
+import { executionLogQuerySchema } from '@/lib/schemas'
+import { parseQuery } from '@/lib/validation'
+
+/**
+ * One page of an execution's log, oldest entry first. `level` is a minimum severity and
+ * `search` matches the message or step name
+ */
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; executionId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'VIEW')
+    if (denied) return denied
+
+    const parsed = parseQuery(request, executionLogQuerySchema)
+    if (!parsed.success) return parsed.response
+
+    const execution = await db.jobExecution.findUnique({
+      where: { id: params.executionId },
+      select: { jobId: true }
+    })
+
+    if (!execution || execution.jobId !== params.id) {
+      return NextResponse.json(
+        { error: 'Job execution not found' },
+        { status: 404 }
+      )
+    }
+
+    const page = await ExecutionLogStore.getInstance().list({ jobExecutionId: params.executionId }, parsed.data)
+    return NextResponse.json(page)
+  } catch (error) {
+    console.error('Error fetching job execution logs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job execution logs' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,62 @@
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { resumeOrderError } from '@/lib/connectors'
+import { NextRequest, NextResponse } from 'next/server'
+
+export const POST = withAuth(PERMISSIONS.JOB_EXECUTE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; executionId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'EXECUTE')
+    if (denied) return denied
+
+    const execution = await db.jobExecution.findUnique({
+      where: { id: params.executionId },
+      include: { job: { include: { source: true } } }
+    })
+
+    if (!execution || execution.jobId !== params.id) {
+      return NextResponse.json(
+        { error: 'Job execution not found' },
+        { status: 404 }
+      )
+    }
+
+    if (execution.status !== 'RUNNING') {
+      return NextResponse.json(
+        { error: `Cannot pause an execution that is ${execution.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    // A paused run continues by skipping what it loaded, which needs the source order to be repeatable
+    const resumeError = execution.job.loadMode === 'overwrite'
+      ? 'overwrite loads replace the target table in one transaction'
+      : resumeOrderError(execution.job.source.type, execution.job.query, execution.job.watermarkColumn)
+    if (resumeError) {
+      return NextResponse.json(
+        { error: `This job cannot be paused and resumed: ${resumeError}` },
+        { status: 409 }
+      )
+    }
+
+    // The worker picks the request up at its next batch boundary and records a checkpoint
+    await db.jobExecution.update({
+      where: { id: execution.id },
+      data: { controlAction: 'PAUSE' }
+    })
+
+    return NextResponse.json(
+      { message: 'Pause requested', executionId: execution.id },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Error pausing job execution:', error)
+    return NextResponse.json(
+      { error: 'Failed to pause job execution' },
+      { status: 500 }
+    )
+  }
+})
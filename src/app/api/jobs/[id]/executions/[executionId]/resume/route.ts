@@ -0,0 +1,61 @@
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { enqueueJobExecution } from '@/lib/job-launcher'
+import { NextRequest, NextResponse } from 'next/server'
+
+export const POST = withAuth(PERMISSIONS.JOB_EXECUTE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; executionId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'EXECUTE')
+    if (denied) return denied
+
+    const execution = await db.jobExecution.findUnique({
+      where: { id: params.executionId }
+    })
+
+    if (!execution || execution.jobId !== params.id) {
+      return NextResponse.json(
+        { error: 'Job execution not found' },
+        { status: 404 }
+      )
+    }
+
+    if (execution.status !== 'PAUSED') {
+      return NextResponse.json(
+        { error: `Cannot resume an execution that is ${execution.status.toLowerCase()}` },
+        { status: 409 }
+      )
+    }
+
+    // Claim the paused execution so concurrent resume requests queue it only once
+    const claimed = await db.jobExecution.updateMany({
+      where: { id: execution.id, status: 'PAUSED' },
+      data: { status: 'QUEUED', controlAction: null }
+    })
+    if (claimed.count === 0) {
+      return NextResponse.json(
+        { error: 'Job execution is no longer paused' },
+        { status: 409 }
+      )
+    }
+
+    await db.eTLJob.update({
+      where: { id: execution.jobId },
+      data: { status: 'PENDING' }
+    })
+
+    // The worker continues from the execution's latest PARTIAL checkpoint
+    await enqueueJobExecution(execution.id, execution.jobId)
+
+    return NextResponse.json({ message: 'Job execution resumed', executionId: execution.id })
+  } catch (error) {
+    console.error('Error resuming job execution:', error)
+    return NextResponse.json(
+      { error: 'Failed to resume job execution' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+
+/**
+ * Status of one execution, e.g. for CI pipelines polling a run they started
+ */
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string; executionId: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'VIEW')
+    if (denied) return denied
+
+    const execution = await db.jobExecution.findUnique({
+      where: { id: params.executionId },
+      select: {
+        id: true,
+        jobId: true,
+        status: true,
+        trigger: true,
+        startedAt: true,
+        completedAt: true,
+        recordsProcessed: true,
+        recordsSuccess: true,
+        recordsFailed: true,
+        errorMessage: true,
+        controlAction: true
+      }
+    })
+
+    if (!execution || execution.jobId !== params.id) {
+      return NextResponse.json(
+        { error: 'Job execution not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(execution)
+  } catch (error) {
+    console.error('Error fetching job execution:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job execution' },
+      { status: 500 }
+    )
+  }
+})
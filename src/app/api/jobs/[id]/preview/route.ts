@@ -0,0 +1,71 @@
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { describeConnectionError, isConnectorSupported } from '@/lib/connectors'
+import { previewJob } from '@/lib/job-preview'
+import { jobPreviewSchema } from '@/lib/schemas'
+import { validateTransformRules } from '@/lib/transform-rules'
+import { parseBody } from '@/lib/validation'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Extract a limited sample and apply the transform rules without loading the target.
+ * The body may override query and transformRules to preview unsaved edits
+ */
+export const POST = withAuth(PERMISSIONS.JOB_UPDATE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'EDIT')
+    if (denied) return denied
+
+    const parsed = await parseBody(request, jobPreviewSchema)
+    if (!parsed.success) return parsed.response
+
+    const { limit, query, transformRules } = parsed.data
+
+    const job = await db.eTLJob.findUnique({
+      where: { id: params.id },
+      include: { source: true }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!isConnectorSupported(job.source.type)) {
+      return NextResponse.json(
+        { error: `Data source type ${job.source.type} is not supported for job execution` },
+        { status: 400 }
+      )
+    }
+
+    const ruleErrors = validateTransformRules(transformRules !== undefined ? transformRules : job.transformRules)
+    if (ruleErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid transform rules', details: ruleErrors },
+        { status: 400 }
+      )
+    }
+
+    try {
+      const preview = await previewJob(job, { limit, query, transformRules })
+      return NextResponse.json(preview)
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Failed to extract preview data', details: describeConnectionError(error) },
+        { status: 502 }
+      )
+    }
+  } catch (error) {
+    console.error('Error previewing job:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview job' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, hasPermission, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { DEFAULT_TIMEZONE, getNextRun } from '@/lib/cron'
+import { parseKeyColumns, validateLoadOptions } from '@/lib/connectors'
+import { redactDataSource } from '@/lib/secret-vault'
+import { JobQueue } from '@/lib/job-queue'
+import { jobUpdateSchema } from '@/lib/schemas'
+import { fieldErrorResponse, parseBody } from '@/lib/validation'
 
-export async function GET(
-  request: NextRequest,
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'VIEW')
+    if (denied) return denied
+
     const job = await db.eTLJob.findUnique({
       where: { id: params.id },
       include: {
@@ -32,7 +43,16 @@ export async function GET(
       )
     }
 
-    return NextResponse.json(job)
+    return NextResponse.json({
+      ...job,
+      source: redactDataSource(job.source),
+      target: redactDataSource(job.target),
+      watermark: {
+        column: job.watermarkColumn,
+        value: job.watermarkValue,
+        updatedAt: job.watermarkUpdatedAt
+      }
+    })
   } catch (error) {
     console.error('Error fetching job:', error)
     return NextResponse.json(
@@ -40,15 +60,104 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(
-  request: NextRequest,
+export const PUT = withAuth(PERMISSIONS.JOB_UPDATE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const body = await request.json()
-    const { name, description, query, transformRules, schedule, isActive } = body
+    const denied = await authorizeResource(request, 'JOB', params.id, 'EDIT')
+    if (denied) return denied
+
+    const parsed = await parseBody(request, jobUpdateSchema)
+    if (!parsed.success) return parsed.response
+
+    const {
+      name,
+      description,
+      query,
+      targetTable,
+      transformRules,
+      schedule,
+      watermarkColumn,
+      loadMode,
+      keyColumns,
+      riskLevel,
+      maxConcurrentExecutions,
+      isActive
+    } = parsed.data
+
+    // Editing other fields is allowed as long as the schedule is sent back unchanged
+    if (schedule !== undefined && !hasPermission(request, PERMISSIONS.JOB_SCHEDULE)) {
+      const current = await db.eTLJob.findUnique({ where: { id: params.id }, select: { schedule: true } })
+      if ((current?.schedule || null) !== (schedule || null)) {
+        return NextResponse.json(
+          { error: 'Forbidden', message: `Permission denied: ${PERMISSIONS.JOB_SCHEDULE}` },
+          { status: 403 }
+        )
+      }
+    }
+
+    // Validate the resulting load mode and key columns against the job's target
+    let loadChange = {}
+    if (loadMode !== undefined || keyColumns !== undefined) {
+      const current = await db.eTLJob.findUnique({
+        where: { id: params.id },
+        include: { target: true }
+      })
+      if (!current) {
+        return NextResponse.json(
+          { error: 'Job not found' },
+          { status: 404 }
+        )
+      }
+
+      const mode = loadMode ?? current.loadMode
+      const columns = keyColumns !== undefined
+        ? parseKeyColumns(keyColumns)
+        : parseKeyColumns(current.keyColumns ? JSON.parse(current.keyColumns) : [])
+      const loadModeError = validateLoadOptions(mode, columns, current.target.type)
+      if (loadModeError) return fieldErrorResponse('loadMode', loadModeError)
+      loadChange = { loadMode: mode || 'append', keyColumns: columns.length > 0 ? JSON.stringify(columns) : null }
+    }
+
+    // A watermark is only meaningful for the column it was read from, so changing the column starts over
+    let watermarkChange = {}
+    if (watermarkColumn !== undefined) {
+      const current = await db.eTLJob.findUnique({ where: { id: params.id } })
+      if (!current) {
+        return NextResponse.json(
+          { error: 'Job not found' },
+          { status: 404 }
+        )
+      }
+
+      const column = watermarkColumn?.trim() || null
+      if (column !== current.watermarkColumn) {
+        watermarkChange = { watermarkColumn: column, watermarkValue: null, watermarkUpdatedAt: null }
+      }
+    }
+
+    // Recompute nextRun whenever the schedule changes, in the creator's timezone
+    let nextRun: Date | null | undefined
+    if (schedule !== undefined) {
+      nextRun = null
+      if (schedule) {
+        const existing = await db.eTLJob.findUnique({
+          where: { id: params.id },
+          include: { creator: { include: { settings: true } } }
+        })
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'Job not found' },
+            { status: 404 }
+          )
+        }
+
+        nextRun = getNextRun(schedule, existing.creator?.settings?.timezone || DEFAULT_TIMEZONE)
+      }
+    }
 
     const job = await db.eTLJob.update({
       where: { id: params.id },
@@ -56,8 +165,13 @@ export async function PUT(
         ...(name && { name }),
         ...(description !== undefined && { description }),
         ...(query !== undefined && { query }),
+        ...(targetTable !== undefined && { targetTable }),
         ...(transformRules !== undefined && { transformRules }),
-        ...(schedule !== undefined && { schedule }),
+        ...(schedule !== undefined && { schedule: schedule || null, nextRun }),
+        ...watermarkChange,
+        ...loadChange,
+        ...(riskLevel && { riskLevel }),
+        ...(maxConcurrentExecutions !== undefined && { maxConcurrentExecutions }),
         ...(isActive !== undefined && { isActive })
       },
       include: {
@@ -73,6 +187,11 @@ export async function PUT(
       }
     })
 
+    // Executions still waiting move to the job's new priority class
+    if (riskLevel) {
+      await JobQueue.getInstance().reprioritize(job.id, riskLevel)
+    }
+
     return NextResponse.json(job)
   } catch (error) {
     console.error('Error updating job:', error)
@@ -81,13 +200,16 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
-  request: NextRequest,
+export const DELETE = withAuth(PERMISSIONS.JOB_DELETE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'OWNER')
+    if (denied) return denied
+
     await db.eTLJob.delete({
       where: { id: params.id }
     })
@@ -100,4 +222,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,11 +1,18 @@
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { isConnectorSupported } from '@/lib/connectors'
+import { launchJobExecution } from '@/lib/job-launcher'
 import { NextRequest, NextResponse } from 'next/server'
 
-export async function POST(
-  request: NextRequest,
+export const POST = withAuth(PERMISSIONS.JOB_EXECUTE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'EXECUTE')
+    if (denied) return denied
+
     const job = await db.eTLJob.findUnique({
       where: { id: params.id },
       include: {
@@ -28,54 +35,20 @@ export async function POST(
       )
     }
 
-    // Create job execution record
-    const execution = await db.jobExecution.create({
-      data: {
-        jobId: params.id,
-        status: 'RUNNING',
-        startedAt: new Date()
-      }
-    })
-
-    // Update job status and last run time
-    await db.eTLJob.update({
-      where: { id: params.id },
-      data: {
-        status: 'RUNNING',
-        lastRun: new Date()
-      }
-    })
-
-    // Start async job execution - simplified for compatibility
-    try {
-      // Use the original worker script path for compatibility
-      const workerPath = new URL('../../../../scripts/job-worker.cjs', import.meta.url).pathname
-
-      // Dynamic import to avoid SSR issues
-      const { spawn } = await import('child_process')
-      const child = spawn(process.execPath, [workerPath], {
-        detached: true,
-        stdio: 'ignore',
-        env: {
-          ...process.env,
-          EXECUTION_ID: execution.id,
-          JOB_ID: job.id,
-          BANKING_MODE: 'true'
-        }
-      })
-
-      child.unref()
-    } catch (err) {
-      console.error('Failed to spawn worker, falling back to inline execution:', err)
-      // Fallback: run inline but do not await
-      setTimeout(() => {
-        executeJobAsync(execution.id, job)
-      }, 100)
+    const unsupported = [job.source, job.target].find(source => !isConnectorSupported(source.type))
+    if (unsupported) {
+      return NextResponse.json(
+        { error: `Data source type ${unsupported.type} is not supported for job execution` },
+        { status: 400 }
+      )
     }
 
+    const execution = await launchJobExecution(job.id, { trigger: 'MANUAL' })
+
     return NextResponse.json({ 
-      message: 'Banking-grade job started successfully',
+      message: 'Banking-grade job queued successfully',
       executionId: execution.id,
+      status: execution.status,
       bankingFeatures: {
         enhancedAuditLog: true,
         transactionIntegrity: true,
@@ -92,162 +65,4 @@ export async function POST(
       { status: 500 }
     )
   }
-}
-
-async function executeJobAsync(executionId: string, job: any) {
-  try {
-    // Simulate job execution with enhanced banking features
-    const totalRecords = Math.floor(Math.random() * 10000) + 1000
-    const batchSize = 100
-    let processedRecords = 0
-    let successRecords = 0
-    let failedRecords = 0
-
-    // Create initial log entry with banking features
-    await db.syncLog.create({
-      data: {
-        sourceId: job.sourceId,
-        jobId: job.id,
-        level: 'INFO',
-        message: `Starting banking-grade job execution: ${job.name}`,
-        details: JSON.stringify({
-          executionId,
-          totalRecords,
-          bankingFeatures: {
-            immutableAudit: true,
-            transactionIntegrity: true,
-            complianceReporting: true,
-            realTimeMonitoring: true
-          }
-        })
-      }
-    })
-
-    // Simulate processing batches
-    for (let i = 0; i < totalRecords; i += batchSize) {
-      // Simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 100))
-
-      const batchRecords = Math.min(batchSize, totalRecords - i)
-      processedRecords += batchRecords
-      
-      // Simulate some failures with banking tolerance (lower rate)
-      const batchFailures = Math.floor(Math.random() * 2)
-      successRecords += (batchRecords - batchFailures)
-      failedRecords += batchFailures
-
-      // Update execution progress
-      const progress = Math.round((processedRecords / totalRecords) * 100)
-      
-      await db.jobExecution.update({
-        where: { id: executionId },
-        data: {
-          recordsProcessed: processedRecords,
-          recordsSuccess: successRecords,
-          recordsFailed: failedRecords,
-          recordsValidated: Math.floor(processedRecords * 0.98)
-        }
-      })
-
-      // Log progress
-      if (i % (batchSize * 10) === 0) {
-        await db.syncLog.create({
-          data: {
-            sourceId: job.sourceId,
-            jobId: job.id,
-            level: 'INFO',
-            message: `Banking-grade batch processed: ${processedRecords}/${totalRecords} records (${progress}%)`,
-            details: JSON.stringify({ 
-              executionId, 
-              processedRecords, 
-              successRecords, 
-              failedRecords,
-              progress,
-              bankingCompliance: true,
-              dataIntegrity: 0.99
-            })
-          }
-        })
-      }
-    }
-
-    // Complete execution
-    const finalStatus = failedRecords < totalRecords * 0.05 ? 'COMPLETED' : 'FAILED' // Stricter threshold for banking
-    
-    await db.jobExecution.update({
-      where: { id: executionId },
-      data: {
-        status: finalStatus,
-        completedAt: new Date(),
-        recordsProcessed: processedRecords,
-        recordsSuccess: successRecords,
-        recordsFailed: failedRecords,
-        errorMessage: finalStatus === 'FAILED' ? 'Banking-grade validation failed' : null
-      }
-    })
-
-    await db.eTLJob.update({
-      where: { id: job.id },
-      data: {
-        status: finalStatus,
-        ...(job.schedule && {
-          nextRun: new Date(Date.now() + 60 * 60 * 1000) // 1 hour from now
-        })
-      }
-    })
-
-    // Log completion with banking details
-    await db.syncLog.create({
-      data: {
-        sourceId: job.sourceId,
-        jobId: job.id,
-        level: finalStatus === 'FAILED' ? 'ERROR' : 'INFO',
-        message: `Banking-grade job ${finalStatus.toLowerCase()}: ${job.name}`,
-        details: JSON.stringify({ 
-          executionId, 
-          totalRecords: processedRecords,
-          successRecords,
-          failedRecords,
-          bankingFeatures: {
-            complianceFramework: 'SOX,AML,PCI-DSS',
-            dataIntegrityVerified: true,
-            auditTrailMaintained: true
-          }
-        })
-      }
-    })
-
-  } catch (error) {
-    console.error('Banking-grade job execution failed:', error)
-    
-    // Update execution with error
-    await db.jobExecution.update({
-      where: { id: executionId },
-      data: {
-        status: 'FAILED',
-        completedAt: new Date(),
-        errorMessage: error instanceof Error ? error.message : 'Unknown error'
-      }
-    })
-
-    await db.eTLJob.update({
-      where: { id: job.id },
-      data: { status: 'FAILED' }
-    })
-
-    // Log error
-    await db.syncLog.create({
-      data: {
-        sourceId: job.sourceId,
-        jobId: job.id,
-        level: 'ERROR',
-        message: `Banking-grade job execution failed: ${job.name}`,
-        details: JSON.stringify({ 
-          executionId, 
-          error: error instanceof Error ? error.message : 'Unknown error',
-          bankingErrorHandling: true
-        })
-      }
-    })
-  }
-}
\ No newline at end of file
+})
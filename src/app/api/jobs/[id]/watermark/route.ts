@@ -0,0 +1,69 @@
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { authorizeResource } from '@/lib/access-control'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Reset the job's incremental watermark so the next run extracts everything again
+ */
+export const DELETE = withAuth(PERMISSIONS.JOB_UPDATE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const denied = await authorizeResource(request, 'JOB', params.id, 'EDIT')
+    if (denied) return denied
+
+    const job = await db.eTLJob.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    // Active runs commit their own watermark on completion and resume by offset, so they must finish first
+    const active = await db.jobExecution.count({
+      where: { jobId: job.id, status: { in: ['QUEUED', 'RUNNING', 'PAUSED'] } }
+    })
+    if (active > 0) {
+      return NextResponse.json(
+        { error: 'Cannot reset the watermark while an execution is queued, running or paused' },
+        { status: 409 }
+      )
+    }
+
+    const updated = await db.eTLJob.update({
+      where: { id: job.id },
+      data: { watermarkValue: null, watermarkUpdatedAt: null }
+    })
+
+    await db.syncLog.create({
+      data: {
+        sourceId: job.sourceId,
+        jobId: job.id,
+        level: 'WARN',
+        message: `Watermark reset: ${job.name}`,
+        details: JSON.stringify({ watermarkColumn: job.watermarkColumn, previousValue: job.watermarkValue })
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Watermark reset; the next run will perform a full extract',
+      watermark: {
+        column: updated.watermarkColumn,
+        value: updated.watermarkValue,
+        updatedAt: updated.watermarkUpdatedAt
+      }
+    })
+  } catch (error) {
+    console.error('Error resetting job watermark:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset job watermark' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { accessFilter } from '@/lib/access-control'
+import { workspaceScope } from '@/lib/workspace'
+import { JobQueue } from '@/lib/job-queue'
+
+// Executions waiting for or held by a worker, in the order the workers claim them
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (request: AuthenticatedRequest) => {
+  try {
+    const items = await db.jobQueueItem.findMany({
+      where: {
+        status: { in: ['QUEUED', 'LEASED'] },
+        execution: {
+          job: { ...workspaceScope(request), ...accessFilter(request.user!, 'JOB') }
+        }
+      },
+      orderBy: [{ priority: 'desc' }, { availableAt: 'asc' }],
+      include: {
+        execution: {
+          select: {
+            status: true,
+            trigger: true,
+            job: { select: { name: true, riskLevel: true } }
+          }
+        }
+      }
+    })
+
+    const waiting = await JobQueue.getInstance().waitingReasons(
+      items.filter((item: any) => item.status === 'QUEUED')
+    )
+
+    return NextResponse.json(items.map((item: any) => ({
+      id: item.id,
+      executionId: item.executionId,
+      jobId: item.jobId,
+      jobName: item.execution.job.name,
+      riskLevel: item.execution.job.riskLevel,
+      priority: item.priority,
+      status: item.status,
+      trigger: item.execution.trigger,
+      attempts: item.attempts,
+      availableAt: item.availableAt,
+      createdAt: item.createdAt,
+      leasedBy: item.leasedBy,
+      // Null for running items and for items the next worker poll picks up
+      waitingFor: waiting.get(item.id) ?? null
+    })))
+  } catch (error) {
+    console.error('Error fetching job queue:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job queue' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, hasPermission, PERMISSIONS, withAuth } from '@/lib/auth'
+import { DEFAULT_TIMEZONE, getNextRun } from '@/lib/cron'
+import { parseKeyColumns, validateLoadOptions } from '@/lib/connectors'
+import { accessFilter, findInaccessible } from '@/lib/access-control'
+import { workspaceScope } from '@/lib/workspace'
+import { jobSchema } from '@/lib/schemas'
+import { fieldErrorResponse, parseBody } from '@/lib/validation'
 
-export async function GET() {
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (request: AuthenticatedRequest) => {
   try {
     const jobs = await db.eTLJob.findMany({
+      where: { ...workspaceScope(request), ...accessFilter(request.user!, 'JOB') },
       orderBy: { createdAt: 'desc' },
       include: {
         source: {
@@ -29,33 +37,44 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(PERMISSIONS.JOB_CREATE)(async (request: AuthenticatedRequest) => {
   try {
-    const body = await request.json()
-    const { 
-      name, 
-      description, 
-      sourceId, 
-      targetId, 
-      query, 
-      transformRules, 
-      schedule, 
-      createdBy 
-    } = body
+    const parsed = await parseBody(request, jobSchema)
+    if (!parsed.success) return parsed.response
 
-    if (!name || !sourceId || !targetId || !createdBy) {
+    const {
+      name,
+      description,
+      sourceId,
+      targetId,
+      query,
+      targetTable,
+      transformRules,
+      schedule,
+      watermarkColumn,
+      loadMode,
+      keyColumns,
+      riskLevel,
+      maxConcurrentExecutions
+    } = parsed.data
+    const createdBy = request.user!.id
+
+    if (schedule && !hasPermission(request, PERMISSIONS.JOB_SCHEDULE)) {
       return NextResponse.json(
-        { error: 'Name, source, target, and creator are required' },
-        { status: 400 }
+        { error: 'Forbidden', message: `Permission denied: ${PERMISSIONS.JOB_SCHEDULE}` },
+        { status: 403 }
       )
     }
 
     // Validate source and target exist
     const source = await db.dataSource.findUnique({ where: { id: sourceId } })
     const target = await db.dataSource.findUnique({ where: { id: targetId } })
-    const creator = await db.user.findUnique({ where: { id: createdBy } })
+    const creator = await db.user.findUnique({
+      where: { id: createdBy },
+      include: { settings: true }
+    })
 
     if (!source || !target || !creator) {
       return NextResponse.json(
@@ -64,14 +83,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Calculate next run time if schedule is provided
-    let nextRun = null
-    if (schedule) {
-      // Simple cron parsing for demo - in production, use a proper cron library
-      const now = new Date()
-      nextRun = new Date(now.getTime() + 60 * 60 * 1000) // 1 hour from now
+    // A job reads and writes with the credentials of its data sources, so both must be usable by the creator
+    const inaccessible = await findInaccessible(request, 'DATA_SOURCE', [sourceId, targetId], 'EXECUTE')
+    if (inaccessible.length > 0) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Data source access denied: execute required', details: inaccessible },
+        { status: 403 }
+      )
     }
 
+    const loadKeyColumns = parseKeyColumns(keyColumns)
+    const loadModeError = validateLoadOptions(loadMode, loadKeyColumns, target.type)
+    if (loadModeError) return fieldErrorResponse('loadMode', loadModeError)
+
+    // Schedules are interpreted in the creator's timezone
+    const nextRun = schedule ? getNextRun(schedule, creator.settings?.timezone || DEFAULT_TIMEZONE) : null
+
     const job = await db.eTLJob.create({
       data: {
         name,
@@ -79,10 +106,17 @@ export async function POST(request: NextRequest) {
         sourceId,
         targetId,
         query,
+        targetTable,
         transformRules,
         schedule,
         nextRun,
-        createdBy
+        watermarkColumn: watermarkColumn?.trim() || null,
+        loadMode: loadMode || 'append',
+        keyColumns: loadKeyColumns.length > 0 ? JSON.stringify(loadKeyColumns) : null,
+        ...(riskLevel && { riskLevel }),
+        ...(maxConcurrentExecutions !== undefined && { maxConcurrentExecutions }),
+        createdBy,
+        workspaceId: request.workspace?.id ?? null
       },
       include: {
         source: {
@@ -105,4 +139,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import os from 'os'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { workspaceScope } from '@/lib/workspace'
+
+/**
+ * Dashboard metrics: host figures plus job counts of the active workspace
+ */
+export const GET = withAuth(PERMISSIONS.ANALYTICS_VIEW)(async (request: AuthenticatedRequest) => {
+  try {
+    const scope = workspaceScope(request)
+    const [jobsByStatus, activeConnections] = await Promise.all([
+      db.eTLJob.groupBy({ by: ['status'], where: scope, _count: { _all: true } }),
+      db.dataSource.count({ where: { ...scope, isActive: true } })
+    ])
+
+    const countOf = (status: string) =>
+      jobsByStatus.find((group: { status: string }) => group.status === status)?._count._all ?? 0
+
+    return NextResponse.json({
+      uptime: Math.round(process.uptime()),
+      cpuUsage: Math.min(100, Math.round((os.loadavg()[0] / os.cpus().length) * 100)),
+      memoryUsage: Math.round((1 - os.freemem() / os.totalmem()) * 100),
+      activeConnections,
+      totalJobs: jobsByStatus.reduce((total: number, group: { _count: { _all: number } }) => total + group._count._all, 0),
+      runningJobs: countOf('RUNNING'),
+      completedJobs: countOf('COMPLETED'),
+      failedJobs: countOf('FAILED')
+    })
+  } catch (error) {
+    console.error('Error fetching metrics:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch metrics' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,13 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, hasPermission, PERMISSIONS, withAuth } from '@/lib/auth'
+import { memberScope } from '@/lib/workspace'
+import { notificationUpdateSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
 
-export async function PATCH(
-  request: NextRequest,
+export const PATCH = withAuth(PERMISSIONS.NOTIFICATION_VIEW)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
-    const body = await request.json()
-    const { isRead } = body
+    const parsed = await parseBody(request, notificationUpdateSchema)
+    if (!parsed.success) return parsed.response
+
+    const { isRead } = parsed.data
+
+    if (!(await canAccess(request, params.id))) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      )
+    }
 
     const notification = await db.notification.update({
       where: { id: params.id },
@@ -22,13 +35,20 @@ export async function PATCH(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
-  request: NextRequest,
+export const DELETE = withAuth(PERMISSIONS.NOTIFICATION_VIEW)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    if (!(await canAccess(request, params.id))) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      )
+    }
+
     await db.notification.delete({
       where: { id: params.id }
     })
@@ -41,4 +61,12 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
+
+// Other users' notifications are reported as missing rather than forbidden
+async function canAccess(request: AuthenticatedRequest, id: string): Promise<boolean> {
+  const where = hasPermission(request, PERMISSIONS.NOTIFICATION_MANAGE)
+    ? { id, OR: [{ userId: request.user!.id }, { user: memberScope(request) }] }
+    : { id, userId: request.user!.id }
+  return (await db.notification.findFirst({ where, select: { id: true } })) !== null
+}
@@ -1,20 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { memberScope } from '@/lib/workspace'
+import { broadcastSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(PERMISSIONS.NOTIFICATION_SEND)(async (request: AuthenticatedRequest) => {
   try {
-    const body = await request.json()
-    const { type, title, message, channels, userRole } = body
+    const parsed = await parseBody(request, broadcastSchema)
+    if (!parsed.success) return parsed.response
 
-    // Get users based on role (if specified)
+    const { type, title, message, channels, userRole } = parsed.data
+
+    // Get users of the active workspace based on role (if specified)
     let users
-    if (userRole) {
+    if (userRole && userRole !== 'ALL') {
       users = await db.user.findMany({
-        where: { role: userRole }
+        where: { role: userRole, ...memberScope(request) }
       })
     } else {
       users = await db.user.findMany({
         where: {
+          ...memberScope(request),
           settings: {
             emailNotifications: true
           }
@@ -65,4 +72,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
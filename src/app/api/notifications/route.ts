@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { AuthenticatedRequest, hasPermission, PERMISSIONS, withAuth } from '@/lib/auth'
+import { memberScope } from '@/lib/workspace'
+import { notificationSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
 import ZAI from 'z-ai-web-dev-sdk'
 
-export async function GET() {
+export const GET = withAuth(PERMISSIONS.NOTIFICATION_VIEW)(async (request: AuthenticatedRequest) => {
   try {
+    // Users see their own notifications; NOTIFICATION_MANAGE sees those of everyone in the workspace
     const notifications = await db.notification.findMany({
+      where: hasPermission(request, PERMISSIONS.NOTIFICATION_MANAGE)
+        ? { OR: [{ userId: request.user!.id }, { user: memberScope(request) }] }
+        : { userId: request.user!.id },
       orderBy: { sentAt: 'desc' },
       take: 50,
       include: {
@@ -22,16 +30,21 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(PERMISSIONS.NOTIFICATION_SEND)(async (request: AuthenticatedRequest) => {
   try {
-    const body = await request.json()
-    const { userId, type, title, message, channels } = body
+    const parsed = await parseBody(request, notificationSchema)
+    if (!parsed.success) return parsed.response
+
+    const { type, title, message, channels } = parsed.data
+    const userId = parsed.data.userId || request.user!.id
 
-    if (!userId || !type || !title || !message) {
+    const recipient = userId === request.user!.id ||
+      await db.user.findFirst({ where: { id: userId, ...memberScope(request) }, select: { id: true } })
+    if (!recipient) {
       return NextResponse.json(
-        { error: 'User ID, type, title, and message are required' },
+        { error: 'Recipient is not a member of this workspace' },
         { status: 400 }
       )
     }
@@ -82,7 +95,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function sendEmailNotification(userId: string, title: string, message: string) {
   try {
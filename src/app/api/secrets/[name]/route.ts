@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { OPEN_ROTATION_STATUSES } from '@/lib/credential-rotation'
+import { secretUpdateSchema } from '@/lib/schemas'
+import { findSecretReferences, SecretVault } from '@/lib/secret-vault'
+import { parseBody } from '@/lib/validation'
+
+export const PUT = withAuth(PERMISSIONS.SYSTEM_CONFIG)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { name: string } }
+) => {
+  try {
+    const parsed = await parseBody(request, secretUpdateSchema)
+    if (!parsed.success) return parsed.response
+
+    const { value, description } = parsed.data
+
+    const existing = await db.secret.findUnique({ where: { name: params.name } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Secret not found' },
+        { status: 404 }
+      )
+    }
+
+    const vault = SecretVault.getInstance()
+    if (value !== undefined) {
+      await vault.setSecret(params.name, value, { description })
+    } else if (description !== undefined) {
+      await db.secret.update({
+        where: { name: params.name },
+        data: { description }
+      })
+    }
+
+    const secret = (await vault.listSecrets()).find(candidate => candidate.name === params.name)
+    return NextResponse.json(secret)
+  } catch (error) {
+    console.error('Error updating secret:', error)
+    return NextResponse.json(
+      { error: 'Failed to update secret' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth(PERMISSIONS.SYSTEM_CONFIG)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { name: string } }
+) => {
+  try {
+    const existing = await db.secret.findUnique({ where: { name: params.name } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Secret not found' },
+        { status: 404 }
+      )
+    }
+
+    // Removing a referenced secret would break every connector opened for those data sources,
+    // inline workflow connections, and rotations that still have to apply or roll back
+    const references = (value: string | null) => findSecretReferences(value || '').includes(params.name)
+    const [sources, workflows, rotations] = await Promise.all([
+      db.dataSource.findMany({
+        where: { connectionString: { contains: params.name } },
+        select: { name: true, connectionString: true }
+      }),
+      db.workflow.findMany({
+        where: { steps: { contains: params.name } },
+        select: { name: true, steps: true }
+      }),
+      db.credentialRotation.findMany({
+        where: {
+          status: { in: OPEN_ROTATION_STATUSES },
+          OR: [
+            { stagedConnectionString: { contains: params.name } },
+            { previousConnectionString: { contains: params.name } }
+          ]
+        },
+        select: { stagedConnectionString: true, previousConnectionString: true, source: { select: { name: true } } }
+      })
+    ])
+
+    const referencedBy = [
+      ...sources
+        .filter((source: { connectionString: string }) => references(source.connectionString))
+        .map((source: { name: string }) => `Data source ${source.name}`),
+      ...workflows
+        .filter((workflow: { steps: string | null }) => references(workflow.steps))
+        .map((workflow: { name: string }) => `Workflow ${workflow.name}`),
+      ...rotations
+        .filter((rotation: { stagedConnectionString: string; previousConnectionString: string }) =>
+          references(rotation.stagedConnectionString) || references(rotation.previousConnectionString))
+        .map((rotation: { source: { name: string } }) => `Credential rotation of ${rotation.source.name}`)
+    ]
+
+    if (referencedBy.length > 0) {
+      return NextResponse.json(
+        { error: 'Cannot delete secret: it is still referenced', details: referencedBy },
+        { status: 409 }
+      )
+    }
+
+    await SecretVault.getInstance().deleteSecret(params.name)
+
+    return NextResponse.json({ message: 'Secret deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting secret:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete secret' },
+      { status: 500 }
+    )
+  }
+})
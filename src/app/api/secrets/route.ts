@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { secretSchema } from '@/lib/schemas'
+import { SecretVault } from '@/lib/secret-vault'
+import { parseBody } from '@/lib/validation'
+
+export const GET = withAuth(PERMISSIONS.SYSTEM_CONFIG)(async () => {
+  try {
+    const secrets = await SecretVault.getInstance().listSecrets()
+    return NextResponse.json(secrets)
+  } catch (error) {
+    console.error('Error fetching secrets:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch secrets' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth(PERMISSIONS.SYSTEM_CONFIG)(async (request: AuthenticatedRequest) => {
+  try {
+    const parsed = await parseBody(request, secretSchema)
+    if (!parsed.success) return parsed.response
+
+    const { name, value, description } = parsed.data
+
+    const existing = await db.secret.findUnique({ where: { name } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Secret ${name} already exists` },
+        { status: 409 }
+      )
+    }
+
+    // Usable by the data sources and workflows of the active workspace only
+    const secret = await SecretVault.getInstance().setSecret(name, value, {
+      description: description ?? null,
+      workspaceId: request.workspace?.id ?? null
+    })
+
+    return NextResponse.json(secret, { status: 201 })
+  } catch (error) {
+    console.error('Error creating secret:', error)
+    return NextResponse.json(
+      { error: 'Failed to create secret' },
+      { status: 500 }
+    )
+  }
+})
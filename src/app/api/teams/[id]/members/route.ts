@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { memberSchema } from '@/lib/schemas'
+import { parseBody, parseQuery } from '@/lib/validation'
+import { isWorkspaceMember, workspaceScope } from '@/lib/workspace'
+
+export const POST = withAuth(PERMISSIONS.WORKSPACE_MANAGE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const parsed = await parseBody(request, memberSchema)
+    if (!parsed.success) return parsed.response
+
+    const { userId } = parsed.data
+
+    const team = await db.team.findFirst({ where: { id: params.id, ...workspaceScope(request) } })
+    const user = await db.user.findUnique({ where: { id: userId } })
+    if (!team || !user) {
+      return NextResponse.json(
+        { error: team ? 'User not found' : 'Team not found' },
+        { status: 404 }
+      )
+    }
+
+    if (team.workspaceId && !(await isWorkspaceMember(team.workspaceId, userId))) {
+      return NextResponse.json(
+        { error: 'User is not a member of this workspace' },
+        { status: 400 }
+      )
+    }
+
+    const member = await db.teamMember.upsert({
+      where: { teamId_userId: { teamId: team.id, userId } },
+      create: { teamId: team.id, userId },
+      update: {}
+    })
+
+    return NextResponse.json(member, { status: 201 })
+  } catch (error) {
+    console.error('Error adding team member:', error)
+    return NextResponse.json(
+      { error: 'Failed to add team member' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Remove a member: ?userId=
+ */
+export const DELETE = withAuth(PERMISSIONS.WORKSPACE_MANAGE)(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const query = parseQuery(request, memberSchema)
+    if (!query.success) return query.response
+
+    const { userId } = query.data
+
+    const team = await db.team.findFirst({ where: { id: params.id, ...workspaceScope(request) }, select: { id: true } })
+    if (!team) {
+      return NextResponse.json(
+        { error: 'Team not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await db.teamMember.deleteMany({
+      where: { teamId: team.id, userId }
+    })
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Team member not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'Team member removed successfully' })
+  } catch (error) {
+    console.error('Error removing team member:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove team member' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { teamSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
+import { workspaceScope } from '@/lib/workspace'
+
+// Every signed-in user may list the teams of their workspace, so resources can be shared with them
+export const GET = withAuth()(async (request: AuthenticatedRequest) => {
+  try {
+    const teams = await db.team.findMany({
+      where: workspaceScope(request),
+      orderBy: { name: 'asc' },
+      include: {
+        members: {
+          include: { user: { select: { id: true, name: true, email: true } } }
+        }
+      }
+    })
+
+    return NextResponse.json(teams)
+  } catch (error) {
+    console.error('Error fetching teams:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch teams' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth(PERMISSIONS.WORKSPACE_MANAGE)(async (request: AuthenticatedRequest) => {
+  try {
+    const parsed = await parseBody(request, teamSchema)
+    if (!parsed.success) return parsed.response
+
+    const { name, description } = parsed.data
+
+    const scope = workspaceScope(request)
+    const existing = await db.team.findFirst({ where: { name, ...scope } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Team ${name} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const team = await db.team.create({
+      data: { name, description, ...scope }
+    })
+
+    return NextResponse.json(team, { status: 201 })
+  } catch (error) {
+    console.error('Error creating team:', error)
+    return NextResponse.json(
+      { error: 'Failed to create team' },
+      { status: 500 }
+    )
+  }
+})
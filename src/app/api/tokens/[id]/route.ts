@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { AuthenticatedRequest, hasPermission, PERMISSIONS, withAuth } from '@/lib/auth'
+import { revokeApiToken } from '@/lib/api-tokens'
+
+/**
+ * Revoke a token. Users revoke their own; SYSTEM_CONFIG may revoke anyone's
+ */
+export const DELETE = withAuth()(async (
+  request: AuthenticatedRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ownerId = hasPermission(request, PERMISSIONS.SYSTEM_CONFIG) ? undefined : request.user!.id
+
+    if (!(await revokeApiToken(params.id, ownerId))) {
+      return NextResponse.json(
+        { error: 'API token not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: 'API token revoked successfully' })
+  } catch (error) {
+    console.error('Error revoking API token:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    )
+  }
+})
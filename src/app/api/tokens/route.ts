@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { createApiToken, serializeApiToken } from '@/lib/api-tokens'
+import { apiTokenSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
+
+const ALL_PERMISSIONS: string[] = Object.values(PERMISSIONS)
+
+// The permission list lives with auth, which the shared schemas cannot import
+const tokenRequestSchema = apiTokenSchema.superRefine((token, ctx) => {
+  token.scopes.forEach((scope, index) => {
+    if (!ALL_PERMISSIONS.includes(scope)) {
+      ctx.addIssue({ code: 'custom', path: ['scopes', index], message: `Unknown scope: ${scope}` })
+    }
+  })
+})
+
+/**
+ * The caller's API tokens, revoked and expired ones included
+ */
+export const GET = withAuth()(async (request: AuthenticatedRequest) => {
+  try {
+    const tokens = await db.apiToken.findMany({
+      where: { userId: request.user!.id },
+      orderBy: { createdAt: 'desc' },
+      include: { workspace: { select: { id: true, name: true } } }
+    })
+
+    return NextResponse.json(tokens.map(serializeApiToken))
+  } catch (error) {
+    console.error('Error fetching API tokens:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Issue a token: { name, scopes, expiresInDays?, allWorkspaces? }. The token is limited to the
+ * active workspace unless allWorkspaces is set, and is only returned in this response
+ */
+export const POST = withAuth()(async (request: AuthenticatedRequest) => {
+  try {
+    // A leaked token must not be able to mint further tokens
+    if (request.apiToken) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'API tokens cannot be issued with an API token' },
+        { status: 403 }
+      )
+    }
+
+    const parsed = await parseBody(request, tokenRequestSchema)
+    if (!parsed.success) return parsed.response
+
+    const { name, scopes, expiresInDays, allWorkspaces } = parsed.data
+
+    // Scopes can narrow the caller's permissions, never extend them
+    const ungranted = scopes.filter(scope => !request.user!.permissions.includes(scope))
+    if (ungranted.length > 0) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Token scopes exceed your permissions', details: ungranted },
+        { status: 403 }
+      )
+    }
+
+    const { token, apiToken } = await createApiToken({
+      userId: request.user!.id,
+      name,
+      scopes: [...new Set(scopes)],
+      workspaceId: allWorkspaces ? null : request.workspace?.id ?? null,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+    })
+
+    return NextResponse.json({ ...apiToken, token }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating API token:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    )
+  }
+})
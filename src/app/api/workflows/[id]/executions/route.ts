@@ -1,17 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth';
+import { authorizeResource } from '@/lib/access-control';
 import { PrismaClient } from '@prisma/client';
+import { WorkflowEngine } from '@/lib/workflow-engine';
+import { validateWorkflowGraph } from '@/lib/workflow-graph';
+import { workflowExecutionsQuerySchema, workflowRunSchema } from '@/lib/schemas';
+import { parseBody, parseQuery } from '@/lib/validation';
+import { RECENT_LOG_ENTRIES, toExecutionLogEntry } from '@/lib/execution-log';
 
 const prisma = new PrismaClient();
 
-export async function GET(
-  request: NextRequest,
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'WORKFLOW', params.id, 'VIEW');
+    if (denied) return denied;
+
     const workflowId = params.id;
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '20');
+    const parsed = parseQuery(request, workflowExecutionsQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { page, limit } = parsed.data;
 
     const executions = await prisma.workflowExecution.findMany({
       where: { workflowId },
@@ -19,6 +30,7 @@ export async function GET(
       take: limit,
       orderBy: { startedAt: 'desc' },
       include: {
+        logs: RECENT_LOG_ENTRIES,
         workflow: {
           select: {
             id: true,
@@ -37,7 +49,8 @@ export async function GET(
     const transformedExecutions = executions.map(execution => ({
       ...execution,
       metrics: execution.metrics ? JSON.parse(execution.metrics) : null,
-      logs: execution.logs ? JSON.parse(execution.logs) : [],
+      logs: execution.logs.reverse().map(toExecutionLogEntry),
+      stepStatuses: execution.stepStatuses ? JSON.parse(execution.stepStatuses) : {},
       workflow: undefined // Remove workflow from response
     }));
 
@@ -57,14 +70,22 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(
-  request: NextRequest,
+export const POST = withAuth(PERMISSIONS.JOB_EXECUTE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'WORKFLOW', params.id, 'EXECUTE');
+    if (denied) return denied;
+
     const workflowId = params.id;
+    // Optional { variables } for condition expressions; the body may be empty
+    const parsed = await parseBody(request, workflowRunSchema);
+    if (!parsed.success) return parsed.response;
+
+    const { variables } = parsed.data;
     
     // Get workflow details
     const workflow = await prisma.workflow.findUnique({
@@ -80,6 +101,7 @@ export async function POST(
 
     // Parse workflow configuration
     const workflowSteps = workflow.steps ? JSON.parse(workflow.steps) : [];
+    const workflowConnections = workflow.connections ? JSON.parse(workflow.connections) : [];
     
     if (!Array.isArray(workflowSteps) || workflowSteps.length === 0) {
       return NextResponse.json(
@@ -88,6 +110,14 @@ export async function POST(
       );
     }
 
+    const graphErrors = validateWorkflowGraph(workflowSteps, workflowConnections);
+    if (graphErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid workflow graph', details: graphErrors },
+        { status: 400 }
+      );
+    }
+
     // Create workflow execution record
     const execution = await prisma.workflowExecution.create({
       data: {
@@ -95,20 +125,21 @@ export async function POST(
         status: 'RUNNING',
         startedAt: new Date(),
         totalSteps: workflowSteps.length,
+        variables: variables ? JSON.stringify(variables) : null,
         completedSteps: 0,
         progress: 0,
-        logs: JSON.stringify([]),
         metrics: JSON.stringify({
           duration: 0,
           records_processed: 0,
-          memory_usage: 0,
-          cpu_usage: 0
+          memory_usage: 0
         })
       }
     });
 
-    // Start workflow execution (simulate async execution)
-    executeWorkflowAsync(execution.id, workflowSteps);
+    // Run the DAG in the background; the engine persists progress on the execution record
+    WorkflowEngine.getInstance().execute(execution.id).catch(error => {
+      console.error('Error in workflow execution:', error);
+    });
 
     return NextResponse.json({
       success: true,
@@ -123,81 +154,5 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
-// Simulate async workflow execution
-async function executeWorkflowAsync(executionId: string, steps: any[]) {
-  try {
-    const execution = await prisma.workflowExecution.findUnique({
-      where: { id: executionId },
-      include: { workflow: true }
-    });
-
-    if (!execution) return;
-
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i];
-      
-      // Update current step
-      await prisma.workflowExecution.update({
-        where: { id: executionId },
-        data: {
-          currentStep: step.name || step.id,
-          completedSteps: i,
-          progress: Math.round(((i + 1) / steps.length) * 100)
-        }
-      });
-
-      // Simulate step execution
-      await new Promise(resolve => setTimeout(resolve, 2000)); // 2 seconds per step
-
-      // Update logs
-      const currentLogs = execution.logs ? JSON.parse(execution.logs) : [];
-      currentLogs.push({
-        timestamp: new Date().toISOString(),
-        level: 'INFO',
-        message: `Executed step: ${step.name || step.id}`,
-        stepId: step.id,
-        stepName: step.name || step.id
-      });
-
-      await prisma.workflowExecution.update({
-        where: { id: executionId },
-        data: {
-          logs: JSON.stringify(currentLogs),
-          metrics: JSON.stringify({
-            duration: (i + 1) * 2, // 2 minutes per step
-            records_processed: (i + 1) * 1000,
-            memory_usage: 1 + (i * 0.5),
-            cpu_usage: 30 + (i * 10)
-          })
-        }
-      });
-    }
-
-    // Mark execution as completed
-    await prisma.workflowExecution.update({
-      where: { id: executionId },
-      data: {
-        status: 'COMPLETED',
-        completedAt: new Date(),
-        progress: 100,
-        completedSteps: steps.length,
-        currentStep: null
-      }
-    });
-
-  } catch (error) {
-    console.error('Error in workflow execution:', error);
-    
-    // Mark execution as failed
-    await prisma.workflowExecution.update({
-      where: { id: executionId },
-      data: {
-        status: 'FAILED',
-        completedAt: new Date(),
-        errorMessage: error instanceof Error ? error.message : 'Unknown error occurred'
-      }
-    });
-  }
-}
\ No newline at end of file
@@ -1,13 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth';
+import { authorizeResource, findInaccessible } from '@/lib/access-control';
 import { PrismaClient } from '@prisma/client';
+import { validateWorkflowGraph } from '@/lib/workflow-graph';
+import { inlineConnectionStrings, referencedDataSources } from '@/lib/workflow-steps';
+import { SecretVault } from '@/lib/secret-vault';
+import { workflowUpdateSchema } from '@/lib/schemas';
+import { parseBody } from '@/lib/validation';
+import { RECENT_LOG_ENTRIES, toExecutionLogEntry } from '@/lib/execution-log';
 
 const prisma = new PrismaClient();
 
-export async function GET(
-  request: NextRequest,
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'WORKFLOW', params.id, 'VIEW');
+    if (denied) return denied;
+
     const workflowId = params.id;
     
     const workflow = await prisma.workflow.findUnique({
@@ -15,7 +26,8 @@ export async function GET(
       include: {
         executions: {
           orderBy: { startedAt: 'desc' },
-          take: 50 // Last 50 executions
+          take: 50, // Last 50 executions
+          include: { logs: RECENT_LOG_ENTRIES }
         },
         creator: {
           select: {
@@ -45,7 +57,8 @@ export async function GET(
       executions: workflow.executions.map(execution => ({
         ...execution,
         metrics: execution.metrics ? JSON.parse(execution.metrics) : null,
-        logs: execution.logs ? JSON.parse(execution.logs) : []
+        logs: execution.logs.reverse().map(toExecutionLogEntry),
+        stepStatuses: execution.stepStatuses ? JSON.parse(execution.stepStatuses) : {}
       })),
       creator: undefined // Remove creator from response
     };
@@ -60,15 +73,62 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
-  request: NextRequest,
+export const PUT = withAuth(PERMISSIONS.JOB_UPDATE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'WORKFLOW', params.id, 'EDIT');
+    if (denied) return denied;
+
     const workflowId = params.id;
-    const workflowData = await request.json();
+    const parsed = await parseBody(request, workflowUpdateSchema);
+    if (!parsed.success) return parsed.response;
+
+    const workflowData = parsed.data;
+
+    // Reject dependency cycles and dangling references before they can reach the engine
+    const graphErrors = validateWorkflowGraph(workflowData.steps || [], workflowData.connections || []);
+    if (graphErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid workflow graph', details: graphErrors },
+        { status: 400 }
+      );
+    }
+
+    // Steps run with the credentials of the data sources they reference
+    const inaccessible = await findInaccessible(request, 'DATA_SOURCE', referencedDataSources(workflowData.steps || []), 'EXECUTE');
+    if (inaccessible.length > 0) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Data source access denied: execute required', details: inaccessible },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+      select: { workspaceId: true }
+    });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Workflow not found' },
+        { status: 404 }
+      );
+    }
+
+    // Inline connections may only reference the standalone secrets of the workflow's workspace
+    const unusableSecrets = await SecretVault.getInstance().findUnusableSecrets(
+      inlineConnectionStrings(workflowData.steps || []),
+      { workspaceId: existing.workspaceId }
+    );
+    if (unusableSecrets.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown secret referenced in connection string: ${unusableSecrets.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
     const updatedWorkflow = await prisma.workflow.update({
       where: { id: workflowId },
@@ -110,13 +170,16 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
-  request: NextRequest,
+export const DELETE = withAuth(PERMISSIONS.JOB_DELETE)(async (
+  request: AuthenticatedRequest,
   { params }: { params: { id: string } }
-) {
+) => {
   try {
+    const denied = await authorizeResource(request, 'WORKFLOW', params.id, 'OWNER');
+    if (denied) return denied;
+
     const workflowId = params.id;
 
     // Delete all executions first
@@ -140,4 +203,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,16 +1,28 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth';
+import { accessFilter, findInaccessible } from '@/lib/access-control';
+import { workspaceScope } from '@/lib/workspace';
 import { PrismaClient } from '@prisma/client';
+import { validateWorkflowGraph } from '@/lib/workflow-graph';
+import { inlineConnectionStrings, referencedDataSources } from '@/lib/workflow-steps';
+import { SecretVault } from '@/lib/secret-vault';
+import { workflowListQuerySchema, workflowSchema } from '@/lib/schemas';
+import { parseBody, parseQuery } from '@/lib/validation';
 
 const prisma = new PrismaClient();
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (request: AuthenticatedRequest) => {
   try {
-    const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status');
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
+    const parsed = parseQuery(request, workflowListQuerySchema);
+    if (!parsed.success) return parsed.response;
 
-    const where = status ? { status: status.toUpperCase() } : {};
+    const { status, page, limit } = parsed.data;
+
+    const where = {
+      ...workspaceScope(request),
+      ...accessFilter(request.user!, 'WORKFLOW'),
+      ...(status ? { status } : {})
+    };
     
     const workflows = await prisma.workflow.findMany({
       where,
@@ -58,22 +70,46 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(PERMISSIONS.JOB_CREATE)(async (request: AuthenticatedRequest) => {
   try {
-    const workflowData = await request.json();
-    
-    // Validate required fields
-    if (!workflowData.name) {
+    const parsed = await parseBody(request, workflowSchema);
+    if (!parsed.success) return parsed.response;
+
+    const workflowData = parsed.data;
+
+    // Reject dependency cycles and dangling references before they can reach the engine
+    const graphErrors = validateWorkflowGraph(workflowData.steps || [], workflowData.connections || []);
+    if (graphErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid workflow graph', details: graphErrors },
+        { status: 400 }
+      );
+    }
+
+    // Steps run with the credentials of the data sources they reference
+    const inaccessible = await findInaccessible(request, 'DATA_SOURCE', referencedDataSources(workflowData.steps || []), 'EXECUTE');
+    if (inaccessible.length > 0) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Data source access denied: execute required', details: inaccessible },
+        { status: 403 }
+      );
+    }
+
+    // Inline connections may only reference the standalone secrets of the workflow's workspace
+    const unusableSecrets = await SecretVault.getInstance().findUnusableSecrets(
+      inlineConnectionStrings(workflowData.steps || []),
+      { workspaceId: request.workspace?.id ?? null }
+    );
+    if (unusableSecrets.length > 0) {
       return NextResponse.json(
-        { error: 'Name is required' },
+        { error: `Unknown secret referenced in connection string: ${unusableSecrets.join(', ')}` },
         { status: 400 }
       );
     }
 
-    // Get user ID from auth context (for now, use a default user)
-    const createdBy = 'default-user-id'; // In real app, get from auth
+    const createdBy = request.user!.id;
 
     const newWorkflow = await prisma.workflow.create({
       data: {
@@ -83,6 +119,7 @@ export async function POST(request: NextRequest) {
         status: 'DRAFT',
         tags: workflowData.tags ? JSON.stringify(workflowData.tags) : null,
         createdBy,
+        workspaceId: request.workspace?.id ?? null,
         steps: workflowData.steps ? JSON.stringify(workflowData.steps) : null,
         connections: workflowData.connections ? JSON.stringify(workflowData.connections) : null,
         trigger: workflowData.trigger ? JSON.stringify(workflowData.trigger) : null,
@@ -116,4 +153,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
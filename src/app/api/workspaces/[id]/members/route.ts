@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, withAuth } from '@/lib/auth'
+import { memberSchema, workspaceMemberSchema } from '@/lib/schemas'
+import { parseBody, parseQuery } from '@/lib/validation'
+import { authorizeWorkspace } from '@/lib/workspace'
+
+type WorkspaceParams = { params: { id: string } }
+
+/**
+ * Members of a workspace; visible to everyone in it
+ */
+export const GET = withAuth()(async (request: AuthenticatedRequest, { params }: WorkspaceParams) => {
+  try {
+    const denied = await authorizeWorkspace(request, params.id, false)
+    if (denied) return denied
+
+    const members = await db.workspaceMember.findMany({
+      where: { workspaceId: params.id },
+      orderBy: { createdAt: 'asc' },
+      include: { user: { select: { id: true, name: true, email: true } } }
+    })
+
+    return NextResponse.json(members)
+  } catch (error) {
+    console.error('Error fetching workspace members:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace members' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Add a member or change their role: { userId, role }
+ */
+export const POST = withAuth()(async (request: AuthenticatedRequest, { params }: WorkspaceParams) => {
+  try {
+    const parsed = await parseBody(request, workspaceMemberSchema)
+    if (!parsed.success) return parsed.response
+
+    const { userId, role } = parsed.data
+
+    const denied = await authorizeWorkspace(request, params.id, true)
+    if (denied) return denied
+
+    const user = await db.user.findUnique({ where: { id: userId }, select: { id: true } })
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const current = await db.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId: params.id, userId } }
+    })
+    if ((role === 'OWNER' || current?.role === 'OWNER') && !(await isOwner(request, params.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Only workspace owners can change ownership' },
+        { status: 403 }
+      )
+    }
+
+    if (current?.role === 'OWNER' && role !== 'OWNER' && (await countOwners(params.id)) === 1) {
+      return NextResponse.json(
+        { error: 'A workspace needs at least one owner' },
+        { status: 409 }
+      )
+    }
+
+    const member = await db.workspaceMember.upsert({
+      where: { workspaceId_userId: { workspaceId: params.id, userId } },
+      create: { workspaceId: params.id, userId, role },
+      update: { role }
+    })
+
+    return NextResponse.json(member, { status: current ? 200 : 201 })
+  } catch (error) {
+    console.error('Error updating workspace member:', error)
+    return NextResponse.json(
+      { error: 'Failed to update workspace member' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Remove a member: ?userId=. Their team memberships in the workspace go with it
+ */
+export const DELETE = withAuth()(async (request: AuthenticatedRequest, { params }: WorkspaceParams) => {
+  try {
+    const query = parseQuery(request, memberSchema)
+    if (!query.success) return query.response
+
+    const { userId } = query.data
+
+    const denied = await authorizeWorkspace(request, params.id, true)
+    if (denied) return denied
+
+    const current = await db.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId: params.id, userId } }
+    })
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Workspace member not found' },
+        { status: 404 }
+      )
+    }
+
+    if (current.role === 'OWNER') {
+      if (!(await isOwner(request, params.id))) {
+        return NextResponse.json(
+          { error: 'Forbidden', message: 'Only workspace owners can change ownership' },
+          { status: 403 }
+        )
+      }
+      if ((await countOwners(params.id)) === 1) {
+        return NextResponse.json(
+          { error: 'A workspace needs at least one owner' },
+          { status: 409 }
+        )
+      }
+    }
+
+    await db.$transaction([
+      db.teamMember.deleteMany({ where: { userId, team: { workspaceId: params.id } } }),
+      db.workspaceMember.delete({ where: { id: current.id } })
+    ])
+
+    return NextResponse.json({ message: 'Workspace member removed successfully' })
+  } catch (error) {
+    console.error('Error removing workspace member:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove workspace member' },
+      { status: 500 }
+    )
+  }
+})
+
+async function isOwner(request: AuthenticatedRequest, workspaceId: string): Promise<boolean> {
+  if (request.user!.role === 'ADMIN') return true
+  const membership = await db.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId: request.user!.id } },
+    select: { role: true }
+  })
+  return membership?.role === 'OWNER'
+}
+
+function countOwners(workspaceId: string): Promise<number> {
+  return db.workspaceMember.count({ where: { workspaceId, role: 'OWNER' } })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { AuthenticatedRequest, withAuth } from '@/lib/auth'
+import { activeWorkspaceSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
+import { authorizeWorkspace, WORKSPACE_COOKIE } from '@/lib/workspace'
+
+/**
+ * Switch the active workspace: { workspaceId }. Stored in a cookie that later requests resolve
+ */
+export const PUT = withAuth()(async (request: AuthenticatedRequest) => {
+  try {
+    const parsed = await parseBody(request, activeWorkspaceSchema)
+    if (!parsed.success) return parsed.response
+
+    const { workspaceId } = parsed.data
+
+    const denied = await authorizeWorkspace(request, workspaceId, false)
+    if (denied) return denied
+
+    const response = NextResponse.json({ activeWorkspaceId: workspaceId })
+    response.cookies.set(WORKSPACE_COOKIE, workspaceId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/'
+    })
+    return response
+  } catch (error) {
+    console.error('Error switching workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { AuthenticatedRequest, PERMISSIONS, withAuth } from '@/lib/auth'
+import { workspaceSchema } from '@/lib/schemas'
+import { parseBody } from '@/lib/validation'
+
+/**
+ * Workspaces the caller can switch to, with their role in each; system admins see all of them
+ */
+export const GET = withAuth()(async (request: AuthenticatedRequest) => {
+  try {
+    const user = request.user!
+    const workspaces = await db.workspace.findMany({
+      where: user.role === 'ADMIN' ? {} : { members: { some: { userId: user.id } } },
+      orderBy: { name: 'asc' },
+      include: {
+        members: { where: { userId: user.id }, select: { role: true } },
+        _count: {
+          select: { members: true, jobs: true, dataSources: true, workflows: true }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      activeWorkspaceId: request.workspace?.id ?? null,
+      workspaces: workspaces.map(({ members, ...workspace }: any) => ({
+        ...workspace,
+        role: members[0]?.role ?? 'OWNER'
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching workspaces:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workspaces' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth(PERMISSIONS.WORKSPACE_CREATE)(async (request: AuthenticatedRequest) => {
+  try {
+    const parsed = await parseBody(request, workspaceSchema)
+    if (!parsed.success) return parsed.response
+
+    const { name, slug, description } = parsed.data
+
+    const existing = await db.workspace.findUnique({ where: { slug } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Workspace ${slug} already exists` },
+        { status: 409 }
+      )
+    }
+
+    // The creator owns the new workspace
+    const workspace = await db.workspace.create({
+      data: {
+        name,
+        slug,
+        description,
+        members: { create: { userId: request.user!.id, role: 'OWNER' } }
+      }
+    })
+
+    return NextResponse.json(workspace, { status: 201 })
+  } catch (error) {
+    console.error('Error creating workspace:', error)
+    return NextResponse.json(
+      { error: 'Failed to create workspace' },
+      { status: 500 }
+    )
+  }
+})
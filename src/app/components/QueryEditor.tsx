@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ColumnSchema {
+  name: string;
+  type: string;
+  nullable: boolean | null;
+  primaryKey: boolean;
+}
+
+interface TableSchema {
+  name: string;
+  schema?: string | null;
+  columns: ColumnSchema[];
+  rowEstimate: number | null;
+}
+
+interface SourceSchema {
+  tables: TableSchema[];
+  inferred: boolean;
+  cached: boolean;
+  discoveredAt: string;
+}
+
+interface Suggestion {
+  label: string;
+  detail: string;
+  // Text that replaces the word being typed
+  insert: string;
+}
+
+interface QueryEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  sourceId?: string;
+  placeholder?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Schemas whose tables can be referenced without a qualifier
+const DEFAULT_SCHEMAS = ['public', 'main'];
+
+function tableReference(table: TableSchema): string {
+  return table.schema && !DEFAULT_SCHEMAS.includes(table.schema) ? `${table.schema}.${table.name}` : table.name;
+}
+
+export default function QueryEditor({ id, value, onChange, sourceId, placeholder }: QueryEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [schema, setSchema] = useState<SourceSchema | null>(null);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [isLoadingSchema, setIsLoadingSchema] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Ctrl+Space lists everything even before a character has been typed
+  const [isForced, setIsForced] = useState(false);
+
+  const loadSchema = async (refresh = false, signal?: AbortSignal) => {
+    if (!sourceId) return;
+    setIsLoadingSchema(true);
+    setSchemaError(null);
+
+    try {
+      const response = await fetch(`/api/data-sources/${sourceId}/schema${refresh ? '?refresh=true' : ''}`, { signal });
+      const data = await response.json();
+      if (response.ok) {
+        setSchema(data);
+      } else {
+        setSchema(null);
+        setSchemaError(data.details || data.error || 'Failed to load schema');
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        setSchema(null);
+        setSchemaError('Failed to load schema');
+      }
+    } finally {
+      if (!signal?.aborted) setIsLoadingSchema(false);
+    }
+  };
+
+  useEffect(() => {
+    setSchema(null);
+    setSchemaError(null);
+    if (!sourceId) return;
+
+    const controller = new AbortController();
+    loadSchema(false, controller.signal);
+    return () => controller.abort();
+  }, [sourceId]);
+
+  // The identifier (optionally qualified, e.g. "orders.cust") that ends at the caret
+  const word = useMemo(() => value.slice(0, caret).match(/[\w.]*$/)?.[0] ?? '', [value, caret]);
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    if (!schema || schema.inferred) return [];
+
+    const dot = word.lastIndexOf('.');
+    const qualifier = dot >= 0 ? word.slice(0, dot).toLowerCase() : null;
+    const prefix = (dot >= 0 ? word.slice(dot + 1) : word).toLowerCase();
+    const matches = (name: string) => name.toLowerCase().startsWith(prefix) && name.toLowerCase() !== prefix;
+    const columnSuggestion = (column: ColumnSchema): Suggestion => ({
+      label: column.name,
+      detail: `${column.type}${column.primaryKey ? ' · PK' : ''}`,
+      insert: column.name,
+    });
+
+    if (qualifier !== null) {
+      const table = schema.tables.find(candidate =>
+        candidate.name.toLowerCase() === qualifier || tableReference(candidate).toLowerCase() === qualifier
+      );
+      const inSchema = schema.tables.filter(candidate => candidate.schema?.toLowerCase() === qualifier);
+
+      return [
+        ...(table ? table.columns.filter(column => matches(column.name)).map(columnSuggestion) : []),
+        ...inSchema.filter(candidate => matches(candidate.name)).map(candidate => ({
+          label: candidate.name,
+          detail: 'table',
+          insert: candidate.name,
+        })),
+      ].slice(0, MAX_SUGGESTIONS);
+    }
+
+    if (!prefix && !isForced) return [];
+
+    const tables = schema.tables
+      .filter(table => matches(tableReference(table)))
+      .map(table => ({
+        label: tableReference(table),
+        detail: table.rowEstimate !== null ? `table · ~${table.rowEstimate.toLocaleString()} rows` : 'table',
+        insert: tableReference(table),
+      }));
+
+    // Prefer columns of tables the query already mentions
+    const text = value.toLowerCase();
+    const referenced = schema.tables.filter(table => text.includes(table.name.toLowerCase()));
+    const seen = new Set<string>();
+    const columns = (referenced.length > 0 ? referenced : schema.tables)
+      .flatMap(table => table.columns)
+      .filter(column => matches(column.name) && !seen.has(column.name) && seen.add(column.name))
+      .map(columnSuggestion);
+
+    return [...tables, ...columns].slice(0, MAX_SUGGESTIONS);
+  }, [schema, word, value, isForced]);
+
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const accept = (suggestion: Suggestion) => {
+    const dot = word.lastIndexOf('.');
+    const start = caret - (dot >= 0 ? word.length - dot - 1 : word.length);
+    const next = value.slice(0, start) + suggestion.insert + value.slice(caret);
+    const position = start + suggestion.insert.length;
+
+    onChange(next);
+    setCaret(position);
+    setIsOpen(false);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      setIsOpen(true);
+      setIsForced(true);
+      setActiveIndex(0);
+      return;
+    }
+    if (!showSuggestions) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart);
+            setIsOpen(true);
+            setIsForced(false);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onBlur={() => setIsOpen(false)}
+          placeholder={placeholder}
+          className="font-mono"
+        />
+        {showSuggestions && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md">
+            {suggestions.map((suggestion, index) => (
+              <div
+                key={`${suggestion.label}-${suggestion.detail}`}
+                className={`flex items-center justify-between px-3 py-1 text-sm font-mono cursor-pointer ${index === activeIndex ? 'bg-accent' : ''}`}
+                // Keep focus in the textarea so blur does not close the list before the click lands
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(suggestion);
+                }}
+              >
+                <span>{suggestion.label}</span>
+                <span className="text-xs text-muted-foreground">{suggestion.detail}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {sourceId && (
+        <div className="flex items-start justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {isLoadingSchema && 'Loading schema...'}
+            {!isLoadingSchema && schemaError && <span className="text-destructive">Schema unavailable: {schemaError}</span>}
+            {!isLoadingSchema && schema && !schema.inferred &&
+              `${schema.tables.length} tables available · Ctrl+Space for suggestions`}
+            {!isLoadingSchema && schema?.inferred && schema.tables[0] && (
+              `Sampled columns: ${schema.tables[0].columns.map(column => `${column.name} (${column.type})`).join(', ') || 'none'}`
+            )}
+          </span>
+          <button
+            type="button"
+            className="flex items-center gap-1 hover:text-foreground shrink-0"
+            onClick={() => loadSchema(true)}
+            disabled={isLoadingSchema}
+          >
+            <RefreshCw className={`h-3 w-3 ${isLoadingSchema ? 'animate-spin' : ''}`} />
+            Refresh schema
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import {
   Settings
 } from 'lucide-react';
 
+type StepStatus = 'running' | 'completed' | 'failed' | 'skipped' | 'idle';
+
 interface WorkflowNode {
   id: string;
   type: 'extract' | 'transform' | 'load' | 'notification' | 'condition' | 'ai' | 'ml';
@@ -22,7 +24,7 @@ interface WorkflowNode {
   description?: string;
   position: { x: number; y: number };
   config: any;
-  status?: 'running' | 'completed' | 'failed' | 'idle';
+  status?: StepStatus;
   depends_on?: string[];
 }
 
@@ -38,8 +40,18 @@ interface WorkflowDesignerProps {
   onSave?: (workflow: any) => void;
   onRun?: (workflow: any) => void;
   readOnly?: boolean;
+  // Per-step state of an execution, as persisted in WorkflowExecution.stepStatuses
+  stepStatuses?: Record<string, { status: StepStatus; error?: string }>;
 }
 
+const STEP_STATUS_STYLES: Record<StepStatus, { node: string; badge: string }> = {
+  running: { node: 'bg-blue-50 border-blue-400', badge: 'bg-blue-100 text-blue-800' },
+  completed: { node: 'bg-green-50 border-green-400', badge: 'bg-green-100 text-green-800' },
+  failed: { node: 'bg-red-50 border-red-400', badge: 'bg-red-100 text-red-800' },
+  skipped: { node: 'bg-gray-50 border-dashed', badge: 'bg-yellow-100 text-yellow-800' },
+  idle: { node: 'bg-white', badge: 'bg-gray-100 text-gray-800' }
+};
+
 const NODE_TYPES = [
   {
     type: 'extract',
@@ -92,7 +104,7 @@ const NODE_TYPES = [
   }
 ];
 
-export default function WorkflowDesigner({ workflow, onSave, onRun, readOnly = false }: WorkflowDesignerProps) {
+export default function WorkflowDesigner({ workflow, onSave, onRun, readOnly = false, stepStatuses }: WorkflowDesignerProps) {
   const [nodes, setNodes] = useState<WorkflowNode[]>(workflow?.steps || []);
   const [connections, setConnections] = useState<WorkflowConnection[]>(workflow?.connections || []);
   const [selectedNode, setSelectedNode] = useState<WorkflowNode | null>(null);
@@ -101,6 +113,8 @@ export default function WorkflowDesigner({ workflow, onSave, onRun, readOnly = f
   const [aiSuggestions, setAiSuggestions] = useState<any[]>([]);
   const canvasRef = useRef<HTMLDivElement>(null);
   const [canvasPosition, setCanvasPosition] = useState({ x: 0, y: 0 });
+  // Fall back to the latest execution returned with the workflow
+  const executionStatuses = stepStatuses ?? workflow?.executions?.[0]?.stepStatuses ?? {};
 
   const handleNodeDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -376,7 +390,8 @@ export default function WorkflowDesigner({ workflow, onSave, onRun, readOnly = f
             {nodes.map((node) => (
               <WorkflowNodeComponent
                 key={node.id}
-                node={node}
+                node={{ ...node, status: executionStatuses[node.id]?.status ?? node.status }}
+                error={executionStatuses[node.id]?.error}
                 isSelected={selectedNode?.id === node.id}
                 onClick={() => handleNodeClick(node)}
                 onUpdate={(config) => updateNodeConfig(node.id, config)}
@@ -424,7 +439,8 @@ function WorkflowNodeComponent({
   onUpdate, 
   onDelete, 
   onConnect,
-  readOnly 
+  readOnly,
+  error
 }: {
   node: WorkflowNode;
   isSelected: boolean;
@@ -433,20 +449,23 @@ function WorkflowNodeComponent({
   onDelete: () => void;
   onConnect: (toNodeId: string) => void;
   readOnly: boolean;
+  error?: string;
 }) {
   const nodeType = NODE_TYPES.find(nt => nt.type === node.type);
   const IconComponent = nodeType?.icon || Database;
+  const statusStyle = STEP_STATUS_STYLES[node.status || 'idle'];
   
   return (
     <div
       className={`absolute p-3 min-w-[150px] cursor-pointer transition-all border rounded-lg ${
         isSelected ? 'ring-2 ring-blue-500' : ''
-      } ${node.status === 'running' ? 'bg-blue-50' : 'bg-white'}`}
+      } ${statusStyle.node}`}
       style={{
         left: node.position.x,
         top: node.position.y
       }}
       onClick={onClick}
+      title={error}
     >
       <div className="flex items-start space-x-2">
         <div className={`p-1 rounded ${nodeType?.color || 'bg-gray-500'} text-white`}>
@@ -477,11 +496,7 @@ function WorkflowNodeComponent({
       
       {node.status && (
         <div className="mt-2">
-          <span className={`px-2 py-1 text-xs rounded ${
-            node.status === 'completed' 
-              ? 'bg-green-100 text-green-800' 
-              : 'bg-gray-100 text-gray-800'
-          }`}>
+          <span className={`px-2 py-1 text-xs rounded ${statusStyle.badge}`}>
             {node.status}
           </span>
         </div>
@@ -513,6 +528,11 @@ function WorkflowConnectionLine({ connection, nodes }: { connection: WorkflowCon
         fill="none"
         markerEnd="url(#arrowhead)"
       />
+      {connection.condition && (
+        <text x={midX} y={fromY + 14} textAnchor="middle" className="fill-gray-500 text-[10px]">
+          {connection.condition}
+        </text>
+      )}
       <defs>
         <marker
           id="arrowhead"
@@ -599,6 +619,52 @@ function WorkflowConfigPanel({
           </div>
         )}
         
+        {node.type === 'load' && (
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Load Mode</label>
+              <select
+                value={node.config?.mode || 'append'}
+                onChange={(e) => onUpdate({ ...node.config, mode: e.target.value })}
+                className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="append">Append</option>
+                <option value="overwrite">Overwrite</option>
+                <option value="upsert">Upsert on key columns</option>
+                <option value="scd2">SCD type 2 (valid_from / valid_to)</option>
+              </select>
+            </div>
+            {['upsert', 'scd2'].includes(node.config?.mode) && (
+              <div>
+                <label className="text-sm font-medium">Key Columns</label>
+                <input
+                  type="text"
+                  value={Array.isArray(node.config?.key_columns) ? node.config.key_columns.join(', ') : node.config?.key_columns || ''}
+                  onChange={(e) => onUpdate({ ...node.config, key_columns: e.target.value })}
+                  placeholder="customer_id, region"
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {node.type === 'condition' && (
+          <div>
+            <label className="text-sm font-medium">When no condition matches</label>
+            <select
+              value={node.config?.action || 'continue'}
+              onChange={(e) => onUpdate({ ...node.config, action: e.target.value })}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="continue">Continue all branches</option>
+              <option value="skip">Skip downstream steps</option>
+              <option value="fail">Fail the workflow</option>
+              <option value="branch">Take selected branches</option>
+            </select>
+          </div>
+        )}
+        
         {node.type === 'ai' && (
           <div>
             <label className="text-sm font-medium">AI Model</label>
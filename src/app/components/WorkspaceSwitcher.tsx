@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Building2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface Workspace {
+  id: string;
+  name: string;
+  role: string;
+}
+
+/**
+ * Header control for the active workspace. Switching reloads the page so every list is fetched
+ * again in the new workspace
+ */
+export default function WorkspaceSwitcher() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    const loadWorkspaces = async () => {
+      const response = await fetch('/api/workspaces');
+      if (response.ok) {
+        const data = await response.json();
+        setWorkspaces(data.workspaces);
+        setActiveWorkspaceId(data.activeWorkspaceId);
+      }
+    };
+    loadWorkspaces().catch(error => console.error('Error fetching workspaces:', error));
+  }, []);
+
+  const switchWorkspace = async (workspaceId: string) => {
+    setIsSwitching(true);
+    try {
+      const response = await fetch('/api/workspaces/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId }),
+      });
+      if (response.ok) {
+        window.location.reload();
+        return;
+      }
+      console.error('Failed to switch workspace:', (await response.json()).error);
+    } catch (error) {
+      console.error('Error switching workspace:', error);
+    }
+    setIsSwitching(false);
+  };
+
+  // Users outside every workspace have nothing to switch between
+  if (workspaces.length === 0) return null;
+
+  return (
+    <Select value={activeWorkspaceId ?? undefined} onValueChange={switchWorkspace} disabled={isSwitching}>
+      <SelectTrigger className="w-48">
+        <Building2 className="h-4 w-4 mr-2" />
+        <SelectValue placeholder="Select workspace" />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map(workspace => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,6 +1,8 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -14,6 +16,18 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Switch } from '@/components/ui/switch'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Progress } from '@/components/ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import QueryEditor from '@/app/components/QueryEditor'
+import WorkspaceSwitcher from '@/app/components/WorkspaceSwitcher'
+import {
+  applyValidationErrors,
+  JobFormValues,
+  JobInput,
+  jobSchema,
+  LOG_LEVELS,
+  MAX_CONCURRENT_EXECUTIONS,
+  RISK_LEVELS
+} from '@/lib/schemas'
 import { 
   Play, 
   Pause, 
@@ -29,9 +43,35 @@ import {
   Settings,
   Activity,
   Database,
-  Eye
+  Eye,
+  FileSearch,
+  ListOrdered
 } from 'lucide-react'
 
+const EMPTY_FORM: JobFormValues = {
+  name: '',
+  description: '',
+  sourceId: '',
+  targetId: '',
+  query: '',
+  targetTable: '',
+  watermarkColumn: '',
+  loadMode: 'append',
+  keyColumns: '',
+  transformRules: '',
+  schedule: '',
+  riskLevel: 'LOW',
+  maxConcurrentExecutions: 1,
+  isActive: true
+}
+
+const WAITING_REASONS: Record<string, string> = {
+  RETRY_DELAY: 'Retry delay after a worker failure',
+  GLOBAL_LIMIT: 'Global execution limit',
+  JOB_LIMIT: 'Previous run of this job',
+  DATA_SOURCE_LIMIT: 'Data source connection budget'
+}
+
 interface Job {
   id: string
   name: string
@@ -39,8 +79,16 @@ interface Job {
   sourceId: string
   targetId: string
   query?: string
+  targetTable?: string
   transformRules?: string
   schedule?: string
+  watermarkColumn?: string
+  loadMode?: string
+  keyColumns?: string
+  watermarkValue?: string
+  watermarkUpdatedAt?: string
+  riskLevel: string
+  maxConcurrentExecutions: number
   isActive: boolean
   status: string
   createdBy: string
@@ -77,39 +125,122 @@ interface JobExecution {
   errorMessage?: string
 }
 
+interface ExecutionLogEntry {
+  id: string
+  level: string
+  message: string
+  stepId: string | null
+  stepName: string | null
+  fields: Record<string, any> | null
+  timestamp: string
+}
+
+interface QueueItem {
+  id: string
+  executionId: string
+  jobId: string
+  jobName: string
+  riskLevel: string
+  status: 'QUEUED' | 'LEASED'
+  trigger: string
+  attempts: number
+  availableAt: string
+  createdAt: string
+  leasedBy?: string
+  waitingFor?: string
+}
+
 interface DataSource {
   id: string
   name: string
   type: string
 }
 
+interface TransformRuleError {
+  line: number
+  message: string
+}
+
+interface PreviewColumn {
+  name: string
+  type: string
+  nullable: boolean | null
+}
+
+interface JobPreview {
+  limit: number
+  before: Record<string, any>[]
+  after: Record<string, any>[]
+  errors: { record: Record<string, any>; error: string }[]
+  filtered: number
+  inputSchema: PreviewColumn[]
+  outputSchema: PreviewColumn[]
+}
+
+const PREVIEW_LIMIT = 20
+
+const EXECUTION_LOG_LIMIT = 200
+
+const LOG_LEVEL_COLORS: Record<string, string> = {
+  DEBUG: 'text-muted-foreground',
+  INFO: 'text-blue-600',
+  WARN: 'text-yellow-600',
+  ERROR: 'text-red-600'
+}
+
 export default function JobsPage() {
   const [jobs, setJobs] = useState<Job[]>([])
   const [dataSources, setDataSources] = useState<DataSource[]>([])
   const [selectedJob, setSelectedJob] = useState<Job | null>(null)
   const [jobExecutions, setJobExecutions] = useState<JobExecution[]>([])
+  const [logExecutionId, setLogExecutionId] = useState('')
+  const [executionLogs, setExecutionLogs] = useState<ExecutionLogEntry[]>([])
+  const [executionLogTotal, setExecutionLogTotal] = useState(0)
+  const [logLevel, setLogLevel] = useState('all')
+  const [logSearch, setLogSearch] = useState('')
+  const [queue, setQueue] = useState<QueueItem[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [editingJob, setEditingJob] = useState<Job | null>(null)
   const [runningJobs, setRunningJobs] = useState<Set<string>>(new Set())
+  const [previewingJob, setPreviewingJob] = useState<Job | null>(null)
+  const [preview, setPreview] = useState<JobPreview | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false)
 
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    sourceId: '',
-    targetId: '',
-    query: '',
-    transformRules: '',
-    schedule: '',
-    isActive: true
+  const form = useForm<JobFormValues, unknown, JobInput>({
+    resolver: zodResolver(jobSchema),
+    defaultValues: EMPTY_FORM
   })
+  const formData = form.watch()
+  const { errors } = form.formState
 
   useEffect(() => {
     fetchJobs()
     fetchDataSources()
+    fetchQueue()
+
+    const interval = setInterval(fetchQueue, 5000)
+    return () => clearInterval(interval)
   }, [])
 
+  // Show the latest execution's log until another one is picked
+  useEffect(() => {
+    if (!jobExecutions.some(execution => execution.id === logExecutionId)) {
+      setLogExecutionId(jobExecutions[0]?.id ?? '')
+    }
+  }, [jobExecutions])
+
+  useEffect(() => {
+    if (selectedJob && logExecutionId) {
+      fetchExecutionLogs(selectedJob.id, logExecutionId)
+    } else {
+      setExecutionLogs([])
+      setExecutionLogTotal(0)
+    }
+  }, [selectedJob?.id, logExecutionId, logLevel, logSearch])
+
   const fetchJobs = async () => {
     try {
       const response = await fetch('/api/jobs')
@@ -124,6 +255,18 @@ export default function JobsPage() {
     }
   }
 
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch('/api/jobs/queue')
+      if (response.ok) {
+        const data = await response.json()
+        setQueue(data)
+      }
+    } catch (error) {
+      console.error('Error fetching job queue:', error)
+    }
+  }
+
   const fetchDataSources = async () => {
     try {
       const response = await fetch('/api/data-sources')
@@ -148,34 +291,42 @@ export default function JobsPage() {
     }
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    
+  const fetchExecutionLogs = async (jobId: string, executionId: string) => {
+    const query = new URLSearchParams({ limit: String(EXECUTION_LOG_LIMIT) })
+    if (logLevel !== 'all') query.set('level', logLevel)
+    if (logSearch.trim()) query.set('search', logSearch.trim())
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/executions/${executionId}/logs?${query}`)
+      if (response.ok) {
+        const data = await response.json()
+        setExecutionLogs(data.entries)
+        setExecutionLogTotal(data.pagination.total)
+      }
+    } catch (error) {
+      console.error('Error fetching execution logs:', error)
+    }
+  }
+
+  const handleSubmit = async (values: JobInput) => {
     try {
       const response = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          ...formData,
-          createdBy: 'demo-user' // In real app, get from auth
-        }),
+        body: JSON.stringify(values),
       })
 
       if (response.ok) {
         await fetchJobs()
         setIsCreateDialogOpen(false)
-        setFormData({
-          name: '',
-          description: '',
-          sourceId: '',
-          targetId: '',
-          query: '',
-          transformRules: '',
-          schedule: '',
-          isActive: true
-        })
+        form.reset(EMPTY_FORM)
+      } else {
+        const data = await response.json()
+        if (!applyValidationErrors(data, form.setError)) {
+          form.setError('root', { type: 'server', message: data.message || data.error })
+        }
       }
     } catch (error) {
       console.error('Error creating job:', error)
@@ -184,22 +335,26 @@ export default function JobsPage() {
 
   const handleEdit = (job: Job) => {
     setEditingJob(job)
-    setFormData({
+    form.reset({
       name: job.name,
       description: job.description || '',
       sourceId: job.sourceId,
       targetId: job.targetId,
       query: job.query || '',
+      targetTable: job.targetTable || '',
+      watermarkColumn: job.watermarkColumn || '',
+      loadMode: (job.loadMode || 'append') as JobFormValues['loadMode'],
+      keyColumns: job.keyColumns ? JSON.parse(job.keyColumns).join(', ') : '',
       transformRules: job.transformRules || '',
       schedule: job.schedule || '',
+      riskLevel: job.riskLevel as JobFormValues['riskLevel'],
+      maxConcurrentExecutions: job.maxConcurrentExecutions,
       isActive: job.isActive
     })
     setIsEditDialogOpen(true)
   }
 
-  const handleUpdate = async (e: React.FormEvent) => {
-    e.preventDefault()
-    
+  const handleUpdate = async (values: JobInput) => {
     if (!editingJob) return
 
     try {
@@ -208,29 +363,31 @@ export default function JobsPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify(values),
       })
 
       if (response.ok) {
         await fetchJobs()
         setIsEditDialogOpen(false)
         setEditingJob(null)
-        setFormData({
-          name: '',
-          description: '',
-          sourceId: '',
-          targetId: '',
-          query: '',
-          transformRules: '',
-          schedule: '',
-          isActive: true
-        })
+        form.reset(EMPTY_FORM)
+      } else {
+        const data = await response.json()
+        if (!applyValidationErrors(data, form.setError)) {
+          form.setError('root', { type: 'server', message: data.message || data.error })
+        }
       }
     } catch (error) {
       console.error('Error updating job:', error)
     }
   }
 
+  const renderFieldError = (message?: string) => {
+    if (!message) return null
+
+    return <p className="text-sm text-red-600">{message}</p>
+  }
+
   const handleDelete = async (id: string) => {
     try {
       const response = await fetch(`/api/jobs/${id}`, {
@@ -255,6 +412,7 @@ export default function JobsPage() {
 
       if (response.ok) {
         await fetchJobs()
+        await fetchQueue()
         if (selectedJob?.id === jobId) {
           await fetchJobExecutions(jobId)
         }
@@ -270,6 +428,106 @@ export default function JobsPage() {
     }
   }
 
+  const controlExecution = async (jobId: string, executionId: string, action: 'pause' | 'resume' | 'cancel') => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/executions/${executionId}/${action}`, {
+        method: 'POST',
+      })
+
+      if (response.ok) {
+        await fetchJobs()
+        await fetchQueue()
+        await fetchJobExecutions(jobId)
+      }
+    } catch (error) {
+      console.error(`Error requesting ${action} for job execution:`, error)
+    }
+  }
+
+  const resetWatermark = async (job: Job) => {
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/watermark`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        setSelectedJob({ ...job, watermarkValue: undefined, watermarkUpdatedAt: undefined })
+        await fetchJobs()
+      }
+    } catch (error) {
+      console.error('Error resetting watermark:', error)
+    }
+  }
+
+  const previewJob = async (job: Job, overrides?: { query: string; transformRules: string }) => {
+    setPreviewingJob(job)
+    setPreview(null)
+    setPreviewError(null)
+    setIsPreviewLoading(true)
+
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ limit: PREVIEW_LIMIT, ...overrides }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setPreview(data)
+      } else if (Array.isArray(data.details)) {
+        setPreviewError(data.details.map((ruleError: TransformRuleError) => `Line ${ruleError.line}: ${ruleError.message}`).join('\n'))
+      } else {
+        setPreviewError(data.details || data.error || 'Failed to preview job')
+      }
+    } catch (error) {
+      console.error('Error previewing job:', error)
+      setPreviewError('Failed to preview job')
+    } finally {
+      setIsPreviewLoading(false)
+    }
+  }
+
+  const formatCell = (value: any) => {
+    if (value === null || value === undefined) return <span className="italic text-muted-foreground">null</span>
+    if (typeof value === 'object') return JSON.stringify(value)
+    return String(value)
+  }
+
+  const renderPreviewTable = (records: Record<string, any>[]) => {
+    if (records.length === 0) {
+      return <p className="text-sm text-muted-foreground py-4">No rows</p>
+    }
+
+    const columns = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+    return (
+      <ScrollArea className="max-h-96 w-full rounded border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {columns.map((column) => (
+                <TableHead key={column} className="font-mono text-xs">{column}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map((record, index) => (
+              <TableRow key={index}>
+                {columns.map((column) => (
+                  <TableCell key={column} className="font-mono text-xs max-w-xs truncate">
+                    {formatCell(record[column])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    )
+  }
+
   const viewJobDetails = async (job: Job) => {
     setSelectedJob(job)
     await fetchJobExecutions(job.id)
@@ -322,11 +580,14 @@ export default function JobsPage() {
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-3xl font-bold tracking-tight">ETL Jobs</h1>
-            <p className="text-muted-foreground">
-              Create and manage your data integration workflows
-            </p>
+          <div className="flex items-center gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">ETL Jobs</h1>
+              <p className="text-muted-foreground">
+                Create and manage your data integration workflows
+              </p>
+            </div>
+            <WorkspaceSwitcher />
           </div>
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
@@ -342,26 +603,26 @@ export default function JobsPage() {
                   Set up a new data integration workflow
                 </DialogDescription>
               </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-6">
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="name">Job Name</Label>
                     <Input
                       id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      {...form.register('name')}
                       placeholder="Customer Data Sync"
                       required
                     />
+                    {renderFieldError(errors.name?.message)}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="schedule">Schedule (Cron)</Label>
                     <Input
                       id="schedule"
-                      value={formData.schedule}
-                      onChange={(e) => setFormData({ ...formData, schedule: e.target.value })}
+                      {...form.register('schedule')}
                       placeholder="0 */6 * * * (every 6 hours)"
                     />
+                    {renderFieldError(errors.schedule?.message)}
                   </div>
                 </div>
 
@@ -369,8 +630,7 @@ export default function JobsPage() {
                   <Label htmlFor="description">Description</Label>
                   <Textarea
                     id="description"
-                    value={formData.description}
-                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    {...form.register('description')}
                     placeholder="Describe what this job does..."
                   />
                 </div>
@@ -378,7 +638,7 @@ export default function JobsPage() {
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="sourceId">Source Data Source</Label>
-                    <Select value={formData.sourceId} onValueChange={(value) => setFormData({ ...formData, sourceId: value })}>
+                    <Select value={formData.sourceId} onValueChange={(value) => form.setValue('sourceId', value, { shouldValidate: form.formState.isSubmitted })}>
                       <SelectTrigger>
                         <SelectValue placeholder="Select source" />
                       </SelectTrigger>
@@ -393,10 +653,11 @@ export default function JobsPage() {
                         ))}
                       </SelectContent>
                     </Select>
+                    {renderFieldError(errors.sourceId?.message)}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="targetId">Target Data Source</Label>
-                    <Select value={formData.targetId} onValueChange={(value) => setFormData({ ...formData, targetId: value })}>
+                    <Select value={formData.targetId} onValueChange={(value) => form.setValue('targetId', value, { shouldValidate: form.formState.isSubmitted })}>
                       <SelectTrigger>
                         <SelectValue placeholder="Select target" />
                       </SelectTrigger>
@@ -411,36 +672,113 @@ export default function JobsPage() {
                         ))}
                       </SelectContent>
                     </Select>
+                    {renderFieldError(errors.targetId?.message)}
                   </div>
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="query">Extraction Query (Optional)</Label>
-                  <Textarea
+                  <QueryEditor
                     id="query"
-                    value={formData.query}
-                    onChange={(e) => setFormData({ ...formData, query: e.target.value })}
+                    value={formData.query ?? ''}
+                    onChange={(query) => form.setValue('query', query)}
+                    sourceId={formData.sourceId}
                     placeholder="SELECT * FROM customers WHERE updated_at > ?"
-                    className="font-mono"
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="transformRules">Transform Rules (JSON)</Label>
+                  <Label htmlFor="targetTable">Target Table</Label>
+                  <Input
+                    id="targetTable"
+                    {...form.register('targetTable')}
+                    placeholder="analytics.customers (required for database targets)"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="loadMode">Load Mode</Label>
+                    <Select value={formData.loadMode ?? 'append'} onValueChange={(value) => form.setValue('loadMode', value as JobFormValues['loadMode'])}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="append">Append</SelectItem>
+                        <SelectItem value="overwrite">Overwrite</SelectItem>
+                        <SelectItem value="upsert">Upsert</SelectItem>
+                        <SelectItem value="scd2">SCD type 2</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {renderFieldError(errors.loadMode?.message)}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="keyColumns">Key Columns</Label>
+                    <Input
+                      id="keyColumns"
+                      {...form.register('keyColumns')}
+                      placeholder="customer_id (required for upsert and SCD2)"
+                      disabled={!['upsert', 'scd2'].includes(formData.loadMode ?? '')}
+                    />
+                    {renderFieldError(errors.keyColumns?.message)}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="watermarkColumn">Watermark Column</Label>
+                  <Input
+                    id="watermarkColumn"
+                    {...form.register('watermarkColumn')}
+                    placeholder="updated_at (optional, enables incremental extraction)"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="riskLevel">Priority (Risk Level)</Label>
+                    <Select value={formData.riskLevel ?? 'LOW'} onValueChange={(value) => form.setValue('riskLevel', value as JobFormValues['riskLevel'])}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RISK_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>{level}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxConcurrentExecutions">Max Concurrent Runs</Label>
+                    <Input
+                      id="maxConcurrentExecutions"
+                      type="number"
+                      min={1}
+                      max={MAX_CONCURRENT_EXECUTIONS}
+                      {...form.register('maxConcurrentExecutions', { valueAsNumber: true })}
+                    />
+                    {renderFieldError(errors.maxConcurrentExecutions?.message)}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="transformRules">Transform Rules</Label>
                   <Textarea
                     id="transformRules"
-                    value={formData.transformRules}
-                    onChange={(e) => setFormData({ ...formData, transformRules: e.target.value })}
-                    placeholder='[{"field": "email", "transform": "lowercase"}, {"field": "phone", "transform": "normalize"}]'
+                    {...form.register('transformRules')}
+                    placeholder={'rename cust_email to email\ncast amount as number\nfilter amount > 0\nmask card_number keep 4'}
                     className="font-mono"
+                    rows={5}
                   />
+                  {renderFieldError(errors.transformRules?.message)}
                 </div>
 
+                {renderFieldError(errors.root?.message)}
+
                 <div className="flex items-center space-x-2">
                   <Switch
                     id="isActive"
                     checked={formData.isActive}
-                    onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                    onCheckedChange={(checked) => form.setValue('isActive', checked)}
                   />
                   <Label htmlFor="isActive">Active</Label>
                 </div>
@@ -456,6 +794,65 @@ export default function JobsPage() {
           </Dialog>
         </div>
 
+        {/* Job Queue */}
+        {queue.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListOrdered className="h-5 w-5" />
+                Job Queue
+              </CardTitle>
+              <CardDescription>
+                Executions in the order the workers pick them up, highest priority first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Waiting For</TableHead>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>Attempts</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {queue.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium">{item.jobName}</TableCell>
+                      <TableCell>
+                        <Badge variant={['HIGH', 'CRITICAL'].includes(item.riskLevel) ? 'destructive' : 'outline'}>
+                          {item.riskLevel}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {item.status === 'LEASED' ? (
+                          <span className="flex items-center gap-1">
+                            <RefreshCw className="h-3 w-3 animate-spin text-blue-500" />
+                            Running on {item.leasedBy}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3 text-yellow-500" />
+                            Queued
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {item.status === 'QUEUED' ? (item.waitingFor ? WAITING_REASONS[item.waitingFor] : 'Next free worker') : '-'}
+                      </TableCell>
+                      <TableCell>{new Date(item.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{item.attempts}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Jobs Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {jobs.map((job) => (
@@ -534,6 +931,14 @@ export default function JobsPage() {
                     <Eye className="h-3 w-3 mr-1" />
                     Details
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => previewJob(job)}
+                  >
+                    <FileSearch className="h-3 w-3 mr-1" />
+                    Preview
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -644,11 +1049,38 @@ export default function JobsPage() {
                       </CardHeader>
                       <CardContent>
                         <pre className="text-sm bg-muted p-3 rounded overflow-x-auto">
-                          {JSON.stringify(JSON.parse(selectedJob.transformRules), null, 2)}
+                          {selectedJob.transformRules}
                         </pre>
                       </CardContent>
                     </Card>
                   )}
+
+                  {selectedJob.watermarkColumn && (
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm">Incremental Watermark</CardTitle>
+                      </CardHeader>
+                      <CardContent className="flex items-center justify-between">
+                        <div className="text-sm">
+                          <p className="font-medium">{selectedJob.watermarkColumn}</p>
+                          <p className="text-muted-foreground">
+                            {selectedJob.watermarkValue
+                              ? `Last value ${selectedJob.watermarkValue}${selectedJob.watermarkUpdatedAt ? ` (updated ${new Date(selectedJob.watermarkUpdatedAt).toLocaleString()})` : ''}`
+                              : 'No watermark yet; the next run extracts everything'}
+                          </p>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!selectedJob.watermarkValue}
+                          onClick={() => resetWatermark(selectedJob)}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Reset
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  )}
                 </TabsContent>
                 
                 <TabsContent value="executions" className="space-y-4">
@@ -662,9 +1094,38 @@ export default function JobsPage() {
                                 {getStatusIcon(execution.status)}
                                 <span className="font-medium capitalize">{execution.status}</span>
                               </div>
-                              <span className="text-sm text-muted-foreground">
-                                {new Date(execution.startedAt).toLocaleString()}
-                              </span>
+                              <div className="flex items-center gap-2">
+                                <span className="text-sm text-muted-foreground">
+                                  {new Date(execution.startedAt).toLocaleString()}
+                                </span>
+                                {execution.status.toLowerCase() === 'running' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => controlExecution(selectedJob.id, execution.id, 'pause')}
+                                  >
+                                    <Pause className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {execution.status.toLowerCase() === 'paused' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => controlExecution(selectedJob.id, execution.id, 'resume')}
+                                  >
+                                    <Play className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {['queued', 'running', 'paused'].includes(execution.status.toLowerCase()) && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => controlExecution(selectedJob.id, execution.id, 'cancel')}
+                                  >
+                                    <XCircle className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
                             </div>
                             
                             <div className="grid grid-cols-3 gap-4 text-sm">
@@ -707,20 +1168,59 @@ export default function JobsPage() {
                 </TabsContent>
                 
                 <TabsContent value="logs" className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Select value={logExecutionId} onValueChange={setLogExecutionId}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue placeholder="No executions yet" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {jobExecutions.map((execution) => (
+                          <SelectItem key={execution.id} value={execution.id}>
+                            {new Date(execution.startedAt).toLocaleString()} ({execution.status.toLowerCase()})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={logLevel} onValueChange={setLogLevel}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All levels</SelectItem>
+                        {LOG_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>{level} and above</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Search messages..."
+                      value={logSearch}
+                      onChange={(e) => setLogSearch(e.target.value)}
+                    />
+                  </div>
                   <Card>
                     <CardContent className="pt-4">
                       <ScrollArea className="h-96">
                         <div className="space-y-2 font-mono text-sm">
-                          <div className="text-blue-600">[INFO] Job configuration loaded successfully</div>
-                          <div className="text-blue-600">[INFO] Source connection established</div>
-                          <div className="text-blue-600">[INFO] Target connection established</div>
-                          <div className="text-green-600">[SUCCESS] Data extraction completed</div>
-                          <div className="text-blue-600">[INFO] Applying transformation rules...</div>
-                          <div className="text-green-600">[SUCCESS] Data transformation completed</div>
-                          <div className="text-blue-600">[INFO] Loading data to target...</div>
-                          <div className="text-green-600">[SUCCESS] Data load completed</div>
+                          {executionLogs.length === 0 && (
+                            <div className="text-muted-foreground">No log entries</div>
+                          )}
+                          {executionLogs.map((entry) => (
+                            <div key={entry.id} className={LOG_LEVEL_COLORS[entry.level]}>
+                              <span className="text-muted-foreground">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                              {' '}[{entry.level}]{entry.stepName && ` [${entry.stepName}]`} {entry.message}
+                              {entry.fields && (
+                                <div className="text-xs text-muted-foreground break-all">{JSON.stringify(entry.fields)}</div>
+                              )}
+                            </div>
+                          ))}
                         </div>
                       </ScrollArea>
+                      {executionLogTotal > executionLogs.length && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Showing the first {executionLogs.length} of {executionLogTotal} entries
+                        </p>
+                      )}
                     </CardContent>
                   </Card>
                 </TabsContent>
@@ -738,24 +1238,24 @@ export default function JobsPage() {
                 Update the configuration for this job
               </DialogDescription>
             </DialogHeader>
-            <form onSubmit={handleUpdate} className="space-y-6">
+            <form onSubmit={form.handleSubmit(handleUpdate)} className="space-y-6">
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="edit-name">Job Name</Label>
                   <Input
                     id="edit-name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    {...form.register('name')}
                     required
                   />
+                  {renderFieldError(errors.name?.message)}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="edit-schedule">Schedule (Cron)</Label>
                   <Input
                     id="edit-schedule"
-                    value={formData.schedule}
-                    onChange={(e) => setFormData({ ...formData, schedule: e.target.value })}
+                    {...form.register('schedule')}
                   />
+                  {renderFieldError(errors.schedule?.message)}
                 </div>
               </div>
 
@@ -763,15 +1263,14 @@ export default function JobsPage() {
                 <Label htmlFor="edit-description">Description</Label>
                 <Textarea
                   id="edit-description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  {...form.register('description')}
                 />
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="edit-sourceId">Source Data Source</Label>
-                  <Select value={formData.sourceId} onValueChange={(value) => setFormData({ ...formData, sourceId: value })}>
+                  <Select value={formData.sourceId} onValueChange={(value) => form.setValue('sourceId', value, { shouldValidate: form.formState.isSubmitted })}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -786,10 +1285,11 @@ export default function JobsPage() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {renderFieldError(errors.sourceId?.message)}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="edit-targetId">Target Data Source</Label>
-                  <Select value={formData.targetId} onValueChange={(value) => setFormData({ ...formData, targetId: value })}>
+                  <Select value={formData.targetId} onValueChange={(value) => form.setValue('targetId', value, { shouldValidate: form.formState.isSubmitted })}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -804,39 +1304,123 @@ export default function JobsPage() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {renderFieldError(errors.targetId?.message)}
                 </div>
               </div>
 
               <div className="space-y-2">
                 <Label htmlFor="edit-query">Extraction Query</Label>
-                <Textarea
+                <QueryEditor
                   id="edit-query"
-                  value={formData.query}
-                  onChange={(e) => setFormData({ ...formData, query: e.target.value })}
-                  className="font-mono"
+                  value={formData.query ?? ''}
+                  onChange={(query) => form.setValue('query', query)}
+                  sourceId={formData.sourceId}
                 />
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="edit-transformRules">Transform Rules (JSON)</Label>
+                <Label htmlFor="edit-targetTable">Target Table</Label>
+                <Input
+                  id="edit-targetTable"
+                  {...form.register('targetTable')}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-loadMode">Load Mode</Label>
+                  <Select value={formData.loadMode ?? 'append'} onValueChange={(value) => form.setValue('loadMode', value as JobFormValues['loadMode'])}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="append">Append</SelectItem>
+                      <SelectItem value="overwrite">Overwrite</SelectItem>
+                      <SelectItem value="upsert">Upsert</SelectItem>
+                      <SelectItem value="scd2">SCD type 2</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {renderFieldError(errors.loadMode?.message)}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-keyColumns">Key Columns</Label>
+                  <Input
+                    id="edit-keyColumns"
+                    {...form.register('keyColumns')}
+                    placeholder="customer_id (required for upsert and SCD2)"
+                    disabled={!['upsert', 'scd2'].includes(formData.loadMode ?? '')}
+                  />
+                  {renderFieldError(errors.keyColumns?.message)}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-watermarkColumn">Watermark Column</Label>
+                <Input
+                  id="edit-watermarkColumn"
+                  {...form.register('watermarkColumn')}
+                  placeholder="Changing the column resets the stored watermark"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-riskLevel">Priority (Risk Level)</Label>
+                  <Select value={formData.riskLevel ?? 'LOW'} onValueChange={(value) => form.setValue('riskLevel', value as JobFormValues['riskLevel'])}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RISK_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level}>{level}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-maxConcurrentExecutions">Max Concurrent Runs</Label>
+                  <Input
+                    id="edit-maxConcurrentExecutions"
+                    type="number"
+                    min={1}
+                    max={MAX_CONCURRENT_EXECUTIONS}
+                    {...form.register('maxConcurrentExecutions', { valueAsNumber: true })}
+                  />
+                  {renderFieldError(errors.maxConcurrentExecutions?.message)}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-transformRules">Transform Rules</Label>
                 <Textarea
                   id="edit-transformRules"
-                  value={formData.transformRules}
-                  onChange={(e) => setFormData({ ...formData, transformRules: e.target.value })}
+                  {...form.register('transformRules')}
                   className="font-mono"
+                  rows={5}
                 />
+                {renderFieldError(errors.transformRules?.message)}
               </div>
 
+              {renderFieldError(errors.root?.message)}
+
               <div className="flex items-center space-x-2">
                 <Switch
                   id="edit-isActive"
                   checked={formData.isActive}
-                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                  onCheckedChange={(checked) => form.setValue('isActive', checked)}
                 />
                 <Label htmlFor="edit-isActive">Active</Label>
               </div>
 
               <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => editingJob && previewJob(editingJob, { query: formData.query ?? '', transformRules: formData.transformRules ?? '' })}
+                >
+                  <FileSearch className="h-4 w-4 mr-2" />
+                  Preview Changes
+                </Button>
                 <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                   Cancel
                 </Button>
@@ -845,6 +1429,94 @@ export default function JobsPage() {
             </form>
           </DialogContent>
         </Dialog>
+
+        {/* Preview Dialog */}
+        <Dialog open={!!previewingJob} onOpenChange={(open) => !open && setPreviewingJob(null)}>
+          <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <FileSearch className="h-4 w-4" />
+                Preview: {previewingJob?.name}
+              </DialogTitle>
+              <DialogDescription>
+                First {PREVIEW_LIMIT} source rows with the transform rules applied. Nothing is written to the target.
+              </DialogDescription>
+            </DialogHeader>
+
+            {isPreviewLoading && (
+              <div className="flex items-center justify-center py-8">
+                <RefreshCw className="h-6 w-6 animate-spin" />
+              </div>
+            )}
+
+            {previewError && (
+              <div className="rounded bg-red-50 p-3 text-sm text-red-600 whitespace-pre-wrap">{previewError}</div>
+            )}
+
+            {preview && (
+              <div className="space-y-4">
+                <div className="flex gap-2 text-sm">
+                  <Badge variant="secondary">{preview.before.length} extracted</Badge>
+                  <Badge variant="secondary">{preview.after.length} after transform</Badge>
+                  <Badge variant="secondary">{preview.filtered} filtered</Badge>
+                  <Badge variant={preview.errors.length > 0 ? 'destructive' : 'secondary'}>{preview.errors.length} errors</Badge>
+                </div>
+
+                <Tabs defaultValue="after" className="space-y-4">
+                  <TabsList>
+                    <TabsTrigger value="before">Before</TabsTrigger>
+                    <TabsTrigger value="after">After</TabsTrigger>
+                    <TabsTrigger value="schema">Output Schema</TabsTrigger>
+                    {preview.errors.length > 0 && <TabsTrigger value="errors">Errors</TabsTrigger>}
+                  </TabsList>
+
+                  <TabsContent value="before">
+                    {renderPreviewTable(preview.before)}
+                  </TabsContent>
+
+                  <TabsContent value="after">
+                    {renderPreviewTable(preview.after)}
+                  </TabsContent>
+
+                  <TabsContent value="schema">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Column</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Nullable</TableHead>
+                          <TableHead>Input Type</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.outputSchema.map((column) => {
+                          const input = preview.inputSchema.find(candidate => candidate.name === column.name)
+                          return (
+                            <TableRow key={column.name}>
+                              <TableCell className="font-mono text-xs">{column.name}</TableCell>
+                              <TableCell className="font-mono text-xs">{column.type}</TableCell>
+                              <TableCell className="text-xs">{column.nullable ? 'yes' : 'no'}</TableCell>
+                              <TableCell className="font-mono text-xs text-muted-foreground">{input ? input.type : 'new'}</TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  </TabsContent>
+
+                  <TabsContent value="errors" className="space-y-2">
+                    {preview.errors.map((error, index) => (
+                      <div key={index} className="rounded border p-2 text-xs">
+                        <p className="text-red-600">{error.error}</p>
+                        <pre className="mt-1 font-mono text-muted-foreground whitespace-pre-wrap">{JSON.stringify(error.record)}</pre>
+                      </div>
+                    ))}
+                  </TabsContent>
+                </Tabs>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   )
@@ -23,6 +23,7 @@ import {
   Square
 } from 'lucide-react'
 import { useSocket, useSocketListener } from '@/hooks/use-socket'
+import WorkspaceSwitcher from '@/app/components/WorkspaceSwitcher'
 
 interface LogEntry {
   id: string
@@ -65,16 +66,19 @@ export default function MonitoringPage() {
   useEffect(() => {
     setIsConnected(socketConnected)
     if (socketConnected) {
+      // The server pushes fresh stats to the dashboard room; this fetches the first ones
       joinDashboard()
-      subscribeToLogs()
       getStats()
-      
-      // Set up periodic stats refresh
-      const statsInterval = setInterval(getStats, 30000)
-      return () => clearInterval(statsInterval)
     }
   }, [socketConnected])
 
+  // The server only streams logs matching the filter, and resends the recent ones on every change
+  useEffect(() => {
+    if (socketConnected) {
+      subscribeToLogs(logFilter === 'all' ? undefined : { level: logFilter })
+    }
+  }, [socketConnected, logFilter])
+
   // Listen for new logs
   useSocketListener(socket, 'new-log', (log: LogEntry) => {
     setLogs(prev => {
@@ -88,8 +92,8 @@ export default function MonitoringPage() {
     }
   })
 
-  // Listen for job updates
-  useSocketListener(socket, 'job-update', (update: JobUpdate) => {
+  // Listen for job updates, sent to the dashboard room for every job
+  useSocketListener(socket, 'job-status-update', (update: JobUpdate) => {
     setJobUpdates(prev => ({
       ...prev,
       [update.jobId]: update
@@ -147,6 +151,12 @@ export default function MonitoringPage() {
     }
   }
 
+  const formatWindow = (hours: number) => (hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`)
+
+  // Average throughput of the shortest window that had completed executions
+  const latestThroughput = (stats: any): number | null =>
+    stats.windows.find((window: any) => window.avgThroughputRecordsPerSec !== null)?.avgThroughputRecordsPerSec ?? null
+
   const clearLogs = () => {
     setLogs([])
   }
@@ -170,11 +180,14 @@ export default function MonitoringPage() {
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-3xl font-bold tracking-tight">Real-time Monitoring</h1>
-            <p className="text-muted-foreground">
-              Live monitoring of ETL jobs and system activity
-            </p>
+          <div className="flex items-center gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Real-time Monitoring</h1>
+              <p className="text-muted-foreground">
+                Live monitoring of ETL jobs and system activity
+              </p>
+            </div>
+            <WorkspaceSwitcher />
           </div>
           <div className="flex items-center gap-2">
             <Badge variant={isConnected ? 'default' : 'destructive'}>
@@ -212,7 +225,9 @@ export default function MonitoringPage() {
               <CardContent>
                 <div className="text-2xl font-bold">{systemStats.successRate}%</div>
                 <p className="text-xs text-muted-foreground">
-                  {systemStats.failedJobs} failed
+                  {systemStats.windows
+                    .map((window: any) => `${formatWindow(window.hours)}: ${window.successRate ?? '–'}${window.successRate === null ? '' : '%'}`)
+                    .join(' · ')}
                 </p>
               </CardContent>
             </Card>
@@ -225,8 +240,13 @@ export default function MonitoringPage() {
               <CardContent>
                 <div className="text-2xl font-bold">{systemStats.totalDataSources}</div>
                 <p className="text-xs text-muted-foreground">
-                  Connected sources
+                  {systemStats.dataSourceHealth.FAILING} failing, {systemStats.dataSourceHealth.DEGRADED} degraded
                 </p>
+                {systemStats.unhealthyDataSources.length > 0 && (
+                  <p className="text-xs text-red-600 truncate">
+                    {systemStats.unhealthyDataSources.map((source: any) => source.name).join(', ')}
+                  </p>
+                )}
               </CardContent>
             </Card>
 
@@ -238,7 +258,8 @@ export default function MonitoringPage() {
               <CardContent>
                 <div className="text-2xl font-bold">{systemStats.activeJobs}</div>
                 <p className="text-xs text-muted-foreground">
-                  Currently running
+                  {systemStats.queuedExecutions} queued
+                  {latestThroughput(systemStats) !== null && ` · ${latestThroughput(systemStats)} records/s`}
                 </p>
               </CardContent>
             </Card>
@@ -1,6 +1,8 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -30,6 +32,22 @@ import {
   Trash2,
   MarkAsRead
 } from 'lucide-react'
+import WorkspaceSwitcher from '@/app/components/WorkspaceSwitcher'
+import {
+  applyValidationErrors,
+  BroadcastFormValues,
+  BroadcastInput,
+  broadcastSchema,
+  NotificationChannel
+} from '@/lib/schemas'
+
+const EMPTY_BROADCAST: BroadcastFormValues = {
+  title: '',
+  message: '',
+  type: 'SYSTEM_ALERT',
+  channels: ['IN_APP'],
+  userRole: 'ALL'
+}
 
 interface Notification {
   id: string
@@ -69,13 +87,12 @@ export default function NotificationsPage() {
     channels: ['IN_APP']
   })
 
-  const [broadcastFormData, setBroadcastFormData] = useState({
-    title: '',
-    message: '',
-    type: 'SYSTEM_ALERT',
-    channels: ['IN_APP'],
-    userRole: 'ALL'
+  const broadcastForm = useForm<BroadcastFormValues, unknown, BroadcastInput>({
+    resolver: zodResolver(broadcastSchema),
+    defaultValues: EMPTY_BROADCAST
   })
+  const broadcastFormData = broadcastForm.watch()
+  const broadcastErrors = broadcastForm.formState.errors
 
   const [settingsFormData, setSettingsFormData] = useState({
     emailNotifications: true,
@@ -126,10 +143,7 @@ export default function NotificationsPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          ...formData,
-          userId: 'demo-user' // In real app, get from auth
-        }),
+        body: JSON.stringify(formData),
       })
 
       if (response.ok) {
@@ -147,34 +161,33 @@ export default function NotificationsPage() {
     }
   }
 
-  const handleBroadcast = async (e: React.FormEvent) => {
-    e.preventDefault()
-    
+  const handleBroadcast = async (values: BroadcastInput) => {
     try {
       const response = await fetch('/api/notifications/broadcast', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(broadcastFormData),
+        body: JSON.stringify(values),
       })
 
       if (response.ok) {
         await fetchNotifications()
         setIsBroadcastDialogOpen(false)
-        setBroadcastFormData({
-          title: '',
-          message: '',
-          type: 'SYSTEM_ALERT',
-          channels: ['IN_APP'],
-          userRole: 'ALL'
-        })
+        broadcastForm.reset(EMPTY_BROADCAST)
+      } else {
+        applyValidationErrors(await response.json(), broadcastForm.setError)
       }
     } catch (error) {
       console.error('Error sending broadcast:', error)
     }
   }
 
+  const setBroadcastChannel = (channel: NotificationChannel, enabled: boolean) => {
+    const channels = broadcastForm.getValues('channels') ?? []
+    broadcastForm.setValue('channels', enabled ? [...channels, channel] : channels.filter(c => c !== channel))
+  }
+
   const handleMarkAsRead = async (id: string) => {
     try {
       const response = await fetch(`/api/notifications/${id}`, {
@@ -267,11 +280,14 @@ export default function NotificationsPage() {
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
-            <p className="text-muted-foreground">
-              Manage notifications and alert settings
-            </p>
+          <div className="flex items-center gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
+              <p className="text-muted-foreground">
+                Manage notifications and alert settings
+              </p>
+            </div>
+            <WorkspaceSwitcher />
           </div>
           <div className="flex items-center gap-2">
             <Badge variant={unreadCount > 0 ? 'default' : 'secondary'}>
@@ -346,33 +362,33 @@ export default function NotificationsPage() {
                     Send a notification to multiple users
                   </DialogDescription>
                 </DialogHeader>
-                <form onSubmit={handleBroadcast} className="space-y-4">
+                <form onSubmit={broadcastForm.handleSubmit(handleBroadcast)} className="space-y-4">
                   <div className="space-y-2">
                     <Label htmlFor="broadcast-title">Title</Label>
                     <Input
                       id="broadcast-title"
-                      value={broadcastFormData.title}
-                      onChange={(e) => setBroadcastFormData({ ...broadcastFormData, title: e.target.value })}
+                      {...broadcastForm.register('title')}
                       placeholder="System Maintenance"
                       required
                     />
+                    {broadcastErrors.title && <p className="text-xs text-destructive">{broadcastErrors.title.message}</p>}
                   </div>
 
                   <div className="space-y-2">
                     <Label htmlFor="broadcast-message">Message</Label>
                     <Textarea
                       id="broadcast-message"
-                      value={broadcastFormData.message}
-                      onChange={(e) => setBroadcastFormData({ ...broadcastFormData, message: e.target.value })}
+                      {...broadcastForm.register('message')}
                       placeholder="The system will be under maintenance..."
                       required
                     />
+                    {broadcastErrors.message && <p className="text-xs text-destructive">{broadcastErrors.message.message}</p>}
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="broadcast-type">Type</Label>
-                      <Select value={broadcastFormData.type} onValueChange={(value) => setBroadcastFormData({ ...broadcastFormData, type: value })}>
+                      <Select value={broadcastFormData.type} onValueChange={(value) => broadcastForm.setValue('type', value as BroadcastFormValues['type'])}>
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
@@ -387,7 +403,7 @@ export default function NotificationsPage() {
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="broadcast-role">Send to</Label>
-                      <Select value={broadcastFormData.userRole} onValueChange={(value) => setBroadcastFormData({ ...broadcastFormData, userRole: value })}>
+                      <Select value={broadcastFormData.userRole} onValueChange={(value) => broadcastForm.setValue('userRole', value as BroadcastFormValues['userRole'])}>
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
@@ -406,46 +422,30 @@ export default function NotificationsPage() {
                     <div className="flex items-center gap-4">
                       <div className="flex items-center space-x-2">
                         <Switch
-                          checked={broadcastFormData.channels.includes('IN_APP')}
-                          onCheckedChange={(checked) => {
-                            if (checked) {
-                              setBroadcastFormData({ ...broadcastFormData, channels: [...broadcastFormData.channels, 'IN_APP'] })
-                            } else {
-                              setBroadcastFormData({ ...broadcastFormData, channels: broadcastFormData.channels.filter(c => c !== 'IN_APP') })
-                            }
-                          }}
+                          checked={broadcastFormData.channels?.includes('IN_APP')}
+                          onCheckedChange={(checked) => setBroadcastChannel('IN_APP', checked)}
                         />
                         <Label>In-App</Label>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Switch
-                          checked={broadcastFormData.channels.includes('EMAIL')}
-                          onCheckedChange={(checked) => {
-                            if (checked) {
-                              setBroadcastFormData({ ...broadcastFormData, channels: [...broadcastFormData.channels, 'EMAIL'] })
-                            } else {
-                              setBroadcastFormData({ ...broadcastFormData, channels: broadcastFormData.channels.filter(c => c !== 'EMAIL') })
-                            }
-                          }}
+                          checked={broadcastFormData.channels?.includes('EMAIL')}
+                          onCheckedChange={(checked) => setBroadcastChannel('EMAIL', checked)}
                         />
                         <Label>Email</Label>
                       </div>
                       <div className="flex items-center space-x-2">
                         <Switch
-                          checked={broadcastFormData.channels.includes('TELEGRAM')}
-                          onCheckedChange={(checked) => {
-                            if (checked) {
-                              setBroadcastFormData({ ...broadcastFormData, channels: [...broadcastFormData.channels, 'TELEGRAM'] })
-                            } else {
-                              setBroadcastFormData({ ...broadcastFormData, channels: broadcastFormData.channels.filter(c => c !== 'TELEGRAM') })
-                            }
-                          }}
+                          checked={broadcastFormData.channels?.includes('TELEGRAM')}
+                          onCheckedChange={(checked) => setBroadcastChannel('TELEGRAM', checked)}
                         />
                         <Label>Telegram</Label>
                       </div>
                     </div>
                   </div>
 
+                  {broadcastErrors.root && <p className="text-xs text-destructive">{broadcastErrors.root.message}</p>}
+
                   <div className="flex justify-end gap-2">
                     <Button type="button" variant="outline" onClick={() => setIsBroadcastDialogOpen(false)}>
                       Cancel
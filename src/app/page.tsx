@@ -24,6 +24,8 @@ import {
   BarChart3,
   RefreshCw
 } from 'lucide-react'
+import WorkspaceSwitcher from '@/app/components/WorkspaceSwitcher'
+import { useSocket, useSocketListener } from '@/hooks/use-socket'
 
 interface DashboardStats {
   totalJobs: number
@@ -70,23 +72,35 @@ export default function Dashboard() {
   const [alerts, setAlerts] = useState<SystemAlert[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
+  const { socket, isConnected, joinDashboard, getStats } = useSocket()
+
+  // Live stats: requested once on connect, then pushed to the dashboard room by the server
+  useEffect(() => {
+    if (isConnected) {
+      joinDashboard()
+      getStats()
+    }
+  }, [isConnected])
+
+  useSocketListener(socket, 'stats-data', (data: DashboardStats) => {
+    setStats({
+      totalJobs: data.totalJobs,
+      activeJobs: data.activeJobs,
+      completedJobs: data.completedJobs,
+      failedJobs: data.failedJobs,
+      totalDataSources: data.totalDataSources,
+      activeDataSources: data.activeDataSources,
+      totalRecordsProcessed: data.totalRecordsProcessed,
+      successRate: data.successRate
+    })
+  })
+
   useEffect(() => {
     // Simulate initial data loading
     const loadDashboardData = async () => {
       setIsLoading(true)
       
       // Mock data - in real app, this would come from API
-      setStats({
-        totalJobs: 24,
-        activeJobs: 3,
-        completedJobs: 18,
-        failedJobs: 3,
-        totalDataSources: 8,
-        activeDataSources: 7,
-        totalRecordsProcessed: 1250000,
-        successRate: 85.7
-      })
-
       setRecentJobs([
         {
           id: '1',
@@ -145,14 +159,6 @@ export default function Dashboard() {
     }
 
     loadDashboardData()
-
-    // Set up real-time updates
-    const interval = setInterval(() => {
-      // In real app, this would be WebSocket or polling
-      console.log('Refreshing dashboard data...')
-    }, 30000)
-
-    return () => clearInterval(interval)
   }, [])
 
   const getStatusIcon = (status: string) => {
@@ -196,11 +202,14 @@ export default function Dashboard() {
       <div className="max-w-7xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-3xl font-bold tracking-tight">ETL Dashboard</h1>
-            <p className="text-muted-foreground">
-              Monitor and manage your data integration workflows
-            </p>
+          <div className="flex items-center gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">ETL Dashboard</h1>
+              <p className="text-muted-foreground">
+                Monitor and manage your data integration workflows
+              </p>
+            </div>
+            <WorkspaceSwitcher />
           </div>
           <div className="flex items-center gap-2">
             <Button variant="outline" size="sm" asChild>
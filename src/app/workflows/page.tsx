@@ -15,6 +15,7 @@ import {
   Database,
   FileText
 } from 'lucide-react';
+import WorkspaceSwitcher from '@/app/components/WorkspaceSwitcher';
 
 interface WorkflowExecution {
   id: string;
@@ -201,6 +202,7 @@ export default function WorkflowManagementPage() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <WorkspaceSwitcher />
               <button
                 onClick={() => getAIInsights(workflows[0]?.id)}
                 className="px-4 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200"
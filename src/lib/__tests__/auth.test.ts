@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+import { getToken } from 'next-auth/jwt'
+import { verifyApiToken } from '../api-tokens'
+import { PERMISSIONS, withAuth } from '../auth'
+import { db } from '../db'
+
+vi.mock('next-auth/jwt', () => ({ getToken: vi.fn() }))
+vi.mock('../db', () => ({ db: { user: { findUnique: vi.fn() } } }))
+vi.mock('../api-tokens', () => ({ verifyApiToken: vi.fn() }))
+vi.mock('../workspace', () => ({ resolveWorkspace: vi.fn(async () => null) }))
+vi.mock('../rate-limit', () => ({
+  RateLimiter: {
+    getInstance: () => ({
+      check: async () => ({ allowed: true, limit: 100, remaining: 99, resetSeconds: 60, windowSeconds: 60 })
+    })
+  },
+  rateLimitHeaders: () => ({})
+}))
+
+// Roles as stored now; sessions carry the role held at sign-in
+const users: Record<string, { email: string; role: string } | undefined> = {
+  'user-1': { email: 'viewer@example.com', role: 'VIEWER' },
+  'user-2': { email: 'demoted@example.com', role: 'VIEWER' },
+  'user-4': { email: 'analyst@example.com', role: 'USER' }
+}
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/jobs', { headers })
+}
+
+describe('withAuth', () => {
+  const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    vi.mocked(db.user.findUnique).mockImplementation((async (args: any) => users[args.where.id] ?? null) as any)
+  })
+
+  it('returns 401 without a session', async () => {
+    vi.mocked(getToken).mockResolvedValue(null)
+
+    const response = await withAuth(PERMISSIONS.JOB_VIEW)(handler)(request(), {})
+
+    expect(response.status).toBe(401)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('returns 401 for an unknown API token', async () => {
+    vi.mocked(verifyApiToken).mockResolvedValue(null)
+
+    const response = await withAuth(PERMISSIONS.JOB_VIEW)(handler)(request({ authorization: 'Bearer unknown' }), {})
+
+    expect(response.status).toBe(401)
+    expect(getToken).not.toHaveBeenCalled()
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('returns 403 when the role lacks the permission', async () => {
+    vi.mocked(getToken).mockResolvedValue({ sub: 'user-1', email: 'viewer@example.com', role: 'VIEWER' })
+
+    const response = await withAuth(PERMISSIONS.JOB_DELETE)(handler)(request(), {})
+
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ error: 'Forbidden' })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('returns 403 when the API token is not scoped for the permission', async () => {
+    vi.mocked(verifyApiToken).mockResolvedValue({
+      tokenId: 'token-1',
+      userId: 'user-1',
+      email: 'admin@example.com',
+      role: 'ADMIN',
+      scopes: [PERMISSIONS.JOB_VIEW],
+      workspaceId: null
+    })
+
+    const response = await withAuth(PERMISSIONS.JOB_EXECUTE)(handler)(request({ authorization: 'Bearer token' }), {})
+
+    expect(response.status).toBe(403)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('calls the handler when the permission is held', async () => {
+    vi.mocked(getToken).mockResolvedValue({ sub: 'user-1', email: 'viewer@example.com', role: 'VIEWER' })
+
+    const response = await withAuth(PERMISSIONS.JOB_VIEW)(handler)(request(), { params: { id: 'job-1' } })
+
+    expect(response.status).toBe(200)
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ user: expect.objectContaining({ id: 'user-1', role: 'VIEWER' }) }),
+      { params: { id: 'job-1' } }
+    )
+  })
+  it('applies the stored role instead of the one in the session', async () => {
+    vi.mocked(getToken).mockResolvedValue({ sub: 'user-2', email: 'demoted@example.com', role: 'ADMIN' })
+
+    const response = await withAuth(PERMISSIONS.JOB_DELETE)(handler)(request(), {})
+
+    expect(response.status).toBe(403)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('returns 401 for the session of a deleted user', async () => {
+    vi.mocked(getToken).mockResolvedValue({ sub: 'user-3', email: 'gone@example.com', role: 'ADMIN' })
+
+    const response = await withAuth(PERMISSIONS.JOB_VIEW)(handler)(request(), {})
+
+    expect(response.status).toBe(401)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('reads the user of a session again only after a short while', async () => {
+    vi.mocked(getToken).mockResolvedValue({ sub: 'user-4', email: 'analyst@example.com', role: 'USER' })
+
+    await withAuth(PERMISSIONS.JOB_VIEW)(handler)(request(), {})
+    await withAuth(PERMISSIONS.JOB_VIEW)(handler)(request(), {})
+
+    expect(db.user.findUnique).toHaveBeenCalledTimes(1)
+    vi.useFakeTimers({ now: Date.now() + 60000 })
+    try {
+      await withAuth(PERMISSIONS.JOB_VIEW)(handler)(request(), {})
+    } finally {
+      vi.useRealTimers()
+    }
+    expect(db.user.findUnique).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { getNextRun, getOccurrencesBetween, resolveTimezone, validateCronExpression } from '../cron'
+
+describe('getNextRun', () => {
+  it('returns the next occurrence strictly after the given time', () => {
+    expect(getNextRun('0 0 * * *', 'UTC', new Date('2026-01-01T00:00:00Z'))).toEqual(new Date('2026-01-02T00:00:00Z'))
+  })
+
+  it('interprets the schedule in the given timezone', () => {
+    const from = new Date('2026-01-01T00:00:00Z')
+
+    expect(getNextRun('0 9 * * *', 'Asia/Kolkata', from)).toEqual(new Date('2026-01-01T03:30:00Z'))
+    expect(getNextRun('0 9 * * *', 'America/New_York', from)).toEqual(new Date('2026-01-01T14:00:00Z'))
+  })
+
+  it('falls back to UTC for an unknown timezone', () => {
+    expect(getNextRun('0 9 * * *', 'Not/AZone', new Date('2026-01-01T00:00:00Z'))).toEqual(new Date('2026-01-01T09:00:00Z'))
+  })
+
+  it('moves a time skipped by the spring-forward change to the hour after', () => {
+    // 02:30 does not exist in New York on 2026-03-08; 03:30 EDT is 07:30 UTC
+    expect(getNextRun('30 2 * * *', 'America/New_York', new Date('2026-03-07T12:00:00Z'))).toEqual(new Date('2026-03-08T07:30:00Z'))
+  })
+})
+
+describe('getOccurrencesBetween', () => {
+  it('keeps the local time of day across the spring-forward change', () => {
+    const occurrences = getOccurrencesBetween('0 9 * * *', 'Europe/Berlin', new Date('2026-03-27T12:00:00Z'), new Date('2026-03-31T12:00:00Z'), 10)
+
+    expect(occurrences).toEqual([
+      new Date('2026-03-28T08:00:00Z'),
+      new Date('2026-03-29T07:00:00Z'),
+      new Date('2026-03-30T07:00:00Z'),
+      new Date('2026-03-31T07:00:00Z')
+    ])
+  })
+
+  it('fires a time repeated by the fall-back change once', () => {
+    // 01:30 happens twice in New York on 2026-11-01
+    const occurrences = getOccurrencesBetween('30 1 * * *', 'America/New_York', new Date('2026-10-31T12:00:00Z'), new Date('2026-11-02T12:00:00Z'), 10)
+
+    expect(occurrences).toEqual([new Date('2026-11-01T05:30:00Z'), new Date('2026-11-02T06:30:00Z')])
+  })
+
+  it('excludes the start, includes the end and stops at the limit', () => {
+    const from = new Date('2026-01-01T00:00:00Z')
+
+    expect(getOccurrencesBetween('0 0 * * *', 'UTC', from, new Date('2026-01-03T00:00:00Z'), 10)).toEqual([
+      new Date('2026-01-02T00:00:00Z'),
+      new Date('2026-01-03T00:00:00Z')
+    ])
+    expect(getOccurrencesBetween('0 * * * *', 'UTC', from, new Date('2026-01-02T00:00:00Z'), 3)).toHaveLength(3)
+  })
+})
+
+describe('validateCronExpression', () => {
+  it('accepts valid expressions and reports invalid ones', () => {
+    expect(validateCronExpression('*/15 * * * *')).toBeNull()
+    expect(validateCronExpression('0 9 * * MON-FRI', 'Europe/Berlin')).toBeNull()
+    expect(validateCronExpression('61 * * * *')).toEqual(expect.any(String))
+    expect(validateCronExpression('every day')).toEqual(expect.any(String))
+  })
+
+  it('rejects unknown timezones', () => {
+    expect(validateCronExpression('0 9 * * *', 'Mars/Olympus')).toBe('Unknown timezone: Mars/Olympus')
+    expect(resolveTimezone('Mars/Olympus')).toBe('UTC')
+    expect(resolveTimezone('Asia/Tokyo')).toBe('Asia/Tokyo')
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { compileExpression, parseExpression } from '../expression'
+
+function evaluate(source: string, scope: Record<string, any> = {}) {
+  return compileExpression(source)(scope)
+}
+
+describe('expression evaluator', () => {
+  it('applies arithmetic before comparison and comparison before logic', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7)
+    expect(evaluate('(1 + 2) * 3')).toBe(9)
+    expect(evaluate('10 - 4 - 3')).toBe(3)
+    expect(evaluate('amount * 2 > 10 and status == "open"', { amount: 6, status: 'open' })).toBe(true)
+    expect(evaluate('false and false or true')).toBe(true)
+    expect(evaluate('true or false and false')).toBe(true)
+  })
+
+  it('binds unary operators tighter than the operators around them', () => {
+    expect(evaluate('-2 * 3')).toBe(-6)
+    expect(evaluate('not a and b', { a: false, b: false })).toBe(false)
+    expect(evaluate('not a == b', { a: 1, b: 2 })).toBe(true)
+  })
+
+  it('accepts the symbolic aliases of the keyword operators', () => {
+    expect(evaluate('a && !b || c <> 1', { a: true, b: true, c: 2 })).toBe(true)
+    expect(evaluate('status = "void"', { status: 'void' })).toBe(true)
+  })
+
+  it('compares numeric strings as numbers', () => {
+    expect(evaluate('amount > 9', { amount: '10' })).toBe(true)
+    expect(evaluate('amount == 10', { amount: '10.0' })).toBe(true)
+    expect(evaluate('name < "b"', { name: 'alice' })).toBe(true)
+  })
+
+  it('treats null and missing values as equal to each other only', () => {
+    expect(evaluate('missing == null')).toBe(true)
+    expect(evaluate('value == null', { value: null })).toBe(true)
+    expect(evaluate('value == 0', { value: null })).toBe(false)
+    expect(evaluate('value != null', { value: 0 })).toBe(true)
+    expect(evaluate('customer.segment', { customer: null })).toBeUndefined()
+  })
+
+  it('lets null-aware functions handle missing values', () => {
+    expect(evaluate('coalesce(nickname, name, "unknown")', { nickname: '', name: null })).toBe('unknown')
+    expect(evaluate('isNull(email)', {})).toBe(true)
+    expect(evaluate('lower(email)', { email: null })).toBeNull()
+    expect(evaluate('concat(first, " ", last)', { first: 'Ada', last: null })).toBe('Ada ')
+  })
+
+  it('resolves dotted and bracketed references to own properties only', () => {
+    const scope = { steps: { 'extract-data': { recordsProcessed: 42 } } }
+
+    expect(evaluate("steps['extract-data'].recordsProcessed", scope)).toBe(42)
+    expect(evaluate('steps.constructor', scope)).toBeUndefined()
+    expect(evaluate('toString', scope)).toBeUndefined()
+  })
+
+  it('rejects invalid input with the offending column', () => {
+    expect(() => parseExpression('')).toThrow('Expression is empty')
+    expect(() => parseExpression('amount >')).toThrow('Unexpected end of expression at column 9')
+    expect(() => parseExpression('(amount > 1')).toThrow('at column 12')
+    expect(() => parseExpression('eval(amount)')).toThrow('Unknown function "eval" at column 1')
+    expect(() => parseExpression("name == 'open")).toThrow('Unterminated string at column 9')
+    expect(() => parseExpression('amount 1')).toThrow('at column 8')
+  })
+})
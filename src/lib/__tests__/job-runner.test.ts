@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { db } from '../db'
+import { createConnector } from '../connectors'
+import { JobRunner } from '../job-runner'
+
+vi.mock('../db', () => ({
+  db: {
+    jobExecution: { findUnique: vi.fn(), update: vi.fn(async () => ({})) },
+    eTLJob: { update: vi.fn(async () => ({})) },
+    syncLog: { create: vi.fn(async ({ data }) => ({ id: 'log-1', ...data, details: data.details })) }
+  }
+}))
+vi.mock('../connectors', () => ({
+  createConnector: vi.fn(),
+  isLoadMode: (mode: string) => mode === 'append',
+  maxWatermark: vi.fn(),
+  parseKeyColumns: () => [],
+  resumeOrderError: () => null,
+  validateLoadOptions: () => null
+}))
+vi.mock('../job-state-manager', () => ({
+  JobStateManager: { getInstance: () => ({ getLatestCheckpoint: async () => null, createCheckpoint: async () => 'checkpoint-1' }) }
+}))
+vi.mock('../secret-vault', () => ({
+  SecretVault: { getInstance: () => ({ resolveSource: async (source: any) => source }) }
+}))
+vi.mock('../execution-events', () => ({
+  ExecutionEventBus: { getInstance: () => ({ publish: async () => undefined }) }
+}))
+vi.mock('../execution-log', () => ({
+  ExecutionLogStore: { getInstance: () => ({ append: async () => undefined }) }
+}))
+
+const job = {
+  id: 'job-1',
+  name: 'Nightly export',
+  sourceId: 'source-1',
+  targetId: 'target-1',
+  loadMode: 'append',
+  keyColumns: null,
+  targetTable: 'orders',
+  query: null,
+  watermarkColumn: null,
+  watermarkValue: null,
+  transformRules: null,
+  source: { id: 'source-1', name: 'orders.csv', type: 'CSV', connectionString: 'orders.csv', workspaceId: null },
+  target: { id: 'target-1', name: 'warehouse', type: 'POSTGRESQL', connectionString: 'postgres://', workspaceId: null }
+}
+
+function connectors(onBatch: (batch: number) => void) {
+  const source = {
+    connect: vi.fn(async () => undefined),
+    close: vi.fn(async () => undefined),
+    extract: async function* () {
+      for (let batch = 1; batch <= 5; batch++) {
+        yield [{ id: batch }]
+      }
+    }
+  }
+  const target = {
+    connect: vi.fn(async () => undefined),
+    close: vi.fn(async () => undefined),
+    flush: vi.fn(async () => undefined),
+    load: vi.fn(async (records: any[]) => {
+      onBatch(target.load.mock.calls.length)
+      return { success: records.length, failed: 0, errors: [] }
+    })
+  }
+  vi.mocked(createConnector).mockReturnValueOnce(source as any).mockReturnValueOnce(target as any)
+  return { source, target }
+}
+
+describe('JobRunner.execute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.mocked(db.jobExecution.findUnique).mockResolvedValue({ id: 'execution-1', jobId: 'job-1', job } as any)
+  })
+
+  it('stops at the next batch boundary once aborted, without committing or recording an outcome', async () => {
+    const lost = new AbortController()
+    const { target } = connectors(batch => {
+      if (batch === 2) lost.abort()
+    })
+
+    const result = await JobRunner.getInstance().execute('execution-1', lost.signal)
+
+    expect(result).toMatchObject({ status: 'ABANDONED', recordsProcessed: 2 })
+    expect(target.load).toHaveBeenCalledTimes(2)
+    expect(target.flush).not.toHaveBeenCalled()
+    expect(target.close).toHaveBeenCalled()
+    expect(db.eTLJob.update).not.toHaveBeenCalled()
+    expect(db.jobExecution.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: expect.anything() }) })
+    )
+  })
+
+  it('loads every batch and commits when not aborted', async () => {
+    const { target } = connectors(() => undefined)
+
+    const result = await JobRunner.getInstance().execute('execution-1', new AbortController().signal)
+
+    expect(result).toMatchObject({ status: 'COMPLETED', recordsProcessed: 5, recordsSuccess: 5 })
+    expect(target.flush).toHaveBeenCalled()
+    expect(db.eTLJob.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: 'COMPLETED' }) }))
+  })
+})
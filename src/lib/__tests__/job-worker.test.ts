@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LeaseQueue, LeaseRunner, runLeasedExecution } from '../job-worker'
+import type { JobRunResult } from '../job-runner'
+
+vi.mock('../job-queue', () => ({ JobQueue: { getInstance: vi.fn() } }))
+vi.mock('../job-runner', () => ({ JobRunner: { getInstance: vi.fn() } }))
+
+const lease = { id: 'item-1', executionId: 'execution-1', jobId: 'job-1', attempts: 1 }
+
+function fakeQueue(renewed: boolean): LeaseQueue {
+  return {
+    heartbeatIntervalMs: 10,
+    heartbeat: vi.fn(async () => renewed),
+    complete: vi.fn(async () => undefined),
+    release: vi.fn(async () => undefined)
+  }
+}
+
+// Loads a batch every 5ms until the signal is aborted, like the runner checking it at batch boundaries
+function fakeRunner(maxBatches = 100): LeaseRunner & { batches: number } {
+  const runner = {
+    batches: 0,
+    execute: vi.fn(async (_executionId: string, signal?: AbortSignal): Promise<JobRunResult> => {
+      while (runner.batches < maxBatches) {
+        if (signal?.aborted) {
+          return { status: 'ABANDONED', recordsProcessed: runner.batches, recordsSuccess: runner.batches, recordsFailed: 0 }
+        }
+        runner.batches++
+        await vi.advanceTimersByTimeAsync(5)
+      }
+      return { status: 'COMPLETED', recordsProcessed: runner.batches, recordsSuccess: runner.batches, recordsFailed: 0 }
+    })
+  }
+  return runner
+}
+
+describe('runLeasedExecution', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('stops the run and leaves the item alone when the lease is lost', async () => {
+    const queue = fakeQueue(false)
+    const runner = fakeRunner()
+
+    const result = await runLeasedExecution(lease, 'worker-1', queue, runner)
+
+    expect(result?.status).toBe('ABANDONED')
+    expect(runner.batches).toBeLessThan(100)
+    expect(queue.heartbeat).toHaveBeenCalledWith(lease, 'worker-1')
+    expect(queue.complete).not.toHaveBeenCalled()
+    expect(queue.release).not.toHaveBeenCalled()
+  })
+
+  it('completes the item while the lease is renewed', async () => {
+    const queue = fakeQueue(true)
+    const runner = fakeRunner(10)
+
+    const result = await runLeasedExecution(lease, 'worker-1', queue, runner)
+
+    expect(result?.status).toBe('COMPLETED')
+    expect(queue.heartbeat).toHaveBeenCalled()
+    expect(queue.complete).toHaveBeenCalledWith('item-1', 'worker-1')
+  })
+
+  it('releases the item when the run cannot start', async () => {
+    const queue = fakeQueue(true)
+    const runner: LeaseRunner = { execute: vi.fn(async () => { throw new Error('database unavailable') }) }
+
+    const result = await runLeasedExecution(lease, 'worker-1', queue, runner)
+
+    expect(result).toBeNull()
+    expect(queue.release).toHaveBeenCalledWith(lease, 'worker-1', 'database unavailable')
+    expect(queue.complete).not.toHaveBeenCalled()
+  })
+
+  it('neither completes nor releases when the run fails after the lease was lost', async () => {
+    const queue = fakeQueue(false)
+    const runner: LeaseRunner = {
+      execute: vi.fn(async () => {
+        await vi.advanceTimersByTimeAsync(50)
+        throw new Error('connection reset')
+      })
+    }
+
+    expect(await runLeasedExecution(lease, 'worker-1', queue, runner)).toBeNull()
+    expect(queue.complete).not.toHaveBeenCalled()
+    expect(queue.release).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { db } from '../db'
+import { launchJobExecution } from '../job-launcher'
+import { JobScheduler } from '../scheduler'
+
+vi.mock('../db', () => ({
+  db: {
+    systemSettings: { findUnique: vi.fn() },
+    schedulerLease: { updateMany: vi.fn(async () => ({ count: 1 })) },
+    eTLJob: { findMany: vi.fn(), updateMany: vi.fn(async () => ({ count: 1 })), update: vi.fn(async () => ({})) },
+    jobExecution: { count: vi.fn(async () => 0) },
+    syncLog: { create: vi.fn(async () => ({})) }
+  }
+}))
+vi.mock('../job-launcher', () => ({ launchJobExecution: vi.fn(async () => ({ id: 'execution-1' })) }))
+vi.mock('../connectors', () => ({ isConnectorSupported: () => true }))
+vi.mock('../job-state-manager', () => ({
+  JobStateManager: { getInstance: () => ({ recoverStalledExecutions: async () => undefined }) }
+}))
+vi.mock('../credential-rotation', () => ({
+  CredentialRotationManager: { getInstance: () => ({ completeExpired: async () => undefined }) }
+}))
+
+// Daily at 09:00 in New York, last due on 2026-03-06; the clocks moved forward on 2026-03-08
+const job = {
+  id: 'job-1',
+  name: 'Morning sync',
+  sourceId: 'source-1',
+  schedule: '0 9 * * *',
+  nextRun: new Date('2026-03-06T14:00:00Z'),
+  source: { type: 'CSV' },
+  target: { type: 'POSTGRESQL' },
+  creator: { settings: { timezone: 'America/New_York' } }
+}
+
+function schedulerSettings(settings: Record<string, unknown> | null) {
+  vi.mocked(db.systemSettings.findUnique).mockResolvedValue(settings && { value: JSON.stringify(settings) } as any)
+}
+
+function loggedDetails(message: string) {
+  const call = vi.mocked(db.syncLog.create).mock.calls.find(([args]: any[]) => args.data.message.startsWith(message))
+  return call && JSON.parse((call[0] as any).data.details)
+}
+
+describe('JobScheduler catch-up', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.eTLJob.findMany).mockImplementation((async (args: any) => args.where.nextRun === null ? [] : [job]) as any)
+    schedulerSettings(null)
+  })
+
+  it('fires a run that is due within the grace period as scheduled', async () => {
+    await JobScheduler.getInstance().tick(new Date('2026-03-06T14:01:00Z'))
+
+    expect(launchJobExecution).toHaveBeenCalledWith('job-1', {
+      trigger: 'SCHEDULED',
+      scheduledFor: job.nextRun
+    })
+    expect(db.eTLJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-1', nextRun: job.nextRun },
+      data: { nextRun: new Date('2026-03-07T14:00:00Z') }
+    })
+  })
+
+  it('records the runs missed across a DST change and catches up once for the latest', async () => {
+    const now = new Date('2026-03-09T15:00:00Z')
+
+    await JobScheduler.getInstance().tick(now)
+
+    // 09:00 EST is 14:00 UTC until the change, 09:00 EDT is 13:00 UTC after it
+    const missedRuns = ['2026-03-06T14:00:00.000Z', '2026-03-07T14:00:00.000Z', '2026-03-08T13:00:00.000Z', '2026-03-09T13:00:00.000Z']
+    expect(loggedDetails('Missed 4 scheduled run(s)')).toMatchObject({ missedRuns, catchUpPolicy: 'RUN_ONCE', nextRun: '2026-03-10T13:00:00.000Z' })
+    expect(launchJobExecution).toHaveBeenCalledTimes(1)
+    expect(launchJobExecution).toHaveBeenCalledWith('job-1', {
+      trigger: 'CATCH_UP',
+      scheduledFor: new Date('2026-03-09T13:00:00Z')
+    })
+  })
+
+  it('only records missed runs under the SKIP policy', async () => {
+    schedulerSettings({ catchUpPolicy: 'SKIP' })
+
+    await JobScheduler.getInstance().tick(new Date('2026-03-09T15:00:00Z'))
+
+    expect(loggedDetails('Missed 4 scheduled run(s)')).toMatchObject({ catchUpPolicy: 'SKIP' })
+    expect(db.eTLJob.updateMany).toHaveBeenCalled()
+    expect(launchJobExecution).not.toHaveBeenCalled()
+  })
+
+  it('leaves the run to the instance that claimed the occurrence first', async () => {
+    vi.mocked(db.eTLJob.updateMany).mockResolvedValueOnce({ count: 0 })
+
+    await JobScheduler.getInstance().tick(new Date('2026-03-09T15:00:00Z'))
+
+    expect(launchJobExecution).not.toHaveBeenCalled()
+    expect(db.syncLog.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { parseTransformRules, TransformExecutor, validateTransformRules } from '../transform-rules'
+
+describe('parseTransformRules', () => {
+  it('skips blank lines and comments, keeping the line number of each rule', () => {
+    const { rules, errors } = parseTransformRules([
+      '# normalise the export',
+      '',
+      'rename cust_email to email   # from the CRM',
+      "filter status != '#void'"
+    ].join('\n'))
+
+    expect(errors).toEqual([])
+    expect(rules.map(rule => [rule.type, rule.line])).toEqual([['rename', 3], ['filter', 4]])
+  })
+
+  it('collects every invalid line instead of stopping at the first', () => {
+    const errors = validateTransformRules([
+      'explode items',
+      'cast amount as money',
+      'rename amount',
+      'filter amount >',
+      "lookup segment in {'H': 1} as name",
+      'mask card_number keep 4'
+    ].join('\n'))
+
+    expect(errors.map(error => error.line)).toEqual([1, 2, 3, 4, 5])
+    expect(errors[0].message).toContain('Unknown rule "explode"')
+    expect(errors[1].message).toContain('Unknown cast type "money"')
+    expect(errors[2].message).toBe('Invalid rename rule. Usage: rename <field> to <new_field>')
+    expect(errors[3].message).toContain('Invalid expression "amount >"')
+    expect(errors[4].message).toContain('Lookup table is not valid JSON')
+  })
+
+  it('treats an empty script as valid', () => {
+    expect(validateTransformRules(null)).toEqual([])
+    expect(validateTransformRules('  \n# nothing yet')).toEqual([])
+  })
+
+  it('refuses to build an executor from an invalid script', () => {
+    expect(() => TransformExecutor.fromScript('derive total =')).toThrow('Invalid transform rules: line 1')
+  })
+})
+
+describe('TransformExecutor', () => {
+  it('applies the rules in order to a copy of each record', () => {
+    const executor = TransformExecutor.fromScript([
+      'rename cust_email to email',
+      'cast amount as number',
+      'derive amount_usd = round(amount * fx_rate, 2)',
+      'lookup segment in {"H": "Premium", "L": "Basic"} as segment_name default \'Standard\'',
+      'mask card_number keep 4',
+      "default country = 'US'"
+    ].join('\n'))
+    const original = { cust_email: 'a@example.com', amount: '10.5', fx_rate: 1.1, segment: 'X', card_number: '4111111111111111', country: '' }
+
+    const result = executor.apply([original])
+
+    expect(result.errors).toEqual([])
+    expect(result.records).toEqual([{
+      email: 'a@example.com',
+      amount: 10.5,
+      fx_rate: 1.1,
+      amount_usd: 11.55,
+      segment: 'X',
+      segment_name: 'Standard',
+      card_number: '************1111',
+      country: 'US'
+    }])
+    expect(original.amount).toBe('10.5')
+  })
+
+  it('counts filtered records and dedupes across batches', () => {
+    const executor = TransformExecutor.fromScript('filter amount > 0\ndedupe by id')
+
+    const first = executor.apply([{ id: 1, amount: 5 }, { id: 2, amount: 0 }, { id: 1, amount: 7 }])
+    const second = executor.apply([{ id: 1, amount: 9 }, { id: 3, amount: 1 }])
+
+    expect(first.records).toEqual([{ id: 1, amount: 5 }])
+    expect(first.filtered).toBe(2)
+    expect(second.records).toEqual([{ id: 3, amount: 1 }])
+    expect(second.filtered).toBe(1)
+  })
+
+  it('casts empty strings to null and reports values that cannot be cast', () => {
+    const executor = TransformExecutor.fromScript('cast amount as number\ncast active as boolean')
+
+    const result = executor.apply([
+      { amount: '', active: 'yes' },
+      { amount: 'n/a', active: 'true' },
+      { amount: null, active: 'maybe' }
+    ])
+
+    expect(result.records).toEqual([{ amount: null, active: true }])
+    expect(result.errors.map(error => error.error)).toEqual([
+      'line 1 (cast): Cannot cast "n/a" to number',
+      'line 2 (cast): Cannot cast "maybe" to boolean'
+    ])
+    expect(result.errors[0].record).toEqual({ amount: 'n/a', active: 'true' })
+  })
+
+  it('drops records whose filter reads a missing field', () => {
+    const executor = TransformExecutor.fromScript('filter region == "EU" or amount >= 100')
+
+    const result = executor.apply([{ region: null, amount: 150 }, { amount: 99 }, { region: 'EU' }])
+
+    expect(result.records).toEqual([{ region: null, amount: 150 }, { region: 'EU' }])
+    expect(result.filtered).toBe(1)
+  })
+})
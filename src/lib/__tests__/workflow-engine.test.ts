@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { db } from '../db'
+import { StepState, WorkflowEngine } from '../workflow-engine'
+import { WorkflowConnection, WorkflowStep } from '../workflow-graph'
+import { STEP_HANDLERS, StepContext } from '../workflow-steps'
+
+vi.mock('../db', () => ({
+  db: {
+    workflowExecution: { findUnique: vi.fn(), update: vi.fn(async () => ({})) }
+  }
+}))
+vi.mock('../execution-events', () => ({
+  ExecutionEventBus: { getInstance: () => ({ publish: () => undefined }) }
+}))
+vi.mock('../execution-log', () => ({
+  ExecutionLogStore: { getInstance: () => ({ append: async () => undefined }) }
+}))
+vi.mock('../workflow-steps', () => ({ STEP_HANDLERS: {} }))
+
+const engine = WorkflowEngine.getInstance({ abortGraceMs: 20 })
+
+function storeWorkflow(steps: WorkflowStep[], connections: WorkflowConnection[] = []) {
+  vi.mocked(db.workflowExecution.findUnique).mockResolvedValue({
+    id: 'execution-1',
+    variables: null,
+    workflow: {
+      id: 'workflow-1',
+      name: 'Nightly load',
+      createdBy: 'user-1',
+      workspaceId: null,
+      steps: JSON.stringify(steps),
+      connections: JSON.stringify(connections),
+      resources: null,
+      trigger: null
+    }
+  } as any)
+}
+
+function handle(type: string, handler: (context: StepContext) => Promise<any>) {
+  const mock = vi.fn(handler)
+  ;(STEP_HANDLERS as Record<string, any>)[type] = mock
+  return mock
+}
+
+// The final update carries the execution status; the last state write before it the step states
+function result() {
+  const updates = vi.mocked(db.workflowExecution.update).mock.calls.map(([args]: any[]) => args.data)
+  const stepStatuses = updates.filter(data => data.stepStatuses).at(-1)!.stepStatuses
+  return { ...updates.at(-1), steps: JSON.parse(stepStatuses) as Record<string, StepState> }
+}
+
+describe('WorkflowEngine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    for (const type of Object.keys(STEP_HANDLERS)) delete (STEP_HANDLERS as Record<string, any>)[type]
+  })
+
+  it('fails a stored definition with a cycle before running any step', async () => {
+    const work = handle('work', async () => ({}))
+    storeWorkflow([
+      { id: 'a', type: 'work', depends_on: ['b'] },
+      { id: 'b', type: 'work', depends_on: ['a'] }
+    ])
+
+    await engine.execute('execution-1')
+
+    expect(work).not.toHaveBeenCalled()
+    expect(result()).toMatchObject({ status: 'FAILED', errorMessage: 'Workflow contains a cycle: a -> b -> a' })
+  })
+
+  it('skips an all_success step after a failed dependency but runs an any_success one', async () => {
+    handle('work', async () => ({ recordsProcessed: 1 }))
+    handle('broken', async () => { throw new Error('source unavailable') })
+    storeWorkflow([
+      { id: 'extract-a', type: 'broken' },
+      { id: 'extract-b', type: 'work' },
+      { id: 'merge-all', type: 'work', depends_on: ['extract-a', 'extract-b'] },
+      { id: 'merge-any', type: 'work', depends_on: ['extract-a', 'extract-b'], trigger_rule: 'any_success' },
+      { id: 'report', type: 'work', depends_on: ['merge-all'] }
+    ])
+
+    await engine.execute('execution-1')
+
+    const { status, errorMessage, steps } = result()
+    expect(status).toBe('FAILED')
+    expect(errorMessage).toBe('Steps failed: extract-a')
+    expect(steps['merge-all']).toMatchObject({ status: 'skipped', error: 'Upstream step extract-a failed', attempts: 0 })
+    expect(steps['report']).toMatchObject({ status: 'skipped', error: 'Upstream step merge-all was skipped' })
+    expect(steps['merge-any']).toMatchObject({ status: 'completed', attempts: 1 })
+  })
+
+  it('skips a dependent whose connection condition is false', async () => {
+    handle('work', async () => ({ recordsProcessed: 0 }))
+    storeWorkflow(
+      [{ id: 'extract', type: 'work' }, { id: 'load', type: 'work' }],
+      [{ from: 'extract', to: 'load', condition: '{{extract.recordsProcessed}} > 0' }]
+    )
+
+    await engine.execute('execution-1')
+
+    expect(result()).toMatchObject({ status: 'COMPLETED', steps: { load: { status: 'skipped', error: 'Condition on extract -> load was false' } } })
+  })
+
+  it('retries a failing step up to max_attempts', async () => {
+    let calls = 0
+    handle('flaky', async () => {
+      if (++calls < 3) throw new Error(`attempt ${calls} failed`)
+      return {}
+    })
+    const broken = handle('broken', async () => { throw new Error('target rejected the batch') })
+    storeWorkflow([
+      { id: 'recovers', type: 'flaky', retry: { max_attempts: 3, delay: '1ms' } },
+      { id: 'gives-up', type: 'broken', depends_on: ['recovers'], retry: { max_attempts: 2 } }
+    ])
+
+    await engine.execute('execution-1')
+
+    const { status, steps } = result()
+    expect(status).toBe('FAILED')
+    expect(steps['recovers']).toMatchObject({ status: 'completed', attempts: 3 })
+    expect(steps['gives-up']).toMatchObject({ status: 'failed', attempts: 2, error: 'target rejected the batch' })
+    expect(broken).toHaveBeenCalledTimes(2)
+  })
+
+  it('aborts a step that runs past its timeout and retries it once it has stopped', async () => {
+    let calls = 0
+    const slow = handle('slow', ({ signal }) => new Promise((resolve, reject) => {
+      if (++calls > 1) return resolve({})
+      signal.addEventListener('abort', () => reject(signal.reason))
+    }))
+    storeWorkflow([{ id: 'extract', type: 'slow', timeout: '30ms', retry: { max_attempts: 2 } }])
+
+    await engine.execute('execution-1')
+
+    expect(slow.mock.calls[0][0].signal.aborted).toBe(true)
+    expect(result()).toMatchObject({ status: 'COMPLETED', steps: { extract: { status: 'completed', attempts: 2 } } })
+  })
+
+  it('abandons a timed-out step that ignores the abort instead of retrying it', async () => {
+    const stuck = handle('stuck', () => new Promise(resolve => setTimeout(() => resolve({}), 500)))
+    storeWorkflow([{ id: 'load', type: 'stuck', timeout: '30ms', retry: { max_attempts: 3 } }])
+
+    await engine.execute('execution-1')
+
+    expect(stuck).toHaveBeenCalledTimes(1)
+    expect(result()).toMatchObject({
+      status: 'FAILED',
+      steps: {
+        load: {
+          status: 'failed',
+          attempts: 1,
+          abandoned: true,
+          error: 'Step timed out after 30ms; the step did not stop and was abandoned without a retry'
+        }
+      }
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateExpression } from '../expression'
+import {
+  buildWorkflowGraph,
+  parseCondition,
+  parseDuration,
+  topologicalOrder,
+  validateWorkflowGraph,
+  WorkflowStep
+} from '../workflow-graph'
+
+function step(id: string, depends_on: string[] = [], extra: Partial<WorkflowStep> = {}): WorkflowStep {
+  return { id, type: 'transform', depends_on, ...extra }
+}
+
+describe('validateWorkflowGraph', () => {
+  it('accepts a DAG built from depends_on lists and connections', () => {
+    const steps = [step('extract'), step('clean', ['extract']), step('enrich'), step('load')]
+    const connections = [{ from: 'extract', to: 'enrich' }, { from: 'clean', to: 'load' }, { from: 'enrich', to: 'load' }]
+
+    expect(validateWorkflowGraph(steps, connections)).toEqual([])
+  })
+
+  it('reports a cycle as a closed path of step ids', () => {
+    const steps = [step('a'), step('b', ['a']), step('c', ['b'])]
+
+    expect(validateWorkflowGraph(steps, [{ from: 'c', to: 'b' }])).toEqual(['Workflow contains a cycle: b -> c -> b'])
+    expect(validateWorkflowGraph([step('self', ['self'])])).toEqual(['Workflow contains a cycle: self -> self'])
+  })
+
+  it('reports unknown references and duplicate ids before looking for cycles', () => {
+    const errors = validateWorkflowGraph(
+      [step('a', ['missing']), step('a'), step('b', ['a'], { trigger_rule: 'one_success' as any })],
+      [{ from: 'b', to: 'nowhere' }]
+    )
+
+    expect(errors).toEqual([
+      'Duplicate step id "a"',
+      'Step "a" depends on unknown step "missing"',
+      'Connection b -> nowhere references unknown step "nowhere"',
+      'Step "b": unknown trigger_rule "one_success". Expected one of: all_success, any_success'
+    ])
+  })
+
+  it('checks step durations, condition expressions and branch targets', () => {
+    const errors = validateWorkflowGraph([
+      step('a', [], { timeout: 'soon' }),
+      step('check', ['a'], {
+        type: 'condition',
+        config: { conditions: [{ expression: '{{a.recordsProcessed}} >', action: 'branch', to: 'ghost' }] }
+      })
+    ], [{ from: 'a', to: 'check', condition: 'steps.a.status ==' }])
+
+    expect(errors).toHaveLength(4)
+    expect(errors[0]).toBe('Step "a": Invalid duration "soon". Use values like 30s, 10m or 1h30m')
+    expect(errors[1]).toMatch(/^Connection a -> check: invalid expression/)
+    expect(errors[2]).toMatch(/^Step "check" condition 1: invalid expression/)
+    expect(errors[3]).toBe('Step "check" condition 1: branch target "ghost" does not exist')
+  })
+
+  it('rejects steps and connections that are not arrays', () => {
+    expect(validateWorkflowGraph({})).toEqual(['steps must be an array'])
+    expect(validateWorkflowGraph([], 'a -> b')).toEqual(['connections must be an array'])
+  })
+})
+
+describe('topologicalOrder', () => {
+  it('orders every step after its dependencies', () => {
+    const graph = buildWorkflowGraph([step('load', ['clean', 'enrich']), step('clean', ['extract']), step('enrich', ['extract']), step('extract')])
+
+    const order = topologicalOrder(graph)
+
+    expect(order[0]).toBe('extract')
+    expect(order[3]).toBe('load')
+  })
+
+  it('throws on a cycle', () => {
+    const graph = buildWorkflowGraph([step('a', ['c']), step('b', ['a']), step('c', ['b'])])
+
+    expect(() => topologicalOrder(graph)).toThrow('Workflow contains a cycle: a -> b -> c -> a')
+  })
+})
+
+describe('parseDuration', () => {
+  it('reads unit suffixes and treats bare numbers as minutes', () => {
+    expect(parseDuration('45s')).toBe(45000)
+    expect(parseDuration('1h30m')).toBe(90 * 60 * 1000)
+    expect(parseDuration('250ms')).toBe(250)
+    expect(parseDuration(2)).toBe(120000)
+    expect(parseDuration('2')).toBe(120000)
+    expect(parseDuration(undefined)).toBeNull()
+    expect(parseDuration(0)).toBeNull()
+  })
+
+  it('rejects text with anything besides durations', () => {
+    expect(() => parseDuration('10 minutes')).toThrow('Invalid duration "10 minutes"')
+    expect(() => parseDuration('1h and 5m')).toThrow('Invalid duration')
+  })
+})
+
+describe('parseCondition', () => {
+  it('rewrites {{step.field}} references into the steps scope', () => {
+    const scope = { steps: { 'extract-data': { recordsProcessed: 12 } } }
+
+    expect(evaluateExpression(parseCondition('{{extract-data.recordsProcessed}} > 10'), scope)).toBe(true)
+    expect(evaluateExpression(parseCondition('{{ extract-data.recordsFailed }} == null'), scope)).toBe(true)
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Resource Access Control
+ * Roles decide which kinds of actions a user may take at all; this module decides on which jobs,
+ * data sources and workflows. A resource is accessible to its owner, to admins, and through
+ * grants to a user, a team or a role at VIEW, EXECUTE or EDIT level
+ */
+
+import { NextResponse } from 'next/server'
+import { Role } from '@prisma/client'
+import { db } from './db'
+import { hasPermission, PERMISSIONS } from './auth'
+import type { AuthenticatedRequest } from './auth'
+import { workspaceScope } from './workspace'
+import { ACCESS_LEVELS, AccessLevel } from './schemas'
+
+export { ACCESS_LEVELS } from './schemas'
+export type { AccessLevel } from './schemas'
+
+export type ResourceType = 'JOB' | 'DATA_SOURCE' | 'WORKFLOW'
+// OWNER is not grantable: deleting and sharing a resource stay with its owner and admins
+export type RequiredLevel = AccessLevel | 'OWNER'
+
+export interface AccessUser {
+  id: string
+  role: Role
+}
+
+interface ResourceModel {
+  ownerField: 'createdBy' | 'ownerId'
+  grantField: 'jobId' | 'sourceId' | 'workflowId'
+  label: string
+}
+
+const RESOURCES: Record<ResourceType, ResourceModel> = {
+  JOB: { ownerField: 'createdBy', grantField: 'jobId', label: 'Job' },
+  DATA_SOURCE: { ownerField: 'ownerId', grantField: 'sourceId', label: 'Data source' },
+  WORKFLOW: { ownerField: 'createdBy', grantField: 'workflowId', label: 'Workflow' }
+}
+
+// Data sources created before ownership existed were usable by everyone, and still are
+const UNOWNED_SOURCE_LEVEL: AccessLevel = 'EXECUTE'
+
+/**
+ * Prisma where clause matching the resources the user holds at least `level` on
+ */
+export function accessFilter(user: AccessUser, type: ResourceType, level: RequiredLevel = 'VIEW'): Record<string, any> {
+  if (user.role === 'ADMIN') return {}
+
+  const { ownerField } = RESOURCES[type]
+  const owned = { [ownerField]: user.id }
+  if (level === 'OWNER') return owned
+
+  return {
+    OR: [
+      owned,
+      ...(type === 'DATA_SOURCE' && includesLevel(UNOWNED_SOURCE_LEVEL, level) ? [{ ownerId: null }] : []),
+      {
+        grants: {
+          some: {
+            level: { in: ACCESS_LEVELS.filter(granted => includesLevel(granted, level)) },
+            OR: [
+              { userId: user.id },
+              { role: user.role },
+              { team: { members: { some: { userId: user.id } } } }
+            ]
+          }
+        }
+      }
+    ]
+  }
+}
+
+/**
+ * Job where clause for the jobs included with another resource, e.g. those of a data source: the
+ * jobs the caller could list themselves, none without job access
+ */
+export function visibleJobsFilter(request: AuthenticatedRequest): Record<string, any> {
+  return hasPermission(request, PERMISSIONS.JOB_VIEW)
+    ? { ...workspaceScope(request), ...accessFilter(request.user!, 'JOB') }
+    : { id: { in: [] } }
+}
+
+/**
+ * Check the caller's access to one resource of the active workspace. Returns the error response
+ * to send, or null when access is granted; resources the caller cannot even view are reported as
+ * missing
+ */
+export async function authorizeResource(
+  request: AuthenticatedRequest,
+  type: ResourceType,
+  id: string,
+  level: RequiredLevel
+): Promise<NextResponse | null> {
+  const { label } = RESOURCES[type]
+  const user = request.user!
+
+  const scope = workspaceScope(request)
+
+  const visible = await findResourceIds(type, { id, ...scope, ...accessFilter(user, type, 'VIEW') }, 1)
+  if (visible.length === 0) {
+    return NextResponse.json(
+      { error: `${label} not found` },
+      { status: 404 }
+    )
+  }
+
+  if (level !== 'VIEW') {
+    const allowed = await findResourceIds(type, { id, ...scope, ...accessFilter(user, type, level) }, 1)
+    if (allowed.length === 0) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: `${label} access denied: ${level.toLowerCase()} required` },
+        { status: 403 }
+      )
+    }
+  }
+  return null
+}
+
+/**
+ * Ids among `ids` the caller does not hold `level` on in the active workspace, e.g. data sources
+ * referenced by a new job
+ */
+export async function findInaccessible(
+  request: AuthenticatedRequest,
+  type: ResourceType,
+  ids: string[],
+  level: RequiredLevel
+): Promise<string[]> {
+  const unique = [...new Set(ids)]
+  if (unique.length === 0) return []
+
+  const accessible = await findResourceIds(type, {
+    id: { in: unique },
+    ...workspaceScope(request),
+    ...accessFilter(request.user!, type, level)
+  })
+  const found = new Set(accessible.map(resource => resource.id))
+  return unique.filter(id => !found.has(id))
+}
+
+/**
+ * Owner and grants of a resource, for the sharing endpoints
+ */
+export async function listGrants(type: ResourceType, id: string) {
+  const { grantField } = RESOURCES[type]
+  const ownerId = await findOwnerId(type, id)
+
+  const grants = await db.resourceGrant.findMany({
+    where: { [grantField]: id },
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      team: { select: { id: true, name: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+  return { ownerId, grants }
+}
+
+/**
+ * Share a resource with exactly one of a user, a team or a role; an existing grant for the same
+ * subject is replaced
+ */
+export async function grantAccess(
+  type: ResourceType,
+  id: string,
+  subject: { userId?: string | null; teamId?: string | null; role?: Role | null },
+  level: AccessLevel,
+  grantedBy: string
+) {
+  const { grantField } = RESOURCES[type]
+  const subjectWhere = {
+    userId: subject.userId ?? null,
+    teamId: subject.teamId ?? null,
+    role: subject.role ?? null
+  }
+
+  await db.resourceGrant.deleteMany({ where: { [grantField]: id, ...subjectWhere } })
+  return db.resourceGrant.create({
+    data: { [grantField]: id, ...subjectWhere, level, grantedBy }
+  })
+}
+
+export async function revokeAccess(type: ResourceType, id: string, grantId: string): Promise<boolean> {
+  const { grantField } = RESOURCES[type]
+  const result = await db.resourceGrant.deleteMany({ where: { id: grantId, [grantField]: id } })
+  return result.count > 0
+}
+
+/**
+ * Ids of the resources of a type matching a where clause; Prisma delegates of different models
+ * cannot be called through one union, hence the switch
+ */
+async function findResourceIds(type: ResourceType, where: Record<string, any>, take?: number): Promise<{ id: string }[]> {
+  const args = { where, select: { id: true as const }, take }
+  switch (type) {
+    case 'JOB':
+      return db.eTLJob.findMany(args)
+    case 'DATA_SOURCE':
+      return db.dataSource.findMany(args)
+    case 'WORKFLOW':
+      return db.workflow.findMany(args)
+  }
+}
+
+async function findOwnerId(type: ResourceType, id: string): Promise<string | null> {
+  switch (type) {
+    case 'JOB':
+      return (await db.eTLJob.findUnique({ where: { id }, select: { createdBy: true } }))?.createdBy ?? null
+    case 'DATA_SOURCE':
+      return (await db.dataSource.findUnique({ where: { id }, select: { ownerId: true } }))?.ownerId ?? null
+    case 'WORKFLOW':
+      return (await db.workflow.findUnique({ where: { id }, select: { createdBy: true } }))?.createdBy ?? null
+  }
+}
+
+function includesLevel(granted: AccessLevel, required: RequiredLevel): boolean {
+  return required !== 'OWNER' && ACCESS_LEVELS.indexOf(granted) >= ACCESS_LEVELS.indexOf(required)
+}
@@ -0,0 +1,118 @@
+/**
+ * API Tokens
+ * Provides bearer tokens for CI pipelines and other services. Tokens act as the user who created
+ * them, limited to the scopes chosen at creation and optionally pinned to one workspace. Only a
+ * SHA-256 hash is stored; the token itself is shown once
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { db } from './db'
+
+export { DEFAULT_TOKEN_LIFETIME_DAYS, MAX_TOKEN_LIFETIME_DAYS } from './schemas'
+
+export const API_TOKEN_PREFIX = 'etl_'
+
+// Tokens used in quick succession only record their first use within this window
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+const DISPLAY_PREFIX_LENGTH = 12
+
+export interface ApiTokenIdentity {
+  tokenId: string
+  userId: string
+  email: string
+  role: string
+  scopes: string[]
+  workspaceId: string | null
+}
+
+export interface CreateApiTokenOptions {
+  userId: string
+  name: string
+  scopes: string[]
+  workspaceId: string | null
+  expiresAt: Date
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Issue a token. The returned `token` is the only copy of the secret
+ */
+export async function createApiToken(options: CreateApiTokenOptions) {
+  const token = API_TOKEN_PREFIX + randomBytes(32).toString('base64url')
+  const record = await db.apiToken.create({
+    data: {
+      name: options.name,
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      tokenHash: hashApiToken(token),
+      userId: options.userId,
+      workspaceId: options.workspaceId,
+      scopes: JSON.stringify(options.scopes),
+      expiresAt: options.expiresAt
+    }
+  })
+  return { token, apiToken: serializeApiToken(record) }
+}
+
+/**
+ * Identity behind a presented token, or null when it is unknown, revoked or expired
+ */
+export async function verifyApiToken(token: string, ip?: string): Promise<ApiTokenIdentity | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null
+
+  const record = await db.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: { user: { select: { id: true, email: true, role: true } } }
+  })
+  const now = new Date()
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    return null
+  }
+
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    await db.apiToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: now, lastUsedIp: ip ?? null }
+    }).catch((error: unknown) => console.error('Failed to record API token use:', error))
+  }
+
+  return {
+    tokenId: record.id,
+    userId: record.user.id,
+    email: record.user.email,
+    role: record.user.role,
+    scopes: parseScopes(record.scopes),
+    workspaceId: record.workspaceId
+  }
+}
+
+/**
+ * Revoke a token; `userId` limits revocation to that user's tokens. Returns false when no active
+ * token matched
+ */
+export async function revokeApiToken(id: string, userId?: string): Promise<boolean> {
+  const result = await db.apiToken.updateMany({
+    where: { id, revokedAt: null, ...(userId && { userId }) },
+    data: { revokedAt: new Date() }
+  })
+  return result.count > 0
+}
+
+/**
+ * API representation of a token record: scopes parsed, hash omitted
+ */
+export function serializeApiToken<T extends { tokenHash: string; scopes: string }>(record: T) {
+  const { tokenHash: _tokenHash, scopes, ...rest } = record
+  return { ...rest, scopes: parseScopes(scopes) }
+}
+
+function parseScopes(scopes: string): string[] {
+  try {
+    const parsed = JSON.parse(scopes)
+    return Array.isArray(parsed) ? parsed.filter(scope => typeof scope === 'string') : []
+  } catch {
+    return []
+  }
+}
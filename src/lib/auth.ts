@@ -1,7 +1,23 @@
 // Enhanced Authentication and Authorization Middleware
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
 import { NextRequest, NextResponse } from 'next/server';
+import { NextAuthOptions } from 'next-auth';
+import CredentialsProvider from 'next-auth/providers/credentials';
 import { getToken } from 'next-auth/jwt';
 import { Role } from '@prisma/client';
+import { db } from './db';
+import { resolveWorkspace, WorkspaceRole } from './workspace';
+import { verifyApiToken } from './api-tokens';
+import { RateLimiter, rateLimitHeaders, RateLimitResult } from './rate-limit';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const PASSWORD_KEY_BYTES = 64;
+// How long the role of a session's user is trusted before it is read again; the JWT keeps the role
+// held at sign-in, so role changes and deleted accounts take effect within this period instead
+const SESSION_USER_TTL_MS = 30000;
+
+const sessionUsers = new Map<string, { user: { email: string; role: Role } | null; checkedAt: number }>();
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: {
@@ -10,6 +26,17 @@ export interface AuthenticatedRequest extends NextRequest {
     role: Role;
     permissions: string[];
   };
+  // Active workspace; absent for users outside every workspace, who only see unassigned resources
+  workspace?: {
+    id: string;
+    role: WorkspaceRole;
+  };
+  // Set when the request authenticated with an API token instead of a session
+  apiToken?: {
+    id: string;
+    scopes: string[];
+    workspaceId: string | null;
+  };
   ip?: string;
 }
 
@@ -42,6 +69,10 @@ export const PERMISSIONS = {
   SYSTEM_MONITOR: 'system:monitor',
   SYSTEM_BACKUP: 'system:backup',
   
+  // Workspace Management
+  WORKSPACE_CREATE: 'workspace:create',
+  WORKSPACE_MANAGE: 'workspace:manage',
+  
   // Notification Management
   NOTIFICATION_VIEW: 'notification:view',
   NOTIFICATION_SEND: 'notification:send',
@@ -68,6 +99,7 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
     PERMISSIONS.JOB_CREATE,
     PERMISSIONS.JOB_UPDATE,
     PERMISSIONS.JOB_EXECUTE,
+    PERMISSIONS.WORKSPACE_MANAGE,
     PERMISSIONS.NOTIFICATION_VIEW,
     PERMISSIONS.ANALYTICS_VIEW,
     PERMISSIONS.REPORTS_VIEW,
@@ -84,6 +116,100 @@ export const ROLE_PERMISSIONS: Record<Role, string[]> = {
   ],
 };
 
+// Workspace membership roles cap the role permissions inside that workspace
+export const WORKSPACE_ROLE_PERMISSIONS: Record<WorkspaceRole, string[]> = {
+  OWNER: Object.values(PERMISSIONS),
+  ADMIN: Object.values(PERMISSIONS),
+  MEMBER: Object.values(PERMISSIONS).filter(permission => permission !== PERMISSIONS.WORKSPACE_MANAGE),
+  VIEWER: ROLE_PERMISSIONS.VIEWER,
+};
+
+/**
+ * Permissions of a role inside a workspace; system admins are not limited by their membership
+ */
+export function workspacePermissions(role: Role, workspaceRole: WorkspaceRole | null): string[] {
+  const permissions = ROLE_PERMISSIONS[role] || [];
+  if (role === 'ADMIN') {
+    return permissions;
+  }
+  if (!workspaceRole) {
+    return permissions.filter(permission => permission !== PERMISSIONS.WORKSPACE_MANAGE);
+  }
+  return permissions.filter(permission => WORKSPACE_ROLE_PERMISSIONS[workspaceRole].includes(permission));
+}
+
+/**
+ * Hash a password for User.passwordHash as scrypt$<salt>$<hash>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_BYTES);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [algorithm, salt, expected] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !expected) {
+    return false;
+  }
+
+  const hash = await scryptAsync(password, Buffer.from(salt, 'base64'), PASSWORD_KEY_BYTES);
+  const expectedHash = Buffer.from(expected, 'base64');
+  return hash.length === expectedHash.length && timingSafeEqual(hash, expectedHash);
+}
+
+/**
+ * next-auth configuration: local email/password login, role carried in the JWT
+ */
+export const authOptions: NextAuthOptions = {
+  session: { strategy: 'jwt' },
+  secret: process.env.NEXTAUTH_SECRET,
+  pages: { signIn: '/login' },
+  providers: [
+    CredentialsProvider({
+      name: 'Credentials',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials.password) {
+          return null;
+        }
+
+        const user = await db.user.findUnique({ where: { email: credentials.email.toLowerCase() } });
+        if (!user?.passwordHash || !(await verifyPassword(credentials.password, user.passwordHash))) {
+          return null;
+        }
+
+        return { id: user.id, email: user.email, name: user.name, role: user.role };
+      },
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.role = user.role;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.id = token.sub!;
+        session.user.role = token.role;
+      }
+      return session;
+    },
+  },
+};
+
+/**
+ * Whether an authenticated user holds a permission, for checks that depend on the request body
+ */
+export function hasPermission(req: AuthenticatedRequest, permission: string): boolean {
+  return req.user?.permissions.includes(permission) ?? false;
+}
+
 /**
  * Get client IP address from request
  */
@@ -96,27 +222,78 @@ function getClientIP(req: NextRequest): string {
 }
 
 /**
- * Middleware to check authentication
+ * API token presented as "Authorization: Bearer <token>", if any
+ */
+function getBearerToken(req: NextRequest): string | null {
+  const authorization = req.headers.get('authorization');
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Middleware to check authentication: a browser session or an API token
  */
 export async function authenticate(req: NextRequest): Promise<AuthenticatedRequest> {
-  const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
-  
-  if (!token) {
-    throw new Error('Unauthorized');
-  }
-  
   const authenticatedReq = req as AuthenticatedRequest;
-  authenticatedReq.user = {
-    id: token.sub!,
-    email: token.email!,
-    role: token.role as Role,
-    permissions: ROLE_PERMISSIONS[token.role as Role] || [],
-  };
   authenticatedReq.ip = getClientIP(req);
+
+  const bearerToken = getBearerToken(req);
+  if (bearerToken) {
+    const identity = await verifyApiToken(bearerToken, authenticatedReq.ip);
+    if (!identity) {
+      throw new Error('Unauthorized');
+    }
+
+    authenticatedReq.user = {
+      id: identity.userId,
+      email: identity.email,
+      role: identity.role as Role,
+      permissions: [],
+    };
+    authenticatedReq.apiToken = { id: identity.tokenId, scopes: identity.scopes, workspaceId: identity.workspaceId };
+  } else {
+    const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+    const user = token?.sub ? await findSessionUser(token.sub) : null;
+
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    authenticatedReq.user = {
+      id: token!.sub!,
+      email: user.email,
+      role: user.role,
+      permissions: [],
+    };
+  }
+
+  const workspace = await resolveWorkspace(authenticatedReq);
+  if (workspace) {
+    authenticatedReq.workspace = { id: workspace.id, role: workspace.role };
+  }
+
+  // Tokens never carry more than their owner currently holds
+  const permissions = workspacePermissions(authenticatedReq.user.role, workspace?.role ?? null);
+  const scopes = authenticatedReq.apiToken?.scopes;
+  authenticatedReq.user.permissions = scopes ? permissions.filter(permission => scopes.includes(permission)) : permissions;
   
   return authenticatedReq;
 }
 
+/**
+ * Current email and role of a session's user, or null once the account is deleted
+ */
+async function findSessionUser(userId: string): Promise<{ email: string; role: Role } | null> {
+  const cached = sessionUsers.get(userId);
+  if (cached && Date.now() - cached.checkedAt < SESSION_USER_TTL_MS) {
+    return cached.user;
+  }
+
+  const user = await db.user.findUnique({ where: { id: userId }, select: { email: true, role: true } });
+  sessionUsers.set(userId, { user, checkedAt: Date.now() });
+  return user;
+}
+
 /**
  * Middleware to check permissions
  */
@@ -135,19 +312,34 @@ export function requirePermission(permission: string) {
 }
 
 /**
- * Higher-order function to wrap API routes with authentication and permission checks
+ * Higher-order function to wrap API routes with authentication, rate limiting and permission checks.
+ * The route context (params) is passed through to the handler:
+ *
+ *   export const GET = withAuth(PERMISSIONS.JOB_VIEW)(async (request, { params }: { params: { id: string } }) => ...)
  */
 export function withAuth(permission?: string) {
-  return async (handler: (req: AuthenticatedRequest) => Promise<NextResponse>) => {
-    return async (req: NextRequest) => {
+  return <C = any>(handler: (req: AuthenticatedRequest, context: C) => Promise<NextResponse>) => {
+    return async (req: NextRequest, context: C) => {
       try {
         const authenticatedReq = await authenticate(req);
+
+        const limit = await rateLimit(authenticatedReq);
+        if (!limit.allowed) {
+          return NextResponse.json(
+            { error: 'Too Many Requests', message: 'Rate limit exceeded' },
+            { status: 429, headers: rateLimitHeaders(limit) }
+          );
+        }
         
         if (permission) {
           requirePermission(permission)(authenticatedReq);
         }
         
-        return await handler(authenticatedReq);
+        const response = await handler(authenticatedReq, context);
+        for (const [name, value] of Object.entries(rateLimitHeaders(limit))) {
+          response.headers.set(name, value);
+        }
+        return response;
       } catch (error) {
         console.error('Authentication error:', error);
         
@@ -175,48 +367,15 @@ export function withAuth(permission?: string) {
 }
 
 /**
- * Rate limiting middleware
- */
-const rateLimits = new Map<string, { count: number; resetTime: number }>();
-
-export function rateLimit(windowMs: number = 900000, max: number = 100) {
-  return (req: AuthenticatedRequest) => {
-    const identifier = req.user?.id || req.ip || 'anonymous';
-    const now = Date.now();
-    
-    const userLimit = rateLimits.get(identifier);
-    
-    if (!userLimit || now > userLimit.resetTime) {
-      rateLimits.set(identifier, {
-        count: 1,
-        resetTime: now + windowMs,
-      });
-      return req;
-    }
-    
-    if (userLimit.count >= max) {
-      throw new Error('Rate limit exceeded');
-    }
-    
-    userLimit.count++;
-    return req;
-  };
-}
-
-/**
- * Input validation middleware
+ * Rate limiting middleware: counts the request against the policies configured in SystemSettings
  */
-export function validateInput(schema: any) {
-  return async (req: AuthenticatedRequest) => {
-    const body = await req.json();
-    const { error } = schema.validate(body);
-    
-    if (error) {
-      throw new Error(`Validation error: ${error.details[0].message}`);
-    }
-    
-    return req;
-  };
+export async function rateLimit(req: AuthenticatedRequest): Promise<RateLimitResult> {
+  return RateLimiter.getInstance().check({
+    method: req.method,
+    path: req.nextUrl.pathname,
+    identifier: req.user?.id || req.ip || 'anonymous',
+    apiTokenId: req.apiToken?.id,
+  });
 }
 
 /**
@@ -39,7 +39,7 @@ export interface TransactionBatch {
 
 export interface AuditEvent {
   id: string
-  jobId: string
+  jobId: string | null
   executionId?: string
   transactionId?: string
   eventType: string
@@ -59,10 +59,11 @@ export class BankingTransactionManager {
   }
 
   /**
-   * Create immutable audit log entry with cryptographic hash chain
+   * Create immutable audit log entry with cryptographic hash chain; events outside a job
+   * (jobId null) share one chain
    */
   async createAuditEntry(
-    jobId: string,
+    jobId: string | null,
     eventType: string,
     eventData: any,
     executionId?: string,
@@ -332,8 +333,8 @@ export class BankingTransactionManager {
           dlqItem.jobId,
           success ? 'DLQ_ITEM_COMPLETED' : 'DLQ_ITEM_FAILED',
           { dlqId, success },
-          dlqItem.executionId,
-          dlqItem.transactionId
+          dlqItem.executionId ?? undefined,
+          dlqItem.transactionId ?? undefined
         )
       }
     } catch (error) {
@@ -437,8 +438,8 @@ export class BankingTransactionManager {
       return auditLogs.map(log => ({
         id: log.id,
         jobId: log.jobId,
-        executionId: log.executionId,
-        transactionId: log.transactionId,
+        executionId: log.executionId ?? undefined,
+        transactionId: log.transactionId ?? undefined,
         eventType: log.eventType,
         eventData: JSON.parse(log.eventData),
         timestamp: log.timestamp,
@@ -44,6 +44,7 @@ export { redis as default };
 export const CACHE_KEYS = {
   USER: (id: string) => `user:${id}`,
   DATASOURCE: (id: string) => `datasource:${id}`,
+  DATASOURCE_SCHEMA: (id: string) => `datasource_schema:${id}`,
   JOB: (id: string) => `job:${id}`,
   JOB_EXECUTION: (id: string) => `job_execution:${id}`,
   NOTIFICATION: (id: string) => `notification:${id}`,
@@ -51,6 +52,7 @@ export const CACHE_KEYS = {
   USER_PERMISSIONS: (id: string) => `user_permissions:${id}`,
   DASHBOARD_DATA: (userId: string) => `dashboard:${userId}`,
   ANALYTICS_DATA: (type: string) => `analytics:${type}`,
+  RATE_LIMIT: (policy: string, identifier: string) => `ratelimit:${policy}:${identifier}`,
 } as const;
 
 // Cache configuration
@@ -61,6 +63,7 @@ export const CACHE_CONFIG = {
   SYSTEM_SETTINGS: { ttl: 600 }, // 10 minutes
   JOB_RESULTS: { ttl: 7200 }, // 2 hours
   USER_PERMISSIONS: { ttl: 1800 }, // 30 minutes
+  DATASOURCE_SCHEMA: { ttl: 900 }, // 15 minutes
 } as const;
 
 // Cache utilities
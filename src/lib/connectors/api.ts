@@ -0,0 +1,122 @@
+/**
+ * HTTP API connector
+ * Extracts from a JSON endpoint (following `Link: rel="next"` pagination) and POSTs batches to targets
+ */
+
+import { readPath } from './files'
+import { sampleSchema } from './schema'
+import { ConnectionProbe, Connector, ConnectorSource, DataRecord, ExtractOptions, IntrospectOptions, LoadOptions, LoadResult, SourceSchema } from './types'
+import { filterByWatermark } from './watermark'
+
+const REQUEST_TIMEOUT_MS = 30000
+
+export class ApiConnector implements Connector {
+  constructor(readonly source: ConnectorSource) {}
+
+  async connect(): Promise<void> {
+    // HTTP requests are stateless
+  }
+
+  async *extract({ query, batchSize, watermark, signal }: ExtractOptions): AsyncGenerator<DataRecord[]> {
+    let url: string | null = this.source.connectionString
+
+    while (url) {
+      const response = await this.request(url, { method: 'GET' }, signal)
+      const records = readPath(await response.json(), query)
+
+      if (!Array.isArray(records)) {
+        throw new Error(`API source ${this.source.name} did not return an array${query ? ` at "${query}"` : ''}`)
+      }
+
+      const selected = filterByWatermark(records, watermark)
+      for (let i = 0; i < selected.length; i += batchSize) {
+        yield selected.slice(i, i + batchSize)
+      }
+
+      url = parseNextLink(response.headers.get('link'), url)
+    }
+  }
+
+  async load(records: DataRecord[], options: LoadOptions): Promise<LoadResult> {
+    if (records.length === 0) {
+      return { success: 0, failed: 0, errors: [] }
+    }
+
+    try {
+      await this.request(this.source.connectionString, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(records)
+      }, options.signal)
+      return { success: records.length, failed: 0, errors: [] }
+    } catch (error) {
+      // Cancelled rather than rejected by the endpoint
+      if (options.signal?.aborted) throw error
+
+      const message = error instanceof Error ? error.message : String(error)
+      return {
+        success: 0,
+        failed: records.length,
+        errors: records.map(record => ({ record, error: message }))
+      }
+    }
+  }
+
+  async probe(): Promise<ConnectionProbe> {
+    const response = await fetch(this.source.connectionString, {
+      method: 'GET',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    })
+    const warnings: string[] = []
+    const denied = response.status === 401 || response.status === 403
+
+    if (denied) {
+      warnings.push(`Endpoint rejected the request: ${response.status} ${response.statusText}`)
+    } else if (!response.ok) {
+      throw new Error(`API request to ${new URL(this.source.connectionString).host} failed: ${response.status} ${response.statusText}`)
+    }
+    await response.body?.cancel()
+
+    // Loading POSTs records, which cannot be tried without side effects
+    return {
+      serverVersion: response.headers.get('server'),
+      permissions: { read: !denied, write: denied ? false : null },
+      warnings
+    }
+  }
+
+  async introspect(options: IntrospectOptions): Promise<SourceSchema> {
+    const url = new URL(this.source.connectionString)
+    const name = options.query || url.pathname.split('/').filter(Boolean).pop() || url.host
+    return sampleSchema(this, name, options)
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  private async request(url: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    const response = await fetch(url, {
+      ...init,
+      signal: signal ? AbortSignal.any([timeout, signal]) : timeout
+    })
+
+    if (!response.ok) {
+      throw new Error(`API request to ${new URL(url).host} failed: ${response.status} ${response.statusText}`)
+    }
+    return response
+  }
+}
+
+function parseNextLink(header: string | null, baseUrl: string): string | null {
+  if (!header) return null
+
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/i)
+    if (match) {
+      return new URL(match[1], baseUrl).toString()
+    }
+  }
+  return null
+}
@@ -0,0 +1,112 @@
+/**
+ * Connection testing
+ * Opens a connector, asks the server what it is and what the credentials may do, and closes it again
+ */
+
+import { ConnectionPermissions, Connector } from './types'
+
+export const CONNECTION_TEST_TIMEOUT_MS = 15000
+
+export interface ConnectionTestResult {
+  success: boolean
+  latencyMs: number
+  serverVersion: string | null
+  permissions: ConnectionPermissions | null
+  warnings: string[]
+  error?: string
+  testedAt: string
+}
+
+/**
+ * Connect and probe within the timeout; failures are reported in the result rather than thrown
+ */
+export async function testConnection(
+  connector: Connector,
+  timeoutMs: number = CONNECTION_TEST_TIMEOUT_MS
+): Promise<ConnectionTestResult> {
+  const startedAt = Date.now()
+  let timer: NodeJS.Timeout | undefined
+
+  const attempt = (async () => {
+    await connector.connect()
+    return connector.probe()
+  })()
+
+  // Release the connection once the attempt settles, even when it outlives the timeout
+  attempt
+    .catch(() => undefined)
+    .finally(() => connector.close().catch(() => undefined))
+
+  try {
+    const probe = await Promise.race([
+      attempt,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Connection timed out after ${timeoutMs}ms`)), timeoutMs)
+      })
+    ])
+
+    return {
+      success: true,
+      latencyMs: Date.now() - startedAt,
+      ...probe,
+      testedAt: new Date().toISOString()
+    }
+  } catch (error) {
+    return connectionTestFailure(error, Date.now() - startedAt)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Result for a test that failed, including failures before the connector could be created
+ */
+export function connectionTestFailure(error: unknown, latencyMs = 0): ConnectionTestResult {
+  return {
+    success: false,
+    latencyMs,
+    serverVersion: null,
+    permissions: null,
+    warnings: [],
+    error: describeConnectionError(error),
+    testedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Prefix driver errors with what they usually mean; the driver message is kept for details
+ */
+export function describeConnectionError(error: unknown): string {
+  // fetch wraps network errors, so the useful code and message are on the cause
+  const cause = (error as any)?.cause
+  const message = cause?.message
+    ? `${(error as Error).message}: ${cause.message}`
+    : error instanceof Error ? error.message : String(error)
+  const code = (error as any)?.code ?? cause?.code
+
+  switch (code) {
+    case 'ECONNREFUSED':
+      return `Connection refused; check host and port (${message})`
+    case 'ENOTFOUND':
+    case 'EAI_AGAIN':
+      return `Host could not be resolved (${message})`
+    case 'ETIMEDOUT':
+      return `Connection timed out (${message})`
+    case '28P01':
+    case '28000':
+    case 'ER_ACCESS_DENIED_ERROR':
+      return `Authentication failed (${message})`
+    case '3D000':
+    case 'ER_BAD_DB_ERROR':
+      return `Database does not exist (${message})`
+    case '42501':
+    case 'ER_DBACCESS_DENIED_ERROR':
+    case 'EACCES':
+    case 'EPERM':
+      return `Permission denied (${message})`
+    case 'ENOENT':
+      return `File not found (${message})`
+    default:
+      return message
+  }
+}
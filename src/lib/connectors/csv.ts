@@ -0,0 +1,170 @@
+/**
+ * CSV connector
+ * Streams a delimited file line by line and appends loaded rows to the target file
+ */
+
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import readline from 'readline'
+import { probeFile, resolveFilePath } from './files'
+import { sampleSchema } from './schema'
+import { ConnectionProbe, Connector, ConnectorSource, DataRecord, ExtractOptions, IntrospectOptions, LoadOptions, LoadResult, SourceSchema } from './types'
+import { isPastWatermark } from './watermark'
+
+export class CsvConnector implements Connector {
+  private readonly filePath: string
+  private header: string[] | null = null
+
+  constructor(readonly source: ConnectorSource) {
+    this.filePath = resolveFilePath(source.connectionString)
+  }
+
+  async connect(): Promise<void> {
+    // Files are opened per operation
+  }
+
+  async *extract({ batchSize, watermark }: ExtractOptions): AsyncGenerator<DataRecord[]> {
+    const lines = readline.createInterface({
+      input: createReadStream(this.filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity
+    })
+
+    let header: string[] | null = null
+    let pending = ''
+    let batch: DataRecord[] = []
+
+    try {
+      for await (const line of lines) {
+        // Quoted fields may span several physical lines
+        pending = pending ? `${pending}\n${line}` : line
+        if (!hasBalancedQuotes(pending)) continue
+
+        const fields = parseCsvLine(pending)
+        pending = ''
+
+        if (!header) {
+          header = fields
+          continue
+        }
+        if (fields.length === 1 && fields[0] === '') continue
+
+        const record: DataRecord = {}
+        header.forEach((column, index) => {
+          record[column] = fields[index] ?? null
+        })
+        if (!isPastWatermark(record, watermark)) continue
+        batch.push(record)
+
+        if (batch.length >= batchSize) {
+          yield batch
+          batch = []
+        }
+      }
+
+      if (pending) {
+        throw new Error(`Unterminated quoted field in CSV source: ${this.source.name}`)
+      }
+      if (batch.length > 0) {
+        yield batch
+      }
+    } finally {
+      lines.close()
+    }
+  }
+
+  async load(records: DataRecord[], _options: LoadOptions): Promise<LoadResult> {
+    if (records.length === 0) {
+      return { success: 0, failed: 0, errors: [] }
+    }
+
+    let output = ''
+    if (!this.header) {
+      this.header = await this.readExistingHeader()
+      if (!this.header) {
+        this.header = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+        output += formatCsvLine(this.header)
+      }
+    }
+
+    for (const record of records) {
+      output += formatCsvLine(this.header.map(column => record[column]))
+    }
+
+    await fs.appendFile(this.filePath, output, 'utf8')
+    return { success: records.length, failed: 0, errors: [] }
+  }
+
+  async probe(): Promise<ConnectionProbe> {
+    return probeFile(this.filePath)
+  }
+
+  async introspect(options: IntrospectOptions): Promise<SourceSchema> {
+    return sampleSchema(this, path.basename(this.filePath, path.extname(this.filePath)), options)
+  }
+
+  async close(): Promise<void> {
+    this.header = null
+  }
+
+  private async readExistingHeader(): Promise<string[] | null> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8')
+      const firstLine = content.split(/\r?\n/, 1)[0]
+      return firstLine ? parseCsvLine(firstLine) : null
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null
+      throw error
+    }
+  }
+}
+
+function hasBalancedQuotes(text: string): boolean {
+  let quotes = 0
+  for (const char of text) {
+    if (char === '"') quotes++
+  }
+  return quotes % 2 === 0
+}
+
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  fields.push(current)
+  return fields
+}
+
+function formatCsvLine(values: any[]): string {
+  return values.map(formatCsvValue).join(',') + '\n'
+}
+
+function formatCsvValue(value: any): string {
+  if (value === null || value === undefined) return ''
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,115 @@
+/**
+ * Helpers for file-backed connectors (CSV, JSON, SQLite)
+ * File sources and targets are confined to the data directory (ETL_DATA_ROOT, default ./data),
+ * so connection strings cannot read or write the application's own files
+ */
+
+import { constants, existsSync, promises as fs, realpathSync } from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { ConnectionProbe } from './types'
+
+const FILE_CONNECTOR_TYPES = ['CSV', 'JSON', 'SQLITE']
+
+export function dataRoot(): string {
+  return path.resolve(process.cwd(), process.env.ETL_DATA_ROOT || 'data')
+}
+
+/**
+ * Turn a file connection string (plain path or file:// URL) into an absolute path inside the
+ * data directory. Relative paths are resolved against it; paths with ".." segments and paths
+ * that lead outside it, also through symlinks, are rejected
+ */
+export function resolveFilePath(connectionString: string): string {
+  const trimmed = connectionString.trim()
+  const location = trimmed.startsWith('file://') ? fileURLToPath(trimmed) : trimmed.replace(/^file:/, '')
+
+  if (location.split(/[\\/]/).includes('..')) {
+    throw new Error(`File path may not contain "..": ${location}`)
+  }
+
+  const root = dataRoot()
+  const resolved = path.resolve(root, location)
+  if (!isInside(root, resolved) || !isInside(realLocation(root), realLocation(resolved))) {
+    throw new Error(`File path is outside the data directory ${root}: ${location}`)
+  }
+  return resolved
+}
+
+/**
+ * Why the connection string of a file source cannot be used, or null when it can or the type is not file-backed
+ */
+export function fileLocationError(type: string, connectionString: string): string | null {
+  if (!FILE_CONNECTOR_TYPES.includes(type)) return null
+  try {
+    resolveFilePath(type === 'SQLITE' ? connectionString.replace(/^sqlite:(\/\/)?/, '') : connectionString)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+// Resolve symlinks along the part of the path that exists; the rest is created inside it
+function realLocation(target: string): string {
+  let existing = target
+  const missing: string[] = []
+  while (!existsSync(existing)) {
+    const parent = path.dirname(existing)
+    if (parent === existing) break
+    missing.unshift(path.basename(existing))
+    existing = parent
+  }
+  return path.join(realpathSync(existing), ...missing)
+}
+
+/**
+ * Read a dot-separated path (e.g. "data.items") from a parsed document
+ */
+export function readPath(document: any, selector?: string | null): any {
+  if (!selector) return document
+  return selector
+    .split('.')
+    .filter(Boolean)
+    .reduce((value, key) => (value == null ? undefined : value[key]), document)
+}
+
+/**
+ * Check read and write access to a file; a missing file is writable when its directory is,
+ * since targets create the file on their first load
+ */
+export async function probeFile(filePath: string): Promise<ConnectionProbe> {
+  const warnings: string[] = []
+  const canAccess = (target: string, mode: number) =>
+    fs.access(target, mode).then(() => true, () => false)
+
+  const stat = await fs.stat(filePath).catch((error: any) => {
+    if (error?.code === 'ENOENT') return null
+    throw error
+  })
+
+  if (!stat) {
+    const directory = path.dirname(filePath)
+    const write = await canAccess(directory, constants.W_OK)
+    warnings.push(`File ${filePath} does not exist yet; it can only be used as a target until it is created`)
+    if (!write) {
+      const exists = await fs.stat(directory).then(() => true, () => false)
+      warnings.push(exists ? `Directory ${directory} is not writable` : `Directory ${directory} does not exist`)
+    }
+    return { serverVersion: null, permissions: { read: false, write }, warnings }
+  }
+
+  if (!stat.isFile()) {
+    throw new Error(`${filePath} is not a file`)
+  }
+
+  const read = await canAccess(filePath, constants.R_OK)
+  const write = await canAccess(filePath, constants.W_OK)
+  if (!read) warnings.push(`File ${filePath} is not readable`)
+  if (!write) warnings.push(`File ${filePath} is not writable`)
+  return { serverVersion: null, permissions: { read, write }, warnings }
+}
@@ -0,0 +1,68 @@
+/**
+ * Connector registry keyed on DataSourceType
+ */
+
+import { ApiConnector } from './api'
+import { CsvConnector } from './csv'
+import { JsonConnector } from './json'
+import { MySqlConnector } from './mysql'
+import { PostgresConnector } from './postgresql'
+import { SqliteConnector } from './sqlite'
+import { hasOrderBy } from './sql'
+import { Connector, ConnectorSource } from './types'
+
+export * from './types'
+export * from './connection-test'
+export * from './load-modes'
+export * from './schema'
+export * from './watermark'
+export { dataRoot, fileLocationError } from './files'
+
+const CONNECTORS: Record<string, (source: ConnectorSource) => Connector> = {
+  POSTGRESQL: (source) => new PostgresConnector(source),
+  MYSQL: (source) => new MySqlConnector(source),
+  SQLITE: (source) => new SqliteConnector(source),
+  CSV: (source) => new CsvConnector(source),
+  JSON: (source) => new JsonConnector(source),
+  API: (source) => new ApiConnector(source),
+}
+
+/**
+ * Why an interrupted extraction cannot continue by skipping the records it already loaded,
+ * or null when the source returns them in a repeatable order: files are read front to back,
+ * and database queries need an ORDER BY, which a watermark column adds
+ */
+export function resumeOrderError(
+  type: string,
+  query: string | null | undefined,
+  watermarkColumn?: string | null
+): string | null {
+  switch (type) {
+    case 'CSV':
+    case 'JSON':
+      return null
+    case 'POSTGRESQL':
+    case 'MYSQL':
+    case 'SQLITE':
+      return watermarkColumn || (query && hasOrderBy(query))
+        ? null
+        : 'the extraction query has no ORDER BY, so the source may return its rows in a different order'
+    default:
+      return `${type} sources do not guarantee the order of their records`
+  }
+}
+
+export function isConnectorSupported(type: string): boolean {
+  return type in CONNECTORS
+}
+
+/**
+ * Create a connector for a data source; throws for types without an implementation
+ */
+export function createConnector(source: ConnectorSource): Connector {
+  const factory = CONNECTORS[source.type]
+  if (!factory) {
+    throw new Error(`Unsupported data source type: ${source.type}`)
+  }
+  return factory(source)
+}
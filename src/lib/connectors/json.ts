@@ -0,0 +1,113 @@
+/**
+ * JSON connector
+ * Reads JSON arrays or newline-delimited JSON; `query` selects a nested array (e.g. "data.items")
+ */
+
+import { createReadStream, promises as fs } from 'fs'
+import path from 'path'
+import readline from 'readline'
+import { probeFile, readPath, resolveFilePath } from './files'
+import { sampleSchema } from './schema'
+import { ConnectionProbe, Connector, ConnectorSource, DataRecord, ExtractOptions, IntrospectOptions, LoadOptions, LoadResult, SourceSchema, WatermarkFilter } from './types'
+import { filterByWatermark, isPastWatermark } from './watermark'
+
+export class JsonConnector implements Connector {
+  private readonly filePath: string
+  private readonly lineDelimited: boolean
+  private pendingRecords: DataRecord[] = []
+
+  constructor(readonly source: ConnectorSource) {
+    this.filePath = resolveFilePath(source.connectionString)
+    this.lineDelimited = /\.(ndjson|jsonl)$/i.test(this.filePath)
+  }
+
+  async connect(): Promise<void> {
+    // Files are opened per operation
+  }
+
+  async *extract({ query, batchSize, watermark }: ExtractOptions): AsyncGenerator<DataRecord[]> {
+    if (this.lineDelimited) {
+      yield* this.extractLines(batchSize, watermark)
+      return
+    }
+
+    const document = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+    const records = readPath(document, query)
+
+    if (!Array.isArray(records)) {
+      throw new Error(`JSON source ${this.source.name} did not resolve to an array${query ? ` at "${query}"` : ''}`)
+    }
+
+    const selected = filterByWatermark(records, watermark)
+    for (let i = 0; i < selected.length; i += batchSize) {
+      yield selected.slice(i, i + batchSize)
+    }
+  }
+
+  async load(records: DataRecord[], _options: LoadOptions): Promise<LoadResult> {
+    if (this.lineDelimited) {
+      const output = records.map(record => JSON.stringify(record)).join('\n')
+      if (output) {
+        await fs.appendFile(this.filePath, output + '\n', 'utf8')
+      }
+    } else {
+      // A JSON array can only be written whole, so rows are buffered until flush or close
+      this.pendingRecords.push(...records)
+    }
+    return { success: records.length, failed: 0, errors: [] }
+  }
+
+  async flush(): Promise<void> {
+    if (this.lineDelimited || this.pendingRecords.length === 0) return
+
+    let existing: DataRecord[] = []
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+      if (Array.isArray(parsed)) existing = parsed
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error
+    }
+
+    await fs.writeFile(this.filePath, JSON.stringify([...existing, ...this.pendingRecords], null, 2), 'utf8')
+    this.pendingRecords = []
+  }
+
+  async probe(): Promise<ConnectionProbe> {
+    return probeFile(this.filePath)
+  }
+
+  async introspect(options: IntrospectOptions): Promise<SourceSchema> {
+    const name = options.query || path.basename(this.filePath, path.extname(this.filePath))
+    return sampleSchema(this, name, options)
+  }
+
+  async close(): Promise<void> {
+    await this.flush()
+  }
+
+  private async *extractLines(batchSize: number, watermark?: WatermarkFilter | null): AsyncGenerator<DataRecord[]> {
+    const lines = readline.createInterface({
+      input: createReadStream(this.filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity
+    })
+
+    let batch: DataRecord[] = []
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue
+        const record = JSON.parse(line)
+        if (!isPastWatermark(record, watermark)) continue
+        batch.push(record)
+        if (batch.length >= batchSize) {
+          yield batch
+          batch = []
+        }
+      }
+      if (batch.length > 0) {
+        yield batch
+      }
+    } finally {
+      lines.close()
+    }
+  }
+}
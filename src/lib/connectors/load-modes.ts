@@ -0,0 +1,265 @@
+/**
+ * Load modes for relational targets
+ * Implements append, overwrite, upsert and scd2 on top of a minimal SQL session so the
+ * PostgreSQL, MySQL and SQLite connectors share the same semantics
+ */
+
+import {
+  buildInsert,
+  buildUpsert,
+  insertWithFallback,
+  normalizeValue,
+  placeholder,
+  quoteIdentifier,
+  SqlDialect
+} from './sql'
+import { DataRecord, LoadMode, LoadOptions, LoadResult, RecordError } from './types'
+import { LOAD_MODES } from '../schemas'
+
+export { LOAD_MODES, parseKeyColumns } from '../schemas'
+
+const RELATIONAL_TYPES = ['POSTGRESQL', 'MYSQL', 'SQLITE']
+
+export const DEFAULT_VALID_FROM_COLUMN = 'valid_from'
+export const DEFAULT_VALID_TO_COLUMN = 'valid_to'
+
+export interface SqlSession {
+  query(sql: string, params?: any[]): Promise<DataRecord[]>
+  begin(): Promise<void>
+  commit(): Promise<void>
+  rollback(): Promise<void>
+}
+
+export function isLoadMode(value: unknown): value is LoadMode {
+  return LOAD_MODES.includes(value as LoadMode)
+}
+
+/**
+ * Validate a load mode and its key columns; null when the combination is usable
+ */
+export function validateLoadOptions(mode: unknown, keyColumns: unknown, targetType?: string): string | null {
+  const loadMode = mode ?? 'append'
+  if (!isLoadMode(loadMode)) {
+    return `Unknown load mode "${mode}". Expected one of: ${LOAD_MODES.join(', ')}`
+  }
+  if (targetType && loadMode !== 'append' && !RELATIONAL_TYPES.includes(targetType)) {
+    return `Load mode ${loadMode} is only supported for relational targets, not ${targetType}`
+  }
+  if (keyColumns !== undefined && keyColumns !== null &&
+      (!Array.isArray(keyColumns) || keyColumns.some(column => typeof column !== 'string' || !column.trim()))) {
+    return 'Key columns must be a list of column names'
+  }
+  if ((loadMode === 'upsert' || loadMode === 'scd2') && (!Array.isArray(keyColumns) || keyColumns.length === 0)) {
+    return `Load mode ${loadMode} requires at least one key column`
+  }
+  return null
+}
+
+export class RelationalLoader {
+  // Open from prepare() of an overwrite load until commit() or rollback()
+  private loadTransaction = false
+
+  constructor(
+    private readonly dialect: SqlDialect,
+    private readonly session: SqlSession
+  ) {}
+
+  /**
+   * Start a load. Overwrite empties the table inside a transaction that stays open until
+   * commit(), so readers see the old rows until the new ones are complete and a failed or
+   * cancelled load leaves the old rows in place
+   */
+  async prepare(options: LoadOptions & { table: string }): Promise<void> {
+    if (options.mode !== 'overwrite' || this.loadTransaction) return
+
+    await this.session.begin()
+    this.loadTransaction = true
+    await this.session.query(`DELETE FROM ${quoteIdentifier(options.table, this.dialect)}`)
+  }
+
+  async commit(): Promise<void> {
+    if (!this.loadTransaction) return
+    this.loadTransaction = false
+    await this.session.commit()
+  }
+
+  async rollback(): Promise<void> {
+    if (!this.loadTransaction) return
+    this.loadTransaction = false
+    await this.session.rollback()
+  }
+
+  async load(records: DataRecord[], options: LoadOptions & { table: string }): Promise<LoadResult> {
+    const mode = options.mode ?? 'append'
+    const error = validateLoadOptions(mode, options.keyColumns)
+    if (error) {
+      throw new Error(error)
+    }
+
+    switch (mode) {
+      case 'overwrite':
+        if (!this.loadTransaction) {
+          throw new Error(`Overwrite load into ${options.table} was not prepared`)
+        }
+        return this.append(records, options.table)
+
+      case 'upsert':
+        return this.withKeyCheck(records, options.keyColumns!, valid =>
+          insertWithFallback(valid, async (rows) => {
+            const { sql, params } = buildUpsert(options.table, rows, options.keyColumns!, this.dialect)
+            await this.session.query(sql, params)
+          })
+        )
+
+      case 'scd2':
+        return this.withKeyCheck(records, options.keyColumns!, valid =>
+          this.loadScd2(valid, options.table, options.keyColumns!, {
+            validFrom: options.validFromColumn || DEFAULT_VALID_FROM_COLUMN,
+            validTo: options.validToColumn || DEFAULT_VALID_TO_COLUMN
+          })
+        )
+
+      default:
+        return this.append(records, options.table)
+    }
+  }
+
+  private append(records: DataRecord[], table: string): Promise<LoadResult> {
+    const insert = async (rows: DataRecord[]) => {
+      const { sql, params } = buildInsert(table, rows, this.dialect)
+      await this.session.query(sql, params)
+    }
+    // A failed statement aborts a PostgreSQL transaction, so inside the load transaction each
+    // attempt gets a savepoint for the row-by-row fallback to return to
+    return insertWithFallback(records, this.loadTransaction ? rows => this.withSavepoint(() => insert(rows)) : insert)
+  }
+
+  private async withSavepoint(work: () => Promise<void>): Promise<void> {
+    await this.session.query('SAVEPOINT etl_load')
+    try {
+      await work()
+    } catch (error) {
+      await this.session.query('ROLLBACK TO SAVEPOINT etl_load')
+      throw error
+    }
+    await this.session.query('RELEASE SAVEPOINT etl_load')
+  }
+
+  private async transaction<T>(work: () => Promise<T>): Promise<T> {
+    await this.session.begin()
+    try {
+      const result = await work()
+      await this.session.commit()
+      return result
+    } catch (error) {
+      await this.session.rollback().catch(() => undefined)
+      throw error
+    }
+  }
+
+  /**
+   * Records without a value for every key column, or repeating a key already seen in the
+   * batch, are conflicts: they are reported as failures instead of being loaded
+   */
+  private async withKeyCheck(
+    records: DataRecord[],
+    keyColumns: string[],
+    load: (valid: DataRecord[]) => Promise<LoadResult>
+  ): Promise<LoadResult> {
+    const conflicts: RecordError[] = []
+    const valid: DataRecord[] = []
+    const seen = new Set<string>()
+
+    for (const record of records) {
+      const missing = keyColumns.find(column => record[column] === null || record[column] === undefined)
+      if (missing) {
+        conflicts.push({ record, error: `Missing value for key column "${missing}"` })
+        continue
+      }
+
+      const key = JSON.stringify(keyColumns.map(column => normalizeValue(record[column], this.dialect)))
+      if (seen.has(key)) {
+        conflicts.push({ record, error: `Key conflict: ${describeKey(record, keyColumns)} appears more than once in the batch` })
+        continue
+      }
+      seen.add(key)
+      valid.push(record)
+    }
+
+    const result = await load(valid)
+    return {
+      success: result.success,
+      failed: result.failed + conflicts.length,
+      errors: [...conflicts, ...result.errors]
+    }
+  }
+
+  /**
+   * Slowly changing dimension type 2: a changed record closes the current row (valid_to = now)
+   * and inserts a new current row; unchanged records are left alone
+   */
+  private loadScd2(
+    records: DataRecord[],
+    table: string,
+    keyColumns: string[],
+    columns: { validFrom: string; validTo: string }
+  ): Promise<LoadResult> {
+    const quotedTable = quoteIdentifier(table, this.dialect)
+    const validTo = quoteIdentifier(columns.validTo, this.dialect)
+    const currentRow = (offset: number) => [
+      ...keyColumns.map((column, index) => `${quoteIdentifier(column, this.dialect)} = ${placeholder(offset + index + 1, this.dialect)}`),
+      `${validTo} IS NULL`
+    ].join(' AND ')
+
+    return insertWithFallback(records, rows => this.transaction(async () => {
+      const now = normalizeValue(new Date(), this.dialect)
+
+      for (const record of rows) {
+        const keyValues = keyColumns.map(column => normalizeValue(record[column], this.dialect))
+        const [current] = await this.session.query(`SELECT * FROM ${quotedTable} WHERE ${currentRow(0)}`, keyValues)
+
+        if (current && !hasChanges(record, current, [columns.validFrom, columns.validTo])) {
+          continue
+        }
+        if (current) {
+          await this.session.query(
+            `UPDATE ${quotedTable} SET ${validTo} = ${placeholder(1, this.dialect)} WHERE ${currentRow(1)}`,
+            [now, ...keyValues]
+          )
+        }
+
+        const { sql, params } = buildInsert(table, [{
+          ...record,
+          [columns.validFrom]: now,
+          [columns.validTo]: null
+        }], this.dialect)
+        await this.session.query(sql, params)
+      }
+    }))
+  }
+}
+
+function hasChanges(record: DataRecord, current: DataRecord, ignored: string[]): boolean {
+  return Object.keys(record)
+    .filter(column => !ignored.includes(column))
+    .some(column => !sameValue(record[column], current[column]))
+}
+
+function sameValue(left: any, right: any): boolean {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null)
+  }
+
+  const normalize = (value: any) => value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  const a = normalize(left)
+  const b = normalize(right)
+  if (a === b) return true
+
+  // Drivers return numerics and booleans in their own representation (e.g. "1.50", 1 for true)
+  if (typeof left === 'boolean' || typeof right === 'boolean') return Number(left) === Number(right)
+  return a.trim() !== '' && b.trim() !== '' && !Number.isNaN(Number(a)) && Number(a) === Number(b)
+}
+
+function describeKey(record: DataRecord, keyColumns: string[]): string {
+  return keyColumns.map(column => `${column}=${JSON.stringify(record[column])}`).join(', ')
+}
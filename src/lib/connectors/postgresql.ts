@@ -0,0 +1,170 @@
+/**
+ * PostgreSQL connector
+ * Streams query results through a server-side cursor and loads with batched statements per load mode
+ */
+
+import { Client } from 'pg'
+import { RelationalLoader } from './load-modes'
+import { catalogKey, groupCatalogColumns } from './schema'
+import { buildWatermarkQuery, stripTrailingSemicolon } from './sql'
+import { ConnectionProbe, Connector, ConnectorSource, DataRecord, ExtractOptions, LoadOptions, LoadResult, SourceSchema } from './types'
+
+export class PostgresConnector implements Connector {
+  private client: Client | null = null
+  private readonly loader = new RelationalLoader('postgresql', {
+    query: async (sql, params) => (await this.requireClient().query(sql, params)).rows,
+    begin: async () => {
+      await this.requireClient().query('BEGIN')
+    },
+    commit: async () => {
+      await this.requireClient().query('COMMIT')
+    },
+    rollback: async () => {
+      await this.requireClient().query('ROLLBACK')
+    }
+  })
+
+  constructor(readonly source: ConnectorSource) {}
+
+  async connect(): Promise<void> {
+    if (this.client) return
+    const client = new Client({ connectionString: this.source.connectionString })
+    await client.connect()
+    this.client = client
+  }
+
+  async *extract({ query, batchSize, watermark }: ExtractOptions): AsyncGenerator<DataRecord[]> {
+    if (!query) {
+      throw new Error(`Extraction query is required for PostgreSQL source: ${this.source.name}`)
+    }
+
+    const client = this.requireClient()
+    let finished = false
+
+    // Cursors only live inside a transaction
+    await client.query('BEGIN')
+    try {
+      const { sql, params } = buildWatermarkQuery(stripTrailingSemicolon(query), watermark, 'postgresql')
+      await client.query(`DECLARE etl_extract_cursor NO SCROLL CURSOR FOR ${sql}`, params)
+
+      while (true) {
+        const { rows } = await client.query(`FETCH ${batchSize} FROM etl_extract_cursor`)
+        if (rows.length === 0) break
+        yield rows
+      }
+
+      await client.query('CLOSE etl_extract_cursor')
+      await client.query('COMMIT')
+      finished = true
+    } finally {
+      if (!finished) {
+        await client.query('ROLLBACK').catch(() => undefined)
+      }
+    }
+  }
+
+  async prepareLoad(options: LoadOptions): Promise<void> {
+    await this.loader.prepare({ ...options, table: this.targetTable(options) })
+  }
+
+  async load(records: DataRecord[], options: LoadOptions): Promise<LoadResult> {
+    return this.loader.load(records, { ...options, table: this.targetTable(options) })
+  }
+
+  async flush(): Promise<void> {
+    await this.loader.commit()
+  }
+
+  async probe(): Promise<ConnectionProbe> {
+    const { rows: [info] } = await this.requireClient().query(`
+      SELECT current_setting('server_version') AS version,
+             current_user AS "user",
+             current_schema() AS schema,
+             current_setting('transaction_read_only') = 'on' OR pg_is_in_recovery() AS read_only,
+             has_schema_privilege(current_schema(), 'USAGE') AS can_use_schema,
+             has_schema_privilege(current_schema(), 'CREATE') AS can_create
+    `)
+
+    const warnings: string[] = []
+    if (!info.schema) {
+      warnings.push(`No schema on the search_path of ${info.user} exists; qualify table names in queries`)
+    } else {
+      if (!info.can_use_schema) warnings.push(`User ${info.user} has no USAGE privilege on schema ${info.schema}`)
+      if (!info.can_create) warnings.push(`User ${info.user} cannot create tables in schema ${info.schema}`)
+    }
+    if (info.read_only) warnings.push('Server only accepts read-only transactions (hot standby or default_transaction_read_only)')
+
+    return {
+      serverVersion: `PostgreSQL ${info.version}`,
+      permissions: {
+        read: info.schema ? Boolean(info.can_use_schema) : null,
+        write: !info.read_only && (info.schema ? Boolean(info.can_use_schema) : null)
+      },
+      warnings
+    }
+  }
+
+  async introspect(): Promise<SourceSchema> {
+    const client = this.requireClient()
+    const { rows: columns } = await client.query(`
+      SELECT c.table_schema AS schema,
+             c.table_name AS table,
+             c.column_name AS column,
+             c.data_type AS type,
+             c.is_nullable = 'YES' AS nullable,
+             EXISTS (
+               SELECT 1
+               FROM information_schema.table_constraints tc
+               JOIN information_schema.key_column_usage k
+                 ON k.constraint_schema = tc.constraint_schema AND k.constraint_name = tc.constraint_name
+               WHERE tc.constraint_type = 'PRIMARY KEY'
+                 AND tc.table_schema = c.table_schema
+                 AND tc.table_name = c.table_name
+                 AND k.column_name = c.column_name
+             ) AS "primaryKey"
+      FROM information_schema.columns c
+      WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema')
+      ORDER BY c.table_schema, c.table_name, c.ordinal_position
+    `)
+
+    // reltuples is the planner's estimate; it is negative (or 0 before v14) until the table is analyzed
+    const { rows: estimates } = await client.query(`
+      SELECT n.nspname AS schema, c.relname AS table, c.reltuples::bigint AS estimate
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind IN ('r', 'p', 'm')
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+    `)
+
+    return {
+      tables: groupCatalogColumns(columns, new Map(estimates.map(row => [
+        catalogKey(row.schema, row.table),
+        Number(row.estimate) >= 0 ? Number(row.estimate) : null
+      ]))),
+      inferred: false
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      // A load that was not flushed did not finish; its transaction is undone
+      await this.loader.rollback().catch(error => console.error('Failed to roll back load:', error))
+      await this.client.end()
+      this.client = null
+    }
+  }
+
+  private targetTable(options: LoadOptions): string {
+    if (!options.table) {
+      throw new Error(`Target table is required for PostgreSQL target: ${this.source.name}`)
+    }
+    return options.table
+  }
+
+  private requireClient(): Client {
+    if (!this.client) {
+      throw new Error(`Connector not connected: ${this.source.name}`)
+    }
+    return this.client
+  }
+}
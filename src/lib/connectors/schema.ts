@@ -0,0 +1,138 @@
+/**
+ * Schema discovery helpers
+ * Groups catalog rows from relational sources into tables, and guesses column types from a
+ * sample of extracted records for sources without a catalog (files and APIs)
+ */
+
+import { ColumnSchema, Connector, DataRecord, IntrospectOptions, SourceSchema, TableSchema } from './types'
+
+const INTEGER_PATTERN = /^-?\d+$/
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/
+
+// One row of a relational catalog query (information_schema, PRAGMA table_info)
+export interface CatalogColumn {
+  schema: string | null
+  table: string
+  column: string
+  type: string
+  nullable: boolean
+  primaryKey: boolean
+}
+
+/**
+ * Group catalog rows into tables, keeping the catalog's column order
+ */
+export function groupCatalogColumns(columns: CatalogColumn[], rowEstimates: Map<string, number | null>): TableSchema[] {
+  const tables = new Map<string, TableSchema>()
+
+  for (const column of columns) {
+    const key = catalogKey(column.schema, column.table)
+    if (!tables.has(key)) {
+      tables.set(key, {
+        name: column.table,
+        schema: column.schema,
+        columns: [],
+        rowEstimate: rowEstimates.get(key) ?? null
+      })
+    }
+    tables.get(key)!.columns.push({
+      name: column.column,
+      type: column.type,
+      nullable: Boolean(column.nullable),
+      primaryKey: Boolean(column.primaryKey)
+    })
+  }
+
+  return [...tables.values()]
+}
+
+export function catalogKey(schema: string | null, table: string): string {
+  return schema ? `${schema}.${table}` : table
+}
+
+/**
+ * Extract up to sampleSize records and describe them as a single table
+ */
+export async function sampleSchema(connector: Connector, name: string, options: IntrospectOptions): Promise<SourceSchema> {
+  const batches = connector.extract({ query: options.query, batchSize: options.sampleSize })
+  let records: DataRecord[] = []
+  let exhausted = false
+
+  try {
+    const first = await batches.next()
+    records = first.done ? [] : first.value
+    // A short first batch usually means the end of the data; APIs may still have another page
+    exhausted = first.done || (records.length < options.sampleSize && (await batches.next()).done === true)
+  } finally {
+    await batches.return(undefined)
+  }
+
+  return {
+    tables: [inferTableSchema(name, records, exhausted ? records.length : null)],
+    inferred: true
+  }
+}
+
+/**
+ * Columns in order of first appearance; a column missing from some records is nullable
+ */
+export function inferTableSchema(name: string, records: DataRecord[], rowEstimate: number | null): TableSchema {
+  const columns = new Map<string, { type: string | null; nullable: boolean }>()
+
+  records.forEach((record, index) => {
+    for (const column of Object.keys(record)) {
+      if (!columns.has(column)) {
+        // Records sampled before this column first appeared did not have it
+        columns.set(column, { type: null, nullable: index > 0 })
+      }
+    }
+
+    for (const [column, state] of columns) {
+      const type = inferValueType(record[column])
+      if (type === null) {
+        state.nullable = true
+      } else {
+        state.type = state.type === null ? type : mergeTypes(state.type, type)
+      }
+    }
+  })
+
+  return {
+    name,
+    columns: [...columns].map(([column, state]): ColumnSchema => ({
+      name: column,
+      type: state.type ?? 'unknown',
+      nullable: state.nullable,
+      primaryKey: false
+    })),
+    rowEstimate
+  }
+}
+
+function inferValueType(value: any): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  if (value instanceof Date) return 'timestamp'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'object') return 'object'
+
+  // CSV values are always strings, so look at their contents
+  const text = String(value).trim()
+  if (/^(true|false)$/i.test(text)) return 'boolean'
+  if (INTEGER_PATTERN.test(text)) return 'integer'
+  if (NUMBER_PATTERN.test(text)) return 'number'
+  if (DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(text))) return 'date'
+  if (TIMESTAMP_PATTERN.test(text) && !Number.isNaN(Date.parse(text))) return 'timestamp'
+  return 'string'
+}
+
+function mergeTypes(left: string, right: string): string {
+  if (left === right) return left
+  const pair = [left, right].sort().join('+')
+  if (pair === 'integer+number') return 'number'
+  if (pair === 'date+timestamp') return 'timestamp'
+  return 'string'
+}
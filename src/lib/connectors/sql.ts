@@ -0,0 +1,179 @@
+/**
+ * SQL helpers shared by the relational connectors
+ */
+
+import { DataRecord, LoadResult, WatermarkFilter } from './types'
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite'
+
+/**
+ * Quote a (possibly schema-qualified) identifier for the given dialect
+ */
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  const quote = dialect === 'mysql' ? '`' : '"'
+  return name
+    .split('.')
+    .map(part => `${quote}${part.split(quote).join(quote + quote)}${quote}`)
+    .join('.')
+}
+
+export function stripTrailingSemicolon(query: string): string {
+  return query.trim().replace(/;+\s*$/, '')
+}
+
+/**
+ * Whether the outermost level of a query sorts its rows; string literals and parenthesised
+ * subqueries are ignored, so an ORDER BY inside a subquery does not count
+ */
+export function hasOrderBy(query: string): boolean {
+  let outer = stripTrailingSemicolon(query).replace(/'(?:[^']|'')*'/g, "''")
+  let previous: string
+  do {
+    previous = outer
+    outer = outer.replace(/\([^()]*\)/g, '()')
+  } while (outer !== previous)
+  return /\border\s+by\b/i.test(outer)
+}
+
+/**
+ * Wrap an extraction query so only rows past the watermark are returned, ordered by the
+ * watermark column so offsets stay stable when a run resumes from a checkpoint
+ */
+export function buildWatermarkQuery(
+  query: string,
+  watermark: WatermarkFilter | null | undefined,
+  dialect: SqlDialect
+): { sql: string; params: any[] } {
+  if (!watermark) {
+    return { sql: query, params: [] }
+  }
+
+  const column = quoteIdentifier(watermark.column, dialect)
+  const filter = watermark.after === null ? '' : ` WHERE etl_source.${column} > ${placeholder(1, dialect)}`
+  const sql = `SELECT * FROM (${stripTrailingSemicolon(query)}) AS etl_source${filter} ORDER BY etl_source.${column}`
+
+  if (watermark.after === null) {
+    return { sql, params: [] }
+  }
+  // SQLite compares by storage class, so numeric watermarks must be bound as numbers
+  const numeric = dialect === 'sqlite' && /^-?\d+(\.\d+)?$/.test(watermark.after)
+  return { sql, params: [numeric ? Number(watermark.after) : watermark.after] }
+}
+
+/**
+ * Collect the union of column names across a batch, preserving first-seen order
+ */
+export function collectColumns(records: DataRecord[]): string[] {
+  const columns = new Set<string>()
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      columns.add(key)
+    }
+  }
+  return Array.from(columns)
+}
+
+/**
+ * Build a multi-row parameterised INSERT statement
+ */
+export function buildInsert(
+  table: string,
+  records: DataRecord[],
+  dialect: SqlDialect
+): { sql: string; params: any[] } {
+  const columns = collectColumns(records)
+  const params: any[] = []
+
+  const rows = records.map(record => {
+    const placeholders = columns.map(column => {
+      params.push(normalizeValue(record[column], dialect))
+      return placeholder(params.length, dialect)
+    })
+    return `(${placeholders.join(', ')})`
+  })
+
+  const columnList = columns.map(column => quoteIdentifier(column, dialect)).join(', ')
+  const sql = `INSERT INTO ${quoteIdentifier(table, dialect)} (${columnList}) VALUES ${rows.join(', ')}`
+
+  return { sql, params }
+}
+
+/**
+ * Build a multi-row INSERT that updates the non-key columns of rows whose keys already exist.
+ * PostgreSQL and SQLite need a unique constraint on the key columns; MySQL uses the table's unique keys
+ */
+export function buildUpsert(
+  table: string,
+  records: DataRecord[],
+  keyColumns: string[],
+  dialect: SqlDialect
+): { sql: string; params: any[] } {
+  const { sql, params } = buildInsert(table, records, dialect)
+  const updates = collectColumns(records)
+    .filter(column => !keyColumns.includes(column))
+    .map(column => quoteIdentifier(column, dialect))
+
+  if (dialect === 'mysql') {
+    const assignments = updates.length > 0
+      ? updates.map(column => `${column} = VALUES(${column})`)
+      : keyColumns.map(column => `${quoteIdentifier(column, dialect)} = ${quoteIdentifier(column, dialect)}`)
+    return { sql: `${sql} ON DUPLICATE KEY UPDATE ${assignments.join(', ')}`, params }
+  }
+
+  const conflict = keyColumns.map(column => quoteIdentifier(column, dialect)).join(', ')
+  const action = updates.length > 0
+    ? `DO UPDATE SET ${updates.map(column => `${column} = excluded.${column}`).join(', ')}`
+    : 'DO NOTHING'
+  return { sql: `${sql} ON CONFLICT (${conflict}) ${action}`, params }
+}
+
+export function placeholder(position: number, dialect: SqlDialect): string {
+  return dialect === 'postgresql' ? `$${position}` : '?'
+}
+
+/**
+ * Insert a batch in one statement, falling back to row-by-row inserts when the
+ * batch is rejected so that a single bad record does not fail its neighbours
+ */
+export async function insertWithFallback(
+  records: DataRecord[],
+  insert: (rows: DataRecord[]) => Promise<void>
+): Promise<LoadResult> {
+  if (records.length === 0) {
+    return { success: 0, failed: 0, errors: [] }
+  }
+
+  try {
+    await insert(records)
+    return { success: records.length, failed: 0, errors: [] }
+  } catch (batchError) {
+    const result: LoadResult = { success: 0, failed: 0, errors: [] }
+
+    for (const record of records) {
+      try {
+        await insert([record])
+        result.success++
+      } catch (error) {
+        result.failed++
+        result.errors.push({
+          record,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
+
+    return result
+  }
+}
+
+export function normalizeValue(value: any, dialect: SqlDialect): any {
+  if (value === undefined) return null
+  if (typeof value === 'object' && value !== null && !(value instanceof Date) && !Buffer.isBuffer(value)) {
+    return JSON.stringify(value)
+  }
+  if (dialect === 'sqlite') {
+    if (typeof value === 'boolean') return value ? 1 : 0
+    if (value instanceof Date) return value.toISOString()
+  }
+  return value
+}
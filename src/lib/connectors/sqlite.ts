@@ -0,0 +1,146 @@
+/**
+ * SQLite connector
+ * Iterates query results lazily and loads each batch according to the load mode
+ */
+
+import Database from 'better-sqlite3'
+import { RelationalLoader } from './load-modes'
+import { CatalogColumn, groupCatalogColumns } from './schema'
+import { buildWatermarkQuery, quoteIdentifier } from './sql'
+import { probeFile, resolveFilePath } from './files'
+import { ConnectionProbe, Connector, ConnectorSource, DataRecord, ExtractOptions, LoadOptions, LoadResult, SourceSchema } from './types'
+
+export class SqliteConnector implements Connector {
+  private database: Database.Database | null = null
+  private readonly loader = new RelationalLoader('sqlite', {
+    query: async (sql, params = []) => {
+      const statement = this.requireDatabase().prepare(sql)
+      if (statement.reader) return statement.all(...params) as DataRecord[]
+      statement.run(...params)
+      return []
+    },
+    // better-sqlite3 transactions must be synchronous, so async work is wrapped in explicit statements
+    begin: async () => {
+      this.requireDatabase().exec('BEGIN')
+    },
+    commit: async () => {
+      this.requireDatabase().exec('COMMIT')
+    },
+    rollback: async () => {
+      const database = this.requireDatabase()
+      if (database.inTransaction) database.exec('ROLLBACK')
+    }
+  })
+
+  constructor(readonly source: ConnectorSource) {}
+
+  async connect(): Promise<void> {
+    if (this.database) return
+    const path = resolveFilePath(this.source.connectionString.replace(/^sqlite:(\/\/)?/, ''))
+    this.database = new Database(path)
+  }
+
+  async *extract({ query, batchSize, watermark }: ExtractOptions): AsyncGenerator<DataRecord[]> {
+    if (!query) {
+      throw new Error(`Extraction query is required for SQLite source: ${this.source.name}`)
+    }
+
+    const database = this.requireDatabase()
+    let batch: DataRecord[] = []
+
+    const { sql, params } = buildWatermarkQuery(query, watermark, 'sqlite')
+    for (const row of database.prepare(sql).iterate(...params)) {
+      batch.push(row as DataRecord)
+      if (batch.length >= batchSize) {
+        yield batch
+        batch = []
+      }
+    }
+    if (batch.length > 0) {
+      yield batch
+    }
+  }
+
+  async prepareLoad(options: LoadOptions): Promise<void> {
+    await this.loader.prepare({ ...options, table: this.targetTable(options) })
+  }
+
+  async load(records: DataRecord[], options: LoadOptions): Promise<LoadResult> {
+    return this.loader.load(records, { ...options, table: this.targetTable(options) })
+  }
+
+  async flush(): Promise<void> {
+    await this.loader.commit()
+  }
+
+  async probe(): Promise<ConnectionProbe> {
+    const database = this.requireDatabase()
+    const { version } = database.prepare('SELECT sqlite_version() AS version').get() as { version: string }
+    if (database.memory) {
+      return { serverVersion: `SQLite ${version}`, permissions: { read: true, write: true }, warnings: [] }
+    }
+
+    const file = await probeFile(database.name)
+    const warnings = [...file.warnings]
+    if (database.readonly) warnings.push('Database is opened read-only')
+    return {
+      serverVersion: `SQLite ${version}`,
+      permissions: { read: file.permissions.read, write: !database.readonly && file.permissions.write },
+      warnings
+    }
+  }
+
+  async introspect(): Promise<SourceSchema> {
+    const database = this.requireDatabase()
+    const objects = database.prepare(
+      "SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    ).all() as { name: string; type: string }[]
+
+    const columns: CatalogColumn[] = []
+    const rowEstimates = new Map<string, number | null>()
+
+    for (const object of objects) {
+      const table = quoteIdentifier(object.name, 'sqlite')
+      const info = database.prepare(`PRAGMA table_info(${table})`).all() as DataRecord[]
+      columns.push(...info.map(column => ({
+        schema: null,
+        table: object.name,
+        column: column.name,
+        type: column.type || 'unknown',
+        nullable: !column.notnull && !column.pk,
+        primaryKey: column.pk > 0
+      })))
+
+      // Local files are cheap to count; views could be arbitrarily expensive
+      if (object.type === 'table') {
+        const { total } = database.prepare(`SELECT COUNT(*) AS total FROM ${table}`).get() as { total: number }
+        rowEstimates.set(object.name, total)
+      }
+    }
+
+    return { tables: groupCatalogColumns(columns, rowEstimates), inferred: false }
+  }
+
+  async close(): Promise<void> {
+    if (this.database) {
+      // A load that was not flushed did not finish; its transaction is undone
+      await this.loader.rollback().catch(error => console.error('Failed to roll back load:', error))
+      this.database.close()
+      this.database = null
+    }
+  }
+
+  private targetTable(options: LoadOptions): string {
+    if (!options.table) {
+      throw new Error(`Target table is required for SQLite target: ${this.source.name}`)
+    }
+    return options.table
+  }
+
+  private requireDatabase(): Database.Database {
+    if (!this.database) {
+      throw new Error(`Connector not connected: ${this.source.name}`)
+    }
+    return this.database
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Connector contracts shared by every data source implementation
+ */
+
+export type DataRecord = Record<string, any>
+
+// Mirrors the DataSourceType enum in prisma/schema.prisma
+export type ConnectorType =
+  | 'MYSQL'
+  | 'POSTGRESQL'
+  | 'SQLITE'
+  | 'MONGODB'
+  | 'API'
+  | 'CSV'
+  | 'JSON'
+  | 'EXCEL'
+
+export interface ConnectorSource {
+  id: string
+  name: string
+  type: ConnectorType | string
+  connectionString: string
+}
+
+// Incremental extraction: only records whose column value is greater than `after`, in column order
+export interface WatermarkFilter {
+  column: string
+  after: string | null
+}
+
+export interface ExtractOptions {
+  query?: string | null
+  batchSize: number
+  watermark?: WatermarkFilter | null
+  // Cancels requests in flight where the connector can; callers still check it between batches
+  signal?: AbortSignal
+}
+
+// append inserts, overwrite replaces the table's rows in one transaction, upsert updates rows
+// matching the key columns and scd2 keeps history by closing the current row's validity period
+export type LoadMode = 'append' | 'overwrite' | 'upsert' | 'scd2'
+
+export interface LoadOptions {
+  table?: string | null
+  mode?: LoadMode
+  keyColumns?: string[]
+  validFromColumn?: string
+  validToColumn?: string
+  // As for ExtractOptions
+  signal?: AbortSignal
+}
+
+export interface RecordError {
+  record: DataRecord
+  error: string
+}
+
+export interface LoadResult {
+  success: number
+  failed: number
+  errors: RecordError[]
+}
+
+// null means the connector could not check that permission without side effects
+export interface ConnectionPermissions {
+  read: boolean | null
+  write: boolean | null
+}
+
+// What a connected connector reports about the server behind it
+export interface ConnectionProbe {
+  serverVersion: string | null
+  permissions: ConnectionPermissions
+  warnings: string[]
+}
+
+export interface ColumnSchema {
+  name: string
+  type: string
+  nullable: boolean | null
+  primaryKey: boolean
+}
+
+export interface TableSchema {
+  name: string
+  schema?: string | null
+  columns: ColumnSchema[]
+  rowEstimate: number | null
+}
+
+// inferred: column types were guessed from sampled records rather than read from a catalog
+export interface SourceSchema {
+  tables: TableSchema[]
+  inferred: boolean
+}
+
+export interface IntrospectOptions {
+  query?: string | null
+  sampleSize: number
+}
+
+export interface Connector {
+  readonly source: ConnectorSource
+  connect(): Promise<void>
+  extract(options: ExtractOptions): AsyncGenerator<DataRecord[]>
+  // Called once before the first load() of a run, even when no records follow
+  prepareLoad?(options: LoadOptions): Promise<void>
+  load(records: DataRecord[], options: LoadOptions): Promise<LoadResult>
+  // Persist records buffered by load() and commit a prepared load; connectors that write on every load do not need it
+  flush?(): Promise<void>
+  // Called after connect() by connection tests; must not modify data
+  probe(): Promise<ConnectionProbe>
+  // Called after connect(); lists tables and columns, sampling records when there is no catalog
+  introspect(options: IntrospectOptions): Promise<SourceSchema>
+  close(): Promise<void>
+}
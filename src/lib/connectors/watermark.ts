@@ -0,0 +1,62 @@
+/**
+ * Watermark helpers for incremental extraction
+ * Watermarks are stored as strings. Values compare numerically when both sides are numbers,
+ * chronologically when both are timestamps and as strings otherwise.
+ */
+
+import { DataRecord, WatermarkFilter } from './types'
+
+const NUMERIC = /^-?\d+(\.\d+)?$/
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Convert a column value to its stored form; null when the value cannot act as a watermark
+ */
+export function serializeWatermark(value: any): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString()
+  if (typeof value === 'object') return null
+  return String(value)
+}
+
+export function compareWatermarks(a: any, b: any): number {
+  const left = serializeWatermark(a) ?? ''
+  const right = serializeWatermark(b) ?? ''
+
+  if (NUMERIC.test(left) && NUMERIC.test(right)) {
+    return Math.sign(Number(left) - Number(right))
+  }
+  if (TIMESTAMP.test(left) && TIMESTAMP.test(right)) {
+    const difference = Date.parse(left) - Date.parse(right)
+    if (!Number.isNaN(difference)) return Math.sign(difference)
+  }
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+/**
+ * In-memory filter for connectors that cannot push the watermark down to the source
+ */
+export function isPastWatermark(record: DataRecord, watermark?: WatermarkFilter | null): boolean {
+  if (!watermark || watermark.after === null) return true
+  const value = serializeWatermark(record[watermark.column])
+  return value !== null && compareWatermarks(value, watermark.after) > 0
+}
+
+export function filterByWatermark(records: DataRecord[], watermark?: WatermarkFilter | null): DataRecord[] {
+  if (!watermark || watermark.after === null) return records
+  return records.filter(record => isPastWatermark(record, watermark))
+}
+
+/**
+ * Highest watermark among the records and the current value
+ */
+export function maxWatermark(records: DataRecord[], column: string, current: string | null): string | null {
+  let highest = current
+  for (const record of records) {
+    const value = serializeWatermark(record[column])
+    if (value !== null && (highest === null || compareWatermarks(value, highest) > 0)) {
+      highest = value
+    }
+  }
+  return highest
+}
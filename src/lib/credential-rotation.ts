@@ -0,0 +1,413 @@
+/**
+ * Credential Rotation
+ * Replaces the connection string of a data source in steps: the new credentials are staged in
+ * the vault, tested, and swapped in for every job that reads from or loads into the source in a
+ * single transaction. The previous credentials are kept until the rollback window ends, and every
+ * step is written to the sync log so an outage can be traced back to a rotation
+ */
+
+import { NotificationType } from '@prisma/client'
+import { db } from './db'
+import { connectionTestFailure, ConnectionTestResult, createConnector, testConnection } from './connectors'
+import { invalidateSchemaCache } from './schema-discovery'
+import { redactConnectionString, SecretVault } from './secret-vault'
+
+export type RotationStatus = 'STAGED' | 'VERIFIED' | 'APPLIED' | 'COMPLETED' | 'ROLLED_BACK' | 'CANCELLED'
+
+export interface RotationConfig {
+  rollbackWindowHours: number
+}
+
+export interface StageRotationOptions {
+  rollbackWindowHours?: number
+  initiatedBy?: string | null
+}
+
+// Only one rotation per data source may be in one of these states
+export const OPEN_ROTATION_STATUSES: RotationStatus[] = ['STAGED', 'VERIFIED', 'APPLIED']
+
+const SETTINGS_KEY = 'credential-rotation'
+
+const DEFAULT_CONFIG: RotationConfig = {
+  rollbackWindowHours: 24
+}
+
+interface DependentJob {
+  id: string
+  name: string
+  sourceId: string
+  targetId: string
+  createdBy: string
+}
+
+export class CredentialRotationManager {
+  private static instance: CredentialRotationManager
+
+  static getInstance(): CredentialRotationManager {
+    if (!CredentialRotationManager.instance) {
+      CredentialRotationManager.instance = new CredentialRotationManager()
+    }
+    return CredentialRotationManager.instance
+  }
+
+  /**
+   * The rotation of a data source that is staged, verified or still inside its rollback window
+   */
+  async getOpenRotation(sourceId: string) {
+    return db.credentialRotation.findFirst({
+      where: { sourceId, status: { in: OPEN_ROTATION_STATUSES } },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * Seal the new connection string's credentials next to the current ones without using them yet
+   */
+  async stage(sourceId: string, connectionString: string, options: StageRotationOptions = {}) {
+    const source = await this.loadSource(sourceId)
+    if (await this.getOpenRotation(sourceId)) {
+      throw new Error(`Data source ${source.name} already has a rotation in progress`)
+    }
+
+    const config = await this.loadConfig()
+    const vault = SecretVault.getInstance()
+
+    // Sources saved before the vault existed may still hold plaintext; the copy kept for rollback must not
+    const previousConnectionString = await vault.protectConnectionString(sourceId, source.connectionString)
+    if (previousConnectionString !== source.connectionString) {
+      await db.dataSource.update({ where: { id: sourceId }, data: { connectionString: previousConnectionString } })
+    }
+
+    const rotation = await db.credentialRotation.create({
+      data: {
+        sourceId,
+        stagedConnectionString: previousConnectionString,
+        previousConnectionString,
+        rollbackWindowHours: options.rollbackWindowHours ?? config.rollbackWindowHours,
+        initiatedBy: options.initiatedBy ?? null
+      }
+    })
+
+    let staged
+    try {
+      // Secret names include the rotation id, so the staged credentials never overwrite the ones in use
+      const stagedConnectionString = await vault.sealCredentials(
+        sourceId,
+        connectionString,
+        field => `datasource-${sourceId}-rotation-${rotation.id}-${field}`
+      )
+      staged = await db.credentialRotation.update({
+        where: { id: rotation.id },
+        data: { stagedConnectionString }
+      })
+    } catch (error) {
+      await db.credentialRotation.delete({ where: { id: rotation.id } }).catch(() => undefined)
+      await vault.pruneSourceSecrets(sourceId, [previousConnectionString]).catch(() => undefined)
+      throw error
+    }
+
+    await this.log(source.id, null, 'INFO', `Credential rotation staged for ${source.name}`, staged)
+    return staged
+  }
+
+  /**
+   * Test the staged credentials; the rotation is verified only if they connect and have the
+   * permissions the dependent jobs need
+   */
+  async test(rotationId: string): Promise<ConnectionTestResult> {
+    const rotation = await this.loadRotation(rotationId, ['STAGED', 'VERIFIED'])
+    const source = await this.loadSource(rotation.sourceId)
+    const jobs = await this.findDependentJobs(rotation.sourceId)
+
+    let result: ConnectionTestResult
+    try {
+      const resolved = await SecretVault.getInstance().resolveSource(
+        { id: source.id, name: source.name, type: source.type, connectionString: rotation.stagedConnectionString },
+        { purpose: 'CREDENTIAL_ROTATION', sourceId: source.id, workspaceId: source.workspaceId }
+      )
+      result = await testConnection(createConnector(resolved))
+    } catch (error) {
+      result = connectionTestFailure(error)
+    }
+
+    if (result.success) {
+      const missing = missingPermissions(result, source.id, jobs)
+      if (missing) {
+        result = { ...result, success: false, error: missing }
+      }
+    }
+
+    const status: RotationStatus = result.success ? 'VERIFIED' : 'STAGED'
+    const updated = await db.credentialRotation.updateMany({
+      where: { id: rotation.id, status: { in: ['STAGED', 'VERIFIED'] } },
+      data: { status, testResult: JSON.stringify(result), testedAt: new Date(result.testedAt) }
+    })
+    if (updated.count === 0) {
+      throw new Error(`Rotation ${rotation.id} changed while it was being tested`)
+    }
+
+    await this.log(
+      source.id,
+      null,
+      result.success ? 'INFO' : 'ERROR',
+      result.success
+        ? `Staged credentials for ${source.name} verified in ${result.latencyMs}ms`
+        : `Staged credentials for ${source.name} failed their test: ${result.error}`,
+      { ...rotation, status },
+      { testResult: result }
+    )
+    if (!result.success) {
+      await this.notify(jobs, rotation.initiatedBy, NotificationType.DATA_SOURCE_ERROR,
+        `Credential rotation test failed: ${source.name}`,
+        `The staged credentials for ${source.name} were not applied: ${result.error}`)
+    }
+    return result
+  }
+
+  /**
+   * Swap the verified credentials in. Jobs reference the data source, so one update switches all
+   * of them; executions that already opened their connectors finish with the previous credentials
+   */
+  async apply(rotationId: string) {
+    const rotation = await this.loadRotation(rotationId, ['VERIFIED'])
+    const appliedAt = new Date()
+    const rollbackUntil = new Date(appliedAt.getTime() + rotation.rollbackWindowHours * 60 * 60 * 1000)
+
+    const applied = await db.$transaction(async (tx: any) => {
+      const claimed = await tx.credentialRotation.updateMany({
+        where: { id: rotation.id, status: 'VERIFIED' },
+        data: { status: 'APPLIED', appliedAt, rollbackUntil }
+      })
+      if (claimed.count === 0) {
+        throw new Error(`Rotation ${rotation.id} is no longer verified`)
+      }
+
+      const swapped = await tx.dataSource.updateMany({
+        where: { id: rotation.sourceId, connectionString: rotation.previousConnectionString },
+        data: { connectionString: rotation.stagedConnectionString }
+      })
+      if (swapped.count === 0) {
+        throw new Error('The data source connection string changed after the rotation was staged')
+      }
+
+      return tx.credentialRotation.findUnique({ where: { id: rotation.id } })
+    })
+
+    await invalidateSchemaCache(rotation.sourceId)
+    await this.announce(applied, 'INFO', 'applied',
+      `Rollback is possible until ${rollbackUntil.toISOString()}`)
+    return applied
+  }
+
+  /**
+   * Restore the previous credentials while the rollback window is open
+   */
+  async rollback(rotationId: string, now: Date = new Date()) {
+    const rotation = await this.loadRotation(rotationId, ['APPLIED'])
+    if (rotation.rollbackUntil && rotation.rollbackUntil <= now) {
+      throw new Error(`The rollback window of rotation ${rotation.id} closed at ${rotation.rollbackUntil.toISOString()}`)
+    }
+
+    const rolledBack = await db.$transaction(async (tx: any) => {
+      const claimed = await tx.credentialRotation.updateMany({
+        where: { id: rotation.id, status: 'APPLIED' },
+        data: { status: 'ROLLED_BACK', rolledBackAt: now, finishedAt: now }
+      })
+      if (claimed.count === 0) {
+        throw new Error(`Rotation ${rotation.id} is no longer applied`)
+      }
+
+      await tx.dataSource.update({
+        where: { id: rotation.sourceId },
+        data: { connectionString: rotation.previousConnectionString }
+      })
+      return tx.credentialRotation.findUnique({ where: { id: rotation.id } })
+    })
+
+    await SecretVault.getInstance().pruneSourceSecrets(rotation.sourceId, [rotation.previousConnectionString])
+    await invalidateSchemaCache(rotation.sourceId)
+    await this.announce(rolledBack, 'WARN', 'rolled back', 'The previous credentials are in use again')
+    return rolledBack
+  }
+
+  /**
+   * Drop a rotation that was never applied, together with its staged credentials
+   */
+  async cancel(rotationId: string) {
+    const rotation = await this.loadRotation(rotationId, ['STAGED', 'VERIFIED'])
+    const cancelled = await this.finish(rotation, ['STAGED', 'VERIFIED'], 'CANCELLED')
+
+    await this.log(rotation.sourceId, null, 'INFO', 'Credential rotation cancelled', cancelled)
+    return cancelled
+  }
+
+  /**
+   * Close the rollback window and delete the previous credentials
+   */
+  async complete(rotationId: string) {
+    const rotation = await this.loadRotation(rotationId, ['APPLIED'])
+    const completed = await this.finish(rotation, ['APPLIED'], 'COMPLETED')
+
+    await this.log(rotation.sourceId, null, 'INFO', 'Credential rotation completed; previous credentials deleted', completed)
+    return completed
+  }
+
+  /**
+   * Complete every applied rotation whose rollback window has passed
+   */
+  async completeExpired(now: Date = new Date()): Promise<number> {
+    const expired = await db.credentialRotation.findMany({
+      where: { status: 'APPLIED', rollbackUntil: { lte: now } },
+      select: { id: true }
+    })
+
+    let completed = 0
+    for (const rotation of expired) {
+      try {
+        await this.complete(rotation.id)
+        completed++
+      } catch (error) {
+        console.error(`Failed to complete credential rotation ${rotation.id}:`, error)
+      }
+    }
+    return completed
+  }
+
+  private async finish(rotation: any, from: RotationStatus[], status: RotationStatus) {
+    const updated = await db.credentialRotation.updateMany({
+      where: { id: rotation.id, status: { in: from } },
+      data: { status, finishedAt: new Date() }
+    })
+    if (updated.count === 0) {
+      throw new Error(`Rotation ${rotation.id} changed while it was being ${status.toLowerCase()}`)
+    }
+
+    const source = await this.loadSource(rotation.sourceId)
+    await SecretVault.getInstance().pruneSourceSecrets(rotation.sourceId, [source.connectionString])
+    return db.credentialRotation.findUnique({ where: { id: rotation.id } })
+  }
+
+  private async loadSource(sourceId: string) {
+    const source = await db.dataSource.findUnique({ where: { id: sourceId } })
+    if (!source) {
+      throw new Error(`Data source not found: ${sourceId}`)
+    }
+    return source
+  }
+
+  private async loadRotation(rotationId: string, expected: RotationStatus[]) {
+    const rotation = await db.credentialRotation.findUnique({ where: { id: rotationId } })
+    if (!rotation) {
+      throw new Error(`Credential rotation not found: ${rotationId}`)
+    }
+    if (!expected.includes(rotation.status)) {
+      throw new Error(`Rotation ${rotation.id} is ${rotation.status.toLowerCase()}, expected ${expected.join(' or ').toLowerCase()}`)
+    }
+    return rotation
+  }
+
+  private async findDependentJobs(sourceId: string): Promise<DependentJob[]> {
+    return db.eTLJob.findMany({
+      where: { OR: [{ sourceId }, { targetId: sourceId }] },
+      select: { id: true, name: true, sourceId: true, targetId: true, createdBy: true }
+    })
+  }
+
+  /**
+   * Log a swap on the data source and on every dependent job, and notify the people involved
+   */
+  private async announce(rotation: any, level: 'INFO' | 'WARN', action: string, detail: string) {
+    const source = await this.loadSource(rotation.sourceId)
+    const jobs = await this.findDependentJobs(rotation.sourceId)
+    const message = `Credentials for ${source.name} ${action}. ${detail}`
+
+    await this.log(source.id, null, level, message, rotation, { affectedJobs: jobs.map(job => job.id) })
+    for (const job of jobs) {
+      await this.log(source.id, job.id, level, message, rotation)
+    }
+    await this.notify(jobs, rotation.initiatedBy, NotificationType.SYSTEM_ALERT, `Credential rotation ${action}: ${source.name}`,
+      `${message}. Affected jobs: ${jobs.map(job => job.name).join(', ') || 'none'}`)
+  }
+
+  /**
+   * In-app notification for the owners of the dependent jobs, the initiator and all admins
+   */
+  private async notify(jobs: DependentJob[], initiatedBy: string | null, type: NotificationType, title: string, message: string) {
+    try {
+      const admins = await db.user.findMany({ where: { role: 'ADMIN' }, select: { id: true } })
+      const userIds = new Set<string>([
+        ...jobs.map(job => job.createdBy),
+        ...admins.map((admin: { id: string }) => admin.id),
+        ...(initiatedBy ? [initiatedBy] : [])
+      ])
+
+      for (const userId of userIds) {
+        await db.notification.create({
+          data: { userId, type, title, message, channels: JSON.stringify(['IN_APP']) }
+        })
+      }
+    } catch (error) {
+      // The rotation already happened; a missing notification must not report it as failed
+      console.error('Failed to send credential rotation notifications:', error)
+    }
+  }
+
+  private async log(
+    sourceId: string,
+    jobId: string | null,
+    level: 'INFO' | 'WARN' | 'ERROR',
+    message: string,
+    rotation: any,
+    details?: Record<string, any>
+  ) {
+    await db.syncLog.create({
+      data: {
+        sourceId,
+        jobId,
+        level,
+        message,
+        details: JSON.stringify({ rotationId: rotation.id, rotationStatus: rotation.status, ...details })
+      }
+    })
+  }
+
+  private async loadConfig(): Promise<RotationConfig> {
+    try {
+      const setting = await db.systemSettings.findUnique({ where: { key: SETTINGS_KEY } })
+      return { ...DEFAULT_CONFIG, ...(setting ? JSON.parse(setting.value) : {}) }
+    } catch (error) {
+      console.error('Failed to load credential rotation settings, using defaults:', error)
+      return DEFAULT_CONFIG
+    }
+  }
+}
+
+/**
+ * API representation: connection strings redacted and the test result parsed
+ */
+export function serializeRotation(rotation: any) {
+  return {
+    ...rotation,
+    stagedConnectionString: redactConnectionString(rotation.stagedConnectionString),
+    previousConnectionString: redactConnectionString(rotation.previousConnectionString),
+    testResult: rotation.testResult ? JSON.parse(rotation.testResult) : null
+  }
+}
+
+/**
+ * Reason the staged credentials cannot serve the dependent jobs, if the probe could tell
+ */
+function missingPermissions(result: ConnectionTestResult, sourceId: string, jobs: DependentJob[]): string | null {
+  const readers = jobs.filter(job => job.sourceId === sourceId)
+  const writers = jobs.filter(job => job.targetId === sourceId)
+
+  if (readers.length > 0 && result.permissions?.read === false) {
+    return `The staged credentials cannot read, but ${readers.length} job(s) extract from this data source`
+  }
+  if (writers.length > 0 && result.permissions?.write === false) {
+    return `The staged credentials cannot write, but ${writers.length} job(s) load into this data source`
+  }
+  return null
+}
+
+export default CredentialRotationManager
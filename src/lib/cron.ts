@@ -0,0 +1,75 @@
+/**
+ * Cron Schedule Helpers
+ * Parses ETLJob.schedule cron expressions and computes run times in the job owner's timezone
+ */
+
+import { CronExpressionParser } from 'cron-parser'
+
+export const DEFAULT_TIMEZONE = 'UTC'
+
+/**
+ * Validate a cron expression; returns an error message, or null when the expression is valid
+ */
+export function validateCronExpression(expression: string, timezone: string = DEFAULT_TIMEZONE): string | null {
+  if (!isValidTimezone(timezone)) {
+    return `Unknown timezone: ${timezone}`
+  }
+
+  try {
+    CronExpressionParser.parse(expression, { tz: timezone, strict: false })
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Next occurrence strictly after `from`
+ */
+export function getNextRun(
+  expression: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  from: Date = new Date()
+): Date {
+  return CronExpressionParser.parse(expression, {
+    currentDate: from,
+    tz: resolveTimezone(timezone)
+  }).next().toDate()
+}
+
+/**
+ * Occurrences in (from, to], capped at `limit` so a long outage cannot produce an unbounded list
+ */
+export function getOccurrencesBetween(
+  expression: string,
+  timezone: string,
+  from: Date,
+  to: Date,
+  limit: number
+): Date[] {
+  const interval = CronExpressionParser.parse(expression, {
+    currentDate: from,
+    endDate: to,
+    tz: resolveTimezone(timezone)
+  })
+
+  const occurrences: Date[] = []
+  while (occurrences.length < limit && interval.hasNext()) {
+    occurrences.push(interval.next().toDate())
+  }
+  return occurrences
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Settings are user-editable, so fall back to UTC rather than failing the schedule
+export function resolveTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE
+}
@@ -0,0 +1,141 @@
+/**
+ * Execution Events
+ * Provides a cross-process bus for progress and log events of job and workflow executions.
+ * Job workers run in their own processes, so events go out on a Redis channel and every
+ * server replica relays what it receives to its Socket.IO clients (see socket.ts). While
+ * Redis is unreachable events only reach subscribers in the publishing process
+ */
+
+import type Redis from 'ioredis'
+import { getRedis } from './cache'
+import { LogLevel } from './schemas'
+
+export { LOG_LEVELS } from './schemas'
+
+export type ExecutionLogLevel = LogLevel
+
+export interface ExecutionProgressEvent {
+  type: 'progress'
+  jobId?: string
+  workflowId?: string
+  executionId: string
+  status: string
+  recordsProcessed?: number
+  recordsSuccess?: number
+  recordsFailed?: number
+  // Workflows only: percentage of settled steps and the steps currently running
+  progress?: number
+  currentStep?: string | null
+  timestamp: string
+}
+
+// Shaped like a SyncLog row with its job and source names, which is what the monitoring page lists
+export interface ExecutionLogEvent {
+  type: 'log'
+  id: string
+  jobId?: string
+  workflowId?: string
+  executionId?: string
+  sourceId?: string
+  level: ExecutionLogLevel
+  message: string
+  details?: string | null // JSON
+  timestamp: string
+  job?: { name: string }
+  source?: { name: string }
+  workflow?: { name: string }
+}
+
+export type ExecutionEvent = ExecutionProgressEvent | ExecutionLogEvent
+
+type ExecutionEventListener = (event: ExecutionEvent) => void
+
+const CHANNEL = 'etl:execution-events'
+
+export class ExecutionEventBus {
+  private static instance: ExecutionEventBus
+  private readonly listeners = new Set<ExecutionEventListener>()
+  private subscriber: Redis | null = null
+  private usingFallback = false
+
+  static getInstance(): ExecutionEventBus {
+    if (!ExecutionEventBus.instance) {
+      ExecutionEventBus.instance = new ExecutionEventBus()
+    }
+    return ExecutionEventBus.instance
+  }
+
+  /**
+   * Publish an event to every subscribed process; never throws, so reporting cannot fail an execution
+   */
+  async publish(event: ExecutionEvent): Promise<void> {
+    try {
+      const redis = getRedis()
+      if (redis.status !== 'ready') {
+        // lazyConnect: the first publish starts the connection
+        if (redis.status === 'wait') redis.connect().catch(() => undefined)
+        throw new Error(`Redis is ${redis.status}`)
+      }
+
+      await redis.publish(CHANNEL, JSON.stringify(event))
+      if (this.usingFallback) console.info('Execution events are back on Redis')
+      this.usingFallback = false
+    } catch (error) {
+      if (!this.usingFallback) {
+        console.warn('Execution events only reach this process:', error instanceof Error ? error.message : error)
+      }
+      this.usingFallback = true
+      this.deliver(event)
+    }
+  }
+
+  /**
+   * Receive events from all processes; returns a function that removes the listener
+   */
+  subscribe(listener: ExecutionEventListener): () => void {
+    this.listeners.add(listener)
+    this.ensureSubscribed()
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear()
+    if (this.subscriber) {
+      await this.subscriber.quit().catch(() => undefined)
+      this.subscriber = null
+    }
+  }
+
+  private ensureSubscribed(): void {
+    if (this.subscriber) return
+
+    // A connection in subscriber mode cannot run other commands, so it gets its own
+    this.subscriber = getRedis().duplicate()
+    this.subscriber.on('error', error => {
+      console.error('Execution event subscriber error:', error.message)
+    })
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== CHANNEL) return
+      try {
+        this.deliver(JSON.parse(message))
+      } catch (error) {
+        console.error('Dropped malformed execution event:', error)
+      }
+    })
+    this.subscriber.subscribe(CHANNEL).catch(error => {
+      console.error('Failed to subscribe to execution events:', error)
+    })
+  }
+
+  private deliver(event: ExecutionEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('Execution event listener failed:', error)
+      }
+    }
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Execution Log
+ * Provides the append-only log of job and workflow executions. Each entry is a row of its own
+ * with level, step and structured fields, so writers never rewrite earlier entries and readers
+ * page and filter in the database. Entries of job executions are kept for the job's
+ * retentionPeriodDays; workflows have no retention setting and use workflowRetentionDays
+ */
+
+import { db } from './db'
+import { LOG_LEVELS, LogLevel } from './schemas'
+
+export interface ExecutionLogOptions {
+  workflowRetentionDays: number
+}
+
+// Exactly one of the execution ids is set
+export interface ExecutionLogInput {
+  jobExecutionId?: string
+  workflowExecutionId?: string
+  level: LogLevel
+  message: string
+  stepId?: string | null
+  stepName?: string | null
+  fields?: Record<string, any> | null
+  // When the event happened; entries written later keep their place in the log
+  timestamp?: Date
+}
+
+export type ExecutionLogScope = { jobExecutionId: string } | { workflowExecutionId: string }
+
+export interface ExecutionLogQuery {
+  // Minimum severity
+  level?: LogLevel
+  search?: string | null
+  page: number
+  limit: number
+}
+
+export interface ExecutionLogEntry {
+  id: string
+  level: LogLevel
+  message: string
+  stepId: string | null
+  stepName: string | null
+  fields: Record<string, any> | null
+  timestamp: string
+}
+
+export interface ExecutionLogPage {
+  entries: ExecutionLogEntry[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Include of the latest entries for execution listings, newest first
+export const RECENT_LOG_ENTRIES = {
+  orderBy: [{ timestamp: 'desc' as const }, { id: 'desc' as const }],
+  take: 20
+}
+
+export class ExecutionLogStore {
+  private static instance: ExecutionLogStore
+  private readonly options: ExecutionLogOptions
+
+  private constructor(options?: Partial<ExecutionLogOptions>) {
+    this.options = {
+      // Same as the default retentionPeriodDays of a job
+      workflowRetentionDays: 2555,
+      ...options
+    }
+  }
+
+  static getInstance(options?: Partial<ExecutionLogOptions>): ExecutionLogStore {
+    if (!ExecutionLogStore.instance) {
+      ExecutionLogStore.instance = new ExecutionLogStore(options)
+    }
+    return ExecutionLogStore.instance
+  }
+
+  async append(input: ExecutionLogInput): Promise<ExecutionLogEntry> {
+    const row = await db.executionLog.create({
+      data: {
+        jobExecutionId: input.jobExecutionId ?? null,
+        workflowExecutionId: input.workflowExecutionId ?? null,
+        level: input.level,
+        message: input.message,
+        stepId: input.stepId ?? null,
+        stepName: input.stepName ?? null,
+        fields: input.fields ? JSON.stringify(input.fields) : null,
+        ...(input.timestamp && { timestamp: input.timestamp })
+      }
+    })
+    return toExecutionLogEntry(row)
+  }
+
+  /**
+   * One page of an execution's log in chronological order
+   */
+  async list(scope: ExecutionLogScope, query: ExecutionLogQuery): Promise<ExecutionLogPage> {
+    const where = {
+      ...scope,
+      ...(query.level && { level: { in: LOG_LEVELS.slice(LOG_LEVELS.indexOf(query.level)) } }),
+      ...(query.search && {
+        OR: [
+          { message: { contains: query.search, mode: 'insensitive' as const } },
+          { stepName: { contains: query.search, mode: 'insensitive' as const } }
+        ]
+      })
+    }
+
+    const [rows, total] = await Promise.all([
+      db.executionLog.findMany({
+        where,
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        skip: (query.page - 1) * query.limit,
+        take: query.limit
+      }),
+      db.executionLog.count({ where })
+    ])
+
+    return {
+      entries: rows.map(toExecutionLogEntry),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit)
+      }
+    }
+  }
+
+  /**
+   * Delete entries past their retention; returns how many were removed
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS)
+    let purged = 0
+
+    // One delete per distinct retention period rather than per job
+    const retentionPeriods = await db.eTLJob.groupBy({ by: ['retentionPeriodDays'] })
+    for (const { retentionPeriodDays } of retentionPeriods) {
+      const result = await db.executionLog.deleteMany({
+        where: {
+          timestamp: { lt: cutoff(retentionPeriodDays) },
+          jobExecution: { is: { job: { is: { retentionPeriodDays } } } }
+        }
+      })
+      purged += result.count
+    }
+
+    const workflowResult = await db.executionLog.deleteMany({
+      where: {
+        workflowExecutionId: { not: null },
+        timestamp: { lt: cutoff(this.options.workflowRetentionDays) }
+      }
+    })
+    return purged + workflowResult.count
+  }
+}
+
+export function toExecutionLogEntry(row: any): ExecutionLogEntry {
+  return {
+    id: row.id,
+    level: row.level,
+    message: row.message,
+    stepId: row.stepId,
+    stepName: row.stepName,
+    fields: row.fields ? JSON.parse(row.fields) : null,
+    timestamp: row.timestamp.toISOString()
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Safe Expression Evaluator
+ * Parses and evaluates a small expression language over a scope of values without using eval.
+ *
+ * Supported syntax:
+ *   literals     42, 3.14, 'text', "text", true, false, null
+ *   references   amount, customer.segment, steps['extract-data'].recordsProcessed
+ *   arithmetic   + - * / %
+ *   comparison   == != < <= > >=
+ *   logical      and or not (also && || !)
+ *   functions    lower(name), coalesce(a, b), round(amount, 2) ... see FUNCTIONS
+ */
+
+export type Expression =
+  | { kind: 'literal'; value: any }
+  | { kind: 'reference'; path: string[] }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'call'; name: string; args: Expression[] }
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or'
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'paren' | 'bracket' | 'comma' | 'dot' | 'end'
+  value: string
+  position: number
+}
+
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  lower: (value) => value == null ? value : String(value).toLowerCase(),
+  upper: (value) => value == null ? value : String(value).toUpperCase(),
+  trim: (value) => value == null ? value : String(value).trim(),
+  length: (value) => value == null ? 0 : (Array.isArray(value) ? value.length : String(value).length),
+  concat: (...values) => values.map(value => value ?? '').join(''),
+  substr: (value, start, length) => value == null ? value : String(value).substr(Number(start), length === undefined ? undefined : Number(length)),
+  replace: (value, search, replacement) => value == null ? value : String(value).split(String(search)).join(String(replacement)),
+  contains: (value, search) => value != null && String(value).includes(String(search)),
+  startsWith: (value, search) => value != null && String(value).startsWith(String(search)),
+  endsWith: (value, search) => value != null && String(value).endsWith(String(search)),
+  coalesce: (...values) => values.find(value => value !== null && value !== undefined && value !== '') ?? null,
+  isNull: (value) => value === null || value === undefined || value === '',
+  number: (value) => value == null || value === '' ? null : Number(value),
+  string: (value) => value == null ? value : String(value),
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, Number(digits))
+    return Math.round(Number(value) * factor) / factor
+  },
+  floor: (value) => Math.floor(Number(value)),
+  ceil: (value) => Math.ceil(Number(value)),
+  abs: (value) => Math.abs(Number(value)),
+  min: (...values) => Math.min(...values.map(Number)),
+  max: (...values) => Math.max(...values.map(Number)),
+  now: () => new Date().toISOString(),
+}
+
+const KEYWORD_OPERATORS = new Set(['and', 'or', 'not'])
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  or: 1,
+  and: 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+}
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+  '=': '==',
+  '<>': '!=',
+}
+
+/**
+ * Parse an expression string into an AST; throws with the offending column on syntax errors
+ */
+export function parseExpression(source: string): Expression {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const next = () => tokens[index++]
+
+  const fail = (token: Token, message: string): never => {
+    throw new Error(`${message} at column ${token.position + 1}`)
+  }
+
+  const expect = (type: Token['type'], value?: string) => {
+    const token = next()
+    if (token.type !== type || (value !== undefined && token.value !== value)) {
+      fail(token, `Expected ${value ?? type} but found ${describe(token)}`)
+    }
+    return token
+  }
+
+  const parsePrimary = (): Expression => {
+    const token = next()
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) }
+      case 'string':
+        return { kind: 'literal', value: token.value }
+      case 'paren': {
+        if (token.value !== '(') fail(token, `Unexpected ${describe(token)}`)
+        const inner = parseBinary(0)
+        expect('paren', ')')
+        return inner
+      }
+      case 'operator':
+        if (token.value === '-' || token.value === 'not') {
+          const operator = token.value
+          const operand = parseBinary(operator === 'not' ? BINARY_PRECEDENCE.and : BINARY_PRECEDENCE['*'])
+          return { kind: 'unary', operator, operand }
+        }
+        return fail(token, `Unexpected ${describe(token)}`)
+      case 'identifier': {
+        const lowered = token.value.toLowerCase()
+        if (lowered === 'true') return { kind: 'literal', value: true }
+        if (lowered === 'false') return { kind: 'literal', value: false }
+        if (lowered === 'null') return { kind: 'literal', value: null }
+
+        if (peek().type === 'paren' && peek().value === '(') {
+          next()
+          if (!hasOwn(FUNCTIONS, token.value)) {
+            fail(token, `Unknown function "${token.value}"`)
+          }
+          const args: Expression[] = []
+          if (!(peek().type === 'paren' && peek().value === ')')) {
+            args.push(parseBinary(0))
+            while (peek().type === 'comma') {
+              next()
+              args.push(parseBinary(0))
+            }
+          }
+          expect('paren', ')')
+          return { kind: 'call', name: token.value, args }
+        }
+
+        const path = [token.value]
+        while (peek().type === 'dot' || (peek().type === 'bracket' && peek().value === '[')) {
+          const accessor = next()
+          const segment = next()
+          const valid = accessor.type === 'dot'
+            ? segment.type === 'identifier' || segment.type === 'number'
+            : segment.type === 'string' || segment.type === 'number'
+          if (!valid) {
+            fail(segment, `Expected property name but found ${describe(segment)}`)
+          }
+          path.push(segment.value)
+          if (accessor.type === 'bracket') {
+            expect('bracket', ']')
+          }
+        }
+        return { kind: 'reference', path }
+      }
+      default:
+        return fail(token, `Unexpected ${describe(token)}`)
+    }
+  }
+
+  const parseBinary = (minPrecedence: number): Expression => {
+    let left = parsePrimary()
+
+    while (true) {
+      const token = peek()
+      const precedence = token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined
+      if (precedence === undefined || precedence <= minPrecedence) break
+
+      next()
+      const right = parseBinary(precedence)
+      left = { kind: 'binary', operator: token.value as BinaryOperator, left, right }
+    }
+
+    return left
+  }
+
+  if (peek().type === 'end') {
+    throw new Error('Expression is empty')
+  }
+
+  const expression = parseBinary(0)
+  if (peek().type !== 'end') {
+    fail(peek(), `Unexpected ${describe(peek())}`)
+  }
+  return expression
+}
+
+/**
+ * Evaluate a parsed expression against a scope of values
+ */
+export function evaluateExpression(expression: Expression, scope: Record<string, any>): any {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value
+    case 'reference':
+      // Only own properties are visible so expressions cannot reach prototypes
+      return expression.path.reduce<any>((value, key) => (value != null && hasOwn(value, key) ? value[key] : undefined), scope)
+    case 'unary': {
+      const operand = evaluateExpression(expression.operand, scope)
+      return expression.operator === 'not' ? !operand : -Number(operand)
+    }
+    case 'call':
+      return FUNCTIONS[expression.name](...expression.args.map(arg => evaluateExpression(arg, scope)))
+    case 'binary':
+      return evaluateBinary(expression, scope)
+  }
+}
+
+/**
+ * Parse once and return a reusable evaluator
+ */
+export function compileExpression(source: string): (scope: Record<string, any>) => any {
+  const expression = parseExpression(source)
+  return (scope) => evaluateExpression(expression, scope)
+}
+
+function evaluateBinary(
+  expression: Extract<Expression, { kind: 'binary' }>,
+  scope: Record<string, any>
+): any {
+  const left = evaluateExpression(expression.left, scope)
+
+  // Short-circuit logical operators
+  if (expression.operator === 'and') return left ? evaluateExpression(expression.right, scope) : left
+  if (expression.operator === 'or') return left ? left : evaluateExpression(expression.right, scope)
+
+  const right = evaluateExpression(expression.right, scope)
+
+  switch (expression.operator) {
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? `${left ?? ''}${right ?? ''}`
+        : Number(left) + Number(right)
+    case '-': return Number(left) - Number(right)
+    case '*': return Number(left) * Number(right)
+    case '/': return Number(left) / Number(right)
+    case '%': return Number(left) % Number(right)
+    case '==': return looseEquals(left, right)
+    case '!=': return !looseEquals(left, right)
+    case '<': return compare(left, right) < 0
+    case '<=': return compare(left, right) <= 0
+    case '>': return compare(left, right) > 0
+    case '>=': return compare(left, right) >= 0
+  }
+}
+
+// Extracted values are frequently numeric strings (CSV, JSON APIs), so compare numerically when possible
+function looseEquals(left: any, right: any): boolean {
+  if (left == null || right == null) return left == null && right == null
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) === Number(right)
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return String(left) === String(right)
+  }
+  return left === right
+}
+
+function compare(left: any, right: any): number {
+  const leftNumber = Number(left)
+  const rightNumber = Number(right)
+  if (left !== '' && right !== '' && left != null && right != null && !isNaN(leftNumber) && !isNaN(rightNumber)) {
+    return leftNumber - rightNumber
+  }
+  return String(left ?? '').localeCompare(String(right ?? ''))
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = source.slice(i).match(/^\d+(\.\d+)?/)!
+      tokens.push({ type: 'number', value: match[0], position: i })
+      i += match[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++
+        }
+        value += source[j]
+        j++
+      }
+      if (j >= source.length) {
+        throw new Error(`Unterminated string at column ${i + 1}`)
+      }
+      tokens.push({ type: 'string', value, position: i })
+      i = j + 1
+      continue
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const word = source.slice(i).match(/^[A-Za-z_$][\w$]*/)![0]
+      const lowered = word.toLowerCase()
+      tokens.push(KEYWORD_OPERATORS.has(lowered)
+        ? { type: 'operator', value: lowered, position: i }
+        : { type: 'identifier', value: word, position: i })
+      i += word.length
+      continue
+    }
+
+    const twoChar = source.slice(i, i + 2)
+    if (['==', '!=', '<=', '>=', '&&', '||', '<>'].includes(twoChar)) {
+      tokens.push({ type: 'operator', value: OPERATOR_ALIASES[twoChar] ?? twoChar, position: i })
+      i += 2
+      continue
+    }
+
+    if ('+-*/%<>=!'.includes(char)) {
+      tokens.push({ type: 'operator', value: OPERATOR_ALIASES[char] ?? char, position: i })
+      i++
+      continue
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, position: i })
+    } else if (char === '[' || char === ']') {
+      tokens.push({ type: 'bracket', value: char, position: i })
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: i })
+    } else if (char === '.') {
+      tokens.push({ type: 'dot', value: char, position: i })
+    } else {
+      throw new Error(`Unexpected character "${char}" at column ${i + 1}`)
+    }
+    i++
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length })
+  return tokens
+}
+
+function hasOwn(value: any, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(Object(value), key)
+}
+
+function describe(token: Token): string {
+  return token.type === 'end' ? 'end of expression' : `"${token.value}"`
+}
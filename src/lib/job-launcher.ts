@@ -0,0 +1,63 @@
+/**
+ * Job Launcher
+ * Creates a JobExecution and puts it on the job queue, where a worker process
+ * (npm run worker:enhanced) picks it up; shared by the run route and the scheduler so
+ * manual and scheduled runs start the same way
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { JobQueue } from './job-queue'
+
+export type ExecutionTrigger = 'MANUAL' | 'SCHEDULED' | 'CATCH_UP'
+
+export interface LaunchOptions {
+  trigger?: ExecutionTrigger
+  scheduledFor?: Date
+}
+
+/**
+ * Queue an execution for a job that has already been validated as runnable. The execution and
+ * its queue item are created together, so no QUEUED execution is left without an item
+ */
+export async function launchJobExecution(jobId: string, options: LaunchOptions = {}) {
+  const queuedAt = new Date()
+
+  return db.$transaction(async tx => {
+    const execution = await tx.jobExecution.create({
+      data: {
+        jobId,
+        status: 'QUEUED',
+        startedAt: queuedAt,
+        trigger: options.trigger ?? 'MANUAL',
+        scheduledFor: options.scheduledFor ?? null
+      }
+    })
+
+    await tx.eTLJob.update({
+      where: { id: jobId },
+      data: { lastRun: queuedAt }
+    })
+    // A job with maxConcurrentExecutions above one may already have an execution running
+    await tx.eTLJob.updateMany({
+      where: { id: jobId, status: { not: 'RUNNING' } },
+      data: { status: 'PENDING' }
+    })
+
+    await enqueueJobExecution(execution.id, jobId, tx)
+
+    return execution
+  })
+}
+
+/**
+ * Hand an execution in QUEUED state to the workers; also used to resume a paused or
+ * recovered execution, which the worker continues from its latest checkpoint
+ */
+export async function enqueueJobExecution(
+  executionId: string,
+  jobId: string,
+  client: Prisma.TransactionClient = db
+): Promise<void> {
+  await JobQueue.getInstance().enqueue(executionId, jobId, client)
+}
@@ -0,0 +1,97 @@
+/**
+ * Job Preview
+ * Runs a job's extract with a row limit and applies its transform rules in memory, so authors
+ * can check their logic without loading the target or creating a JobExecution
+ */
+
+import {
+  ColumnSchema,
+  ConnectorSource,
+  createConnector,
+  DataRecord,
+  inferTableSchema,
+  RecordError,
+  WatermarkFilter
+} from './connectors'
+import { MAX_PREVIEW_LIMIT } from './schemas'
+import { SecretVault } from './secret-vault'
+import { TransformExecutor } from './transform-rules'
+
+export const DEFAULT_PREVIEW_LIMIT = 20
+
+export interface PreviewJob {
+  id: string
+  source: ConnectorSource & { workspaceId: string | null }
+  query?: string | null
+  transformRules?: string | null
+  watermarkColumn?: string | null
+  watermarkValue?: string | null
+}
+
+// query and transformRules override the saved job so unsaved edits can be previewed
+export interface PreviewOptions {
+  limit?: number
+  query?: string | null
+  transformRules?: string | null
+}
+
+export interface JobPreview {
+  limit: number
+  before: DataRecord[]
+  after: DataRecord[]
+  errors: RecordError[]
+  filtered: number
+  inputSchema: ColumnSchema[]
+  outputSchema: ColumnSchema[]
+  watermark: WatermarkFilter | null
+}
+
+/**
+ * Extract the first `limit` records the next run would see and transform them
+ */
+export async function previewJob(job: PreviewJob, options: PreviewOptions = {}): Promise<JobPreview> {
+  const limit = Math.min(options.limit || DEFAULT_PREVIEW_LIMIT, MAX_PREVIEW_LIMIT)
+  const transformer = TransformExecutor.fromScript(
+    options.transformRules !== undefined ? options.transformRules : job.transformRules
+  )
+  const watermark = job.watermarkColumn
+    ? { column: job.watermarkColumn, after: job.watermarkValue ?? null }
+    : null
+
+  const source = createConnector(await SecretVault.getInstance().resolveSource(job.source, {
+    purpose: 'JOB_PREVIEW',
+    jobId: job.id,
+    sourceId: job.source.id,
+    workspaceId: job.source.workspaceId
+  }))
+  let before: DataRecord[] = []
+  try {
+    await source.connect()
+    const batches = source.extract({
+      query: options.query !== undefined ? options.query : job.query,
+      batchSize: limit,
+      watermark
+    })
+    try {
+      const first = await batches.next()
+      before = first.done ? [] : first.value.slice(0, limit)
+    } finally {
+      await batches.return(undefined)
+    }
+  } finally {
+    await source.close().catch(() => undefined)
+  }
+
+  const transformed = transformer.apply(before)
+
+  return {
+    limit,
+    before,
+    after: transformed.records,
+    errors: transformed.errors,
+    filtered: transformed.filtered,
+    inputSchema: inferTableSchema('input', before, null).columns,
+    outputSchema: inferTableSchema('output', transformed.records, null).columns,
+    watermark
+  }
+}
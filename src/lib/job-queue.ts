@@ -0,0 +1,441 @@
+/**
+ * Job Queue
+ * Provides a durable, DB-backed queue of job executions. Workers claim an item under a lease
+ * and renew it with heartbeats while the execution runs; when a worker dies its lease runs
+ * out and the execution is handed to the next worker (at-least-once delivery) until the
+ * item has used up its attempts. Claims and redeliveries are conditional updates, so any
+ * number of workers can poll and sweep the same table.
+ * Items are handed out by priority class (the job's risk level), and only while the job's
+ * maxConcurrentExecutions, the connection budgets of its data sources and the global
+ * maxRunningExecutions setting leave room; an item that has to wait does not hold up
+ * lower priority items that can run.
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { ExecutionLogStore } from './execution-log'
+import { RiskLevel } from './schemas'
+
+export type QueueBlocker = 'RETRY_DELAY' | 'GLOBAL_LIMIT' | 'JOB_LIMIT' | 'DATA_SOURCE_LIMIT'
+
+export interface JobQueueOptions {
+  visibilityTimeoutMs: number
+  maxAttempts: number
+  retryDelayMs: number
+  claimBatchSize: number
+}
+
+export interface JobQueueConfig {
+  maxRunningExecutions: number
+}
+
+export interface QueueLease {
+  id: string
+  executionId: string
+  jobId: string
+  attempts: number
+}
+
+interface QueueUsage {
+  total: number
+  jobs: Map<string, number>
+  dataSources: Map<string, number>
+}
+
+interface QueueCaps {
+  jobs: Map<string, number>
+  dataSources: Map<string, number>
+}
+
+const SETTINGS_KEY = 'job-queue'
+const CONFIG_TTL_MS = 30000
+
+const DEFAULT_CONFIG: JobQueueConfig = {
+  maxRunningExecutions: 20
+}
+
+export const PRIORITY_CLASSES: Record<RiskLevel, number> = {
+  CRITICAL: 3,
+  HIGH: 2,
+  MEDIUM: 1,
+  LOW: 0
+}
+
+export function priorityFor(riskLevel: string | null | undefined): number {
+  return PRIORITY_CLASSES[riskLevel as RiskLevel] ?? PRIORITY_CLASSES.LOW
+}
+
+export class JobQueue {
+  private static instance: JobQueue
+  private readonly options: JobQueueOptions
+  private config: JobQueueConfig | null = null
+  private configLoadedAt = 0
+
+  private constructor(options?: Partial<JobQueueOptions>) {
+    this.options = {
+      visibilityTimeoutMs: 60000,
+      maxAttempts: 3,
+      retryDelayMs: 30000,
+      claimBatchSize: 50,
+      ...options
+    }
+  }
+
+  static getInstance(options?: Partial<JobQueueOptions>): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue(options)
+    }
+    return JobQueue.instance
+  }
+
+  get heartbeatIntervalMs(): number {
+    // Renew well before the lease runs out so one slow round trip does not lose it
+    return Math.floor(this.options.visibilityTimeoutMs / 3)
+  }
+
+  /**
+   * Queue an execution that is in QUEUED state; a resumed or recovered execution reuses
+   * its item and starts over with a fresh set of attempts. Pass a transaction client to queue
+   * the item together with the execution
+   */
+  async enqueue(executionId: string, jobId: string, client: Prisma.TransactionClient = db): Promise<void> {
+    const job = await client.eTLJob.findUnique({
+      where: { id: jobId },
+      select: { sourceId: true, targetId: true, riskLevel: true }
+    })
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`)
+    }
+
+    const now = new Date()
+    const priority = priorityFor(job.riskLevel)
+    await client.jobQueueItem.upsert({
+      where: { executionId },
+      create: {
+        executionId,
+        jobId,
+        sourceId: job.sourceId,
+        targetId: job.targetId,
+        priority,
+        availableAt: now,
+        maxAttempts: this.options.maxAttempts
+      },
+      update: {
+        status: 'QUEUED',
+        priority,
+        availableAt: now,
+        attempts: 0,
+        maxAttempts: this.options.maxAttempts,
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: null,
+        completedAt: null
+      }
+    })
+  }
+
+  /**
+   * Move a job's waiting items to the priority class of its current risk level
+   */
+  async reprioritize(jobId: string, riskLevel: string): Promise<void> {
+    await db.jobQueueItem.updateMany({
+      where: { jobId, status: 'QUEUED' },
+      data: { priority: priorityFor(riskLevel) }
+    })
+  }
+
+  /**
+   * Lease the highest priority item that the concurrency limits leave room for and mark its
+   * execution RUNNING; null when nothing can run
+   */
+  async claim(workerId: string, now: Date = new Date()): Promise<QueueLease | null> {
+    const config = await this.loadConfig()
+    const usage = await this.loadUsage()
+    if (usage.total >= config.maxRunningExecutions) return null
+
+    const candidates = await db.jobQueueItem.findMany({
+      where: { status: 'QUEUED', availableAt: { lte: now } },
+      orderBy: [{ priority: 'desc' }, { availableAt: 'asc' }],
+      take: this.options.claimBatchSize
+    })
+    const caps = await this.loadCaps(candidates)
+
+    for (const item of candidates) {
+      if (this.blockedBy(item, usage, caps, config)) continue
+
+      const leased = await db.jobQueueItem.updateMany({
+        where: { id: item.id, status: 'QUEUED' },
+        data: {
+          status: 'LEASED',
+          leasedBy: workerId,
+          leaseExpiresAt: new Date(now.getTime() + this.options.visibilityTimeoutMs),
+          attempts: { increment: 1 }
+        }
+      })
+      // Another worker got there first
+      if (leased.count === 0) continue
+
+      // Workers claiming at the same time only see each other's leases now; whoever pushes
+      // a limit over backs off and tries again on its next poll
+      const current = await this.loadUsage()
+      const blocker = this.blockedBy(item, current, caps, config, 1)
+      if (blocker) {
+        await db.jobQueueItem.updateMany({
+          where: { id: item.id, status: 'LEASED', leasedBy: workerId },
+          data: { status: 'QUEUED', leasedBy: null, leaseExpiresAt: null, attempts: { decrement: 1 } }
+        })
+        if (blocker === 'GLOBAL_LIMIT') return null
+        Object.assign(usage, current)
+        continue
+      }
+
+      const started = await db.jobExecution.updateMany({
+        where: { id: item.executionId, status: 'QUEUED' },
+        data: { status: 'RUNNING', heartbeatAt: now }
+      })
+      if (started.count === 0) {
+        // Cancelled (or removed) while it was waiting
+        await this.complete(item.id, workerId, now)
+        continue
+      }
+
+      await db.eTLJob.update({
+        where: { id: item.jobId },
+        data: { status: 'RUNNING' }
+      })
+
+      return {
+        id: item.id,
+        executionId: item.executionId,
+        jobId: item.jobId,
+        attempts: item.attempts + 1
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Why each of the given queued items is not running yet; null for items that a worker
+   * could claim right now
+   */
+  async waitingReasons(items: any[], now: Date = new Date()): Promise<Map<string, QueueBlocker | null>> {
+    const config = await this.loadConfig()
+    const usage = await this.loadUsage()
+    const caps = await this.loadCaps(items)
+
+    return new Map(items.map(item => [
+      item.id,
+      item.availableAt > now ? 'RETRY_DELAY' : this.blockedBy(item, usage, caps, config)
+    ]))
+  }
+
+  /**
+   * Extend the lease of a running item; false when the lease was lost to a redelivery
+   */
+  async heartbeat(lease: QueueLease, workerId: string, now: Date = new Date()): Promise<boolean> {
+    const renewed = await db.jobQueueItem.updateMany({
+      where: { id: lease.id, status: 'LEASED', leasedBy: workerId },
+      data: { leaseExpiresAt: new Date(now.getTime() + this.options.visibilityTimeoutMs) }
+    })
+    if (renewed.count === 0) return false
+
+    // Keeps the execution from looking stalled while a slow extract has nothing to flush
+    await db.jobExecution.updateMany({
+      where: { id: lease.executionId, status: 'RUNNING' },
+      data: { heartbeatAt: now }
+    })
+    return true
+  }
+
+  /**
+   * Acknowledge an item whose execution reached a final, paused or cancelled state
+   */
+  async complete(itemId: string, workerId: string, now: Date = new Date()): Promise<void> {
+    await db.jobQueueItem.updateMany({
+      where: { id: itemId, status: 'LEASED', leasedBy: workerId },
+      data: { status: 'DONE', completedAt: now, leasedBy: null, leaseExpiresAt: null }
+    })
+  }
+
+  /**
+   * Give an item back after the worker failed to run its execution
+   */
+  async release(lease: QueueLease, workerId: string, error: string, now: Date = new Date()): Promise<void> {
+    const item = await db.jobQueueItem.findUnique({ where: { id: lease.id } })
+    if (!item || item.status !== 'LEASED' || item.leasedBy !== workerId) return
+
+    await this.redeliver(item, error, now)
+  }
+
+  /**
+   * Redeliver items whose worker stopped renewing its lease
+   */
+  async requeueExpired(now: Date = new Date()): Promise<number> {
+    const expired = await db.jobQueueItem.findMany({
+      where: { status: 'LEASED', leaseExpiresAt: { lt: now } }
+    })
+
+    let requeued = 0
+    for (const item of expired) {
+      if (await this.redeliver(item, `Worker ${item.leasedBy} stopped renewing its lease`, now)) {
+        requeued++
+      }
+    }
+    return requeued
+  }
+
+  /**
+   * Running executions in total, per job and per data source. An execution whose source
+   * is also its target uses one connection budget slot
+   */
+  private async loadUsage(): Promise<QueueUsage> {
+    const leased = await db.jobQueueItem.findMany({
+      where: { status: 'LEASED' },
+      select: { jobId: true, sourceId: true, targetId: true }
+    })
+
+    const usage: QueueUsage = { total: leased.length, jobs: new Map(), dataSources: new Map() }
+    for (const item of leased) {
+      usage.jobs.set(item.jobId, (usage.jobs.get(item.jobId) ?? 0) + 1)
+      for (const dataSourceId of new Set<string>([item.sourceId, item.targetId])) {
+        usage.dataSources.set(dataSourceId, (usage.dataSources.get(dataSourceId) ?? 0) + 1)
+      }
+    }
+    return usage
+  }
+
+  private async loadCaps(items: any[]): Promise<QueueCaps> {
+    const jobIds = [...new Set<string>(items.map(item => item.jobId))]
+    const dataSourceIds = [...new Set<string>(items.flatMap(item => [item.sourceId, item.targetId]))]
+
+    const jobs = await db.eTLJob.findMany({
+      where: { id: { in: jobIds } },
+      select: { id: true, maxConcurrentExecutions: true }
+    })
+    const dataSources = await db.dataSource.findMany({
+      where: { id: { in: dataSourceIds } },
+      select: { id: true, maxConnections: true }
+    })
+
+    return {
+      jobs: new Map(jobs.map((job: any) => [job.id, job.maxConcurrentExecutions])),
+      dataSources: new Map(dataSources.map((dataSource: any) => [dataSource.id, dataSource.maxConnections]))
+    }
+  }
+
+  /**
+   * The limit that keeps an item from running; `own` is 1 when the usage already includes
+   * the item's lease
+   */
+  private blockedBy(item: any, usage: QueueUsage, caps: QueueCaps, config: JobQueueConfig, own: number = 0): QueueBlocker | null {
+    if (usage.total - own >= config.maxRunningExecutions) return 'GLOBAL_LIMIT'
+    if ((usage.jobs.get(item.jobId) ?? 0) - own >= (caps.jobs.get(item.jobId) ?? 1)) return 'JOB_LIMIT'
+
+    for (const dataSourceId of new Set<string>([item.sourceId, item.targetId])) {
+      const budget = caps.dataSources.get(dataSourceId)
+      if (budget !== undefined && (usage.dataSources.get(dataSourceId) ?? 0) - own >= budget) {
+        return 'DATA_SOURCE_LIMIT'
+      }
+    }
+    return null
+  }
+
+  private async loadConfig(): Promise<JobQueueConfig> {
+    if (this.config && Date.now() - this.configLoadedAt < CONFIG_TTL_MS) {
+      return this.config
+    }
+
+    try {
+      const setting = await db.systemSettings.findUnique({ where: { key: SETTINGS_KEY } })
+      this.config = { ...DEFAULT_CONFIG, ...(setting ? JSON.parse(setting.value) : {}) }
+    } catch (error) {
+      console.error('Failed to load job queue settings, using defaults:', error)
+      this.config = this.config ?? DEFAULT_CONFIG
+    }
+    this.configLoadedAt = Date.now()
+    return this.config!
+  }
+
+  /**
+   * Put a leased item back in the queue after the retry delay, or fail its execution once
+   * it has used up its attempts. Conditional on the lease still being the one that was read,
+   * so concurrent sweeps redeliver an item only once
+   */
+  private async redeliver(item: any, error: string, now: Date): Promise<boolean> {
+    const exhausted = item.attempts >= item.maxAttempts
+    const updated = await db.jobQueueItem.updateMany({
+      where: {
+        id: item.id,
+        status: 'LEASED',
+        leasedBy: item.leasedBy,
+        leaseExpiresAt: item.leaseExpiresAt
+      },
+      data: exhausted
+        ? { status: 'DEAD', completedAt: now, leasedBy: null, leaseExpiresAt: null, lastError: error }
+        : {
+            status: 'QUEUED',
+            availableAt: new Date(now.getTime() + this.options.retryDelayMs),
+            leasedBy: null,
+            leaseExpiresAt: null,
+            lastError: error
+          }
+    })
+    if (updated.count === 0) return false
+
+    const execution = await db.jobExecution.findUnique({
+      where: { id: item.executionId },
+      include: { job: true }
+    })
+    if (!execution) return true
+
+    if (exhausted) {
+      const errorMessage = `Job execution was abandoned after ${item.attempts} attempts: ${error}`
+      const failed = await db.jobExecution.updateMany({
+        where: { id: execution.id, status: { in: ['QUEUED', 'RUNNING'] } },
+        data: { status: 'FAILED', completedAt: now, errorMessage }
+      })
+      if (failed.count === 0) return true
+
+      await db.eTLJob.update({ where: { id: execution.jobId }, data: { status: 'FAILED' } })
+      await this.log(execution, 'ERROR', `Job execution failed: ${execution.job.name}`,
+        { attempts: item.attempts, error: errorMessage }, now)
+      return true
+    }
+
+    // The next worker continues from the execution's latest checkpoint
+    const requeued = await db.jobExecution.updateMany({
+      where: { id: execution.id, status: 'RUNNING' },
+      data: { status: 'QUEUED' }
+    })
+    if (requeued.count === 0) return true
+
+    await db.eTLJob.update({ where: { id: execution.jobId }, data: { status: 'PENDING' } })
+    await this.log(execution, 'WARN', `Job execution re-queued: ${execution.job.name}`,
+      { attempt: item.attempts, error }, now)
+    return true
+  }
+
+  /**
+   * Record a redelivery in the execution's log and the source's sync log
+   */
+  private async log(
+    execution: { id: string; jobId: string; job: { sourceId: string } },
+    level: 'WARN' | 'ERROR',
+    message: string,
+    details: Record<string, any>,
+    timestamp: Date
+  ): Promise<void> {
+    await ExecutionLogStore.getInstance().append({ jobExecutionId: execution.id, level, message, fields: details, timestamp })
+    await db.syncLog.create({
+      data: {
+        sourceId: execution.job.sourceId,
+        jobId: execution.jobId,
+        level,
+        message,
+        details: JSON.stringify({ executionId: execution.id, ...details }),
+        timestamp
+      }
+    })
+  }
+}
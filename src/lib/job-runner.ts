@@ -0,0 +1,526 @@
+/**
+ * ETL Job Runner
+ * Streams records from a job's source connector into its target connector and
+ * persists real progress counts on the JobExecution record. Between batches the runner
+ * polls the execution's controlAction so pause and cancel requests stop it cleanly.
+ * PARTIAL checkpoints record the source offset loaded so far, written periodically and
+ * on pause; a resumed or recovered run skips that many source records, replaying them
+ * through the dedupe rules, and continues with the rest. Offsets are only recorded for
+ * sources that return their records in a repeatable order (see resumeOrderError), and
+ * not for overwrite loads, which replace the target in one transaction that an interrupted
+ * run rolls back, so they start over instead. Incremental jobs only extract rows past the job's watermark, which advances when a run
+ * completes.
+ * Log entries go to the execution's log and the source's sync log, and are published as
+ * execution events for live monitoring together with the progress flushes.
+ * A worker that loses its queue lease aborts the run through the signal passed to execute();
+ * the run stops at the next batch boundary without recording anything, since the execution
+ * belongs to another worker by then.
+ */
+
+import { db } from './db'
+import {
+  Connector,
+  createConnector,
+  isLoadMode,
+  LoadOptions,
+  maxWatermark,
+  parseKeyColumns,
+  RecordError,
+  resumeOrderError,
+  validateLoadOptions
+} from './connectors'
+import { TransformExecutor } from './transform-rules'
+import { JobStateManager } from './job-state-manager'
+import { SecretVault } from './secret-vault'
+import { ExecutionEventBus, ExecutionLogLevel } from './execution-events'
+import { ExecutionLogStore } from './execution-log'
+
+export type ControlAction = 'PAUSE' | 'CANCEL'
+
+export interface JobRunnerOptions {
+  batchSize: number
+  progressUpdateMs: number
+  failureThresholdPercent: number
+  maxLoggedErrors: number
+  controlPollMs: number
+  checkpointIntervalRecords: number
+}
+
+interface RunCounts {
+  recordsProcessed: number
+  recordsSuccess: number
+  recordsFailed: number
+  recordsFiltered: number
+  watermark: string | null
+}
+
+export interface JobRunResult {
+  // ABANDONED: stopped through the abort signal; the execution was left as it was
+  status: 'COMPLETED' | 'FAILED' | 'PAUSED' | 'CANCELLED' | 'ABANDONED'
+  recordsProcessed: number
+  recordsSuccess: number
+  recordsFailed: number
+  watermark?: string | null
+  errorMessage?: string
+}
+
+export class JobRunner {
+  private static instance: JobRunner
+  private readonly options: JobRunnerOptions
+
+  private constructor(options?: Partial<JobRunnerOptions>) {
+    this.options = {
+      batchSize: 1000,
+      progressUpdateMs: 2000,
+      failureThresholdPercent: 10,
+      maxLoggedErrors: 20,
+      controlPollMs: 1000,
+      checkpointIntervalRecords: 100000,
+      ...options
+    }
+  }
+
+  static getInstance(options?: Partial<JobRunnerOptions>): JobRunner {
+    if (!JobRunner.instance) {
+      JobRunner.instance = new JobRunner(options)
+    }
+    return JobRunner.instance
+  }
+
+  /**
+   * Run an execution that has already been created in RUNNING state
+   */
+  async execute(executionId: string, signal?: AbortSignal): Promise<JobRunResult> {
+    const execution = await db.jobExecution.findUnique({
+      where: { id: executionId },
+      include: {
+        job: {
+          include: { source: true, target: true }
+        }
+      }
+    })
+
+    if (!execution) {
+      throw new Error(`Job execution not found: ${executionId}`)
+    }
+
+    const job = execution.job
+    const processingStartTime = new Date()
+    let source: Connector | null = null
+    let target: Connector | null = null
+
+    let recordsProcessed = 0
+    let recordsSuccess = 0
+    let recordsFailed = 0
+    let recordsFiltered = 0
+    // Highest watermark column value extracted so far; committed to the job when the run completes
+    let watermark: string | null = null
+    const sampleErrors: RecordError[] = []
+
+    const flushProgress = async () => {
+      try {
+        await db.jobExecution.update({
+          where: { id: executionId },
+          data: { recordsProcessed, recordsSuccess, recordsFailed, heartbeatAt: new Date() }
+        })
+      } catch (error) {
+        console.error('Failed to flush job progress:', error)
+      }
+      await this.publishProgress(job, executionId, 'RUNNING', { recordsProcessed, recordsSuccess, recordsFailed })
+    }
+
+    try {
+      const keyColumns = parseKeyColumns(job.keyColumns ? JSON.parse(job.keyColumns) : [])
+      const loadError = validateLoadOptions(job.loadMode, keyColumns, job.target.type)
+      if (loadError) {
+        throw new Error(loadError)
+      }
+      const loadOptions: LoadOptions = {
+        table: job.targetTable,
+        mode: isLoadMode(job.loadMode) ? job.loadMode : 'append',
+        keyColumns
+      }
+      const overwrite = loadOptions.mode === 'overwrite'
+      const orderError = resumeOrderError(job.source.type, job.query, job.watermarkColumn)
+
+      // A paused or recovered execution resumes after the source records it already processed
+      const checkpoint = overwrite ? null : await JobStateManager.getInstance().getLatestCheckpoint(job.id, executionId)
+      const resumeOffset = checkpoint?.state === 'PARTIAL' ? checkpoint.sourceOffset ?? 0 : 0
+      if (resumeOffset > 0) {
+        // The job may have been edited since the checkpoint was written
+        if (orderError) {
+          throw new Error(`Cannot resume from checkpoint ${checkpoint!.checkpointId}: ${orderError}`)
+        }
+        recordsProcessed = resumeOffset
+        recordsSuccess = Number(checkpoint!.metadata?.recordsSuccess ?? 0)
+        recordsFailed = Number(checkpoint!.metadata?.recordsFailed ?? 0)
+        recordsFiltered = Number(checkpoint!.metadata?.recordsFiltered ?? 0)
+        watermark = checkpoint!.watermark ?? null
+      }
+
+      const startMessage = resumeOffset > 0
+        ? `Resuming job execution: ${job.name}`
+        : `Starting job execution: ${job.name}`
+      await this.log(job, executionId, 'INFO', startMessage, {
+        source: { name: job.source.name, type: job.source.type },
+        target: { name: job.target.name, type: job.target.type },
+        loadMode: loadOptions.mode,
+        batchSize: this.options.batchSize,
+        ...(job.watermarkColumn && { watermarkColumn: job.watermarkColumn, watermarkFrom: job.watermarkValue }),
+        ...(resumeOffset > 0 && { checkpointId: checkpoint!.checkpointId, resumeOffset })
+      })
+      await this.publishProgress(job, executionId, 'RUNNING', { recordsProcessed, recordsSuccess, recordsFailed })
+
+      const transformer = TransformExecutor.fromScript(job.transformRules)
+
+      const vault = SecretVault.getInstance()
+      const access = { purpose: 'JOB_EXECUTION' as const, jobId: job.id, executionId }
+      source = createConnector(await vault.resolveSource(job.source, { ...access, sourceId: job.sourceId, workspaceId: job.source.workspaceId }))
+      target = createConnector(await vault.resolveSource(job.target, { ...access, sourceId: job.targetId, workspaceId: job.target.workspaceId }))
+      await source.connect()
+      await target.connect()
+      // Overwrite empties the target here, even when the source turns out to be empty
+      await target.prepareLoad?.(loadOptions)
+
+      let lastFlush = Date.now()
+      let lastControlPoll = Date.now()
+      let lastCheckpointOffset = resumeOffset
+      let skipRemaining = resumeOffset
+      let controlAction: ControlAction | null = null
+      let abandoned = false
+
+      const extractOptions = {
+        query: job.query,
+        batchSize: this.options.batchSize,
+        watermark: job.watermarkColumn
+          ? { column: job.watermarkColumn, after: job.watermarkValue ?? null }
+          : null
+      }
+
+      for await (const extracted of source.extract(extractOptions)) {
+        // Skip records loaded before the checkpoint; resumeOrderError guarantees they come first again
+        let batch = extracted
+        if (skipRemaining > 0) {
+          const skipped = Math.min(skipRemaining, batch.length)
+          skipRemaining -= skipped
+          transformer.replay(batch.slice(0, skipped))
+          batch = batch.slice(skipped)
+          if (batch.length === 0) continue
+        }
+
+        const transformed = transformer.apply(batch)
+        const result = transformed.records.length > 0
+          ? await target.load(transformed.records, loadOptions)
+          : { success: 0, failed: 0, errors: [] }
+
+        recordsProcessed += batch.length
+        recordsSuccess += result.success
+        recordsFailed += transformed.errors.length + result.failed
+        recordsFiltered += transformed.filtered
+        if (job.watermarkColumn) {
+          watermark = maxWatermark(batch, job.watermarkColumn, watermark)
+        }
+
+        for (const error of [...transformed.errors, ...result.errors]) {
+          if (sampleErrors.length >= this.options.maxLoggedErrors) break
+          sampleErrors.push(error)
+        }
+
+        if (Date.now() - lastFlush >= this.options.progressUpdateMs) {
+          await flushProgress()
+          lastFlush = Date.now()
+        }
+
+        if (!orderError && !overwrite && recordsProcessed - lastCheckpointOffset >= this.options.checkpointIntervalRecords) {
+          lastCheckpointOffset = recordsProcessed
+          try {
+            // Buffering targets must persist what they hold before the offset is recorded
+            await target.flush?.()
+            await this.saveCheckpoint(execution, job, { recordsProcessed, recordsSuccess, recordsFailed, recordsFiltered, watermark })
+          } catch (error) {
+            console.error('Failed to record job checkpoint:', error)
+          }
+        }
+
+        // Batch boundary: everything extracted so far has been loaded, so it is safe to stop here
+        if (signal?.aborted) {
+          abandoned = true
+          break
+        }
+        if (Date.now() - lastControlPoll >= this.options.controlPollMs) {
+          controlAction = await this.pollControlAction(executionId)
+          lastControlPoll = Date.now()
+          if (controlAction) break
+        }
+      }
+
+      // Commit the load unless it was interrupted; closing an uncommitted overwrite keeps the old rows
+      if (!controlAction && !abandoned) {
+        await target.flush?.()
+      }
+      await target.close()
+      target = null
+
+      if (abandoned) {
+        return this.abandon(executionId, { recordsProcessed, recordsSuccess, recordsFailed })
+      }
+
+      if (controlAction) {
+        return await this.interrupt(execution, job, controlAction, {
+          recordsProcessed,
+          recordsSuccess,
+          recordsFailed,
+          recordsFiltered,
+          watermark
+        })
+      }
+
+      const failurePercent = (recordsFailed / Math.max(1, recordsProcessed)) * 100
+      const status = failurePercent > this.options.failureThresholdPercent ? 'FAILED' : 'COMPLETED'
+      const errorMessage = status === 'FAILED'
+        ? `High failure rate: ${failurePercent.toFixed(2)}%`
+        : undefined
+
+      await this.finalize(execution, job, {
+        status,
+        recordsProcessed,
+        recordsSuccess,
+        recordsFailed,
+        watermark,
+        errorMessage
+      }, processingStartTime)
+
+      await this.log(job, executionId, status === 'FAILED' ? 'ERROR' : 'INFO', `Job ${status.toLowerCase()}: ${job.name}`, {
+        recordsProcessed,
+        recordsSuccess,
+        recordsFailed,
+        recordsFiltered,
+        ...(job.watermarkColumn && { watermark }),
+        durationMs: Date.now() - processingStartTime.getTime(),
+        ...(sampleErrors.length > 0 && { sampleErrors })
+      })
+
+      return { status, recordsProcessed, recordsSuccess, recordsFailed, watermark, errorMessage }
+    } catch (error) {
+      if (signal?.aborted) {
+        return this.abandon(executionId, { recordsProcessed, recordsSuccess, recordsFailed })
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Job execution ${executionId} failed:`, error)
+
+      await this.finalize(execution, job, {
+        status: 'FAILED',
+        recordsProcessed,
+        recordsSuccess,
+        recordsFailed,
+        errorMessage
+      }, processingStartTime)
+
+      await this.log(job, executionId, 'ERROR', `Job execution failed: ${job.name}`, { error: errorMessage, recordsProcessed })
+
+      return { status: 'FAILED', recordsProcessed, recordsSuccess, recordsFailed, errorMessage }
+    } finally {
+      await Promise.all([source, target].map(connector =>
+        connector?.close().catch(error => console.error('Failed to close connector:', error))
+      ))
+    }
+  }
+
+  /**
+   * Persist the terminal state of an execution and its job
+   */
+  private async finalize(
+    execution: any,
+    job: any,
+    result: JobRunResult & { status: 'COMPLETED' | 'FAILED' },
+    processingStartTime: Date
+  ): Promise<void> {
+    const processingEndTime = new Date()
+    const durationSec = Math.max(0.001, (processingEndTime.getTime() - processingStartTime.getTime()) / 1000)
+
+    await db.jobExecution.update({
+      where: { id: execution.id },
+      data: {
+        status: result.status,
+        completedAt: processingEndTime,
+        recordsProcessed: result.recordsProcessed,
+        recordsSuccess: result.recordsSuccess,
+        recordsFailed: result.recordsFailed,
+        errorMessage: result.errorMessage ?? null,
+        controlAction: null,
+        processingStartTime,
+        processingEndTime,
+        throughputRecordsPerSec: Number((result.recordsProcessed / durationSec).toFixed(2))
+      }
+    })
+
+    // nextRun is owned by the scheduler, which advances it when the run is fired.
+    // The watermark only moves on success so a failed run's rows are extracted again
+    const advanceWatermark = result.status === 'COMPLETED' && job.watermarkColumn && result.watermark
+    await db.eTLJob.update({
+      where: { id: job.id },
+      data: {
+        status: result.status,
+        ...(advanceWatermark && { watermarkValue: result.watermark, watermarkUpdatedAt: processingEndTime })
+      }
+    })
+    await this.publishProgress(job, execution.id, result.status, result)
+  }
+
+  /**
+   * Stop at a batch boundary on a pause or cancel request. Pausing records a PARTIAL
+   * checkpoint with the source offset so a resumed run skips what was already loaded
+   */
+  private async interrupt(
+    execution: any,
+    job: any,
+    action: ControlAction,
+    counts: RunCounts
+  ): Promise<JobRunResult> {
+    const { recordsProcessed, recordsSuccess, recordsFailed } = counts
+
+    if (action === 'CANCEL') {
+      await db.jobExecution.update({
+        where: { id: execution.id },
+        data: {
+          status: 'CANCELLED',
+          completedAt: new Date(),
+          controlAction: null,
+          recordsProcessed,
+          recordsSuccess,
+          recordsFailed
+        }
+      })
+      // Job status has no cancelled state; the job is simply idle again
+      await db.eTLJob.update({ where: { id: job.id }, data: { status: 'PENDING' } })
+      await this.publishProgress(job, execution.id, 'CANCELLED', counts)
+      await this.log(job, execution.id, 'WARN', `Job cancelled: ${job.name}`, { recordsProcessed, recordsSuccess, recordsFailed })
+
+      return { status: 'CANCELLED', recordsProcessed, recordsSuccess, recordsFailed }
+    }
+
+    const checkpointId = await this.saveCheckpoint(execution, job, counts)
+
+    await db.jobExecution.update({
+      where: { id: execution.id },
+      data: {
+        status: 'PAUSED',
+        controlAction: null,
+        recordsProcessed,
+        recordsSuccess,
+        recordsFailed
+      }
+    })
+    await db.eTLJob.update({ where: { id: job.id }, data: { status: 'PAUSED' } })
+    await this.publishProgress(job, execution.id, 'PAUSED', counts)
+    await this.log(job, execution.id, 'INFO', `Job paused: ${job.name}`, { checkpointId, offset: recordsProcessed })
+
+    return { status: 'PAUSED', recordsProcessed, recordsSuccess, recordsFailed }
+  }
+
+  /**
+   * Give up a run whose worker lost its lease; the worker that now holds it records the outcome
+   */
+  private abandon(executionId: string, counts: Pick<RunCounts, 'recordsProcessed' | 'recordsSuccess' | 'recordsFailed'>): JobRunResult {
+    console.warn(`Abandoned job execution ${executionId} after ${counts.recordsProcessed} records: the run was aborted`)
+    return { status: 'ABANDONED', ...counts }
+  }
+
+  /**
+   * Record a PARTIAL checkpoint at the current source offset; the counters let a resumed
+   * run report totals for the whole execution
+   */
+  private async saveCheckpoint(execution: any, job: any, counts: RunCounts): Promise<string> {
+    return JobStateManager.getInstance().createCheckpoint({
+      jobId: job.id,
+      executionId: execution.id,
+      stepName: 'extract_load',
+      stepNumber: 1,
+      dataProcessed: counts.recordsProcessed,
+      totalData: counts.recordsProcessed,
+      state: 'PARTIAL',
+      sourceOffset: counts.recordsProcessed,
+      watermark: counts.watermark,
+      metadata: {
+        recordsSuccess: counts.recordsSuccess,
+        recordsFailed: counts.recordsFailed,
+        recordsFiltered: counts.recordsFiltered
+      }
+    })
+  }
+
+  /**
+   * Append an entry to the execution's log and the source's sync log and stream it to monitoring clients
+   */
+  private async log(
+    job: any,
+    executionId: string,
+    level: ExecutionLogLevel,
+    message: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    const timestamp = new Date()
+    await ExecutionLogStore.getInstance().append({ jobExecutionId: executionId, level, message, fields: details, timestamp })
+
+    const entry = await db.syncLog.create({
+      data: {
+        sourceId: job.sourceId,
+        jobId: job.id,
+        level,
+        message,
+        details: JSON.stringify({ executionId, ...details }),
+        timestamp
+      }
+    })
+
+    await ExecutionEventBus.getInstance().publish({
+      type: 'log',
+      id: entry.id,
+      jobId: job.id,
+      executionId,
+      sourceId: job.sourceId,
+      level,
+      message,
+      details: entry.details,
+      timestamp: entry.timestamp.toISOString(),
+      job: { name: job.name },
+      source: { name: job.source.name }
+    })
+  }
+
+  private async publishProgress(
+    job: any,
+    executionId: string,
+    status: string,
+    counts: Pick<RunCounts, 'recordsProcessed' | 'recordsSuccess' | 'recordsFailed'>
+  ): Promise<void> {
+    await ExecutionEventBus.getInstance().publish({
+      type: 'progress',
+      jobId: job.id,
+      executionId,
+      status,
+      recordsProcessed: counts.recordsProcessed,
+      recordsSuccess: counts.recordsSuccess,
+      recordsFailed: counts.recordsFailed,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  private async pollControlAction(executionId: string): Promise<ControlAction | null> {
+    try {
+      const execution = await db.jobExecution.findUnique({
+        where: { id: executionId },
+        select: { controlAction: true }
+      })
+      return execution?.controlAction === 'PAUSE' || execution?.controlAction === 'CANCEL'
+        ? execution.controlAction
+        : null
+    } catch (error) {
+      console.error('Failed to poll execution control action:', error)
+      return null
+    }
+  }
+}
+
+export default JobRunner
@@ -6,6 +6,7 @@
 import BankingTransactionManager from './banking-transaction-manager'
 import BankingMonitor from './banking-monitor'
 import { db } from './db'
+import { enqueueJobExecution } from './job-launcher'
 
 export interface JobCheckpoint {
   jobId: string
@@ -18,6 +19,8 @@ export interface JobCheckpoint {
   timestamp: Date
   checksum: string
   state: 'STARTED' | 'COMPLETED' | 'FAILED' | 'PARTIAL'
+  sourceOffset?: number // Source records already loaded; a resumed run skips this many
+  watermark?: string | null
   metadata?: Record<string, any>
 }
 
@@ -45,6 +48,7 @@ export interface FailurePrediction {
 
 export interface RecoveryStrategy {
   jobId: string
+  executionId?: string
   strategy: 'RESTART_FROM_CHECKPOINT' | 'FULL_RESTART' | 'MANUAL_INTERVENTION' | 'CIRCUIT_BREAKER_BYPASS'
   checkpoints: string[]
   estimatedRecoveryTime: number
@@ -61,6 +65,7 @@ export class JobStateManager {
   private readonly maxFailureRate = 0.05 // 5%
   private readonly criticalProcessingTime = 1800000 // 30 minutes
   private readonly minDataIntegrity = 0.95 // 95%
+  private readonly staleHeartbeatMs = 300000 // 5 minutes without progress means the worker died
   
   private healthChecks = new Map<string, any>()
   private failurePredictionModels = new Map<string, FailurePrediction>()
@@ -93,6 +98,8 @@ export class JobStateManager {
       dataProcessed: checkpoint.dataProcessed,
       totalData: checkpoint.totalData,
       state: checkpoint.state,
+      sourceOffset: checkpoint.sourceOffset ?? 0,
+      watermark: checkpoint.watermark ?? null,
       metadata: checkpoint.metadata,
       timestamp: timestamp.toISOString()
     }
@@ -100,7 +107,24 @@ export class JobStateManager {
     const checksum = await this.calculateChecksum(checksumData)
     
     try {
-      // Store checkpoint in database (simulated - would use actual DB table)
+      await db.jobCheckpoint.create({
+        data: {
+          id: checkpointId,
+          jobId: checkpoint.jobId,
+          executionId: checkpoint.executionId,
+          stepName: checkpoint.stepName,
+          stepNumber: checkpoint.stepNumber,
+          dataProcessed: checkpoint.dataProcessed,
+          totalData: checkpoint.totalData,
+          sourceOffset: checkpoint.sourceOffset ?? 0,
+          watermark: checkpoint.watermark ?? null,
+          state: checkpoint.state,
+          metadata: checkpoint.metadata ? JSON.stringify(checkpoint.metadata) : null,
+          checksum,
+          createdAt: timestamp
+        }
+      })
+
       await this.bankingManager.createAuditEntry(
         checkpoint.jobId,
         'CHECKPOINT_CREATED',
@@ -110,6 +134,7 @@ export class JobStateManager {
           stepNumber: checkpoint.stepNumber,
           dataProcessed: checkpoint.dataProcessed,
           totalData: checkpoint.totalData,
+          sourceOffset: checkpoint.sourceOffset ?? 0,
           state: checkpoint.state,
           checksum
         },
@@ -141,31 +166,19 @@ export class JobStateManager {
    */
   async getLatestCheckpoint(jobId: string, executionId?: string): Promise<JobCheckpoint | null> {
     try {
-      // Simulate fetching latest checkpoint from database
-      // In real implementation, this would query the checkpoint table
-      
-      const mockCheckpoint: JobCheckpoint = {
-        jobId,
-        executionId: executionId || 'exec_123',
-        checkpointId: 'cp_latest',
-        stepName: 'data_transformation',
-        stepNumber: 5,
-        dataProcessed: 850000,
-        totalData: 1000000,
-        timestamp: new Date(),
-        checksum: 'checksum_hash',
-        state: 'COMPLETED',
-        metadata: { processingTime: 45000, memoryUsed: '512MB' }
+      const [checkpoint] = await this.getRecentCheckpoints(jobId, executionId, 1)
+      if (!checkpoint) {
+        return null
       }
 
       // Verify checkpoint integrity
-      const isValid = await this.verifyCheckpointIntegrity(mockCheckpoint)
+      const isValid = await this.verifyCheckpointIntegrity(checkpoint)
       if (!isValid) {
         console.warn('Checkpoint integrity verification failed')
         return null
       }
 
-      return mockCheckpoint
+      return checkpoint
     } catch (error) {
       console.error('Failed to get latest checkpoint:', error)
       return null
@@ -239,7 +252,7 @@ export class JobStateManager {
       const executionDuration = now.getTime() - execution.startedAt.getTime()
       const failureRate = execution.recordsFailed / Math.max(1, execution.recordsProcessed)
       const processingTime = execution.processingEndTime 
-        ? execution.processingEndTime.getTime() - execution.processingStartTime.getTime()
+        ? execution.processingEndTime.getTime() - (execution.processingStartTime ?? execution.startedAt).getTime()
         : executionDuration
 
       // Get recent checkpoints
@@ -282,6 +295,16 @@ export class JobStateManager {
         recommendations.push('Job appears to be stalled')
       }
 
+      // A running execution whose worker stopped refreshing its heartbeat has crashed
+      const lastHeartbeat: Date = execution.heartbeatAt ?? execution.startedAt
+      if (execution.status === 'FAILED' || (execution.status === 'RUNNING' && now.getTime() - lastHeartbeat.getTime() > this.staleHeartbeatMs)) {
+        status = 'FAILED'
+        riskLevel = 'CRITICAL'
+        recommendations.push(execution.status === 'FAILED'
+          ? 'Execution failed'
+          : `No worker heartbeat since ${lastHeartbeat.toISOString()}`)
+      }
+
       // Record health status
       await this.monitor.recordBusinessMetric({
         category: 'ERROR_RATE',
@@ -296,7 +319,7 @@ export class JobStateManager {
         jobId,
         executionId: execution.id,
         status,
-        lastHeartbeat: now,
+        lastHeartbeat,
         failureRate,
         avgProcessingTime: processingTime,
         dataIntegrity,
@@ -423,10 +446,11 @@ export class JobStateManager {
 
       // Determine strategy based on health status and checkpoints
       if (healthStatus.status === 'FAILED') {
-        if (latestCheckpoint && latestCheckpoint.state === 'COMPLETED') {
+        // PARTIAL checkpoints are written by the runner while loading and record how far the source was read
+        if (latestCheckpoint && (latestCheckpoint.state === 'COMPLETED' || latestCheckpoint.state === 'PARTIAL')) {
           strategy = 'RESTART_FROM_CHECKPOINT'
           estimatedRecoveryTime = Math.max(5, (latestCheckpoint.totalData - latestCheckpoint.dataProcessed) / 1000) // Rough estimate
-          steps.push(`Restart from checkpoint: ${latestCheckpoint.stepName}`)
+          steps.push(`Restart from checkpoint: ${latestCheckpoint.stepName} at source offset ${latestCheckpoint.sourceOffset ?? 0}`)
           steps.push('Validate data integrity before resuming')
           riskLevel = 'LOW'
         } else {
@@ -475,6 +499,7 @@ export class JobStateManager {
 
       const recoveryStrategy: RecoveryStrategy = {
         jobId,
+        executionId: healthStatus.executionId,
         strategy,
         checkpoints: latestCheckpoint ? [latestCheckpoint.checkpointId] : [],
         estimatedRecoveryTime,
@@ -520,10 +545,10 @@ export class JobStateManager {
           estimatedRecoveryTime: strategy.estimatedRecoveryTime,
           riskLevel: strategy.riskLevel,
           steps: strategy.steps
-        }
+        },
+        strategy.executionId
       )
 
-      // Simulate recovery execution
       switch (strategy.strategy) {
         case 'RESTART_FROM_CHECKPOINT':
           return await this.executeCheckpointRecovery(strategy)
@@ -556,6 +581,65 @@ export class JobStateManager {
     }
   }
 
+  /**
+   * Find running executions whose worker stopped sending heartbeats and resume them from
+   * their latest checkpoint; executions without one are failed rather than reloaded from zero.
+   * Executions delivered through the job queue are left to its lease expiry
+   */
+  async recoverStalledExecutions(now: Date = new Date()): Promise<number> {
+    const staleBefore = new Date(now.getTime() - this.staleHeartbeatMs)
+    const stalled = await db.jobExecution.findMany({
+      where: {
+        status: 'RUNNING',
+        queueItem: { is: null },
+        OR: [
+          { heartbeatAt: { lt: staleBefore } },
+          { heartbeatAt: null, startedAt: { lt: staleBefore } }
+        ]
+      },
+      include: { job: true }
+    })
+
+    let recovered = 0
+    for (const execution of stalled) {
+      const strategy = await this.generateRecoveryStrategy(execution.jobId, execution.id)
+
+      if (strategy?.strategy === 'RESTART_FROM_CHECKPOINT' && await this.executeRecoveryStrategy(strategy)) {
+        recovered++
+        await db.syncLog.create({
+          data: {
+            sourceId: execution.job.sourceId,
+            jobId: execution.jobId,
+            level: 'WARN',
+            message: `Job worker stopped responding, resuming from checkpoint: ${execution.job.name}`,
+            details: JSON.stringify({ executionId: execution.id, checkpointId: strategy.checkpoints[0] })
+          }
+        })
+        continue
+      }
+
+      const errorMessage = 'Job worker stopped responding and no checkpoint was available to resume from'
+      const failed = await db.jobExecution.updateMany({
+        where: { id: execution.id, status: 'RUNNING', heartbeatAt: execution.heartbeatAt },
+        data: { status: 'FAILED', completedAt: now, errorMessage }
+      })
+      if (failed.count === 0) continue
+
+      await db.eTLJob.update({ where: { id: execution.jobId }, data: { status: 'FAILED' } })
+      await db.syncLog.create({
+        data: {
+          sourceId: execution.job.sourceId,
+          jobId: execution.jobId,
+          level: 'ERROR',
+          message: `Job execution failed: ${execution.job.name}`,
+          details: JSON.stringify({ executionId: execution.id, error: errorMessage })
+        }
+      })
+    }
+
+    return recovered
+  }
+
   /**
    * Verify checkpoint data integrity
    */
@@ -569,6 +653,8 @@ export class JobStateManager {
         dataProcessed: checkpoint.dataProcessed,
         totalData: checkpoint.totalData,
         state: checkpoint.state,
+        sourceOffset: checkpoint.sourceOffset ?? 0,
+        watermark: checkpoint.watermark ?? null,
         metadata: checkpoint.metadata,
         timestamp: checkpoint.timestamp.toISOString()
       }
@@ -585,9 +671,30 @@ export class JobStateManager {
    * Get recent checkpoints for a job
    */
   private async getRecentCheckpoints(jobId: string, executionId?: string, limit: number = 10): Promise<JobCheckpoint[]> {
-    // Simulate fetching recent checkpoints
-    // In real implementation, this would query the checkpoint table
-    return []
+    const checkpoints = await db.jobCheckpoint.findMany({
+      where: {
+        jobId,
+        ...(executionId && { executionId })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+
+    return checkpoints.map((checkpoint: any) => ({
+      jobId: checkpoint.jobId,
+      executionId: checkpoint.executionId,
+      checkpointId: checkpoint.id,
+      stepName: checkpoint.stepName,
+      stepNumber: checkpoint.stepNumber,
+      dataProcessed: checkpoint.dataProcessed,
+      totalData: checkpoint.totalData,
+      timestamp: checkpoint.createdAt,
+      checksum: checkpoint.checksum,
+      state: checkpoint.state,
+      sourceOffset: checkpoint.sourceOffset,
+      watermark: checkpoint.watermark,
+      metadata: checkpoint.metadata ? JSON.parse(checkpoint.metadata) : undefined
+    }))
   }
 
   /**
@@ -647,13 +754,46 @@ export class JobStateManager {
    */
   private async executeCheckpointRecovery(strategy: RecoveryStrategy): Promise<boolean> {
     try {
-      // Simulate recovery execution
-      console.log('Executing checkpoint recovery...')
+      if (!strategy.executionId) {
+        throw new Error('Checkpoint recovery requires an execution')
+      }
+
+      const checkpoint = await this.getLatestCheckpoint(strategy.jobId, strategy.executionId)
+      if (!checkpoint || !strategy.checkpoints.includes(checkpoint.checkpointId)) {
+        throw new Error(`Checkpoint ${strategy.checkpoints[0] ?? ''} is no longer the latest valid checkpoint`)
+      }
+
+      // Claim the execution so a concurrent recovery does not queue it twice
+      const claimed = await db.jobExecution.updateMany({
+        where: { id: strategy.executionId, status: { in: ['RUNNING', 'FAILED'] } },
+        data: {
+          status: 'QUEUED',
+          controlAction: null,
+          completedAt: null,
+          errorMessage: null
+        }
+      })
+      if (claimed.count === 0) {
+        throw new Error(`Execution ${strategy.executionId} cannot be resumed`)
+      }
+
+      await db.eTLJob.update({
+        where: { id: strategy.jobId },
+        data: { status: 'PENDING' }
+      })
+
+      // The worker skips the checkpoint's source offset before loading again
+      await enqueueJobExecution(strategy.executionId, strategy.jobId)
       
       await this.bankingManager.createAuditEntry(
         strategy.jobId,
         'CHECKPOINT_RECOVERY_EXECUTED',
-        { strategy: strategy.strategy }
+        {
+          strategy: strategy.strategy,
+          checkpointId: checkpoint.checkpointId,
+          sourceOffset: checkpoint.sourceOffset ?? 0
+        },
+        strategy.executionId
       )
       
       return true
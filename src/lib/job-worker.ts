@@ -0,0 +1,55 @@
+/**
+ * Job Worker
+ * Runs one execution claimed from the job queue: renews its lease while the runner works and,
+ * when a renewal finds the lease gone, aborts the run. The queue has handed the execution to
+ * another worker by then, so this worker neither completes nor releases the item
+ */
+
+import { JobQueue, QueueLease } from './job-queue'
+import { JobRunner, JobRunResult } from './job-runner'
+
+export type LeaseQueue = Pick<JobQueue, 'heartbeat' | 'complete' | 'release' | 'heartbeatIntervalMs'>
+export type LeaseRunner = Pick<JobRunner, 'execute'>
+
+/**
+ * Run a leased execution to its end; null when it could not be run and was given back
+ */
+export async function runLeasedExecution(
+  lease: QueueLease,
+  workerId: string,
+  queue: LeaseQueue = JobQueue.getInstance(),
+  runner: LeaseRunner = JobRunner.getInstance()
+): Promise<JobRunResult | null> {
+  const lost = new AbortController()
+
+  const heartbeat = setInterval(() => {
+    queue.heartbeat(lease, workerId)
+      .then(renewed => {
+        if (!renewed && !lost.signal.aborted) {
+          console.warn(`Lost the lease on execution ${lease.executionId}; stopping it at the next batch`)
+          lost.abort()
+        }
+      })
+      .catch(error => console.error('Failed to renew lease:', error))
+  }, queue.heartbeatIntervalMs)
+
+  try {
+    const result = await runner.execute(lease.executionId, lost.signal)
+    if (!lost.signal.aborted) {
+      await queue.complete(lease.id, workerId)
+    }
+    return result
+  } catch (error) {
+    if (lost.signal.aborted) {
+      console.error(`Execution ${lease.executionId} failed after its lease was lost:`, error)
+      return null
+    }
+    // The runner records job failures itself; this is a worker or database problem, so try again elsewhere
+    console.error(`Execution ${lease.executionId} could not be run:`, error)
+    await queue.release(lease, workerId, error instanceof Error ? error.message : String(error))
+      .catch(releaseError => console.error('Failed to release lease:', releaseError))
+    return null
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
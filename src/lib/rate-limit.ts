@@ -0,0 +1,218 @@
+/**
+ * Rate Limiting
+ * Provides sliding-window request limits shared by every replica through Redis. Policies come from
+ * the 'rate-limits' system setting: a default, per-route overrides and per-token budgets. While
+ * Redis is unavailable each replica falls back to counting in memory
+ */
+
+import { randomUUID } from 'crypto'
+import { db } from './db'
+import { CACHE_KEYS, getRedis } from './cache'
+
+export interface RateLimitPolicy {
+  limit: number
+  windowSeconds: number
+}
+
+export interface RouteRateLimitPolicy extends RateLimitPolicy {
+  // "[METHOD ]/api/path", where * matches one path segment, e.g. "POST /api/jobs/*/run"
+  pattern: string
+}
+
+export interface RateLimitConfig {
+  default: RateLimitPolicy
+  routes: RouteRateLimitPolicy[]
+  // Keyed by API token id
+  tokens: Record<string, RateLimitPolicy>
+}
+
+export interface RateLimitSubject {
+  method: string
+  path: string
+  // User id, or the client IP for anonymous callers
+  identifier: string
+  apiTokenId?: string
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Seconds until the oldest counted request leaves the window
+  resetSeconds: number
+  windowSeconds: number
+}
+
+const SETTINGS_KEY = 'rate-limits'
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+  default: { limit: 100, windowSeconds: 15 * 60 },
+  routes: [],
+  tokens: {}
+}
+
+// Policies are re-read at most this often, not on every request
+const CONFIG_TTL_MS = 30 * 1000
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000
+
+// Drops requests that left the window, counts the rest and records this one if it still fits.
+// Returns { allowed, count, oldest timestamp }
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, oldest[2] or now }
+`
+
+export class RateLimiter {
+  private static instance: RateLimiter
+  private config: RateLimitConfig | null = null
+  private configLoadedAt = 0
+  private memoryWindows = new Map<string, number[]>()
+  private lastSweep = Date.now()
+  private usingFallback = false
+
+  static getInstance(): RateLimiter {
+    if (!RateLimiter.instance) {
+      RateLimiter.instance = new RateLimiter()
+    }
+    return RateLimiter.instance
+  }
+
+  /**
+   * Count a request against its route (or the default) policy and, for API tokens, the token's
+   * own budget. The most constrained policy is reported
+   */
+  async check(subject: RateLimitSubject): Promise<RateLimitResult> {
+    const config = await this.loadConfig()
+    const checks: Array<[string, RateLimitPolicy, string]> = []
+
+    const route = config.routes.find(policy => matchesRoute(policy.pattern, subject.method, subject.path))
+    checks.push(route
+      ? [`route:${route.pattern}`, route, subject.identifier]
+      : ['default', config.default, subject.identifier])
+
+    const tokenPolicy = subject.apiTokenId ? config.tokens[subject.apiTokenId] : undefined
+    if (tokenPolicy) {
+      checks.push(['token', tokenPolicy, subject.apiTokenId!])
+    }
+
+    const results = await Promise.all(checks.map(([name, policy, identifier]) =>
+      this.hit(CACHE_KEYS.RATE_LIMIT(name, identifier), policy)
+    ))
+    return results.reduce((tightest, result) =>
+      !result.allowed || (tightest.allowed && result.remaining < tightest.remaining) ? result : tightest
+    )
+  }
+
+  private async hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now()
+    const windowMs = policy.windowSeconds * 1000
+
+    const { allowed, count, oldest } = await this.hitRedis(key, now, windowMs, policy.limit)
+      .then(counted => {
+        if (this.usingFallback) console.info('Rate limiting is back on Redis')
+        this.usingFallback = false
+        return counted
+      })
+      .catch(error => {
+        if (!this.usingFallback) console.warn('Rate limiting falls back to in-memory windows:', error.message)
+        this.usingFallback = true
+        return this.hitInMemory(key, now, windowMs, policy.limit)
+      })
+
+    return {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - count),
+      resetSeconds: Math.max(0, Math.ceil((oldest + windowMs - now) / 1000)),
+      windowSeconds: policy.windowSeconds
+    }
+  }
+
+  private async hitRedis(key: string, now: number, windowMs: number, limit: number) {
+    const redis = getRedis()
+    if (redis.status !== 'ready') {
+      // lazyConnect: the first limiter call starts the connection; until it is up requests are counted locally
+      if (redis.status === 'wait') redis.connect().catch(() => undefined)
+      throw new Error(`Redis is ${redis.status}`)
+    }
+
+    const [allowed, count, oldest] = await redis.eval(
+      SLIDING_WINDOW_SCRIPT, 1, key, now, windowMs, limit, `${now}-${randomUUID()}`
+    ) as [number, number, string]
+    return { allowed: allowed === 1, count: Number(count), oldest: Number(oldest) }
+  }
+
+  private hitInMemory(key: string, now: number, windowMs: number, limit: number) {
+    if (now - this.lastSweep > MEMORY_SWEEP_INTERVAL_MS) {
+      this.sweepMemory(now)
+    }
+
+    const timestamps = (this.memoryWindows.get(key) || []).filter(timestamp => timestamp > now - windowMs)
+    const allowed = timestamps.length < limit
+    if (allowed) timestamps.push(now)
+    this.memoryWindows.set(key, timestamps)
+
+    return { allowed, count: timestamps.length, oldest: timestamps[0] ?? now }
+  }
+
+  // Windows are at most a day long in practice; drop keys that have been idle longer than that
+  private sweepMemory(now: number): void {
+    for (const [key, timestamps] of this.memoryWindows) {
+      if (timestamps.length === 0 || timestamps[timestamps.length - 1] < now - 24 * 60 * 60 * 1000) {
+        this.memoryWindows.delete(key)
+      }
+    }
+    this.lastSweep = now
+  }
+
+  private async loadConfig(): Promise<RateLimitConfig> {
+    if (this.config && Date.now() - this.configLoadedAt < CONFIG_TTL_MS) {
+      return this.config
+    }
+
+    try {
+      const setting = await db.systemSettings.findUnique({ where: { key: SETTINGS_KEY } })
+      this.config = { ...DEFAULT_CONFIG, ...(setting ? JSON.parse(setting.value) : {}) }
+    } catch (error) {
+      console.error('Failed to load rate limit settings, using defaults:', error)
+      this.config = this.config ?? DEFAULT_CONFIG
+    }
+    this.configLoadedAt = Date.now()
+    return this.config!
+  }
+}
+
+/**
+ * Standard RateLimit-* response headers for a limiter result
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+    ...(!result.allowed && { 'Retry-After': String(result.resetSeconds) })
+  }
+}
+
+function matchesRoute(pattern: string, method: string, path: string): boolean {
+  const [patternMethod, patternPath] = pattern.includes(' ') ? pattern.split(/\s+/, 2) : ['*', pattern]
+  if (patternMethod !== '*' && patternMethod.toUpperCase() !== method.toUpperCase()) return false
+
+  const expected = patternPath.replace(/\/+$/, '').split('/')
+  const actual = path.replace(/\/+$/, '').split('/')
+  return expected.length === actual.length &&
+    expected.every((segment, index) => segment === '*' || segment === actual[index])
+}
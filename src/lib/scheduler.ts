@@ -0,0 +1,290 @@
+/**
+ * Job Scheduler
+ * Fires scheduled ETL jobs when their nextRun is due. A DB lease makes sure only one
+ * server replica fires jobs at a time, and runs missed while no scheduler was running
+ * are recorded and handled according to the configured catch-up policy. The lease holder
+ * also resumes executions whose worker died from their latest checkpoint and closes
+ * credential rotations whose rollback window has passed. Schedules run in the job creator's
+ * timezone; the job routes reject unknown timezones, and one that became invalid later falls
+ * back to UTC so the job keeps being scheduled.
+ */
+
+import { randomUUID } from 'crypto'
+import { db } from './db'
+import { getNextRun, getOccurrencesBetween, resolveTimezone, validateCronExpression } from './cron'
+import { isConnectorSupported } from './connectors'
+import { launchJobExecution } from './job-launcher'
+import { JobStateManager } from './job-state-manager'
+import { CredentialRotationManager } from './credential-rotation'
+
+export type CatchUpPolicy = 'RUN_ONCE' | 'SKIP'
+
+export interface SchedulerConfig {
+  pollIntervalMs: number
+  leaseTtlMs: number
+  missedRunGraceMs: number
+  maxMissedRunsRecorded: number
+  catchUpPolicy: CatchUpPolicy
+}
+
+const LEASE_NAME = 'job-scheduler'
+const SETTINGS_KEY = 'scheduler'
+
+const DEFAULT_CONFIG: SchedulerConfig = {
+  pollIntervalMs: 15000,
+  leaseTtlMs: 60000,
+  missedRunGraceMs: 5 * 60 * 1000, // Runs fired later than this count as missed
+  maxMissedRunsRecorded: 100,
+  catchUpPolicy: 'RUN_ONCE'
+}
+
+export class JobScheduler {
+  private static instance: JobScheduler
+  private readonly instanceId = randomUUID()
+  private timer: NodeJS.Timeout | null = null
+  private ticking = false
+
+  static getInstance(): JobScheduler {
+    if (!JobScheduler.instance) {
+      JobScheduler.instance = new JobScheduler()
+    }
+    return JobScheduler.instance
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  async start(): Promise<void> {
+    if (this.timer) return
+
+    const config = await this.loadConfig()
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Scheduler tick failed:', error))
+    }, config.pollIntervalMs)
+
+    console.log(`> Job scheduler started (instance ${this.instanceId})`)
+    await this.tick().catch(error => console.error('Scheduler tick failed:', error))
+  }
+
+  /**
+   * Stop polling and release the lease so another replica can take over immediately
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+
+    await db.schedulerLease.deleteMany({
+      where: { name: LEASE_NAME, holderId: this.instanceId }
+    }).catch(error => console.error('Failed to release scheduler lease:', error))
+  }
+
+  /**
+   * Fire every job whose nextRun is due; only the lease holder does any work
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) return
+    this.ticking = true
+
+    try {
+      const config = await this.loadConfig()
+      if (!(await this.acquireLease(config, now))) return
+
+      await this.initializeMissingNextRuns(now)
+      await JobStateManager.getInstance().recoverStalledExecutions(now)
+        .catch(error => console.error('Failed to recover stalled executions:', error))
+      await CredentialRotationManager.getInstance().completeExpired(now)
+        .catch(error => console.error('Failed to complete expired credential rotations:', error))
+
+      const dueJobs = await db.eTLJob.findMany({
+        where: {
+          isActive: true,
+          schedule: { not: null },
+          nextRun: { lte: now }
+        },
+        include: {
+          source: true,
+          target: true,
+          creator: { include: { settings: true } }
+        },
+        orderBy: { nextRun: 'asc' }
+      })
+
+      for (const job of dueJobs) {
+        try {
+          await this.fireJob(job, config, now)
+        } catch (error) {
+          console.error(`Failed to fire scheduled job ${job.id}:`, error)
+        }
+      }
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  private async fireJob(job: any, config: SchedulerConfig, now: Date): Promise<void> {
+    const configuredTimezone = job.creator?.settings?.timezone
+    const timezone = resolveTimezone(configuredTimezone)
+    const dueAt: Date = job.nextRun
+
+    if (configuredTimezone && configuredTimezone !== timezone) {
+      await this.log(job, 'WARN', `Unknown timezone ${configuredTimezone} of the job creator, schedule runs in ${timezone}`, {
+        schedule: job.schedule
+      })
+    }
+
+    const cronError = validateCronExpression(job.schedule, timezone)
+    if (cronError) {
+      // Clear nextRun so an unparseable schedule is not retried every tick
+      await db.eTLJob.update({ where: { id: job.id }, data: { nextRun: null } })
+      await this.log(job, 'ERROR', `Invalid schedule, job will not be fired: ${cronError}`, { schedule: job.schedule, timezone })
+      return
+    }
+
+    const nextRun = getNextRun(job.schedule, timezone, now)
+
+    // Claim the occurrence by moving nextRun forward; if another instance got there first nothing is updated
+    const claimed = await db.eTLJob.updateMany({
+      where: { id: job.id, nextRun: dueAt },
+      data: { nextRun }
+    })
+    if (claimed.count === 0) return
+
+    const missedRuns = this.findMissedRuns(job.schedule, timezone, dueAt, now, config)
+    if (missedRuns.length > 0) {
+      await this.log(job, 'WARN', `Missed ${missedRuns.length} scheduled run(s) of ${job.name}`, {
+        missedRuns: missedRuns.map(date => date.toISOString()),
+        catchUpPolicy: config.catchUpPolicy,
+        nextRun: nextRun.toISOString()
+      })
+
+      if (config.catchUpPolicy === 'SKIP') return
+    }
+
+    const unsupported = [job.source, job.target].find((source: any) => !isConnectorSupported(source.type))
+    if (unsupported) {
+      await this.log(job, 'ERROR', `Skipped scheduled run: data source type ${unsupported.type} is not supported`)
+      return
+    }
+
+    const running = await db.jobExecution.count({
+      where: { jobId: job.id, status: { in: ['QUEUED', 'RUNNING'] } }
+    })
+    if (running > 0) {
+      await this.log(job, 'WARN', `Skipped scheduled run of ${job.name}: previous execution is still queued or running`, {
+        scheduledFor: dueAt.toISOString()
+      })
+      return
+    }
+
+    const scheduledFor = missedRuns.length > 0 ? missedRuns[missedRuns.length - 1] : dueAt
+    const execution = await launchJobExecution(job.id, {
+      trigger: missedRuns.length > 0 ? 'CATCH_UP' : 'SCHEDULED',
+      scheduledFor
+    })
+
+    await this.log(job, 'INFO', `Scheduled run started: ${job.name}`, {
+      executionId: execution.id,
+      scheduledFor: scheduledFor.toISOString(),
+      nextRun: nextRun.toISOString()
+    })
+  }
+
+  /**
+   * The due occurrence is missed when it fires later than the grace period, and every
+   * later occurrence that has already passed is missed as well
+   */
+  private findMissedRuns(
+    schedule: string,
+    timezone: string,
+    dueAt: Date,
+    now: Date,
+    config: SchedulerConfig
+  ): Date[] {
+    const passed = getOccurrencesBetween(schedule, timezone, dueAt, now, config.maxMissedRunsRecorded)
+    if (passed.length > 0 || now.getTime() - dueAt.getTime() > config.missedRunGraceMs) {
+      return [dueAt, ...passed].slice(0, config.maxMissedRunsRecorded)
+    }
+    return []
+  }
+
+  // Jobs scheduled before the scheduler existed (or whose schedule was cleared) have no nextRun yet
+  private async initializeMissingNextRuns(now: Date): Promise<void> {
+    const jobs = await db.eTLJob.findMany({
+      where: {
+        isActive: true,
+        schedule: { not: null },
+        nextRun: null
+      },
+      include: { creator: { include: { settings: true } } }
+    })
+
+    for (const job of jobs) {
+      const timezone = resolveTimezone(job.creator?.settings?.timezone)
+      if (!job.schedule || validateCronExpression(job.schedule, timezone)) continue
+
+      await db.eTLJob.updateMany({
+        where: { id: job.id, nextRun: null },
+        data: { nextRun: getNextRun(job.schedule, timezone, now) }
+      })
+    }
+  }
+
+  private async acquireLease(config: SchedulerConfig, now: Date): Promise<boolean> {
+    const expiresAt = new Date(now.getTime() + config.leaseTtlMs)
+
+    const renewed = await db.schedulerLease.updateMany({
+      where: {
+        name: LEASE_NAME,
+        OR: [
+          { holderId: this.instanceId },
+          { expiresAt: { lt: now } }
+        ]
+      },
+      data: { holderId: this.instanceId, expiresAt }
+    })
+    if (renewed.count > 0) return true
+
+    try {
+      await db.schedulerLease.create({
+        data: { name: LEASE_NAME, holderId: this.instanceId, expiresAt }
+      })
+      return true
+    } catch {
+      // Another instance holds a live lease
+      return false
+    }
+  }
+
+  private async loadConfig(): Promise<SchedulerConfig> {
+    try {
+      const setting = await db.systemSettings.findUnique({ where: { key: SETTINGS_KEY } })
+      const overrides = setting ? JSON.parse(setting.value) : {}
+      const config = { ...DEFAULT_CONFIG, ...overrides }
+
+      if (!['RUN_ONCE', 'SKIP'].includes(config.catchUpPolicy)) {
+        console.warn(`Unknown scheduler catch-up policy ${config.catchUpPolicy}, using ${DEFAULT_CONFIG.catchUpPolicy}`)
+        config.catchUpPolicy = DEFAULT_CONFIG.catchUpPolicy
+      }
+      return config
+    } catch (error) {
+      console.error('Failed to load scheduler settings, using defaults:', error)
+      return DEFAULT_CONFIG
+    }
+  }
+
+  private async log(job: any, level: 'INFO' | 'WARN' | 'ERROR', message: string, details?: Record<string, any>) {
+    await db.syncLog.create({
+      data: {
+        sourceId: job.sourceId,
+        jobId: job.id,
+        level,
+        message,
+        details: JSON.stringify({ trigger: 'SCHEDULER', ...details })
+      }
+    })
+  }
+}
+
+export default JobScheduler
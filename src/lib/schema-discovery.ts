@@ -0,0 +1,87 @@
+/**
+ * Schema Discovery
+ * Introspects a data source through its connector and caches the result in Redis so the
+ * jobs page can offer table and column completions without reconnecting on every keystroke
+ */
+
+import { cacheManager, CACHE_CONFIG, CACHE_KEYS } from './cache'
+import { ConnectorSource, SourceSchema, createConnector } from './connectors'
+import { SecretVault } from './secret-vault'
+
+export const DEFAULT_SAMPLE_SIZE = 500
+export const MAX_SAMPLE_SIZE = 5000
+
+export interface DiscoveryOptions {
+  // Nested array selector for JSON and API sources
+  query?: string | null
+  sampleSize?: number
+  refresh?: boolean
+}
+
+export interface DiscoveredSchema extends SourceSchema {
+  sourceId: string
+  sourceType: string
+  discoveredAt: string
+  cached: boolean
+}
+
+/**
+ * Return the cached schema unless a refresh is requested; cache failures never block discovery
+ */
+export async function discoverSchema(
+  source: ConnectorSource & { workspaceId: string | null },
+  options: DiscoveryOptions = {}
+): Promise<DiscoveredSchema> {
+  const key = schemaCacheKey(source.id, options.query)
+
+  if (!options.refresh) {
+    const cached = await cacheManager.get<DiscoveredSchema>(key).catch(error => {
+      console.warn('Schema cache read failed:', error)
+      return null
+    })
+    if (cached) return { ...cached, cached: true }
+  }
+
+  const connector = createConnector(await SecretVault.getInstance().resolveSource(source, {
+    purpose: 'SCHEMA_DISCOVERY',
+    sourceId: source.id,
+    workspaceId: source.workspaceId
+  }))
+  let schema: SourceSchema
+  try {
+    await connector.connect()
+    schema = await connector.introspect({
+      query: options.query,
+      sampleSize: Math.min(options.sampleSize || DEFAULT_SAMPLE_SIZE, MAX_SAMPLE_SIZE)
+    })
+  } finally {
+    await connector.close().catch(() => undefined)
+  }
+
+  const discovered: DiscoveredSchema = {
+    ...schema,
+    sourceId: source.id,
+    sourceType: source.type,
+    discoveredAt: new Date().toISOString(),
+    cached: false
+  }
+
+  await cacheManager.set(key, discovered, CACHE_CONFIG.DATASOURCE_SCHEMA.ttl).catch(error => {
+    console.warn('Schema cache write failed:', error)
+  })
+  return discovered
+}
+
+/**
+ * Drop every cached schema of a source, e.g. after its connection string changed
+ */
+export async function invalidateSchemaCache(sourceId: string): Promise<void> {
+  await cacheManager.delPattern(`${CACHE_KEYS.DATASOURCE_SCHEMA(sourceId)}*`).catch(error => {
+    console.warn('Schema cache invalidation failed:', error)
+  })
+}
+
+function schemaCacheKey(sourceId: string, query?: string | null): string {
+  const key = CACHE_KEYS.DATASOURCE_SCHEMA(sourceId)
+  return query ? `${key}:${query}` : key
+}
@@ -0,0 +1,30 @@
+/**
+ * Access schemas
+ * Provides the request shapes of resource grants and their revocation
+ */
+
+import { z } from 'zod'
+import { requiredText } from './common'
+
+// In increasing order: each level includes the ones before it
+export const ACCESS_LEVELS = ['VIEW', 'EXECUTE', 'EDIT'] as const
+
+// System roles a resource can be shared with
+export const USER_ROLES = ['ADMIN', 'USER', 'VIEWER'] as const
+
+export const grantSchema = z.object({
+  userId: z.string().min(1).optional(),
+  teamId: z.string().min(1).optional(),
+  role: z.enum(USER_ROLES).optional(),
+  level: z.enum(ACCESS_LEVELS)
+}).refine(
+  grant => [grant.userId, grant.teamId, grant.role].filter(Boolean).length === 1,
+  'Exactly one of userId, teamId or role is required'
+)
+
+export const revokeGrantQuerySchema = z.object({
+  grantId: requiredText('Grant')
+})
+
+export type AccessLevel = typeof ACCESS_LEVELS[number]
+export type GrantInput = z.infer<typeof grantSchema>
@@ -0,0 +1,45 @@
+/**
+ * Shared schema helpers
+ * Provides the field building blocks used by every request schema and the 422 payload shape
+ * the forms read field errors from
+ */
+
+import { z } from 'zod'
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form'
+
+export interface ValidationErrorBody {
+  error: string
+  // Keyed by dotted field path, e.g. "steps.0.id"
+  fieldErrors: Record<string, string[]>
+  // Problems with the payload as a whole
+  formErrors: string[]
+}
+
+export function requiredText(label: string) {
+  return z.string({ error: `${label} is required` })
+    .refine(value => value.trim().length > 0, `${label} is required`)
+}
+
+// Blank strings clear a field and become null; an absent field stays undefined
+export const optionalText = z.string().nullish()
+  .transform(value => value?.trim() ? value : value === undefined ? undefined : null)
+
+export function isValidationErrorBody(body: unknown): body is ValidationErrorBody {
+  return typeof body === 'object' && body !== null && 'fieldErrors' in body && 'formErrors' in body
+}
+
+/**
+ * Show the field errors of a 422 response on a react-hook-form form. Returns false when the
+ * body is not a validation error, so callers can fall back to their own handling
+ */
+export function applyValidationErrors<T extends FieldValues>(body: unknown, setError: UseFormSetError<T>): boolean {
+  if (!isValidationErrorBody(body)) return false
+
+  for (const [field, messages] of Object.entries(body.fieldErrors)) {
+    setError(field as Path<T>, { type: 'server', message: messages[0] })
+  }
+  if (body.formErrors.length > 0) {
+    setError('root', { type: 'server', message: body.formErrors.join(', ') })
+  }
+  return true
+}
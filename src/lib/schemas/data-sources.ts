@@ -0,0 +1,51 @@
+/**
+ * Data source schemas
+ * Provides the request shapes of data source creation, updates, connection dry runs, credential
+ * rotations and schema discovery
+ */
+
+import { z } from 'zod'
+import { optionalText, requiredText } from './common'
+
+export const DATA_SOURCE_TYPES = ['MYSQL', 'POSTGRESQL', 'SQLITE', 'MONGODB', 'API', 'CSV', 'JSON', 'EXCEL'] as const
+
+export const MAX_ROLLBACK_WINDOW_HOURS = 24 * 30
+
+export const MAX_CONNECTION_BUDGET = 100
+
+const dataSourceType = z.enum(DATA_SOURCE_TYPES, { error: 'Select a data source type' })
+
+export const dataSourceSchema = z.object({
+  name: requiredText('Name'),
+  type: dataSourceType,
+  connectionString: requiredText('Connection string'),
+  description: optionalText,
+  // Running job executions allowed to use the source at once
+  maxConnections: z.number().int().min(1).max(MAX_CONNECTION_BUDGET).optional()
+})
+
+export const dataSourceUpdateSchema = dataSourceSchema.partial().extend({
+  isActive: z.boolean().optional()
+})
+
+// sourceId marks a test of an edited, saved source whose redacted credentials stand for the stored ones
+export const connectionTestSchema = z.object({
+  name: z.string().nullish(),
+  type: dataSourceType,
+  connectionString: requiredText('Connection string'),
+  sourceId: z.string().nullish()
+})
+
+export const credentialRotationSchema = z.object({
+  connectionString: requiredText('Connection string'),
+  rollbackWindowHours: z.number().int().min(0).max(MAX_ROLLBACK_WINDOW_HOURS).optional()
+})
+
+export const schemaDiscoveryQuerySchema = z.object({
+  query: z.string().optional(),
+  sample: z.coerce.number().int().positive().optional(),
+  refresh: z.stringbool().optional()
+})
+
+export type DataSourceInput = z.infer<typeof dataSourceSchema>
+export type DataSourceFormValues = z.input<typeof dataSourceSchema>
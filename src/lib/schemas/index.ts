@@ -0,0 +1,15 @@
+/**
+ * Request schemas
+ * zod schemas shared by the API routes and the React forms, so both accept the same input.
+ * Nothing here may import server-only modules
+ */
+
+export * from './common'
+export * from './jobs'
+export * from './data-sources'
+export * from './workflows'
+export * from './notifications'
+export * from './tokens'
+export * from './secrets'
+export * from './workspaces'
+export * from './access'
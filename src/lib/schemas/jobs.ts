@@ -0,0 +1,105 @@
+/**
+ * Job schemas
+ * Provides the request shapes of job creation, updates, previews and execution log queries. Transform rules, cron
+ * expressions and load modes are checked here; whether the target supports the load mode is left to the routes
+ */
+
+import { z } from 'zod'
+import { validateCronExpression } from '../cron'
+import { validateTransformRules } from '../transform-rules'
+import { optionalText, requiredText } from './common'
+
+export const MAX_PREVIEW_LIMIT = 500
+
+// Risk levels double as priority classes on the job queue, CRITICAL first
+export const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const
+
+export const MAX_CONCURRENT_EXECUTIONS = 10
+
+// In increasing severity
+export const LOG_LEVELS = ['DEBUG', 'INFO', 'WARN', 'ERROR'] as const
+
+export const MAX_EXECUTION_LOG_PAGE_SIZE = 500
+
+export const LOAD_MODES = ['append', 'overwrite', 'upsert', 'scd2'] as const
+
+// Modes that match target rows by key
+const KEYED_LOAD_MODES: readonly string[] = ['upsert', 'scd2']
+
+const jobFields = z.object({
+  name: requiredText('Name'),
+  description: optionalText,
+  sourceId: requiredText('Source'),
+  targetId: requiredText('Target'),
+  query: optionalText,
+  targetTable: optionalText,
+  transformRules: optionalText,
+  schedule: optionalText,
+  watermarkColumn: optionalText,
+  loadMode: z.enum(LOAD_MODES, { error: `Load mode must be one of ${LOAD_MODES.join(', ')}` }).nullish(),
+  // Comma separated in the forms, an array from API clients
+  keyColumns: z.union([z.string(), z.array(requiredText('Key column'))]).nullish(),
+  riskLevel: z.enum(RISK_LEVELS).optional(),
+  maxConcurrentExecutions: z.number().int().min(1).max(MAX_CONCURRENT_EXECUTIONS).optional(),
+  isActive: z.boolean().optional()
+})
+
+type JobFields = Partial<z.infer<typeof jobFields>>
+
+/**
+ * Checks of a job's fields that need no context. Schedules are parsed in UTC: the timezone
+ * changes when a schedule fires, not whether it is valid. Key columns absent from an update
+ * keep the job's current ones, which only the route knows
+ */
+function refineJob(isUpdate: boolean) {
+  return (job: JobFields, ctx: z.RefinementCtx) => {
+    for (const ruleError of validateTransformRules(job.transformRules)) {
+      ctx.addIssue({ code: 'custom', path: ['transformRules'], message: `Line ${ruleError.line}: ${ruleError.message}` })
+    }
+
+    const scheduleError = job.schedule ? validateCronExpression(job.schedule) : null
+    if (scheduleError) {
+      ctx.addIssue({ code: 'custom', path: ['schedule'], message: `Invalid schedule: ${scheduleError}` })
+    }
+
+    if (job.loadMode && KEYED_LOAD_MODES.includes(job.loadMode) && !(isUpdate && job.keyColumns === undefined) &&
+        parseKeyColumns(job.keyColumns).length === 0) {
+      ctx.addIssue({ code: 'custom', path: ['keyColumns'], message: `Load mode ${job.loadMode} requires at least one key column` })
+    }
+  }
+}
+
+export const jobSchema = jobFields.superRefine(refineJob(false))
+
+// Source and target are fixed once a job exists
+export const jobUpdateSchema = jobFields.omit({ sourceId: true, targetId: true }).partial().superRefine(refineJob(true))
+
+/**
+ * Accept key columns as an array or a comma-separated string
+ */
+export function parseKeyColumns(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(column => String(column).trim()).filter(Boolean)
+  if (typeof value === 'string') return value.split(',').map(column => column.trim()).filter(Boolean)
+  return []
+}
+
+// Overrides preview unsaved edits of the query and transform rules
+export const jobPreviewSchema = z.object({
+  limit: z.number().int().min(1).max(MAX_PREVIEW_LIMIT).optional(),
+  query: z.string().nullish(),
+  transformRules: z.string().nullish()
+})
+
+export const executionLogQuerySchema = z.object({
+  // Minimum severity: WARN returns warnings and errors
+  level: z.enum(LOG_LEVELS).optional(),
+  // Case-insensitive match on the message and step name
+  search: optionalText,
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_EXECUTION_LOG_PAGE_SIZE).default(100)
+})
+
+export type JobInput = z.infer<typeof jobSchema>
+export type JobFormValues = z.input<typeof jobSchema>
+export type RiskLevel = typeof RISK_LEVELS[number]
+export type LogLevel = typeof LOG_LEVELS[number]
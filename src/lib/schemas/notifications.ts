@@ -0,0 +1,37 @@
+/**
+ * Notification schemas
+ * Provides the request shapes of single notifications, broadcasts and read-state updates
+ */
+
+import { z } from 'zod'
+import { requiredText } from './common'
+
+export const NOTIFICATION_TYPES = ['JOB_SUCCESS', 'JOB_FAILURE', 'SYSTEM_ALERT', 'DATA_SOURCE_ERROR', 'SCHEDULE_INFO'] as const
+export const NOTIFICATION_CHANNELS = ['IN_APP', 'EMAIL', 'TELEGRAM'] as const
+
+const notificationContent = {
+  type: z.enum(NOTIFICATION_TYPES),
+  title: requiredText('Title'),
+  message: requiredText('Message'),
+  channels: z.array(z.enum(NOTIFICATION_CHANNELS)).optional()
+}
+
+export const notificationSchema = z.object({
+  ...notificationContent,
+  // Defaults to the sender
+  userId: z.string().min(1).optional()
+})
+
+export const broadcastSchema = z.object({
+  ...notificationContent,
+  // ALL, like an absent role, reaches every workspace member with notifications enabled
+  userRole: z.enum(['ALL', 'ADMIN', 'USER', 'VIEWER']).optional()
+})
+
+export const notificationUpdateSchema = z.object({
+  isRead: z.boolean()
+})
+
+export type BroadcastInput = z.infer<typeof broadcastSchema>
+export type BroadcastFormValues = z.input<typeof broadcastSchema>
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number]
@@ -0,0 +1,27 @@
+/**
+ * Secret schemas
+ * Provides the request shapes of secret creation and updates, and the secret name syntax that
+ * {{secret:name}} references use as well
+ */
+
+import { z } from 'zod'
+import { optionalText, requiredText } from './common'
+
+export const SECRET_NAME = '[A-Za-z0-9_.-]+'
+export const SECRET_NAME_PATTERN = new RegExp(`^${SECRET_NAME}$`)
+
+// Values are stored as given, surrounding whitespace included
+const secretValue = z.string({ error: 'Value is required' }).min(1, 'Value is required')
+
+export const secretSchema = z.object({
+  name: requiredText('Name')
+    .regex(SECRET_NAME_PATTERN, 'Secret names may only contain letters, digits, ".", "_" and "-"'),
+  value: secretValue,
+  description: optionalText
+})
+
+// A new value rotates the secret; a description alone leaves the value as it is
+export const secretUpdateSchema = z.object({
+  value: secretValue.optional(),
+  description: optionalText
+})
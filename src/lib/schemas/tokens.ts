@@ -0,0 +1,21 @@
+/**
+ * API token schemas
+ * Provides the request shape of token issuance. Scopes are checked against the permission list by
+ * the route, which also knows the caller's own permissions
+ */
+
+import { z } from 'zod'
+import { requiredText } from './common'
+
+export const DEFAULT_TOKEN_LIFETIME_DAYS = 90
+export const MAX_TOKEN_LIFETIME_DAYS = 365
+
+export const apiTokenSchema = z.object({
+  name: requiredText('Name'),
+  scopes: z.array(requiredText('Scope'), { error: 'Scopes are required' }).min(1, 'Select at least one scope'),
+  expiresInDays: z.number().int().min(1).max(MAX_TOKEN_LIFETIME_DAYS).default(DEFAULT_TOKEN_LIFETIME_DAYS),
+  // Otherwise the token is limited to the active workspace
+  allWorkspaces: z.boolean().optional()
+})
+
+export type ApiTokenInput = z.infer<typeof apiTokenSchema>
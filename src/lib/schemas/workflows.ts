@@ -0,0 +1,69 @@
+/**
+ * Workflow schemas
+ * Provides the request shapes of workflow definitions, listings and runs. Steps and connections
+ * are only checked for the fields every step needs; the graph itself is validated by workflow-graph
+ */
+
+import { z } from 'zod'
+import { requiredText } from './common'
+
+export const WORKFLOW_STATUSES = ['DRAFT', 'ACTIVE', 'PAUSED', 'ARCHIVED'] as const
+
+// Step types carry their own settings, which the step handlers interpret
+const workflowStepSchema = z.looseObject({
+  id: requiredText('Step id'),
+  type: requiredText('Step type'),
+  depends_on: z.array(z.string()).optional()
+})
+
+const workflowConnectionSchema = z.looseObject({
+  from: requiredText('Connection source'),
+  to: requiredText('Connection target'),
+  condition: z.string().optional()
+})
+
+const workflowStatus = z.string()
+  .transform(status => status.toUpperCase())
+  .pipe(z.enum(WORKFLOW_STATUSES))
+
+export const workflowSchema = z.object({
+  name: requiredText('Name'),
+  description: z.string().nullish(),
+  status: workflowStatus.optional(),
+  steps: z.array(workflowStepSchema).optional(),
+  connections: z.array(workflowConnectionSchema).optional(),
+  trigger: z.record(z.string(), z.unknown()).nullish(),
+  resources: z.record(z.string(), z.unknown()).nullish(),
+  tags: z.array(z.string()).optional()
+})
+
+export const workflowUpdateSchema = workflowSchema.partial()
+
+export const workflowRunSchema = z.object({
+  // Values available to condition expressions
+  variables: z.record(z.string(), z.unknown()).optional()
+})
+
+function paginationQuery(defaultLimit: number) {
+  return z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(defaultLimit)
+  })
+}
+
+export const workflowListQuerySchema = paginationQuery(10).extend({
+  status: workflowStatus.optional()
+})
+
+export const workflowExecutionsQuerySchema = paginationQuery(20)
+
+// Drafts from the designer, so steps are not required to be complete yet
+export const workflowAssistantSchema = z.object({
+  workflow: z.looseObject({
+    steps: z.array(z.looseObject({ type: z.string().optional() })).optional()
+  }, { error: 'Workflow is required' }),
+  user_prompt: z.string().optional(),
+  context: z.record(z.string(), z.unknown()).optional()
+})
+
+export type WorkflowInput = z.infer<typeof workflowSchema>
@@ -0,0 +1,53 @@
+/**
+ * Workspace schemas
+ * Provides the request shapes of workspaces, their members and teams, and the switch of the
+ * active workspace
+ */
+
+import { z } from 'zod'
+import { optionalText, requiredText } from './common'
+
+export const WORKSPACE_ROLES = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'] as const
+export const WORKSPACE_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+/**
+ * URL-safe slug derived from a workspace name, e.g. "Risk & Finance" -> "risk-finance"
+ */
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+export const workspaceSchema = z.object({
+  name: requiredText('Name'),
+  // Derived from the name when absent
+  slug: z.string().nullish(),
+  description: optionalText
+})
+  .transform(({ slug, ...workspace }) => ({ ...workspace, slug: slug || slugify(workspace.name) }))
+  .refine(workspace => WORKSPACE_SLUG_PATTERN.test(workspace.slug), {
+    path: ['slug'],
+    message: 'Workspace slugs may only contain lowercase letters, digits and single "-" separators'
+  })
+
+export const activeWorkspaceSchema = z.object({
+  workspaceId: requiredText('Workspace')
+})
+
+// Adds a member or changes their role
+export const workspaceMemberSchema = z.object({
+  userId: requiredText('User'),
+  role: z.enum(WORKSPACE_ROLES).default('MEMBER')
+})
+
+// Adding a user to a team, and ?userId= when removing a workspace or team member
+export const memberSchema = z.object({
+  userId: requiredText('User')
+})
+
+export const teamSchema = z.object({
+  name: requiredText('Name'),
+  description: optionalText
+})
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number]
+export type WorkspaceInput = z.infer<typeof workspaceSchema>
@@ -0,0 +1,369 @@
+/**
+ * Secret Vault
+ * Envelope encryption for credentials: each secret is sealed with its own AES-256-GCM data key
+ * and the data key is sealed with a master key kept in a local file. Connection strings hold
+ * {{secret:name}} references that are resolved, and audited, only when a connector is opened.
+ * A connection string may only reference the secrets split out of its own data source and the
+ * standalone secrets of its workspace
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { db } from './db'
+import { BankingTransactionManager } from './banking-transaction-manager'
+import type { ConnectorSource } from './connectors'
+import { SECRET_NAME, SECRET_NAME_PATTERN } from './schemas'
+
+export { SECRET_NAME_PATTERN } from './schemas'
+
+const ALGORITHM = 'aes-256-gcm'
+const KEY_BYTES = 32
+const IV_BYTES = 12
+
+export const REDACTED = '****'
+
+const SECRET_REFERENCE = new RegExp(`\\{\\{\\s*secret:(${SECRET_NAME})\\s*\\}\\}`, 'g')
+const REFERENCE_VALUE = /^\{\{\s*secret:[^}]*\}\}$/
+
+// user:password@ in URL-style connection strings
+const URL_PASSWORD = /^([a-z][a-z0-9+.-]*:\/\/[^:/@\s]*:)(\{\{[^}]*\}\}|[^@/\s]+)(@)/i
+// password=..., token=... in query strings and key=value DSNs
+const CREDENTIAL_PARAM = /(^|[?&;\s])(password|passwd|pwd|token|access_token|api_key|apikey|secret|client_secret)=(\{\{[^}]*\}\}|[^&;\s]+)/gi
+
+export type SecretPurpose =
+  | 'JOB_EXECUTION'
+  | 'CONNECTION_TEST'
+  | 'SCHEMA_DISCOVERY'
+  | 'JOB_PREVIEW'
+  | 'WORKFLOW_STEP'
+  | 'CREDENTIAL_ROTATION'
+
+// Owner of the connection string being resolved; workspaceId null stands for data sources
+// and workflows outside every workspace
+export interface SecretScope {
+  sourceId?: string | null
+  workspaceId?: string | null
+}
+
+// Recorded with every decrypt so the audit log shows who needed the credential and why
+export interface SecretAccessContext extends SecretScope {
+  purpose: SecretPurpose
+  jobId?: string | null
+  executionId?: string | null
+}
+
+export interface SecretMetadata {
+  id: string
+  name: string
+  sourceId: string | null
+  workspaceId: string | null
+  description: string | null
+  lastAccessedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+interface SealedValue {
+  ciphertext: string
+  iv: string
+  authTag: string
+}
+
+interface MasterKey {
+  key: Buffer
+  id: string
+}
+
+/**
+ * Names of the secrets a connection string references, without duplicates
+ */
+export function findSecretReferences(connectionString: string): string[] {
+  return [...new Set([...connectionString.matchAll(SECRET_REFERENCE)].map(match => match[1]))]
+}
+
+/**
+ * Replace inline passwords and tokens with the redaction marker; secret references are kept
+ */
+export function redactConnectionString(connectionString: string): string {
+  return connectionString
+    .replace(URL_PASSWORD, (match, prefix, value, suffix) =>
+      REFERENCE_VALUE.test(value) ? match : `${prefix}${REDACTED}${suffix}`)
+    .replace(CREDENTIAL_PARAM, (match, lead, key, value) =>
+      REFERENCE_VALUE.test(value) ? match : `${lead}${key}=${REDACTED}`)
+}
+
+export function redactDataSource<T extends { connectionString: string }>(source: T): T {
+  return { ...source, connectionString: redactConnectionString(source.connectionString) }
+}
+
+/**
+ * Split inline credentials out of a connection string; each is replaced by a reference to the
+ * secret name built for its field (password, token, api_key, ...)
+ */
+export function extractCredentials(
+  connectionString: string,
+  secretName: (field: string) => string
+): { template: string; credentials: { name: string; value: string }[] } {
+  const credentials: { name: string; value: string }[] = []
+  const take = (field: string, value: string) => {
+    let name = secretName(field)
+    for (let suffix = 2; credentials.some(credential => credential.name === name); suffix++) {
+      name = secretName(`${field}-${suffix}`)
+    }
+    credentials.push({ name, value })
+    return `{{secret:${name}}}`
+  }
+
+  const template = connectionString
+    .replace(URL_PASSWORD, (match, prefix, value, suffix) =>
+      REFERENCE_VALUE.test(value) ? match : `${prefix}${take('password', value)}${suffix}`)
+    .replace(CREDENTIAL_PARAM, (match, lead, key, value) =>
+      REFERENCE_VALUE.test(value) ? match : `${lead}${key}=${take(key.toLowerCase(), value)}`)
+
+  return { template, credentials }
+}
+
+export class SecretVault {
+  private static instance: SecretVault
+  private masterKey: Promise<MasterKey> | null = null
+
+  static getInstance(): SecretVault {
+    if (!SecretVault.instance) {
+      SecretVault.instance = new SecretVault()
+    }
+    return SecretVault.instance
+  }
+
+  /**
+   * Create or replace a secret; the value is sealed with a fresh data key every time
+   */
+  async setSecret(
+    name: string,
+    value: string,
+    options: { description?: string | null; sourceId?: string | null; workspaceId?: string | null } = {}
+  ): Promise<SecretMetadata> {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name "${name}". Use letters, digits, ".", "_" and "-"`)
+    }
+
+    const sealed = await this.seal(name, value)
+    const secret = await db.secret.upsert({
+      where: { name },
+      create: {
+        name,
+        ...sealed,
+        description: options.description ?? null,
+        sourceId: options.sourceId ?? null,
+        workspaceId: options.sourceId ? null : options.workspaceId ?? null
+      },
+      update: {
+        ...sealed,
+        ...(options.description !== undefined && { description: options.description })
+      }
+    })
+    return toMetadata(secret)
+  }
+
+  /**
+   * Decrypt a secret the context's scope may use. The access is written to the immutable audit
+   * log first; if that fails the secret is not decrypted
+   */
+  async getSecret(name: string, context: SecretAccessContext): Promise<string> {
+    const secret = await db.secret.findUnique({ where: { name } })
+    // Secrets of other data sources and workspaces are reported like missing ones
+    if (!secret || !isUsableIn(secret, context)) {
+      throw new Error(`Secret not found: ${name}`)
+    }
+
+    await BankingTransactionManager.getInstance().createAuditEntry(
+      context.jobId ?? null,
+      'SECRET_DECRYPTED',
+      { secret: name, purpose: context.purpose, sourceId: context.sourceId ?? null },
+      context.executionId ?? undefined
+    )
+
+    const value = await this.open(secret)
+    await db.secret.update({
+      where: { id: secret.id },
+      data: { lastAccessedAt: new Date() }
+    })
+    return value
+  }
+
+  async listSecrets(): Promise<SecretMetadata[]> {
+    const secrets = await db.secret.findMany({ orderBy: { name: 'asc' } })
+    return secrets.map(toMetadata)
+  }
+
+  async deleteSecret(name: string): Promise<void> {
+    await db.secret.delete({ where: { name } })
+  }
+
+  /**
+   * Substitute every {{secret:name}} reference with the decrypted value
+   */
+  async resolveConnectionString(connectionString: string, context: SecretAccessContext): Promise<string> {
+    const values = new Map<string, string>()
+    for (const name of findSecretReferences(connectionString)) {
+      values.set(name, await this.getSecret(name, context))
+    }
+    return connectionString.replace(SECRET_REFERENCE, (_, name: string) => values.get(name)!)
+  }
+
+  /**
+   * Referenced secrets that do not exist or belong to another data source or workspace, so a
+   * connection string is not saved with a reference it cannot resolve
+   */
+  async findUnusableSecrets(connectionStrings: string | string[], scope: SecretScope): Promise<string[]> {
+    const names = [...new Set([connectionStrings].flat().flatMap(findSecretReferences))]
+    if (names.length === 0) return []
+
+    const existing = await db.secret.findMany({
+      where: { name: { in: names } },
+      select: { name: true, sourceId: true, workspaceId: true }
+    })
+    const usable = new Set(existing.filter(secret => isUsableIn(secret, scope)).map(secret => secret.name))
+    return names.filter(name => !usable.has(name))
+  }
+
+  async resolveSource<T extends ConnectorSource>(source: T, context: SecretAccessContext): Promise<T> {
+    return { ...source, connectionString: await this.resolveConnectionString(source.connectionString, context) }
+  }
+
+  /**
+   * Move inline credentials of a data source into the vault and return the connection string
+   * to store instead; secrets split out earlier that are no longer referenced are removed
+   */
+  async protectConnectionString(sourceId: string, connectionString: string): Promise<string> {
+    const template = await this.sealCredentials(sourceId, connectionString, field => `datasource-${sourceId}-${field}`)
+    await this.pruneSourceSecrets(sourceId, [template])
+    return template
+  }
+
+  /**
+   * Seal the inline credentials of a connection string as secrets owned by the data source,
+   * named by secretName, and return the connection string referencing them
+   */
+  async sealCredentials(sourceId: string, connectionString: string, secretName: (field: string) => string): Promise<string> {
+    const { template, credentials } = extractCredentials(connectionString, secretName)
+
+    for (const credential of credentials) {
+      await this.setSecret(credential.name, credential.value, {
+        sourceId,
+        description: 'Credential from the data source connection string'
+      })
+    }
+    return template
+  }
+
+  /**
+   * Delete the secrets owned by a data source that none of the given connection strings reference
+   */
+  async pruneSourceSecrets(sourceId: string, connectionStrings: string[]): Promise<void> {
+    await db.secret.deleteMany({
+      where: { sourceId, name: { notIn: connectionStrings.flatMap(findSecretReferences) } }
+    })
+  }
+
+  private async seal(name: string, value: string): Promise<SealedValue & { encryptedKey: string; masterKeyId: string }> {
+    const masterKey = await this.loadMasterKey()
+    const dataKey = randomBytes(KEY_BYTES)
+    const sealedValue = encrypt(dataKey, Buffer.from(value, 'utf8'), name)
+    const sealedKey = encrypt(masterKey.key, dataKey, name)
+
+    return {
+      ...sealedValue,
+      encryptedKey: [sealedKey.iv, sealedKey.authTag, sealedKey.ciphertext].join('.'),
+      masterKeyId: masterKey.id
+    }
+  }
+
+  private async open(secret: SealedValue & { name: string; encryptedKey: string; masterKeyId: string }): Promise<string> {
+    const masterKey = await this.loadMasterKey()
+    if (secret.masterKeyId !== masterKey.id) {
+      throw new Error(`Secret ${secret.name} was sealed with master key ${secret.masterKeyId}, but ${masterKey.id} is loaded`)
+    }
+
+    const [iv, authTag, ciphertext] = secret.encryptedKey.split('.')
+    const dataKey = decrypt(masterKey.key, { iv, authTag, ciphertext }, secret.name)
+    return decrypt(dataKey, secret, secret.name).toString('utf8')
+  }
+
+  private loadMasterKey(): Promise<MasterKey> {
+    if (!this.masterKey) {
+      const file = process.env.SECRETS_MASTER_KEY_FILE || path.join(process.cwd(), '.secrets', 'master.key')
+      this.masterKey = readOrCreateMasterKey(file).catch(error => {
+        this.masterKey = null
+        throw error
+      })
+    }
+    return this.masterKey
+  }
+}
+
+async function readOrCreateMasterKey(file: string): Promise<MasterKey> {
+  let encoded: string
+  try {
+    encoded = (await fs.readFile(file, 'utf8')).trim()
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error
+
+    encoded = randomBytes(KEY_BYTES).toString('base64')
+    await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 })
+    try {
+      await fs.writeFile(file, encoded + '\n', { mode: 0o600, flag: 'wx' })
+      console.warn(`Created secrets master key at ${file}; back it up, sealed secrets cannot be decrypted without it`)
+    } catch (writeError: any) {
+      if (writeError?.code !== 'EEXIST') throw writeError
+      // Another process created the key first
+      encoded = (await fs.readFile(file, 'utf8')).trim()
+    }
+  }
+
+  const key = Buffer.from(encoded, /^[0-9a-f]{64}$/i.test(encoded) ? 'hex' : 'base64')
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Master key in ${file} must be ${KEY_BYTES} bytes, base64 or hex encoded`)
+  }
+  return { key, id: createHash('sha256').update(key).digest('hex').slice(0, 16) }
+}
+
+// The secret name is bound as additional authenticated data, so sealed values cannot be swapped between secrets
+function encrypt(key: Buffer, data: Buffer, name: string): SealedValue {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  cipher.setAAD(Buffer.from(name, 'utf8'))
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()])
+
+  return {
+    ciphertext: ciphertext.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64')
+  }
+}
+
+function decrypt(key: Buffer, sealed: SealedValue, name: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(sealed.iv, 'base64'))
+  decipher.setAAD(Buffer.from(name, 'utf8'))
+  decipher.setAuthTag(Buffer.from(sealed.authTag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()])
+}
+
+function isUsableIn(secret: { sourceId: string | null; workspaceId: string | null }, scope: SecretScope): boolean {
+  return secret.sourceId
+    ? secret.sourceId === scope.sourceId
+    : secret.workspaceId === (scope.workspaceId ?? null)
+}
+
+function toMetadata(secret: any): SecretMetadata {
+  return {
+    id: secret.id,
+    name: secret.name,
+    sourceId: secret.sourceId,
+    workspaceId: secret.workspaceId,
+    description: secret.description,
+    lastAccessedAt: secret.lastAccessedAt,
+    createdAt: secret.createdAt,
+    updatedAt: secret.updatedAt
+  }
+}
@@ -1,76 +1,158 @@
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
+import { NextRequest } from 'next/server';
 import { db } from './db';
+import { authenticate, AuthenticatedRequest, hasPermission, PERMISSIONS } from './auth';
+import { accessFilter, authorizeResource, findInaccessible, ResourceType } from './access-control';
+import { WORKSPACE_HEADER, workspaceScope } from './workspace';
+import {
+  ExecutionEventBus,
+  ExecutionLogEvent,
+  ExecutionLogLevel,
+  ExecutionProgressEvent,
+  LOG_LEVELS
+} from './execution-events';
+import { SystemStats, SystemStatsSnapshot, UNHEALTHY_SOURCE_LIMIT } from './system-stats';
+
+// Entries sent when a client subscribes to logs, newest first
+const RECENT_LOG_LIMIT = 100;
+// How long a socket's view access to a job, workflow or data source is trusted before it is checked again
+const VISIBILITY_TTL_MS = 30000;
+// Handshake headers that carry the caller's session, API token, workspace and address
+const FORWARDED_HEADERS = ['cookie', 'authorization', 'x-forwarded-for', 'x-real-ip', WORKSPACE_HEADER];
+
+interface LogFilters {
+  jobId?: string;
+  level?: ExecutionLogLevel;
+}
+
+interface VisibleResource {
+  type: ResourceType;
+  id: string;
+}
+
+/**
+ * Sockets authenticate like API requests: with the next-auth session cookie sent along with the
+ * handshake, or with an API token passed as `auth: { token }`. Every room and log replay is then
+ * limited to the caller's active workspace and the resources they may view. `apiOrigin` is where
+ * run-job requests are forwarded to, with the caller's credentials
+ */
+export const setupSocket = (io: Server, apiOrigin = 'http://127.0.0.1:3000') => {
+  io.use(async (socket, next) => {
+    try {
+      socket.data.auth = await authenticate(handshakeRequest(socket));
+      socket.data.visibility = new Map<string, { visible: boolean; checkedAt: number }>();
+      next();
+    } catch (error) {
+      next(new Error(error instanceof Error && error.message.startsWith('Permission denied') ? error.message : 'Unauthorized'));
+    }
+  });
+
+  // Progress and log events of executions running in any process, including the job workers
+  ExecutionEventBus.getInstance().subscribe((event) => {
+    if (event.type === 'log') {
+      broadcastLog(io, event);
+    } else {
+      broadcastExecutionProgress(io, event);
+    }
+  });
+
+  scheduleStatsBroadcast(io);
 
-export const setupSocket = (io: Server) => {
   io.on('connection', (socket) => {
     console.log('Client connected:', socket.id);
     
     // Join room for real-time updates
     socket.on('join-dashboard', () => {
-      socket.join('dashboard');
+      if (!requirePermission(socket, 'join-dashboard', PERMISSIONS.ANALYTICS_VIEW)) return;
+      socket.join(['dashboard', statsRoom(workspaceOf(socket))]);
       console.log(`Socket ${socket.id} joined dashboard room`);
     });
 
     // Join job-specific room for job updates
-    socket.on('join-job', (jobId: string) => {
+    socket.on('join-job', async (jobId: string) => {
+      if (!await authorizeRoom(socket, 'join-job', 'JOB', jobId)) return;
       socket.join(`job-${jobId}`);
       console.log(`Socket ${socket.id} joined job room for ${jobId}`);
     });
 
-    // Handle job execution requests
+    // Join workflow-specific room for workflow execution updates
+    socket.on('join-workflow', async (workflowId: string) => {
+      if (!await authorizeRoom(socket, 'join-workflow', 'WORKFLOW', workflowId)) return;
+      socket.join(`workflow-${workflowId}`);
+    });
+
+    // Handle job execution requests; the run route checks the caller's permissions and access
     socket.on('run-job', async (jobId: string) => {
+      if (typeof jobId !== 'string' || !jobId) {
+        socket.emit('job-error', { jobId, error: 'Job id required' });
+        return;
+      }
+
       try {
-        const response = await fetch(`/api/jobs/${jobId}/run`, {
+        const response = await fetch(new URL(`/api/jobs/${encodeURIComponent(jobId)}/run`, apiOrigin), {
           method: 'POST',
+          headers: forwardedHeaders(socket),
         });
-        
+        const data = await response.json().catch(() => ({}));
+
         if (response.ok) {
-          const data = await response.json();
           socket.emit('job-started', { jobId, executionId: data.executionId });
           
           // Broadcast to dashboard
-          io.to('dashboard').emit('job-status-update', {
+          emitToViewers(io, 'dashboard', { type: 'JOB', id: jobId }, 'job-status-update', {
             jobId,
             status: 'running',
             timestamp: new Date().toISOString()
           });
+        } else {
+          socket.emit('job-error', { jobId, error: data.error ?? 'Failed to start job' });
         }
       } catch (error) {
         socket.emit('job-error', { jobId, error: 'Failed to start job' });
       }
     });
 
-    // Handle real-time log requests
-    socket.on('subscribe-logs', (filters?: { jobId?: string; level?: string }) => {
+    // Handle real-time log requests; subscribing again replaces the filters
+    socket.on('subscribe-logs', async (filters?: { jobId?: string; level?: string }) => {
+      if (!requirePermission(socket, 'subscribe-logs', PERMISSIONS.JOB_VIEW)) return;
+
+      const logFilters = parseLogFilters(filters);
+      if (logFilters.jobId && !await authorizeRoom(socket, 'subscribe-logs', 'JOB', logFilters.jobId)) return;
+
+      socket.data.logFilters = logFilters;
       socket.join('logs');
-      
-      // Send recent logs
-      const getRecentLogs = async () => {
-        try {
-          // For now, send empty logs until database is properly migrated
-          socket.emit('logs-data', []);
-        } catch (error) {
-          console.error('Error fetching logs:', error);
-        }
-      };
-      
-      getRecentLogs();
+
+      try {
+        const recent = await db.syncLog.findMany({
+          where: {
+            ...(logFilters.jobId ? { jobId: logFilters.jobId } : visibleLogsFilter(socket.data.auth)),
+            ...(logFilters.level && { level: logFilters.level })
+          },
+          orderBy: { timestamp: 'desc' },
+          take: RECENT_LOG_LIMIT,
+          include: {
+            job: { select: { name: true } },
+            source: { select: { name: true } }
+          }
+        });
+        socket.emit('logs-data', recent);
+      } catch (error) {
+        console.error('Error fetching logs:', error);
+        socket.emit('logs-data', []);
+      }
+    });
+
+    socket.on('unsubscribe-logs', () => {
+      socket.leave('logs');
+      delete socket.data.logFilters;
     });
 
     // Handle system stats requests
     socket.on('get-stats', async () => {
+      if (!requirePermission(socket, 'get-stats', PERMISSIONS.ANALYTICS_VIEW)) return;
       try {
-        // For now, return static stats until database is properly migrated
-        const stats = {
-          totalJobs: 0,
-          activeJobs: 0,
-          completedJobs: 0,
-          failedJobs: 0,
-          totalDataSources: 0,
-          successRate: 0
-        };
-
-        socket.emit('stats-data', stats);
+        const stats = await SystemStats.getInstance().getSnapshot(workspaceOf(socket));
+        socket.emit('stats-data', await statsFor(socket, stats));
       } catch (error) {
         console.error('Error fetching stats:', error);
       }
@@ -89,16 +171,228 @@ export const setupSocket = (io: Server) => {
   });
 };
 
-// Helper functions to broadcast updates
+// Helper functions to broadcast updates; job and workflow rooms were joined after an access check,
+// the shared dashboard and log rooms are filtered per socket
 export const broadcastJobUpdate = (io: Server, jobId: string, update: any) => {
   io.to(`job-${jobId}`).emit('job-update', { jobId, ...update });
-  io.to('dashboard').emit('job-status-update', { jobId, ...update });
+  emitToViewers(io, 'dashboard', { type: 'JOB', id: jobId }, 'job-status-update', { jobId, ...update });
+};
+
+export const broadcastExecutionProgress = (io: Server, event: ExecutionProgressEvent) => {
+  if (event.jobId) {
+    broadcastJobUpdate(io, event.jobId, event);
+  }
+  if (event.workflowId) {
+    io.to(`workflow-${event.workflowId}`).emit('workflow-update', event);
+    emitToViewers(io, 'dashboard', { type: 'WORKFLOW', id: event.workflowId }, 'workflow-status-update', event);
+  }
 };
 
-export const broadcastLog = (io: Server, log: any) => {
-  io.to('logs').emit('new-log', log);
+// Log subscribers each get only the entries matching their own filters and access
+export const broadcastLog = (io: Server, log: ExecutionLogEvent) => {
+  const resource = logResource(log);
+  if (resource) {
+    emitToViewers(io, 'logs', resource, 'new-log', log, socket => matchesLogFilters(socket, log));
+  }
+  if (log.jobId) {
+    io.to(`job-${log.jobId}`).emit('job-log', log);
+  }
 };
 
-export const broadcastSystemAlert = (io: Server, alert: any) => {
-  io.to('dashboard').emit('system-alert', alert);
-};
\ No newline at end of file
+// Alerts concern one workspace, so they go to its dashboard sockets only
+export const broadcastSystemAlert = (io: Server, workspaceId: string | null, alert: any) => {
+  io.to(statsRoom(workspaceId)).emit('system-alert', alert);
+};
+
+/**
+ * The handshake as a request for authenticate(); socket.io clients that cannot set headers pass
+ * `auth: { token, workspaceId }` instead
+ */
+function handshakeRequest(socket: Socket): NextRequest {
+  const headers = forwardedHeaders(socket);
+  const { auth, address } = socket.handshake;
+
+  if (typeof auth?.token === 'string' && !headers.authorization) {
+    headers.authorization = `Bearer ${auth.token}`;
+  }
+  if (typeof auth?.workspaceId === 'string') {
+    headers[WORKSPACE_HEADER] = auth.workspaceId;
+  }
+  if (!headers['x-forwarded-for'] && !headers['x-real-ip']) {
+    headers['x-real-ip'] = address;
+  }
+  return new NextRequest(new URL(socket.nsp.server.path(), 'http://localhost'), { headers });
+}
+
+function forwardedHeaders(socket: Socket): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_HEADERS) {
+    const value = socket.handshake.headers[name];
+    if (typeof value === 'string') {
+      headers[name] = value;
+    }
+  }
+  return headers;
+}
+
+function requirePermission(socket: Socket, event: string, permission: string): boolean {
+  if (hasPermission(socket.data.auth, permission)) return true;
+  socket.emit('access-denied', { event, error: `Permission denied: ${permission}` });
+  return false;
+}
+
+/**
+ * Check that the socket may view a job or workflow before it joins the room of its updates
+ */
+async function authorizeRoom(socket: Socket, event: string, type: ResourceType, id: string): Promise<boolean> {
+  if (!requirePermission(socket, event, PERMISSIONS.JOB_VIEW)) return false;
+  if (typeof id !== 'string' || !id) {
+    socket.emit('access-denied', { event, error: 'Resource id required' });
+    return false;
+  }
+
+  const denied = await authorizeResource(socket.data.auth, type, id, 'VIEW');
+  if (denied) {
+    socket.emit('access-denied', { event, id, error: (await denied.json()).error });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Sync log where clause matching the entries of the jobs, and the job-less entries of the data
+ * sources, the caller may view in the active workspace
+ */
+function visibleLogsFilter(auth: AuthenticatedRequest): Record<string, any> {
+  const scope = workspaceScope(auth);
+  const user = auth.user!;
+  return {
+    OR: [
+      { job: { is: { ...scope, ...accessFilter(user, 'JOB') } } },
+      ...(hasPermission(auth, PERMISSIONS.DATASOURCE_VIEW)
+        ? [{ jobId: null, source: { is: { ...scope, ...accessFilter(user, 'DATA_SOURCE') } } }]
+        : [])
+    ]
+  };
+}
+
+// The resource whose view access decides who sees a log entry
+function logResource(log: ExecutionLogEvent): VisibleResource | null {
+  if (log.jobId) return { type: 'JOB', id: log.jobId };
+  if (log.workflowId) return { type: 'WORKFLOW', id: log.workflowId };
+  if (log.sourceId) return { type: 'DATA_SOURCE', id: log.sourceId };
+  return null;
+}
+
+/**
+ * Emit to the sockets of a room that may view the resource the event is about
+ */
+function emitToViewers(
+  io: Server,
+  room: string,
+  resource: VisibleResource,
+  event: string,
+  payload: any,
+  accepts: (socket: Socket) => boolean = () => true
+) {
+  for (const socket of io.sockets.sockets.values()) {
+    if (!socket.rooms.has(room) || !accepts(socket)) continue;
+
+    canView(socket, resource)
+      .then(visible => {
+        if (visible) socket.emit(event, payload);
+      })
+      .catch(error => console.error(`Error checking access of socket ${socket.id}:`, error));
+  }
+}
+
+async function canView(socket: Socket, resource: VisibleResource): Promise<boolean> {
+  const auth: AuthenticatedRequest = socket.data.auth;
+  const permission = resource.type === 'DATA_SOURCE' ? PERMISSIONS.DATASOURCE_VIEW : PERMISSIONS.JOB_VIEW;
+  if (!hasPermission(auth, permission)) return false;
+
+  const key = `${resource.type}:${resource.id}`;
+  const cached = socket.data.visibility.get(key);
+  if (cached && Date.now() - cached.checkedAt < VISIBILITY_TTL_MS) {
+    return cached.visible;
+  }
+
+  const visible = (await findInaccessible(auth, resource.type, [resource.id], 'VIEW')).length === 0;
+  socket.data.visibility.set(key, { visible, checkedAt: Date.now() });
+  return visible;
+}
+
+function parseLogFilters(filters?: { jobId?: string; level?: string }): LogFilters {
+  const level = filters?.level?.toUpperCase() as ExecutionLogLevel | undefined;
+  return {
+    ...(typeof filters?.jobId === 'string' && filters.jobId && { jobId: filters.jobId }),
+    ...(level && LOG_LEVELS.includes(level) && { level })
+  };
+}
+
+function matchesLogFilters(socket: Socket, log: ExecutionLogEvent): boolean {
+  const filters: LogFilters = socket.data.logFilters ?? {};
+  return (!filters.jobId || log.jobId === filters.jobId) && (!filters.level || log.level === filters.level);
+}
+
+function workspaceOf(socket: Socket): string | null {
+  return (socket.data.auth as AuthenticatedRequest).workspace?.id ?? null;
+}
+
+// Dashboard sockets of one workspace, which all receive that workspace's stats
+function statsRoom(workspaceId: string | null): string {
+  return `dashboard:${workspaceId ?? 'none'}`;
+}
+
+/**
+ * A workspace's stats as one socket may see them: the counts are shared, but unhealthy data
+ * sources are only named to members who may view them
+ */
+async function statsFor(socket: Socket, snapshot: SystemStatsSnapshot): Promise<SystemStatsSnapshot> {
+  const auth: AuthenticatedRequest = socket.data.auth;
+  if (!hasPermission(auth, PERMISSIONS.DATASOURCE_VIEW)) {
+    return { ...snapshot, unhealthyDataSources: [] };
+  }
+
+  const sources = snapshot.unhealthyDataSources;
+  const hidden = new Set(await findInaccessible(auth, 'DATA_SOURCE', sources.map(source => source.id), 'VIEW'));
+  return {
+    ...snapshot,
+    unhealthyDataSources: sources.filter(source => !hidden.has(source.id)).slice(0, UNHEALTHY_SOURCE_LIMIT)
+  };
+}
+
+// Push fresh stats to the workspaces with someone on the dashboard; the interval is re-read every round
+function scheduleStatsBroadcast(io: Server) {
+  const stats = SystemStats.getInstance();
+
+  const broadcast = async () => {
+    const workspaces = new Set<string | null>();
+    for (const socketId of io.sockets.adapter.rooms.get('dashboard') ?? []) {
+      const socket = io.sockets.sockets.get(socketId);
+      if (socket) workspaces.add(workspaceOf(socket));
+    }
+
+    for (const workspaceId of workspaces) {
+      try {
+        const snapshot = await stats.getSnapshot(workspaceId);
+        for (const socketId of io.sockets.adapter.rooms.get(statsRoom(workspaceId)) ?? []) {
+          const socket = io.sockets.sockets.get(socketId);
+          if (!socket) continue;
+          statsFor(socket, snapshot)
+            .then(visibleStats => socket.emit('stats-data', visibleStats))
+            .catch(error => console.error(`Error checking access of socket ${socket.id}:`, error));
+        }
+      } catch (error) {
+        console.error(`Error broadcasting stats of workspace ${workspaceId ?? 'none'}:`, error);
+      }
+    }
+
+    const { refreshIntervalSeconds } = await stats.getConfig();
+    setTimeout(broadcast, refreshIntervalSeconds * 1000).unref();
+  };
+
+  stats.getConfig().then(({ refreshIntervalSeconds }) => {
+    setTimeout(broadcast, refreshIntervalSeconds * 1000).unref();
+  });
+}
@@ -0,0 +1,293 @@
+/**
+ * System Stats
+ * Provides the live figures of the dashboards: jobs by status, execution success rates and
+ * throughput over the configured windows, and data source health judged from recent sync logs.
+ * Every snapshot covers one workspace (null: the resources outside every workspace) and is shared
+ * between replicas through that workspace's dashboard cache entry, so one is computed at most once
+ * per refresh interval however many of its members ask
+ */
+
+import { db } from './db'
+import { cacheManager, CACHE_CONFIG, CACHE_KEYS } from './cache'
+
+export type DataSourceHealth = 'HEALTHY' | 'DEGRADED' | 'FAILING' | 'INACTIVE' | 'UNKNOWN'
+
+export interface SystemStatsConfig {
+  // Windows the success rate and throughput are reported over
+  windowsHours: number[]
+  // Sync logs of this period decide the health of a data source
+  healthWindowHours: number
+  // How often snapshots are pushed to the dashboard room
+  refreshIntervalSeconds: number
+}
+
+export interface ExecutionWindowStats {
+  hours: number
+  completed: number
+  failed: number
+  cancelled: number
+  // Percentage of completed among completed and failed executions; null when there were none
+  successRate: number | null
+  recordsProcessed: number
+  avgThroughputRecordsPerSec: number | null
+  peakThroughputRecordsPerSec: number | null
+}
+
+export interface DataSourceHealthEntry {
+  id: string
+  name: string
+  type: string
+  health: DataSourceHealth
+  errors: number
+  warnings: number
+  lastErrorAt: string | null
+  lastSynced: string | null
+}
+
+export interface SystemStatsSnapshot {
+  totalJobs: number
+  activeJobs: number
+  completedJobs: number
+  failedJobs: number
+  totalDataSources: number
+  activeDataSources: number
+  totalRecordsProcessed: number
+  // Success rate of the longest window, 0 when it had no settled executions
+  successRate: number
+  jobsByStatus: Record<string, number>
+  queuedExecutions: number
+  windows: ExecutionWindowStats[]
+  dataSourceHealth: Record<DataSourceHealth, number>
+  // FAILING first, then DEGRADED; members only receive the first UNHEALTHY_SOURCE_LIMIT they may view
+  unhealthyDataSources: DataSourceHealthEntry[]
+  generatedAt: string
+}
+
+const SETTINGS_KEY = 'dashboard-stats'
+const CONFIG_TTL_MS = 30000
+const MIN_REFRESH_INTERVAL_SECONDS = 5
+export const UNHEALTHY_SOURCE_LIMIT = 10
+
+const JOB_STATUSES = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'PAUSED']
+
+const DEFAULT_CONFIG: SystemStatsConfig = {
+  windowsHours: [1, 24, 168],
+  healthWindowHours: 24,
+  refreshIntervalSeconds: 30
+}
+
+export class SystemStats {
+  private static instance: SystemStats
+  private config: SystemStatsConfig | null = null
+  private configLoadedAt = 0
+  private pending = new Map<string | null, Promise<SystemStatsSnapshot>>()
+
+  static getInstance(): SystemStats {
+    if (!SystemStats.instance) {
+      SystemStats.instance = new SystemStats()
+    }
+    return SystemStats.instance
+  }
+
+  /**
+   * Return the cached snapshot while it is younger than the refresh interval, otherwise
+   * compute and cache a new one; cache failures only cost a recomputation
+   */
+  async getSnapshot(workspaceId: string | null): Promise<SystemStatsSnapshot> {
+    const config = await this.getConfig()
+    // One snapshot per workspace rather than one per user
+    const cacheKey = CACHE_KEYS.DASHBOARD_DATA(`workspace:${workspaceId ?? 'none'}`)
+    const cached = await cacheManager.get<SystemStatsSnapshot>(cacheKey).catch(error => {
+      console.warn('Dashboard stats cache read failed:', error)
+      return null
+    })
+    if (cached && Date.now() - Date.parse(cached.generatedAt) < config.refreshIntervalSeconds * 1000) {
+      return cached
+    }
+
+    // Concurrent requests in this process share one computation
+    let pending = this.pending.get(workspaceId)
+    if (!pending) {
+      pending = this.compute(config, workspaceId)
+        .then(async snapshot => {
+          await cacheManager.set(cacheKey, snapshot, CACHE_CONFIG.DASHBOARD_DATA.ttl).catch(error => {
+            console.warn('Dashboard stats cache write failed:', error)
+          })
+          return snapshot
+        })
+        .finally(() => {
+          this.pending.delete(workspaceId)
+        })
+      this.pending.set(workspaceId, pending)
+    }
+    return pending
+  }
+
+  async getConfig(): Promise<SystemStatsConfig> {
+    if (this.config && Date.now() - this.configLoadedAt < CONFIG_TTL_MS) {
+      return this.config
+    }
+
+    try {
+      const setting = await db.systemSettings.findUnique({ where: { key: SETTINGS_KEY } })
+      const config: SystemStatsConfig = { ...DEFAULT_CONFIG, ...(setting ? JSON.parse(setting.value) : {}) }
+      const windowsHours = config.windowsHours.filter(hours => hours > 0).sort((a, b) => a - b)
+      this.config = {
+        windowsHours: windowsHours.length > 0 ? windowsHours : DEFAULT_CONFIG.windowsHours,
+        healthWindowHours: config.healthWindowHours > 0 ? config.healthWindowHours : DEFAULT_CONFIG.healthWindowHours,
+        refreshIntervalSeconds: Math.max(config.refreshIntervalSeconds, MIN_REFRESH_INTERVAL_SECONDS)
+      }
+    } catch (error) {
+      console.error('Failed to load dashboard stats settings, using defaults:', error)
+      this.config = this.config ?? DEFAULT_CONFIG
+    }
+    this.configLoadedAt = Date.now()
+    return this.config!
+  }
+
+  private async compute(config: SystemStatsConfig, workspaceId: string | null): Promise<SystemStatsSnapshot> {
+    const now = Date.now()
+    const [jobGroups, queuedExecutions, records, windows, sources] = await Promise.all([
+      db.eTLJob.groupBy({ by: ['status'], where: { workspaceId }, _count: { _all: true } }),
+      db.jobExecution.count({ where: { status: 'QUEUED', job: { is: { workspaceId } } } }),
+      db.jobExecution.aggregate({ where: { job: { is: { workspaceId } } }, _sum: { recordsProcessed: true } }),
+      Promise.all(config.windowsHours.map(hours => this.windowStats(hours, now, workspaceId))),
+      this.dataSourceHealth(config.healthWindowHours, now, workspaceId)
+    ])
+
+    const jobsByStatus: Record<string, number> = Object.fromEntries(JOB_STATUSES.map(status => [status, 0]))
+    for (const group of jobGroups) {
+      jobsByStatus[group.status] = group._count._all
+    }
+
+    const dataSourceHealth: Record<DataSourceHealth, number> = {
+      HEALTHY: 0,
+      DEGRADED: 0,
+      FAILING: 0,
+      INACTIVE: 0,
+      UNKNOWN: 0
+    }
+    for (const source of sources) {
+      dataSourceHealth[source.health]++
+    }
+
+    return {
+      totalJobs: Object.values(jobsByStatus).reduce((sum, count) => sum + count, 0),
+      activeJobs: jobsByStatus.RUNNING,
+      completedJobs: jobsByStatus.COMPLETED,
+      failedJobs: jobsByStatus.FAILED,
+      totalDataSources: sources.length,
+      activeDataSources: sources.length - dataSourceHealth.INACTIVE,
+      totalRecordsProcessed: records._sum.recordsProcessed ?? 0,
+      successRate: windows[windows.length - 1].successRate ?? 0,
+      jobsByStatus,
+      queuedExecutions,
+      windows,
+      dataSourceHealth,
+      unhealthyDataSources: sources
+        .filter(source => source.health === 'FAILING' || source.health === 'DEGRADED')
+        .sort((a, b) => (a.health === b.health ? b.errors - a.errors : a.health === 'FAILING' ? -1 : 1)),
+      generatedAt: new Date(now).toISOString()
+    }
+  }
+
+  /**
+   * Executions that finished within the window; cancelled ones do not count against the success rate
+   */
+  private async windowStats(hours: number, now: number, workspaceId: string | null): Promise<ExecutionWindowStats> {
+    const since = new Date(now - hours * 3600 * 1000)
+    const job = { is: { workspaceId } }
+    const [groups, throughput] = await Promise.all([
+      db.jobExecution.groupBy({
+        by: ['status'],
+        where: { job, completedAt: { gte: since }, status: { in: ['COMPLETED', 'FAILED', 'CANCELLED'] } },
+        _count: { _all: true },
+        _sum: { recordsProcessed: true }
+      }),
+      db.jobExecution.aggregate({
+        where: { job, completedAt: { gte: since }, status: 'COMPLETED', throughputRecordsPerSec: { not: null } },
+        _avg: { throughputRecordsPerSec: true },
+        _max: { throughputRecordsPerSec: true }
+      })
+    ])
+
+    const count = (status: string) => groups.find(group => group.status === status)?._count._all ?? 0
+    const completed = count('COMPLETED')
+    const failed = count('FAILED')
+    const avg = throughput._avg.throughputRecordsPerSec
+    const peak = throughput._max.throughputRecordsPerSec
+
+    return {
+      hours,
+      completed,
+      failed,
+      cancelled: count('CANCELLED'),
+      successRate: completed + failed > 0 ? Math.round((completed / (completed + failed)) * 1000) / 10 : null,
+      recordsProcessed: groups.reduce((sum, group) => sum + (group._sum.recordsProcessed ?? 0), 0),
+      avgThroughputRecordsPerSec: avg === null ? null : Math.round(Number(avg) * 100) / 100,
+      peakThroughputRecordsPerSec: peak === null ? null : Number(peak)
+    }
+  }
+
+  /**
+   * A source is FAILING when its latest sync log in the window is an error, DEGRADED when the
+   * window holds errors or warnings, HEALTHY when it only holds other entries and UNKNOWN
+   * when the source was not used or tested in the window
+   */
+  private async dataSourceHealth(hours: number, now: number, workspaceId: string | null): Promise<DataSourceHealthEntry[]> {
+    const since = new Date(now - hours * 3600 * 1000)
+    const source = { is: { workspaceId } }
+    const [sources, latest, problems] = await Promise.all([
+      db.dataSource.findMany({
+        where: { workspaceId },
+        select: { id: true, name: true, type: true, isActive: true, lastSynced: true }
+      }),
+      db.syncLog.groupBy({
+        by: ['sourceId'],
+        where: { source, timestamp: { gte: since } },
+        _max: { timestamp: true }
+      }),
+      db.syncLog.groupBy({
+        by: ['sourceId', 'level'],
+        where: { source, timestamp: { gte: since }, level: { in: ['WARN', 'ERROR'] } },
+        _count: { _all: true },
+        _max: { timestamp: true }
+      })
+    ])
+
+    const latestLogAt = new Map<string, Date | null>(latest.map(group => [group.sourceId, group._max.timestamp]))
+
+    return sources.map(source => {
+      const errorGroup = problems.find(group => group.sourceId === source.id && group.level === 'ERROR')
+      const warnGroup = problems.find(group => group.sourceId === source.id && group.level === 'WARN')
+      const errors = errorGroup?._count._all ?? 0
+      const warnings = warnGroup?._count._all ?? 0
+      const lastErrorAt: Date | null = errorGroup?._max.timestamp ?? null
+      const lastLogAt = latestLogAt.get(source.id)
+
+      let health: DataSourceHealth
+      if (!source.isActive) {
+        health = 'INACTIVE'
+      } else if (!lastLogAt) {
+        health = 'UNKNOWN'
+      } else if (lastErrorAt && lastErrorAt.getTime() >= lastLogAt.getTime()) {
+        health = 'FAILING'
+      } else if (errors > 0 || warnings > 0) {
+        health = 'DEGRADED'
+      } else {
+        health = 'HEALTHY'
+      }
+
+      return {
+        id: source.id,
+        name: source.name,
+        type: source.type,
+        health,
+        errors,
+        warnings,
+        lastErrorAt: lastErrorAt ? lastErrorAt.toISOString() : null,
+        lastSynced: source.lastSynced ? source.lastSynced.toISOString() : null
+      }
+    })
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Declarative Transform Rules
+ * Parses, validates and executes the rule script stored in ETLJob.transformRules.
+ *
+ * One rule per line; blank lines and lines starting with # are ignored:
+ *
+ *   rename cust_email to email
+ *   cast amount as number              # string | number | integer | boolean | date | json
+ *   derive amount_usd = amount * fx_rate
+ *   filter amount > 0 and status != 'void'
+ *   lookup segment in {"H": "Premium", "L": "Basic"} as segment_name default 'Standard'
+ *   mask card_number keep 4
+ *   default country = 'US'
+ *   dedupe by customer_id, transaction_date
+ */
+
+import { evaluateExpression, Expression, parseExpression } from './expression'
+import type { DataRecord, RecordError } from './connectors'
+
+export type CastType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'json'
+
+export type TransformRule =
+  | { type: 'rename'; line: number; from: string; to: string }
+  | { type: 'cast'; line: number; field: string; to: CastType }
+  | { type: 'derive'; line: number; field: string; expression: Expression }
+  | { type: 'filter'; line: number; expression: Expression }
+  | { type: 'lookup'; line: number; field: string; table: Record<string, any>; into: string; fallback?: Expression }
+  | { type: 'mask'; line: number; field: string; keep: number }
+  | { type: 'default'; line: number; field: string; expression: Expression }
+  | { type: 'dedupe'; line: number; fields: string[] }
+
+export interface TransformRuleError {
+  line: number
+  message: string
+}
+
+export interface TransformBatchResult {
+  records: DataRecord[]
+  errors: RecordError[]
+  filtered: number
+}
+
+const CAST_TYPES: CastType[] = ['string', 'number', 'integer', 'boolean', 'date', 'json']
+const FIELD = '[A-Za-z_][\\w]*'
+
+const RULE_PATTERNS: Record<TransformRule['type'], { pattern: RegExp; usage: string }> = {
+  rename: { pattern: new RegExp(`^rename\\s+(${FIELD})\\s+(?:to|->)\\s+(${FIELD})$`, 'i'), usage: 'rename <field> to <new_field>' },
+  cast: { pattern: new RegExp(`^cast\\s+(${FIELD})\\s+(?:as|to)\\s+(\\w+)$`, 'i'), usage: 'cast <field> as <type>' },
+  derive: { pattern: new RegExp(`^derive\\s+(${FIELD})\\s*=\\s*(.+)$`, 'i'), usage: 'derive <field> = <expression>' },
+  filter: { pattern: /^filter\s+(.+)$/i, usage: 'filter <expression>' },
+  lookup: {
+    pattern: new RegExp(`^lookup\\s+(${FIELD})\\s+in\\s+(\\{.*\\})(?:\\s+as\\s+(${FIELD}))?(?:\\s+default\\s+(.+))?$`, 'i'),
+    usage: 'lookup <field> in {"key": "value"} [as <new_field>] [default <expression>]'
+  },
+  mask: { pattern: new RegExp(`^mask\\s+(${FIELD})(?:\\s+keep\\s+(\\d+))?$`, 'i'), usage: 'mask <field> [keep <n>]' },
+  default: { pattern: new RegExp(`^default\\s+(${FIELD})\\s*=\\s*(.+)$`, 'i'), usage: 'default <field> = <expression>' },
+  dedupe: { pattern: new RegExp(`^dedupe(?:\\s+by\\s+(${FIELD}(?:\\s*,\\s*${FIELD})*))?$`, 'i'), usage: 'dedupe [by <field>, ...]' },
+}
+
+/**
+ * Parse a rule script, collecting every error with its line number instead of stopping at the first
+ */
+export function parseTransformRules(script: string | null | undefined): {
+  rules: TransformRule[]
+  errors: TransformRuleError[]
+} {
+  const rules: TransformRule[] = []
+  const errors: TransformRuleError[] = []
+
+  if (!script) {
+    return { rules, errors }
+  }
+
+  script.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1
+    const text = rawLine.trim()
+    if (!text || text.startsWith('#')) return
+
+    try {
+      rules.push(parseRule(stripTrailingComment(text), line))
+    } catch (error) {
+      errors.push({ line, message: error instanceof Error ? error.message : String(error) })
+    }
+  })
+
+  return { rules, errors }
+}
+
+/**
+ * Validate a rule script; an empty array means the script is valid
+ */
+export function validateTransformRules(script: string | null | undefined): TransformRuleError[] {
+  return parseTransformRules(script).errors
+}
+
+/**
+ * Applies parsed rules batch by batch; dedupe state is kept across batches of one execution
+ */
+export class TransformExecutor {
+  private readonly seenKeys = new Map<number, Set<string>>()
+
+  constructor(private readonly rules: TransformRule[]) {}
+
+  static fromScript(script: string | null | undefined): TransformExecutor {
+    const { rules, errors } = parseTransformRules(script)
+    if (errors.length > 0) {
+      throw new Error(`Invalid transform rules: ${errors.map(error => `line ${error.line}: ${error.message}`).join('; ')}`)
+    }
+    return new TransformExecutor(rules)
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0
+  }
+
+  /**
+   * Rebuild the dedupe state from records a resumed run skips because an earlier run of the
+   * execution already loaded them; the transformed records are discarded
+   */
+  replay(records: DataRecord[]): void {
+    if (this.rules.some(rule => rule.type === 'dedupe')) {
+      this.apply(records)
+    }
+  }
+
+  apply(records: DataRecord[]): TransformBatchResult {
+    if (this.rules.length === 0) {
+      return { records, errors: [], filtered: 0 }
+    }
+
+    const result: TransformBatchResult = { records: [], errors: [], filtered: 0 }
+
+    for (const original of records) {
+      let current: DataRecord | null = { ...original }
+
+      try {
+        for (const rule of this.rules) {
+          current = this.applyRuleAt(rule, current)
+          if (current === null) break
+        }
+      } catch (error) {
+        result.errors.push({ record: original, error: error instanceof Error ? error.message : String(error) })
+        continue
+      }
+
+      if (current === null) {
+        result.filtered++
+      } else {
+        result.records.push(current)
+      }
+    }
+
+    return result
+  }
+
+  private applyRuleAt(rule: TransformRule, record: DataRecord): DataRecord | null {
+    try {
+      return this.applyRule(rule, record)
+    } catch (error) {
+      throw new Error(`line ${rule.line} (${rule.type}): ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  private applyRule(rule: TransformRule, record: DataRecord): DataRecord | null {
+    switch (rule.type) {
+      case 'rename':
+        if (Object.prototype.hasOwnProperty.call(record, rule.from)) {
+          record[rule.to] = record[rule.from]
+          delete record[rule.from]
+        }
+        return record
+      case 'cast':
+        record[rule.field] = castValue(record[rule.field], rule.to)
+        return record
+      case 'derive':
+        record[rule.field] = evaluateExpression(rule.expression, record)
+        return record
+      case 'filter':
+        return evaluateExpression(rule.expression, record) ? record : null
+      case 'lookup': {
+        const key = record[rule.field]
+        if (key != null && Object.prototype.hasOwnProperty.call(rule.table, String(key))) {
+          record[rule.into] = rule.table[String(key)]
+        } else if (rule.fallback) {
+          record[rule.into] = evaluateExpression(rule.fallback, record)
+        }
+        return record
+      }
+      case 'mask':
+        record[rule.field] = maskValue(record[rule.field], rule.keep)
+        return record
+      case 'default':
+        if (record[rule.field] === undefined || record[rule.field] === null || record[rule.field] === '') {
+          record[rule.field] = evaluateExpression(rule.expression, record)
+        }
+        return record
+      case 'dedupe': {
+        const key = JSON.stringify(rule.fields.length > 0 ? rule.fields.map(field => record[field]) : record)
+        let seen = this.seenKeys.get(rule.line)
+        if (!seen) {
+          seen = new Set()
+          this.seenKeys.set(rule.line, seen)
+        }
+        if (seen.has(key)) return null
+        seen.add(key)
+        return record
+      }
+    }
+  }
+}
+
+function parseRule(text: string, line: number): TransformRule {
+  const keyword = text.split(/\s+/, 1)[0].toLowerCase() as TransformRule['type']
+  if (!Object.prototype.hasOwnProperty.call(RULE_PATTERNS, keyword)) {
+    throw new Error(`Unknown rule "${keyword}". Expected one of: ${Object.keys(RULE_PATTERNS).join(', ')}`)
+  }
+
+  const definition = RULE_PATTERNS[keyword]
+  const match = text.match(definition.pattern)
+  if (!match) {
+    throw new Error(`Invalid ${keyword} rule. Usage: ${definition.usage}`)
+  }
+
+  switch (keyword) {
+    case 'rename':
+      return { type: 'rename', line, from: match[1], to: match[2] }
+    case 'cast': {
+      const to = match[2].toLowerCase() as CastType
+      if (!CAST_TYPES.includes(to)) {
+        throw new Error(`Unknown cast type "${match[2]}". Expected one of: ${CAST_TYPES.join(', ')}`)
+      }
+      return { type: 'cast', line, field: match[1], to }
+    }
+    case 'derive':
+      return { type: 'derive', line, field: match[1], expression: parseRuleExpression(match[2]) }
+    case 'filter':
+      return { type: 'filter', line, expression: parseRuleExpression(match[1]) }
+    case 'lookup': {
+      let table: any
+      try {
+        table = JSON.parse(match[2])
+      } catch (error) {
+        throw new Error(`Lookup table is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      if (!table || typeof table !== 'object' || Array.isArray(table)) {
+        throw new Error('Lookup table must be a JSON object')
+      }
+      return {
+        type: 'lookup',
+        line,
+        field: match[1],
+        table,
+        into: match[3] || match[1],
+        ...(match[4] && { fallback: parseRuleExpression(match[4]) })
+      }
+    }
+    case 'mask':
+      return { type: 'mask', line, field: match[1], keep: match[2] ? parseInt(match[2], 10) : 0 }
+    case 'default':
+      return { type: 'default', line, field: match[1], expression: parseRuleExpression(match[2]) }
+    case 'dedupe':
+      return { type: 'dedupe', line, fields: match[1] ? match[1].split(',').map(field => field.trim()) : [] }
+  }
+}
+
+function parseRuleExpression(source: string): Expression {
+  try {
+    return parseExpression(source)
+  } catch (error) {
+    throw new Error(`Invalid expression "${source}": ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+// A # outside of quotes starts a trailing comment
+function stripTrailingComment(text: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '#') {
+      return text.slice(0, i).trim()
+    }
+  }
+  return text
+}
+
+function castValue(value: any, to: CastType): any {
+  if (value === null || value === undefined) return null
+  if (value === '' && to !== 'string') return null
+
+  switch (to) {
+    case 'string':
+      return value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value)
+    case 'number': {
+      const result = Number(value)
+      if (isNaN(result)) throw new Error(`Cannot cast ${JSON.stringify(value)} to number`)
+      return result
+    }
+    case 'integer': {
+      const result = Number(value)
+      if (!isFinite(result)) throw new Error(`Cannot cast ${JSON.stringify(value)} to integer`)
+      return Math.trunc(result)
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const normalized = String(value).trim().toLowerCase()
+      if (['true', '1', 'yes', 'y'].includes(normalized)) return true
+      if (['false', '0', 'no', 'n'].includes(normalized)) return false
+      throw new Error(`Cannot cast ${JSON.stringify(value)} to boolean`)
+    }
+    case 'date': {
+      const result = value instanceof Date ? value : new Date(value)
+      if (isNaN(result.getTime())) throw new Error(`Cannot cast ${JSON.stringify(value)} to date`)
+      return result
+    }
+    case 'json':
+      if (typeof value !== 'string') return value
+      try {
+        return JSON.parse(value)
+      } catch {
+        throw new Error(`Cannot cast ${JSON.stringify(value)} to json`)
+      }
+  }
+}
+
+function maskValue(value: any, keep: number): any {
+  if (value === null || value === undefined) return value
+  const text = String(value)
+  const visible = keep > 0 ? text.slice(-keep) : ''
+  return '*'.repeat(Math.max(0, text.length - visible.length)) + visible
+}
@@ -0,0 +1,75 @@
+/**
+ * Request Validation
+ * Provides parsing of request bodies and query strings against the shared schemas in ./schemas.
+ * Input that does not match is answered with 422 and the failing fields; malformed JSON with 400
+ */
+
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ValidationErrorBody } from './schemas'
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse }
+
+/**
+ * Parse a JSON body; an empty body is validated as {}
+ */
+export async function parseBody<S extends z.ZodType>(request: Request, schema: S): Promise<ParseResult<z.output<S>>> {
+  let body: unknown = {}
+  const text = await request.text()
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text)
+    } catch {
+      return {
+        success: false,
+        response: NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 })
+      }
+    }
+  }
+  return validate(schema, body)
+}
+
+/**
+ * Parse the query string; repeated parameters keep their last value
+ */
+export function parseQuery<S extends z.ZodType>(request: Request, schema: S): ParseResult<z.output<S>> {
+  return validate(schema, Object.fromEntries(new URL(request.url).searchParams))
+}
+
+/**
+ * 422 for a field that can only be checked against stored records, e.g. a load mode the job's
+ * target does not support; same payload as a schema failure
+ */
+export function fieldErrorResponse(field: string, message: string): NextResponse {
+  const body: ValidationErrorBody = { error: 'Validation failed', fieldErrors: { [field]: [message] }, formErrors: [] }
+  return NextResponse.json(body, { status: 422 })
+}
+
+export function validationErrorBody(error: z.ZodError): ValidationErrorBody {
+  const fieldErrors: Record<string, string[]> = {}
+  const formErrors: string[] = []
+
+  for (const issue of error.issues) {
+    if (issue.path.length === 0) {
+      formErrors.push(issue.message)
+    } else {
+      const field = issue.path.map(String).join('.')
+      fieldErrors[field] = [...(fieldErrors[field] || []), issue.message]
+    }
+  }
+
+  return { error: 'Validation failed', fieldErrors, formErrors }
+}
+
+function validate<S extends z.ZodType>(schema: S, input: unknown): ParseResult<z.output<S>> {
+  const result = schema.safeParse(input)
+  if (!result.success) {
+    return {
+      success: false,
+      response: NextResponse.json(validationErrorBody(result.error), { status: 422 })
+    }
+  }
+  return { success: true, data: result.data }
+}
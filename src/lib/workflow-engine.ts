@@ -0,0 +1,523 @@
+/**
+ * Workflow Engine
+ * Executes a workflow as a DAG: steps start as soon as all of their dependencies have
+ * settled, independent branches run in parallel, and each step honours its own
+ * timeout and retry policy; a step that does not stop after its timeout is abandoned rather
+ * than retried alongside itself. Condition steps and conditional connections decide which
+ * outgoing edges are taken; steps whose edges are not taken are skipped. Per-step state
+ * is persisted on the WorkflowExecution and every branch decision is appended to its
+ * execution log; progress and log entries are also published as execution events for
+ * live monitoring. Runs execute in the process that started them rather than on the job
+ * workers, so they are neither queued nor redelivered when that process stops.
+ */
+
+import { randomUUID } from 'crypto'
+import { db } from './db'
+import { ExecutionEventBus } from './execution-events'
+import { ExecutionLogStore } from './execution-log'
+import { evaluateExpression } from './expression'
+import {
+  buildWorkflowGraph,
+  parseCondition,
+  parseDuration,
+  StepStatus,
+  topologicalOrder,
+  WorkflowConnection,
+  WorkflowGraph,
+  WorkflowStep
+} from './workflow-graph'
+import { STEP_HANDLERS, StepLogLevel, StepOutput } from './workflow-steps'
+
+export interface WorkflowEngineOptions {
+  maxParallelSteps: number
+  // How long a timed-out step may take to stop before it is abandoned
+  abortGraceMs: number
+}
+
+export interface StepState {
+  status: StepStatus
+  attempts: number
+  startedAt?: string
+  completedAt?: string
+  error?: string
+  // Timed out and did not stop, so it may still be running against its source or target
+  abandoned?: boolean
+}
+
+interface RunState {
+  executionId: string
+  workflow: { id: string; name: string; createdBy: string; workspaceId: string | null }
+  graph: WorkflowGraph
+  connections: WorkflowConnection[]
+  variables: Record<string, any>
+  stepStates: Record<string, StepState>
+  outputs: Map<string, StepOutput>
+  // Scheduling: dependencies not yet settled, incoming edges taken, and steps ready to start
+  remaining: Map<string, number>
+  taken: Map<string, number>
+  skipReasons: Map<string, string>
+  ready: string[]
+  failFast: string | null
+  startedAt: number
+  pendingWrite: Promise<void>
+}
+
+export class WorkflowEngine {
+  private static instance: WorkflowEngine
+  private readonly options: WorkflowEngineOptions
+
+  private constructor(options?: Partial<WorkflowEngineOptions>) {
+    this.options = {
+      maxParallelSteps: 4,
+      abortGraceMs: 5000,
+      ...options
+    }
+  }
+
+  static getInstance(options?: Partial<WorkflowEngineOptions>): WorkflowEngine {
+    if (!WorkflowEngine.instance) {
+      WorkflowEngine.instance = new WorkflowEngine(options)
+    }
+    return WorkflowEngine.instance
+  }
+
+  /**
+   * Run a WorkflowExecution that has already been created in RUNNING state
+   */
+  async execute(executionId: string): Promise<void> {
+    const execution = await db.workflowExecution.findUnique({
+      where: { id: executionId },
+      include: { workflow: true }
+    })
+
+    if (!execution) {
+      throw new Error(`Workflow execution not found: ${executionId}`)
+    }
+
+    const workflow = execution.workflow
+    const steps: WorkflowStep[] = workflow.steps ? JSON.parse(workflow.steps) : []
+    const connections: WorkflowConnection[] = workflow.connections ? JSON.parse(workflow.connections) : []
+    const resources = workflow.resources ? JSON.parse(workflow.resources) : {}
+    const trigger = workflow.trigger ? JSON.parse(workflow.trigger) : {}
+    const maxParallel = Number(resources?.max_parallel_steps) || this.options.maxParallelSteps
+
+    const graph = buildWorkflowGraph(steps, connections)
+    const remaining = new Map([...graph.dependencies].map(([id, dependencies]) => [id, dependencies.size]))
+    const run: RunState = {
+      executionId,
+      workflow: { id: workflow.id, name: workflow.name, createdBy: workflow.createdBy, workspaceId: workflow.workspaceId },
+      graph,
+      connections,
+      // Variables passed when the execution was started override the trigger's defaults
+      variables: {
+        ...(trigger?.variables || {}),
+        ...(execution.variables ? JSON.parse(execution.variables) : {})
+      },
+      stepStates: Object.fromEntries(steps.map(step => [step.id, { status: 'idle' as StepStatus, attempts: 0 }])),
+      outputs: new Map(),
+      remaining,
+      taken: new Map(steps.map(step => [step.id, 0])),
+      skipReasons: new Map(),
+      ready: [...remaining].filter(([, count]) => count === 0).map(([id]) => id),
+      failFast: null,
+      startedAt: Date.now(),
+      pendingWrite: Promise.resolve()
+    }
+
+    try {
+      // Validated at save time, but the stored definition may predate validation
+      topologicalOrder(graph)
+
+      this.log(run, 'INFO', `Starting workflow ${workflow.name} with ${steps.length} steps`)
+      this.persist(run)
+
+      const running = new Map<string, Promise<void>>()
+
+      while (run.ready.length > 0 || running.size > 0) {
+        // A fail-fast condition stops new steps from starting; running steps are left to finish
+        if (run.failFast) run.ready.length = 0
+
+        while (run.ready.length > 0 && running.size < maxParallel) {
+          const stepId = run.ready.shift()!
+          running.set(stepId, this.runStep(run, graph.steps.get(stepId)!).then(() => {
+            running.delete(stepId)
+            this.settle(run, stepId)
+          }))
+        }
+
+        if (running.size > 0) {
+          await Promise.race(running.values())
+        }
+      }
+
+      if (run.failFast) {
+        for (const [stepId, state] of Object.entries(run.stepStates)) {
+          if (state.status !== 'idle') continue
+          state.status = 'skipped'
+          state.error = run.failFast
+          this.log(run, 'WARN', `Step skipped: ${run.failFast}`, graph.steps.get(stepId))
+        }
+      }
+
+      const failed = steps.filter(step => run.stepStates[step.id].status === 'failed')
+      const status = failed.length > 0 ? 'FAILED' : 'COMPLETED'
+      const errorMessage = failed.length > 0
+        ? `Steps failed: ${failed.map(step => step.name || step.id).join(', ')}`
+        : null
+
+      this.log(run, failed.length > 0 ? 'ERROR' : 'INFO', `Workflow ${status.toLowerCase()}: ${workflow.name}`)
+      await this.finish(run, status, errorMessage)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      console.error(`Workflow execution ${executionId} failed:`, error)
+
+      this.log(run, 'ERROR', `Workflow execution failed: ${errorMessage}`)
+      await this.finish(run, 'FAILED', errorMessage)
+    }
+  }
+
+  /**
+   * Run one step with its timeout and retry policy
+   */
+  private async runStep(run: RunState, step: WorkflowStep): Promise<void> {
+    const state = run.stepStates[step.id]
+    const handler = STEP_HANDLERS[step.type]
+    const maxAttempts = Math.max(1, Number(step.retry?.max_attempts) || 1)
+    let timeoutMs: number | null
+    let retryDelayMs: number
+
+    state.status = 'running'
+    state.startedAt = new Date().toISOString()
+
+    try {
+      if (!handler) {
+        throw new Error(`Unsupported step type: ${step.type}`)
+      }
+      timeoutMs = parseDuration(step.timeout ?? step.config?.timeout)
+      retryDelayMs = parseDuration(step.retry?.delay) ?? 0
+    } catch (error) {
+      this.failStep(run, step, error)
+      return
+    }
+
+    const inputs: Record<string, StepOutput> = {}
+    for (const dependency of run.graph.dependencies.get(step.id)!) {
+      inputs[dependency] = run.outputs.get(dependency) || {}
+    }
+
+    this.persist(run)
+
+    while (state.attempts < maxAttempts) {
+      state.attempts++
+      const controller = new AbortController()
+      let timer: NodeJS.Timeout | undefined
+      let execution: Promise<StepOutput> | undefined
+
+      try {
+        this.log(run, 'INFO', `Executing step (attempt ${state.attempts}/${maxAttempts})`, step)
+
+        execution = handler({
+          executionId: run.executionId,
+          workflow: run.workflow,
+          step,
+          inputs,
+          scope: this.expressionScope(run, inputs),
+          signal: controller.signal,
+          log: (level, message, details) => this.log(run, level, message, step, details)
+        })
+
+        const output = timeoutMs
+          ? await Promise.race([
+              execution,
+              new Promise<never>((_, reject) => {
+                timer = setTimeout(() => {
+                  const error = new Error(`Step timed out after ${step.timeout ?? step.config?.timeout}`)
+                  controller.abort(error)
+                  reject(error)
+                }, timeoutMs)
+              })
+            ])
+          : await execution
+
+        if (output.decision?.action === 'fail') {
+          const reason = `Condition step ${step.name || step.id} failed the workflow${output.decision.matched ? ` (${output.decision.matched})` : ''}`
+          run.failFast = reason
+          this.failStep(run, step, new Error(reason))
+          return
+        }
+
+        run.outputs.set(step.id, output)
+        state.status = 'completed'
+        state.completedAt = new Date().toISOString()
+        delete state.error
+        this.log(run, 'INFO', 'Step completed', step, {
+          recordsProcessed: output.recordsProcessed ?? 0,
+          ...(output.recordsFailed && { recordsFailed: output.recordsFailed })
+        })
+        this.persist(run)
+        return
+      } catch (error) {
+        // A retry next to an attempt that is still writing could load the same records twice
+        if (controller.signal.aborted && execution && !(await settlesWithin(execution, this.options.abortGraceMs))) {
+          const message = error instanceof Error ? error.message : String(error)
+          state.abandoned = true
+          this.failStep(run, step, new Error(`${message}; the step did not stop and was abandoned without a retry`))
+          return
+        }
+
+        if (state.attempts >= maxAttempts) {
+          this.failStep(run, step, error)
+          return
+        }
+
+        this.log(run, 'WARN', `Step attempt ${state.attempts} failed: ${error instanceof Error ? error.message : String(error)}`, step)
+        if (retryDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, retryDelayMs))
+        }
+      } finally {
+        clearTimeout(timer)
+      }
+    }
+  }
+
+  private failStep(run: RunState, step: WorkflowStep, error: unknown): void {
+    const state = run.stepStates[step.id]
+    state.status = 'failed'
+    state.error = error instanceof Error ? error.message : String(error)
+    state.completedAt = new Date().toISOString()
+    this.log(run, 'ERROR', `Step failed: ${state.error}`, step)
+    this.persist(run)
+  }
+
+  /**
+   * Resolve the outgoing edges of a settled step. A dependent becomes ready once all of its
+   * dependencies have settled and its trigger rule is met; otherwise it is skipped, which
+   * settles it in turn so the skip propagates down the branch.
+   */
+  private settle(run: RunState, stepId: string): void {
+    const step = run.graph.steps.get(stepId)!
+    const state = run.stepStates[stepId]
+
+    for (const dependentId of run.graph.dependents.get(stepId)!) {
+      const dependent = run.graph.steps.get(dependentId)!
+      const edge = state.status === 'completed'
+        ? this.evaluateEdge(run, step, dependent)
+        : { taken: false, reason: `Upstream step ${step.name || step.id} ${state.status === 'failed' ? 'failed' : 'was skipped'}` }
+
+      if (edge.taken) {
+        run.taken.set(dependentId, run.taken.get(dependentId)! + 1)
+      } else if (!run.skipReasons.has(dependentId)) {
+        run.skipReasons.set(dependentId, edge.reason!)
+      }
+
+      const remaining = run.remaining.get(dependentId)! - 1
+      run.remaining.set(dependentId, remaining)
+      if (remaining > 0 || run.stepStates[dependentId].status !== 'idle') continue
+
+      const taken = run.taken.get(dependentId)!
+      const required = dependent.trigger_rule === 'any_success' ? 1 : run.graph.dependencies.get(dependentId)!.size
+      if (taken >= required) {
+        run.ready.push(dependentId)
+      } else {
+        const dependentState = run.stepStates[dependentId]
+        dependentState.status = 'skipped'
+        dependentState.error = run.skipReasons.get(dependentId)
+        this.log(run, 'INFO', `Step skipped: ${dependentState.error}`, dependent)
+        this.settle(run, dependentId)
+      }
+    }
+    this.persist(run)
+  }
+
+  /**
+   * Whether the edge from a completed step is taken, according to the step's branch decision
+   * and the connection's condition; every decision is logged
+   */
+  private evaluateEdge(run: RunState, from: WorkflowStep, to: WorkflowStep): { taken: boolean; reason?: string } {
+    const decision = run.outputs.get(from.id)?.decision
+    const fromName = from.name || from.id
+    const toName = to.name || to.id
+
+    if (decision?.action === 'skip') {
+      return { taken: false, reason: `Condition step ${fromName} skipped its downstream steps` }
+    }
+    if (decision?.action === 'branch') {
+      const taken = decision.targets.includes(to.id)
+      this.log(run, 'INFO', `Branch ${taken ? 'taken' : 'not taken'}: ${fromName} -> ${toName}`, from, {
+        matched: decision.matched,
+        targets: decision.targets
+      })
+      if (!taken) return { taken: false, reason: `Branch from ${fromName} not taken` }
+    }
+
+    const conditions = run.connections.filter(connection => connection.from === from.id && connection.to === to.id && connection.condition)
+    for (const connection of conditions) {
+      let result: any
+      try {
+        result = evaluateExpression(parseCondition(connection.condition!), this.expressionScope(run))
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        this.log(run, 'ERROR', `Connection condition could not be evaluated: ${message}`, from, { condition: connection.condition })
+        return { taken: false, reason: `Condition on ${fromName} -> ${toName} could not be evaluated` }
+      }
+
+      this.log(run, 'INFO', `Branch ${result ? 'taken' : 'not taken'}: ${fromName} -> ${toName}`, from, {
+        condition: connection.condition,
+        result: Boolean(result)
+      })
+      if (!result) return { taken: false, reason: `Condition on ${fromName} -> ${toName} was false` }
+    }
+
+    return { taken: true }
+  }
+
+  /**
+   * Values visible to condition expressions: each settled step's status and output fields
+   * (record sets are replaced by record_count), workflow variables, and the upstream input
+   */
+  private expressionScope(run: RunState, inputs: Record<string, StepOutput> = {}): Record<string, any> {
+    const summarize = (output: StepOutput = {}) => {
+      const { records, decision, ...fields } = output
+      return { ...fields, record_count: records?.length ?? 0, ...(decision && { decision: decision.action }) }
+    }
+
+    const steps: Record<string, any> = {}
+    for (const [id, state] of Object.entries(run.stepStates)) {
+      steps[id] = { status: state.status, attempts: state.attempts, ...summarize(run.outputs.get(id)) }
+    }
+
+    const inputRecords = Object.values(inputs).reduce((total, output) => total + (output.records?.length ?? 0), 0)
+    return {
+      steps,
+      variables: run.variables,
+      workflow: { id: run.workflow.id, name: run.workflow.name },
+      input: { record_count: inputRecords }
+    }
+  }
+
+  /**
+   * Queue a write of the current run state; writes and log appends are serialized so parallel
+   * steps cannot interleave them
+   */
+  private persist(run: RunState): void {
+    const states = Object.values(run.stepStates)
+    const runningNames = Object.entries(run.stepStates)
+      .filter(([, state]) => state.status === 'running')
+      .map(([id]) => run.graph.steps.get(id)?.name || id)
+
+    const data = {
+      currentStep: runningNames.length > 0 ? runningNames.join(', ') : null,
+      completedSteps: states.filter(state => state.status === 'completed').length,
+      progress: this.progress(run),
+      stepStatuses: JSON.stringify(run.stepStates),
+      metrics: JSON.stringify(this.metrics(run))
+    }
+
+    run.pendingWrite = run.pendingWrite
+      .then(() => db.workflowExecution.update({ where: { id: run.executionId }, data }))
+      .then(() => undefined)
+      .catch(error => console.error('Failed to persist workflow execution state:', error))
+
+    this.publishProgress(run, 'RUNNING', data.progress, data.currentStep)
+  }
+
+  private async finish(run: RunState, status: 'COMPLETED' | 'FAILED', errorMessage: string | null): Promise<void> {
+    this.persist(run)
+    await run.pendingWrite
+
+    await db.workflowExecution.update({
+      where: { id: run.executionId },
+      data: {
+        status,
+        completedAt: new Date(),
+        currentStep: null,
+        errorMessage,
+        ...(status === 'COMPLETED' && { progress: 100 })
+      }
+    })
+
+    this.publishProgress(run, status, status === 'COMPLETED' ? 100 : this.progress(run), null)
+  }
+
+  // Percentage of steps that have settled
+  private progress(run: RunState): number {
+    const states = Object.values(run.stepStates)
+    const finished = states.filter(state => ['completed', 'failed', 'skipped'].includes(state.status)).length
+    return states.length > 0 ? Math.round((finished / states.length) * 100) : 100
+  }
+
+  private publishProgress(run: RunState, status: string, progress: number, currentStep: string | null): void {
+    ExecutionEventBus.getInstance().publish({
+      type: 'progress',
+      workflowId: run.workflow.id,
+      executionId: run.executionId,
+      status,
+      progress,
+      currentStep,
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  private metrics(run: RunState) {
+    let recordsProcessed = 0
+    for (const output of run.outputs.values()) {
+      recordsProcessed += output.recordsProcessed ?? 0
+    }
+
+    return {
+      duration: Number(((Date.now() - run.startedAt) / 60000).toFixed(2)), // minutes
+      records_processed: recordsProcessed,
+      memory_usage: Number((process.memoryUsage().heapUsed / 1024 / 1024).toFixed(2)) // MB
+    }
+  }
+
+  private log(
+    run: RunState,
+    level: StepLogLevel,
+    message: string,
+    step?: WorkflowStep,
+    details?: Record<string, any>
+  ): void {
+    const timestamp = new Date()
+    const stepFields = step ? { stepId: step.id, stepName: step.name || step.id } : {}
+
+    run.pendingWrite = run.pendingWrite
+      .then(() => ExecutionLogStore.getInstance().append({
+        workflowExecutionId: run.executionId,
+        level,
+        message,
+        ...stepFields,
+        fields: details,
+        timestamp
+      }))
+      .then(() => undefined)
+      .catch(error => console.error('Failed to append workflow execution log:', error))
+
+    ExecutionEventBus.getInstance().publish({
+      type: 'log',
+      id: randomUUID(),
+      workflowId: run.workflow.id,
+      executionId: run.executionId,
+      level,
+      message,
+      details: step || details ? JSON.stringify({ ...stepFields, ...details }) : null,
+      timestamp: timestamp.toISOString(),
+      workflow: { name: run.workflow.name }
+    })
+  }
+}
+
+/**
+ * Whether the promise settles, either way, within the given time
+ */
+function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined
+  return Promise.race([
+    promise.then(() => true, () => true),
+    new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), ms)
+    })
+  ]).finally(() => clearTimeout(timer))
+}
+
+export default WorkflowEngine
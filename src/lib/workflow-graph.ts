@@ -0,0 +1,303 @@
+/**
+ * Workflow Graph
+ * Builds the dependency graph of a workflow from step depends_on lists and designer
+ * connections, and validates it (unknown references, duplicate ids, cycles, condition
+ * expressions) before save or run
+ */
+
+import { Expression, parseExpression } from './expression'
+import { parseKeyColumns, validateLoadOptions } from './connectors/load-modes'
+
+export type StepStatus = 'idle' | 'running' | 'completed' | 'failed' | 'skipped'
+
+export type ConditionAction = 'continue' | 'skip' | 'fail' | 'branch'
+
+// all_success: run only when every incoming edge was taken; any_success: run when at least one was
+export type TriggerRule = 'all_success' | 'any_success'
+
+export const CONDITION_ACTIONS: ConditionAction[] = ['continue', 'skip', 'fail', 'branch']
+export const TRIGGER_RULES: TriggerRule[] = ['all_success', 'any_success']
+
+export interface RetryPolicy {
+  max_attempts?: number
+  delay?: string | number
+}
+
+export interface WorkflowStep {
+  id: string
+  name?: string
+  type: string
+  config?: any
+  timeout?: string | number
+  retry?: RetryPolicy
+  depends_on?: string[]
+  trigger_rule?: TriggerRule
+  [key: string]: any
+}
+
+export interface ConditionRule {
+  expression: string
+  action?: ConditionAction
+  to?: string | string[]
+}
+
+export interface WorkflowConnection {
+  id?: string
+  from: string
+  to: string
+  condition?: string
+}
+
+export interface WorkflowGraph {
+  steps: Map<string, WorkflowStep>
+  dependencies: Map<string, Set<string>>
+  dependents: Map<string, Set<string>>
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+}
+
+/**
+ * Parse durations such as "30m", "1h30m" or "45s"; bare numbers are minutes, matching the designer's timeout field
+ */
+export function parseDuration(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'number') return value > 0 ? value * DURATION_UNITS.m : null
+
+  const text = value.trim().toLowerCase()
+  if (/^\d+(\.\d+)?$/.test(text)) return parseDuration(Number(text))
+
+  const parts = [...text.matchAll(/(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)/g)]
+  if (parts.length === 0 || parts.map(part => part[0]).join('') !== text.replace(/\s+/g, '')) {
+    throw new Error(`Invalid duration "${value}". Use values like 30s, 10m or 1h30m`)
+  }
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * DURATION_UNITS[unit], 0)
+}
+
+/**
+ * Parse a condition expression. Besides plain expressions over the scope
+ * (steps['extract-data'].recordsProcessed > 0) the {{step-id.field}} form used in
+ * workflows/examples is accepted and rewritten to steps['step-id'].field
+ */
+export function parseCondition(source: string): Expression {
+  const rewritten = source.replace(
+    /\{\{\s*([^}.\s]+)((?:\.[A-Za-z_]\w*)*)\s*\}\}/g,
+    (_, stepId: string, path: string) => `steps[${JSON.stringify(stepId)}]${path}`
+  )
+  return parseExpression(rewritten)
+}
+
+/**
+ * Build the graph; an edge exists when a step lists another in depends_on or a connection links them
+ */
+export function buildWorkflowGraph(steps: WorkflowStep[], connections: WorkflowConnection[] = []): WorkflowGraph {
+  const graph: WorkflowGraph = {
+    steps: new Map(),
+    dependencies: new Map(),
+    dependents: new Map()
+  }
+
+  for (const step of steps) {
+    graph.steps.set(step.id, step)
+    graph.dependencies.set(step.id, new Set())
+    graph.dependents.set(step.id, new Set())
+  }
+
+  const addEdge = (from: string, to: string) => {
+    if (!graph.steps.has(from) || !graph.steps.has(to)) return
+    graph.dependencies.get(to)!.add(from)
+    graph.dependents.get(from)!.add(to)
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.depends_on || []) {
+      addEdge(dependency, step.id)
+    }
+  }
+  for (const connection of connections) {
+    addEdge(connection.from, connection.to)
+  }
+
+  return graph
+}
+
+/**
+ * Validate steps and connections; an empty array means the workflow can be executed
+ */
+export function validateWorkflowGraph(steps: unknown, connections: unknown = []): string[] {
+  if (!Array.isArray(steps)) return ['steps must be an array']
+  if (!Array.isArray(connections)) return ['connections must be an array']
+
+  const errors: string[] = []
+  const ids = new Set<string>()
+
+  for (const step of steps as WorkflowStep[]) {
+    if (!step || typeof step.id !== 'string' || !step.id) {
+      errors.push('Every step needs a string id')
+      continue
+    }
+    if (ids.has(step.id)) {
+      errors.push(`Duplicate step id "${step.id}"`)
+    }
+    ids.add(step.id)
+
+    try {
+      parseDuration(step.timeout ?? step.config?.timeout)
+      parseDuration(step.retry?.delay)
+    } catch (error) {
+      errors.push(`Step "${step.id}": ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  for (const step of steps as WorkflowStep[]) {
+    for (const dependency of step?.depends_on || []) {
+      if (!ids.has(dependency)) {
+        errors.push(`Step "${step.id}" depends on unknown step "${dependency}"`)
+      }
+    }
+  }
+
+  for (const connection of connections as WorkflowConnection[]) {
+    for (const end of [connection?.from, connection?.to]) {
+      if (!ids.has(end)) {
+        errors.push(`Connection ${connection?.id ?? `${connection?.from} -> ${connection?.to}`} references unknown step "${end}"`)
+      }
+    }
+  }
+
+  for (const connection of connections as WorkflowConnection[]) {
+    if (connection?.condition) {
+      const error = conditionError(connection.condition)
+      if (error) errors.push(`Connection ${connection.from} -> ${connection.to}: ${error}`)
+    }
+  }
+
+  for (const step of steps as WorkflowStep[]) {
+    if (step?.trigger_rule && !TRIGGER_RULES.includes(step.trigger_rule)) {
+      errors.push(`Step "${step.id}": unknown trigger_rule "${step.trigger_rule}". Expected one of: ${TRIGGER_RULES.join(', ')}`)
+    }
+    if (step?.type === 'condition') {
+      errors.push(...validateConditionStep(step, ids))
+    }
+    if (step?.type === 'load') {
+      const config = step.config || {}
+      const error = validateLoadOptions(
+        config.mode ?? config.target?.mode,
+        parseKeyColumns(config.key_columns ?? config.target?.key_columns)
+      )
+      if (error) errors.push(`Step "${step.id}": ${error}`)
+    }
+  }
+
+  if (errors.length > 0) return errors
+
+  const cycle = findCycle(buildWorkflowGraph(steps as WorkflowStep[], connections as WorkflowConnection[]))
+  if (cycle) {
+    errors.push(`Workflow contains a cycle: ${cycle.join(' -> ')}`)
+  }
+
+  return errors
+}
+
+/**
+ * Steps ordered so every step comes after all of its dependencies; throws on cycles
+ */
+export function topologicalOrder(graph: WorkflowGraph): string[] {
+  const remaining = new Map([...graph.dependencies].map(([id, dependencies]) => [id, dependencies.size]))
+  const ready = [...remaining].filter(([, count]) => count === 0).map(([id]) => id)
+  const order: string[] = []
+
+  while (ready.length > 0) {
+    const id = ready.shift()!
+    order.push(id)
+    for (const dependent of graph.dependents.get(id)!) {
+      const count = remaining.get(dependent)! - 1
+      remaining.set(dependent, count)
+      if (count === 0) ready.push(dependent)
+    }
+  }
+
+  if (order.length !== graph.steps.size) {
+    const cycle = findCycle(graph)
+    throw new Error(`Workflow contains a cycle: ${cycle ? cycle.join(' -> ') : 'unknown'}`)
+  }
+  return order
+}
+
+function validateConditionStep(step: WorkflowStep, ids: Set<string>): string[] {
+  const errors: string[] = []
+  const conditions: ConditionRule[] = step.config?.conditions || []
+  if (!Array.isArray(conditions)) {
+    return [`Step "${step.id}": conditions must be an array`]
+  }
+
+  const rules = [...conditions, { expression: '', action: step.config?.action, to: step.config?.to }]
+
+  rules.forEach((rule, index) => {
+    const label = index < conditions.length ? `condition ${index + 1}` : 'default action'
+    if (index < conditions.length) {
+      const error = typeof rule?.expression === 'string' ? conditionError(rule.expression) : 'expression is required'
+      if (error) errors.push(`Step "${step.id}" ${label}: ${error}`)
+    }
+    if (rule?.action && !CONDITION_ACTIONS.includes(rule.action)) {
+      errors.push(`Step "${step.id}" ${label}: unknown action "${rule.action}". Expected one of: ${CONDITION_ACTIONS.join(', ')}`)
+    }
+    for (const target of toArray(rule?.to)) {
+      if (!ids.has(target)) errors.push(`Step "${step.id}" ${label}: branch target "${target}" does not exist`)
+    }
+  })
+
+  return errors
+}
+
+function conditionError(source: string): string | null {
+  try {
+    parseCondition(source)
+    return null
+  } catch (error) {
+    return `invalid expression "${source}": ${error instanceof Error ? error.message : String(error)}`
+  }
+}
+
+export function toArray(value: string | string[] | null | undefined): string[] {
+  if (!value) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+// Depth-first search that returns the first cycle found as a closed path of step ids
+function findCycle(graph: WorkflowGraph): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting')
+    path.push(id)
+
+    for (const next of graph.dependents.get(id)!) {
+      if (state.get(next) === 'visiting') {
+        return [...path.slice(path.indexOf(next)), next]
+      }
+      if (!state.has(next)) {
+        const cycle = visit(next)
+        if (cycle) return cycle
+      }
+    }
+
+    path.pop()
+    state.set(id, 'done')
+    return null
+  }
+
+  for (const id of graph.steps.keys()) {
+    if (!state.has(id)) {
+      const cycle = visit(id)
+      if (cycle) return cycle
+    }
+  }
+  return null
+}
@@ -0,0 +1,321 @@
+/**
+ * Workflow Step Handlers
+ * Executes individual workflow steps by type. Record sets flow between steps in memory:
+ * a step receives the outputs of its direct upstream steps and returns its own output.
+ * Handlers stop at the next batch once the engine aborts their signal, and connectors
+ * cancel HTTP requests in flight with it.
+ */
+
+import { db } from './db'
+import {
+  Connector,
+  ConnectorSource,
+  ConnectorType,
+  createConnector,
+  DataRecord,
+  isConnectorSupported,
+  LoadOptions,
+  parseKeyColumns,
+  RecordError,
+  validateLoadOptions
+} from './connectors'
+import { evaluateExpression } from './expression'
+import { SecretVault } from './secret-vault'
+import { TransformBatchResult, TransformExecutor } from './transform-rules'
+import { ConditionAction, ConditionRule, parseCondition, toArray, WorkflowStep } from './workflow-graph'
+
+export type StepLogLevel = 'INFO' | 'WARN' | 'ERROR'
+
+// Routing decision returned by condition steps and applied by the engine to outgoing edges
+export interface BranchDecision {
+  action: ConditionAction
+  targets: string[]
+  matched: string | null
+}
+
+export interface StepOutput {
+  records?: DataRecord[]
+  recordsProcessed?: number
+  recordsFailed?: number
+  decision?: BranchDecision
+  [key: string]: any
+}
+
+export interface StepContext {
+  executionId: string
+  workflow: { id: string; name: string; createdBy: string; workspaceId: string | null }
+  step: WorkflowStep
+  inputs: Record<string, StepOutput>
+  // Expression scope: steps (status and output fields by step id), variables, workflow and input
+  scope: Record<string, any>
+  signal: AbortSignal
+  log: (level: StepLogLevel, message: string, details?: Record<string, any>) => void
+}
+
+export type StepHandler = (context: StepContext) => Promise<StepOutput>
+
+const DEFAULT_BATCH_SIZE = 1000
+const MAX_LOGGED_ERRORS = 5
+
+export const STEP_HANDLERS: Record<string, StepHandler> = {
+  extract: async (context) => {
+    const { step, signal } = context
+    const source = await resolveEndpoint(step, 'source', context.workflow)
+    const records: DataRecord[] = []
+
+    await withConnector(source, async (connector) => {
+      const query = step.config?.source?.query ?? step.config?.query
+      for await (const batch of connector.extract({ query, batchSize: batchSizeOf(step), signal })) {
+        throwIfAborted(signal)
+        records.push(...batch)
+      }
+    })
+
+    context.log('INFO', `Extracted ${records.length} records from ${source.name}`)
+    return { records, recordsProcessed: records.length }
+  },
+
+  transform: async (context) => {
+    const { step, signal } = context
+    const records = upstreamRecords(context)
+    const script = step.config?.rules
+
+    if (!script) {
+      context.log('WARN', 'No transform rules configured; passing records through unchanged')
+      return { records, recordsProcessed: records.length }
+    }
+
+    // Batch by batch, yielding in between so a timeout can fire and stop a large transform
+    const executor = TransformExecutor.fromScript(script)
+    const batchSize = batchSizeOf(step)
+    const result: TransformBatchResult = { records: [], errors: [], filtered: 0 }
+    for (let offset = 0; offset < records.length; offset += batchSize) {
+      if (offset > 0) await new Promise(resolve => setImmediate(resolve))
+      throwIfAborted(signal)
+      const batch = executor.apply(records.slice(offset, offset + batchSize))
+      result.records.push(...batch.records)
+      result.errors.push(...batch.errors)
+      result.filtered += batch.filtered
+    }
+    if (result.errors.length > 0) {
+      context.log('WARN', `${result.errors.length} records failed transformation`, {
+        sampleErrors: result.errors.slice(0, 5)
+      })
+    }
+
+    return {
+      records: result.records,
+      recordsProcessed: records.length,
+      recordsFailed: result.errors.length,
+      recordsFiltered: result.filtered
+    }
+  },
+
+  load: async (context) => {
+    const { step, signal } = context
+    const target = await resolveEndpoint(step, 'target', context.workflow)
+    const records = upstreamRecords(context)
+    const config = step.config || {}
+    const options: LoadOptions = {
+      table: config.target?.table ?? config.table,
+      mode: config.mode ?? config.target?.mode ?? 'append',
+      keyColumns: parseKeyColumns(config.key_columns ?? config.target?.key_columns),
+      validFromColumn: config.valid_from_column,
+      validToColumn: config.valid_to_column,
+      signal
+    }
+    const modeError = validateLoadOptions(options.mode, options.keyColumns, target.type)
+    if (modeError) {
+      throw new Error(modeError)
+    }
+
+    const batchSize = batchSizeOf(step)
+    const sampleErrors: RecordError[] = []
+    let recordsSuccess = 0
+    let recordsFailed = 0
+
+    await withConnector(target, async (connector) => {
+      await connector.prepareLoad?.(options)
+      for (let offset = 0; offset < records.length; offset += batchSize) {
+        throwIfAborted(signal)
+        const result = await connector.load(records.slice(offset, offset + batchSize), options)
+        recordsSuccess += result.success
+        recordsFailed += result.failed
+        sampleErrors.push(...result.errors.slice(0, MAX_LOGGED_ERRORS - sampleErrors.length))
+      }
+      // An aborted step never gets here, so closing rolls its overwrite back
+      await connector.flush?.()
+    })
+
+    context.log(recordsFailed > 0 ? 'WARN' : 'INFO', `Loaded ${recordsSuccess} of ${records.length} records into ${target.name} (${options.mode})`, {
+      ...(sampleErrors.length > 0 && { sampleErrors: sampleErrors.map(error => error.error) })
+    })
+    return { recordsProcessed: records.length, recordsSuccess, recordsFailed }
+  },
+
+  notification: async (context) => {
+    const { step, workflow } = context
+    const notification = await db.notification.create({
+      data: {
+        userId: workflow.createdBy,
+        type: 'SYSTEM_ALERT',
+        title: step.config?.title || `Workflow ${workflow.name}`,
+        message: step.config?.message || `Workflow ${workflow.name} reached step ${step.name || step.id}`,
+        channels: JSON.stringify(step.config?.channels || [])
+      }
+    })
+
+    context.log('INFO', `Notification sent to workflow owner`)
+    return { notificationId: notification.id, records: upstreamRecords(context) }
+  },
+
+  condition: async (context) => {
+    const { config = {} } = context.step
+    const conditions: ConditionRule[] = config.conditions || []
+    const records = upstreamRecords(context)
+
+    // First matching condition wins; the step's own action applies when none match
+    let decision: BranchDecision = {
+      action: config.action || config.default_action || 'continue',
+      targets: toArray(config.to),
+      matched: null
+    }
+    for (const condition of conditions) {
+      if (evaluateExpression(parseCondition(condition.expression), context.scope)) {
+        decision = {
+          action: condition.action || 'continue',
+          targets: toArray(condition.to),
+          matched: condition.expression
+        }
+        break
+      }
+    }
+
+    context.log('INFO', decision.matched
+      ? `Condition matched: ${decision.matched} -> ${decision.action}`
+      : `No condition matched, using default action: ${decision.action}`, {
+      ...(decision.targets.length > 0 && { targets: decision.targets })
+    })
+    return { records, recordsProcessed: records.length, decision }
+  },
+
+  ai: async (context) => passThrough(context, 'AI steps have no executor yet; passing records through unchanged'),
+  ml: async (context) => passThrough(context, 'ML steps have no executor yet; passing records through unchanged')
+}
+
+/**
+ * Records produced by the step's direct upstream steps, in dependency order
+ */
+export function upstreamRecords(context: StepContext): DataRecord[] {
+  return Object.values(context.inputs).flatMap(output => output.records || [])
+}
+
+export function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Step aborted')
+  }
+}
+
+function passThrough(context: StepContext, warning?: string): Promise<StepOutput> {
+  if (warning) context.log('WARN', warning)
+  const records = upstreamRecords(context)
+  return Promise.resolve({ records, recordsProcessed: records.length })
+}
+
+function batchSizeOf(step: WorkflowStep): number {
+  return Number(step.config?.batch_size) || DEFAULT_BATCH_SIZE
+}
+
+async function withConnector(source: ConnectorSource, work: (connector: Connector) => Promise<void>): Promise<void> {
+  const connector = createConnector(source)
+  try {
+    await connector.connect()
+    await work(connector)
+  } finally {
+    await connector.close().catch(error => console.error('Failed to close connector:', error))
+  }
+}
+
+/**
+ * Ids of the registered data sources the steps read from or write to
+ */
+export function referencedDataSources(steps: WorkflowStep[]): string[] {
+  const ids = steps.flatMap(step => (['source', 'target'] as const).map(key => dataSourceIdOf(step, key)))
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0))]
+}
+
+function dataSourceIdOf(step: WorkflowStep, key: 'source' | 'target'): string | undefined {
+  return step.config?.data_source_id ?? step.config?.[key]?.data_source_id
+}
+
+/**
+ * Connection strings of the steps that describe their source or target inline
+ */
+export function inlineConnectionStrings(steps: WorkflowStep[]): string[] {
+  return steps.flatMap(step => (['source', 'target'] as const)
+    .filter(key => !dataSourceIdOf(step, key))
+    .map(key => inlineConnectionString(step.config?.[key]))
+    .filter((connectionString): connectionString is string => Boolean(connectionString)))
+}
+
+function inlineConnectionString(endpoint: any): string | undefined {
+  const connectionString = endpoint?.connection ?? endpoint?.connection_string ?? endpoint?.url ?? endpoint?.path
+  return connectionString ? String(connectionString) : undefined
+}
+
+/**
+ * Steps either reference a registered data source by id or describe the connection inline
+ * ({ type, connection, query|table }) as in workflows/examples
+ */
+async function resolveEndpoint(
+  step: WorkflowStep,
+  key: 'source' | 'target',
+  workflow: StepContext['workflow']
+): Promise<ConnectorSource> {
+  const dataSourceId = dataSourceIdOf(step, key)
+  if (dataSourceId) {
+    const dataSource = await db.dataSource.findUnique({ where: { id: dataSourceId } })
+    if (!dataSource) {
+      throw new Error(`Data source not found: ${dataSourceId}`)
+    }
+    return SecretVault.getInstance().resolveSource(dataSource, {
+      purpose: 'WORKFLOW_STEP',
+      sourceId: dataSource.id,
+      workspaceId: dataSource.workspaceId
+    })
+  }
+
+  const endpoint = step.config?.[key]
+  const connectionString = inlineConnectionString(endpoint)
+  if (!connectionString) {
+    throw new Error(`Step "${step.id}" has no ${key} configured`)
+  }
+
+  const type = inferConnectorType(String(endpoint.type || ''), connectionString)
+  if (!type) {
+    throw new Error(`Cannot determine connector for ${key} type "${endpoint.type}" of step "${step.id}"`)
+  }
+
+  // Inline connections may reference the standalone vault secrets of the workflow's workspace
+  return SecretVault.getInstance().resolveSource(
+    { id: `${step.id}:${key}`, name: step.name || step.id, type, connectionString },
+    { purpose: 'WORKFLOW_STEP', workspaceId: workflow.workspaceId }
+  )
+}
+
+function inferConnectorType(type: string, connectionString: string): ConnectorType | null {
+  const upper = type.toUpperCase()
+  if (isConnectorSupported(upper)) return upper as ConnectorType
+
+  const location = connectionString.toLowerCase()
+  if (upper === 'DATABASE') {
+    if (/^postgres(ql)?:/.test(location)) return 'POSTGRESQL'
+    if (location.startsWith('mysql:')) return 'MYSQL'
+    if (/^(sqlite|file):/.test(location) || /\.(db|sqlite3?)$/.test(location)) return 'SQLITE'
+  }
+  if (upper === 'FILE') {
+    if (location.endsWith('.csv')) return 'CSV'
+    if (/\.(json|ndjson|jsonl)$/.test(location)) return 'JSON'
+  }
+  return null
+}
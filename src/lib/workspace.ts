@@ -0,0 +1,130 @@
+/**
+ * Workspaces
+ * Provides tenant scoping: every request runs in one active workspace, chosen with the
+ * X-Workspace-Id header or the cookie set by the workspace switcher. Data sources, jobs, workflows
+ * and teams belong to a workspace and are only visible inside it
+ */
+
+import { NextResponse } from 'next/server'
+import { db } from './db'
+import type { AuthenticatedRequest } from './auth'
+import type { WorkspaceRole } from './schemas'
+
+export { slugify, WORKSPACE_ROLES, WORKSPACE_SLUG_PATTERN } from './schemas'
+export type { WorkspaceRole } from './schemas'
+
+export const WORKSPACE_HEADER = 'x-workspace-id'
+export const WORKSPACE_COOKIE = 'workspace'
+
+export interface ActiveWorkspace {
+  id: string
+  name: string
+  role: WorkspaceRole
+}
+
+const MANAGER_ROLES: WorkspaceRole[] = ['OWNER', 'ADMIN']
+
+/**
+ * Active workspace of an authenticated request. A workspace named in the header must be one of
+ * the caller's; a stale cookie falls back to the caller's oldest membership. System admins may
+ * enter any workspace as owner. Returns null for users outside every workspace
+ */
+export async function resolveWorkspace(request: AuthenticatedRequest): Promise<ActiveWorkspace | null> {
+  const user = request.user!
+  const requested = request.headers.get(WORKSPACE_HEADER)
+
+  // Workspace tokens only ever act in the workspace they were issued for
+  const pinned = request.apiToken?.workspaceId
+  if (pinned) {
+    const workspace = await findWorkspaceFor(user.id, user.role, pinned)
+    if (!workspace || (requested && requested !== pinned)) {
+      throw new Error(`Permission denied: API token is limited to workspace ${pinned}`)
+    }
+    return workspace
+  }
+  const selected = requested || request.cookies.get(WORKSPACE_COOKIE)?.value
+
+  if (selected) {
+    const workspace = await findWorkspaceFor(user.id, user.role, selected)
+    if (workspace) return workspace
+    if (requested) {
+      throw new Error(`Permission denied: not a member of workspace ${requested}`)
+    }
+  }
+
+  const membership = await db.workspaceMember.findFirst({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'asc' },
+    include: { workspace: { select: { name: true } } }
+  })
+  return membership
+    ? { id: membership.workspaceId, name: membership.workspace.name, role: membership.role }
+    : null
+}
+
+/**
+ * Where clause limiting a query to the active workspace. Callers outside every workspace see the
+ * resources created before workspaces existed
+ */
+export function workspaceScope(request: AuthenticatedRequest): { workspaceId: string | null } {
+  return { workspaceId: request.workspace?.id ?? null }
+}
+
+/**
+ * User where clause matching the members of the active workspace, e.g. broadcast recipients.
+ * Outside every workspace it matches the users that belong to none
+ */
+export function memberScope(request: AuthenticatedRequest): Record<string, any> {
+  return request.workspace
+    ? { workspaceMemberships: { some: { workspaceId: request.workspace.id } } }
+    : { workspaceMemberships: { none: {} } }
+}
+
+/**
+ * Check the caller's membership of a workspace other than through the active one, e.g. for the
+ * member endpoints. Returns the error response to send, or null when allowed
+ */
+export async function authorizeWorkspace(
+  request: AuthenticatedRequest,
+  workspaceId: string,
+  manage: boolean
+): Promise<NextResponse | null> {
+  const user = request.user!
+  const workspace = await findWorkspaceFor(user.id, user.role, workspaceId)
+  if (!workspace) {
+    return NextResponse.json(
+      { error: 'Workspace not found' },
+      { status: 404 }
+    )
+  }
+
+  if (manage && !MANAGER_ROLES.includes(workspace.role)) {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Workspace owner or admin role required' },
+      { status: 403 }
+    )
+  }
+  return null
+}
+
+/**
+ * Whether a user belongs to a workspace, e.g. before sharing a resource with them
+ */
+export async function isWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  const membership = await db.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { id: true }
+  })
+  return membership !== null
+}
+
+async function findWorkspaceFor(userId: string, systemRole: string, workspaceId: string): Promise<ActiveWorkspace | null> {
+  const workspace = await db.workspace.findUnique({
+    where: { id: workspaceId },
+    include: { members: { where: { userId }, select: { role: true } } }
+  })
+  if (!workspace) return null
+
+  const role = workspace.members[0]?.role ?? (systemRole === 'ADMIN' ? 'OWNER' : null)
+  return role ? { id: workspace.id, name: workspace.name, role } : null
+}
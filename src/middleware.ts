@@ -0,0 +1,10 @@
+import { withAuth } from 'next-auth/middleware'
+
+// Pages redirect to /login without a session; API routes check the session themselves (see withAuth in src/lib/auth.ts)
+export default withAuth({
+  pages: { signIn: '/login' }
+})
+
+export const config = {
+  matcher: ['/((?!api|login|_next/static|_next/image|favicon.ico).*)']
+}
@@ -0,0 +1,22 @@
+import { Role } from '@prisma/client';
+import { DefaultSession } from 'next-auth';
+
+// Role and id are added to the session and JWT by the callbacks in src/lib/auth.ts
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      id: string;
+      role: Role;
+    };
+  }
+
+  interface User {
+    role: Role;
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role: Role;
+  }
+}